@@ -0,0 +1,165 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ITeamcenterService } from 'teamcenter-client';
+import {
+  createLoginHandler,
+  getConfiguredCredentials,
+  getSSOToken,
+  loginOnStartup,
+  parseCredentials,
+  parseSessionCookie
+} from '../src/auth.js';
+
+describe('auth', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'teamcenter-auth-'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe('parseCredentials', () => {
+    it('should parse the username and password', () => {
+      expect(parseCredentials('{"username": "jdoe", "password": "secret", "extra": 1}', 'test'))
+        .toEqual({ username: 'jdoe', password: 'secret' });
+    });
+
+    it('should reject text that is not JSON', () => {
+      expect(() => parseCredentials('username=jdoe', 'creds.json')).toThrow('Invalid credentials in creds.json: expected JSON');
+    });
+
+    it('should reject JSON without username and password', () => {
+      expect(() => parseCredentials('{"user": "jdoe"}', 'creds.json'))
+        .toThrow('Invalid credentials in creds.json: expected {"username": "...", "password": "..."}');
+    });
+  });
+
+  describe('getConfiguredCredentials', () => {
+    const sessionOptions = { group: 'Engineering', role: 'Designer', locale: 'de_DE' };
+
+    it('should read the credentials file', async () => {
+      const file = join(directory, 'credentials.json');
+      await writeFile(file, JSON.stringify({ username: 'fileuser', password: 'filepass' }));
+
+      await expect(getConfiguredCredentials({ credentialsFile: file, username: 'envuser', password: 'envpass', ...sessionOptions }))
+        .resolves.toEqual({ username: 'fileuser', password: 'filepass', ...sessionOptions });
+    });
+
+    it('should reject a credentials file with invalid JSON', async () => {
+      const file = join(directory, 'invalid.json');
+      await writeFile(file, 'not json');
+
+      await expect(getConfiguredCredentials({ credentialsFile: file })).rejects.toThrow(`Invalid credentials in ${file}: expected JSON`);
+    });
+
+    it('should prefer the output of the credentials command', async () => {
+      const file = join(directory, 'credentials.json');
+      await writeFile(file, JSON.stringify({ username: 'fileuser', password: 'filepass' }));
+
+      await expect(getConfiguredCredentials({
+        credentialsCommand: 'echo \'{"username": "cmduser", "password": "cmdpass"}\'',
+        credentialsFile: file
+      })).resolves.toEqual({ username: 'cmduser', password: 'cmdpass', group: undefined, role: undefined, locale: undefined });
+    });
+
+    it('should reject invalid output of the credentials command', async () => {
+      await expect(getConfiguredCredentials({ credentialsCommand: 'echo oops' }))
+        .rejects.toThrow('Invalid credentials in the output of TEAMCENTER_CREDENTIALS_COMMAND: expected JSON');
+    });
+
+    it('should fall back to the username and password', async () => {
+      await expect(getConfiguredCredentials({ username: 'envuser', password: 'envpass', ...sessionOptions }))
+        .resolves.toEqual({ username: 'envuser', password: 'envpass', ...sessionOptions });
+    });
+
+    it('should fail without any credentials', async () => {
+      await expect(getConfiguredCredentials({ username: 'envuser' })).rejects.toThrow('No Teamcenter credentials configured');
+    });
+  });
+
+  describe('getSSOToken', () => {
+    it('should run the token command with the application ID', async () => {
+      const command = 'echo "{\\"username\\": \\"ssouser\\", \\"token\\": \\"token-$TEAMCENTER_SSO_APP_ID\\"}"';
+
+      await expect(getSSOToken(command, 'TCWEB')).resolves.toEqual({ username: 'ssouser', token: 'token-TCWEB' });
+    });
+
+    it('should add the configured group, role and locale', async () => {
+      await expect(getSSOToken('echo \'{"username": "ssouser", "token": "token"}\'', 'TCWEB', { group: 'Engineering', role: 'Designer', locale: 'de_DE' }))
+        .resolves.toEqual({ username: 'ssouser', token: 'token', group: 'Engineering', role: 'Designer', locale: 'de_DE' });
+    });
+
+    it('should reject output without a token', async () => {
+      await expect(getSSOToken('echo \'{"username": "ssouser"}\'', 'TCWEB'))
+        .rejects.toThrow('Invalid SSO token in the output of TEAMCENTER_SSO_TOKEN_COMMAND');
+    });
+  });
+
+  describe('parseSessionCookie', () => {
+    it('should parse a named cookie', () => {
+      expect(parseSessionCookie('TCSESSION = abc123')).toEqual({ name: 'TCSESSION', value: 'abc123' });
+    });
+
+    it('should take a bare value as JSESSIONID', () => {
+      expect(parseSessionCookie('abc123')).toEqual({ name: 'JSESSIONID', value: 'abc123' });
+    });
+  });
+
+  describe('login', () => {
+    let loggedIn: boolean;
+    let authenticate: jest.Mock<() => Promise<{ data?: unknown; error?: { message: string } }>>;
+    let teamcenterService: ITeamcenterService;
+
+    beforeEach(() => {
+      loggedIn = false;
+      authenticate = jest.fn(async () => {
+        loggedIn = true;
+        return { data: {} };
+      });
+      teamcenterService = { authenticate, isLoggedIn: () => loggedIn } as unknown as ITeamcenterService;
+    });
+
+    it('should share one login between concurrent calls', async () => {
+      const ensureLoggedIn = createLoginHandler(true, 'password');
+
+      await Promise.all([ensureLoggedIn(teamcenterService), ensureLoggedIn(teamcenterService)]);
+      await ensureLoggedIn(teamcenterService);
+
+      expect(authenticate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not log in when disabled', async () => {
+      await createLoginHandler(false, 'password')(teamcenterService);
+
+      expect(authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the authentication fails', async () => {
+      authenticate.mockResolvedValue({ error: { message: 'Invalid user ID or password' } });
+
+      await expect(createLoginHandler(true, 'password')(teamcenterService))
+        .rejects.toThrow('Authentication failed: Invalid user ID or password');
+    });
+
+    it('should log in on startup in startup mode', async () => {
+      await loginOnStartup(teamcenterService, 'startup', createLoginHandler(true, 'password'));
+
+      expect(authenticate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should defer the login to the first request in lazy mode', async () => {
+      const ensureLoggedIn = createLoginHandler(true, 'password');
+
+      await loginOnStartup(teamcenterService, 'lazy', ensureLoggedIn);
+      expect(authenticate).not.toHaveBeenCalled();
+
+      await ensureLoggedIn(teamcenterService);
+      expect(authenticate).toHaveBeenCalledTimes(1);
+    });
+  });
+});
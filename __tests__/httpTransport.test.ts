@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { request as httpRequest, IncomingMessage } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { ITeamcenterService } from 'teamcenter-client';
+import { McpHttpConfig, McpHttpTransport } from '../src/httpTransport.js';
+
+const AUTH_TOKEN = 'test-token';
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+};
+
+interface HttpResult {
+  status: number;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+describe('McpHttpTransport', () => {
+  let transport: McpHttpTransport;
+  let port: number;
+  let services: { logout: jest.Mock; isLoggedIn: jest.Mock }[];
+
+  // Send a request to the transport and read the whole response
+  const send = (method: string, path: string, headers: Record<string, string> = {}, body?: string): Promise<HttpResult> =>
+    new Promise((resolve, reject) => {
+      const req = httpRequest({ host: '127.0.0.1', port, method, path, headers: { Host: `localhost:${port}`, ...headers } }, (res) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          text += chunk;
+        });
+        res.on('end', () => resolve({ status: res.statusCode as number, headers: res.headers, body: text }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+
+  const authorized = (headers: Record<string, string> = {}) => ({
+    Authorization: `Bearer ${AUTH_TOKEN}`,
+    'Content-Type': 'application/json',
+    Accept: 'application/json, text/event-stream',
+    ...headers
+  });
+
+  const initialize = () => send('POST', '/mcp', authorized(), JSON.stringify(INITIALIZE_REQUEST));
+
+  const health = async () => JSON.parse((await send('GET', '/health')).body);
+
+  const start = async (config: Partial<McpHttpConfig> = {}) => {
+    transport = new McpHttpTransport(
+      {
+        host: '127.0.0.1',
+        port: 0,
+        authToken: AUTH_TOKEN,
+        allowedHosts: ['localhost', '127.0.0.1'],
+        allowedOrigins: ['https://app.example.com'],
+        maxBodySize: 1024,
+        sessionIdleTimeout: 60000,
+        ...config
+      },
+      () => {
+        const teamcenterService = {
+          logout: jest.fn(async () => ({ data: undefined })),
+          isLoggedIn: jest.fn(() => false)
+        };
+        services.push(teamcenterService);
+        const server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: {} });
+        return { server, teamcenterService: teamcenterService as unknown as ITeamcenterService };
+      },
+      () => ({ mode: 'mock' })
+    );
+    port = await transport.listen();
+  };
+
+  beforeEach(async () => {
+    services = [];
+    await start();
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  it('should report the health without a token', async () => {
+    const response = await send('GET', '/health');
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ status: 'ok', mode: 'mock', sessions: 0, loggedInSessions: 0 });
+  });
+
+  it('should reject requests for a host that is not allowed', async () => {
+    const response = await send('GET', '/health', { Host: `attacker.example.com:${port}` });
+
+    expect(response.status).toBe(403);
+    expect(JSON.parse(response.body).error.message).toBe('Host not allowed');
+  });
+
+  it('should reject requests from an origin that is not allowed', async () => {
+    const rejected = await send('POST', '/mcp', authorized({ Origin: 'https://attacker.example.com' }), JSON.stringify(INITIALIZE_REQUEST));
+    const accepted = await send('POST', '/mcp', authorized({ Origin: 'https://app.example.com' }), JSON.stringify(INITIALIZE_REQUEST));
+
+    expect(rejected.status).toBe(403);
+    expect(JSON.parse(rejected.body).error.message).toBe('Origin not allowed');
+    expect(accepted.status).toBe(200);
+  });
+
+  it('should reject MCP requests without the bearer token', async () => {
+    const missing = await send('POST', '/mcp', { 'Content-Type': 'application/json' }, JSON.stringify(INITIALIZE_REQUEST));
+    const wrong = await send('GET', '/sse', { Authorization: 'Bearer wrong-token' });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(services).toHaveLength(0);
+  });
+
+  it('should reject bodies larger than the maximum size', async () => {
+    const response = await send('POST', '/mcp', authorized(), JSON.stringify({ ...INITIALIZE_REQUEST, padding: 'x'.repeat(2048) }));
+
+    expect(response.status).toBe(413);
+    expect(services).toHaveLength(0);
+  });
+
+  it('should start a session on initialize and dispatch requests by session ID', async () => {
+    const initialized = await initialize();
+    const sessionId = initialized.headers['mcp-session-id'] as string;
+
+    expect(initialized.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect(initialized.body).toContain('"serverInfo"');
+    expect(await health()).toMatchObject({ sessions: 1 });
+
+    const ping = await send('POST', '/mcp', authorized({ 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' }), JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }));
+
+    expect(ping.status).toBe(200);
+    expect(ping.body).toContain('"id":2');
+  });
+
+  it('should discard the client of a failed initialize', async () => {
+    const first = await send('POST', '/mcp', authorized({ Accept: 'application/json' }), JSON.stringify(INITIALIZE_REQUEST));
+    const retry = await send('POST', '/mcp', authorized({ Accept: 'application/json' }), JSON.stringify(INITIALIZE_REQUEST));
+
+    expect(first.status).toBe(406);
+    expect(retry.status).toBe(406);
+    expect(services).toHaveLength(2);
+    expect(services.every(service => service.logout.mock.calls.length === 1)).toBe(true);
+    expect(await health()).toMatchObject({ sessions: 0 });
+  });
+
+  it('should reject requests without a valid session', async () => {
+    const unknown = await send('POST', '/mcp', authorized({ 'mcp-session-id': 'unknown' }), JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }));
+    const notInitialize = await send('POST', '/mcp', authorized(), JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }));
+
+    expect(unknown.status).toBe(404);
+    expect(notInitialize.status).toBe(400);
+    expect(JSON.parse(notInitialize.body).error.message).toBe('Bad Request: No valid session ID provided');
+  });
+
+  it('should serve clients of the SSE transport', async () => {
+    const endpoint = await new Promise<string>((resolve, reject) => {
+      const req = httpRequest({ host: '127.0.0.1', port, method: 'GET', path: '/sse', headers: { Host: `localhost:${port}`, Authorization: `Bearer ${AUTH_TOKEN}` } }, (res) => {
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          const match = /data: (\S+)/.exec(chunk);
+          if (match) {
+            resolve(match[1]);
+          }
+        });
+      });
+      req.on('error', reject);
+      req.end();
+    });
+
+    expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+    expect(await health()).toMatchObject({ sessions: 1 });
+
+    const message = await send('POST', endpoint, authorized(), JSON.stringify(INITIALIZE_REQUEST));
+    const unknown = await send('POST', '/messages?sessionId=unknown', authorized(), JSON.stringify(INITIALIZE_REQUEST));
+
+    expect(message.status).toBe(202);
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should close sessions that have been idle for longer than the timeout', async () => {
+    await initialize();
+    await initialize();
+
+    transport.closeIdleSessions(Date.now() + 30000);
+    expect(await health()).toMatchObject({ sessions: 2 });
+
+    transport.closeIdleSessions(Date.now() + 60000);
+    expect(await health()).toMatchObject({ sessions: 0 });
+    expect(services.every(service => service.logout.mock.calls.length > 0)).toBe(true);
+  });
+
+  it('should log out all sessions and stop listening on close', async () => {
+    await initialize();
+
+    await transport.close();
+
+    expect(services[0].logout).toHaveBeenCalled();
+    await expect(send('GET', '/health')).rejects.toThrow();
+  });
+});
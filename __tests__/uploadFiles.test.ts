@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readUploadFile } from '../src/uploadFiles.js';
+
+describe('readUploadFile', () => {
+  let directory: string;
+  let uploads: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'teamcenter-uploads-'));
+    uploads = join(directory, 'uploads');
+    await mkdir(join(uploads, 'drawings'), { recursive: true });
+    await writeFile(join(uploads, 'drawings', 'notes.txt'), 'Torque 12 Nm');
+    await writeFile(join(directory, 'secret.txt'), 'secret');
+    await symlink(join(directory, 'secret.txt'), join(uploads, 'link.txt'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read a file inside an upload directory', async () => {
+    await expect(readUploadFile(join(uploads, 'drawings', 'notes.txt'), [uploads], 1024))
+      .resolves.toEqual({ fileName: 'notes.txt', content: Buffer.from('Torque 12 Nm').toString('base64') });
+  });
+
+  it('should reject uploads when no upload directory is configured', async () => {
+    await expect(readUploadFile(join(uploads, 'drawings', 'notes.txt'), [], 1024)).rejects.toThrow('Uploading local files is disabled');
+  });
+
+  it('should reject files outside the upload directories', async () => {
+    await expect(readUploadFile(join(directory, 'secret.txt'), [uploads], 1024)).rejects.toThrow('not inside the upload directories');
+    await expect(readUploadFile(join(uploads, '..', 'secret.txt'), [uploads], 1024)).rejects.toThrow('not inside the upload directories');
+  });
+
+  it('should reject links pointing outside the upload directories', async () => {
+    await expect(readUploadFile(join(uploads, 'link.txt'), [uploads], 1024)).rejects.toThrow('not inside the upload directories');
+  });
+
+  it('should reject relative paths, directories, missing and large files', async () => {
+    await expect(readUploadFile('uploads/notes.txt', [uploads], 1024)).rejects.toThrow('The file path must be absolute');
+    await expect(readUploadFile(join(uploads, 'drawings'), [uploads], 1024)).rejects.toThrow('Not a file');
+    await expect(readUploadFile(join(uploads, 'missing.txt'), [uploads], 1024)).rejects.toThrow('File not found');
+    await expect(readUploadFile(join(uploads, 'drawings', 'notes.txt'), [uploads], 4)).rejects.toThrow('larger than 4 bytes');
+  });
+});
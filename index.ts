@@ -11,12 +11,44 @@ import {
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import * as dotenv from 'dotenv';
+import { realpathSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
 import logger from './logger.js';
+import {
+  CredentialSource,
+  LoginMode,
+  createLoginHandler,
+  getConfiguredCredentials,
+  getSSOToken,
+  loginOnStartup,
+  parseSessionCookie
+} from './src/auth.js';
+import {
+  DEFAULT_MAX_BODY_SIZE,
+  DEFAULT_SESSION_IDLE_TIMEOUT,
+  LOOPBACK_HOSTS,
+  MCP_PATH,
+  McpHttpTransport,
+  SSE_PATH
+} from './src/httpTransport.js';
+import { DEFAULT_UPLOAD_MAX_FILE_SIZE, UploadFile, readUploadFile } from './src/uploadFiles.js';
 
 // Import from teamcenter-client package
 import {
   createTeamcenterService,
+  createCircuitBreaker,
   TCCredentials,
+  TCAuthenticationConfig,
+  TCPropertyCacheConfig,
+  TCStatusCategory,
+  TCTaskAction,
+  TCChangeType,
+  TCChangeFolder,
+  TCRelationDirection,
+  TCSearchFilterSelection,
+  TCClassificationCriteria,
+  TCError,
+  ITeamcenterService,
   Logger
 } from 'teamcenter-client';
 
@@ -27,18 +59,235 @@ dotenv.config();
 const TEAMCENTER_BASE_URL = process.env.TEAMCENTER_BASE_URL;
 const TEAMCENTER_USERNAME = process.env.TEAMCENTER_USERNAME;
 const TEAMCENTER_PASSWORD = process.env.TEAMCENTER_PASSWORD;
+const TEAMCENTER_CREDENTIALS_FILE = process.env.TEAMCENTER_CREDENTIALS_FILE;
+const TEAMCENTER_CREDENTIALS_COMMAND = process.env.TEAMCENTER_CREDENTIALS_COMMAND;
+const TEAMCENTER_LOGIN_MODE = (process.env.TEAMCENTER_LOGIN_MODE || 'startup') as LoginMode;
+const TEAMCENTER_GROUP = process.env.TEAMCENTER_GROUP;
+const TEAMCENTER_ROLE = process.env.TEAMCENTER_ROLE;
+const TEAMCENTER_LOCALE = process.env.TEAMCENTER_LOCALE;
+const TEAMCENTER_AUTH_METHOD = process.env.TEAMCENTER_AUTH_METHOD || 'password';
+const TEAMCENTER_SSO_APP_ID = process.env.TEAMCENTER_SSO_APP_ID;
+const TEAMCENTER_SSO_TOKEN_COMMAND = process.env.TEAMCENTER_SSO_TOKEN_COMMAND;
+const TEAMCENTER_SESSION_COOKIE = process.env.TEAMCENTER_SESSION_COOKIE;
+const TEAMCENTER_FMS_URL = process.env.TEAMCENTER_FMS_URL;
+const TEAMCENTER_KEEP_ALIVE_INTERVAL = parseInt(process.env.TEAMCENTER_KEEP_ALIVE_INTERVAL || '0', 10);
+const TEAMCENTER_RETRY_MAX_ATTEMPTS = parseInt(process.env.TEAMCENTER_RETRY_MAX_ATTEMPTS || '0', 10);
+const TEAMCENTER_RETRY_INITIAL_DELAY = parseInt(process.env.TEAMCENTER_RETRY_INITIAL_DELAY || '0', 10);
+const TEAMCENTER_CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.TEAMCENTER_CIRCUIT_FAILURE_THRESHOLD || '0', 10);
+const TEAMCENTER_CIRCUIT_RESET_TIMEOUT = parseInt(process.env.TEAMCENTER_CIRCUIT_RESET_TIMEOUT || '0', 10);
+const TEAMCENTER_CACHE_TTL = parseInt(process.env.TEAMCENTER_CACHE_TTL || '0', 10);
+const TEAMCENTER_CACHE_TYPE_TTL = process.env.TEAMCENTER_CACHE_TYPE_TTL;
+const TEAMCENTER_CACHE_MAX_ENTRIES = parseInt(process.env.TEAMCENTER_CACHE_MAX_ENTRIES || '0', 10);
+const TEAMCENTER_PROPERTY_BATCH_SIZE = parseInt(process.env.TEAMCENTER_PROPERTY_BATCH_SIZE || '0', 10);
+const TEAMCENTER_STATUS_CATEGORIES = process.env.TEAMCENTER_STATUS_CATEGORIES;
 const MOCK_MODE = process.env.MOCK_MODE === 'true';
 
+// Environment variables for the MCP transport (stdio or Streamable HTTP with SSE fallback)
+const MCP_TRANSPORT = process.env.MCP_TRANSPORT || 'stdio';
+const MCP_HTTP_HOST = process.env.MCP_HTTP_HOST || '127.0.0.1';
+const MCP_HTTP_PORT = parseInt(process.env.MCP_HTTP_PORT || '3000', 10);
+const MCP_HTTP_AUTH_TOKEN = process.env.MCP_HTTP_AUTH_TOKEN;
+const MCP_HTTP_ALLOWED_HOSTS = process.env.MCP_HTTP_ALLOWED_HOSTS;
+const MCP_HTTP_ALLOWED_ORIGINS = process.env.MCP_HTTP_ALLOWED_ORIGINS;
+const MCP_HTTP_MAX_BODY_SIZE = parseInt(process.env.MCP_HTTP_MAX_BODY_SIZE || String(DEFAULT_MAX_BODY_SIZE), 10);
+const MCP_HTTP_SESSION_IDLE_TIMEOUT = parseInt(process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT || String(DEFAULT_SESSION_IDLE_TIMEOUT), 10);
+const MCP_UPLOAD_DIRECTORIES = process.env.MCP_UPLOAD_DIRECTORIES;
+const MCP_UPLOAD_MAX_FILE_SIZE = parseInt(process.env.MCP_UPLOAD_MAX_FILE_SIZE || String(DEFAULT_UPLOAD_MAX_FILE_SIZE), 10);
+
 // Debug logging for environment variables
 logger.debug('Environment variables:');
 logger.debug(`TEAMCENTER_BASE_URL: ${TEAMCENTER_BASE_URL}`);
 logger.debug(`TEAMCENTER_USERNAME: ${TEAMCENTER_USERNAME}`);
+logger.debug(`TEAMCENTER_CREDENTIALS_FILE: ${TEAMCENTER_CREDENTIALS_FILE}`);
+logger.debug(`TEAMCENTER_CREDENTIALS_COMMAND: ${TEAMCENTER_CREDENTIALS_COMMAND ? '(set)' : undefined}`);
+logger.debug(`TEAMCENTER_LOGIN_MODE: ${TEAMCENTER_LOGIN_MODE}`);
+logger.debug(`TEAMCENTER_GROUP: ${TEAMCENTER_GROUP}`);
+logger.debug(`TEAMCENTER_ROLE: ${TEAMCENTER_ROLE}`);
+logger.debug(`TEAMCENTER_LOCALE: ${TEAMCENTER_LOCALE}`);
+logger.debug(`TEAMCENTER_AUTH_METHOD: ${TEAMCENTER_AUTH_METHOD}`);
+logger.debug(`TEAMCENTER_SSO_APP_ID: ${TEAMCENTER_SSO_APP_ID}`);
+logger.debug(`TEAMCENTER_SSO_TOKEN_COMMAND: ${TEAMCENTER_SSO_TOKEN_COMMAND ? '(set)' : undefined}`);
+logger.debug(`TEAMCENTER_SESSION_COOKIE: ${TEAMCENTER_SESSION_COOKIE ? '(set)' : undefined}`);
+logger.debug(`TEAMCENTER_FMS_URL: ${TEAMCENTER_FMS_URL}`);
+logger.debug(`TEAMCENTER_KEEP_ALIVE_INTERVAL: ${TEAMCENTER_KEEP_ALIVE_INTERVAL}`);
+logger.debug(`TEAMCENTER_RETRY_MAX_ATTEMPTS: ${TEAMCENTER_RETRY_MAX_ATTEMPTS}`);
+logger.debug(`TEAMCENTER_RETRY_INITIAL_DELAY: ${TEAMCENTER_RETRY_INITIAL_DELAY}`);
+logger.debug(`TEAMCENTER_CIRCUIT_FAILURE_THRESHOLD: ${TEAMCENTER_CIRCUIT_FAILURE_THRESHOLD}`);
+logger.debug(`TEAMCENTER_CIRCUIT_RESET_TIMEOUT: ${TEAMCENTER_CIRCUIT_RESET_TIMEOUT}`);
+logger.debug(`TEAMCENTER_CACHE_TTL: ${TEAMCENTER_CACHE_TTL}`);
+logger.debug(`TEAMCENTER_CACHE_TYPE_TTL: ${TEAMCENTER_CACHE_TYPE_TTL}`);
+logger.debug(`TEAMCENTER_CACHE_MAX_ENTRIES: ${TEAMCENTER_CACHE_MAX_ENTRIES}`);
+logger.debug(`TEAMCENTER_PROPERTY_BATCH_SIZE: ${TEAMCENTER_PROPERTY_BATCH_SIZE}`);
+logger.debug(`TEAMCENTER_STATUS_CATEGORIES: ${TEAMCENTER_STATUS_CATEGORIES}`);
 logger.debug(`MOCK_MODE: ${MOCK_MODE}`);
+logger.debug(`MCP_TRANSPORT: ${MCP_TRANSPORT}`);
+logger.debug(`MCP_HTTP_AUTH_TOKEN: ${MCP_HTTP_AUTH_TOKEN ? '(set)' : undefined}`);
+logger.debug(`MCP_HTTP_ALLOWED_HOSTS: ${MCP_HTTP_ALLOWED_HOSTS}`);
+logger.debug(`MCP_HTTP_ALLOWED_ORIGINS: ${MCP_HTTP_ALLOWED_ORIGINS}`);
+logger.debug(`MCP_HTTP_MAX_BODY_SIZE: ${MCP_HTTP_MAX_BODY_SIZE}`);
+logger.debug(`MCP_HTTP_SESSION_IDLE_TIMEOUT: ${MCP_HTTP_SESSION_IDLE_TIMEOUT}`);
+logger.debug(`MCP_UPLOAD_DIRECTORIES: ${MCP_UPLOAD_DIRECTORIES}`);
+logger.debug(`MCP_UPLOAD_MAX_FILE_SIZE: ${MCP_UPLOAD_MAX_FILE_SIZE}`);
 
-if (!MOCK_MODE && (!TEAMCENTER_BASE_URL || !TEAMCENTER_USERNAME || !TEAMCENTER_PASSWORD)) {
+if (!MOCK_MODE && !TEAMCENTER_BASE_URL) {
   throw new Error('Missing required environment variables for Teamcenter configuration. Set MOCK_MODE=true to use mock data.');
 }
 
+if (TEAMCENTER_LOGIN_MODE !== 'startup' && TEAMCENTER_LOGIN_MODE !== 'lazy') {
+  throw new Error(`Invalid TEAMCENTER_LOGIN_MODE: ${TEAMCENTER_LOGIN_MODE}. Use 'startup' or 'lazy'.`);
+}
+
+if (TEAMCENTER_AUTH_METHOD !== 'password' && TEAMCENTER_AUTH_METHOD !== 'sso' && TEAMCENTER_AUTH_METHOD !== 'cookie') {
+  throw new Error(`Invalid TEAMCENTER_AUTH_METHOD: ${TEAMCENTER_AUTH_METHOD}. Use 'password', 'sso' or 'cookie'.`);
+}
+
+if (!MOCK_MODE && TEAMCENTER_AUTH_METHOD === 'sso' && (!TEAMCENTER_SSO_APP_ID || !TEAMCENTER_SSO_TOKEN_COMMAND)) {
+  throw new Error('SSO authentication requires TEAMCENTER_SSO_APP_ID and TEAMCENTER_SSO_TOKEN_COMMAND.');
+}
+
+if (!MOCK_MODE && TEAMCENTER_AUTH_METHOD === 'cookie' && !TEAMCENTER_SESSION_COOKIE) {
+  throw new Error('Cookie authentication requires TEAMCENTER_SESSION_COOKIE.');
+}
+
+// Credentials can come from a command, a file or the environment, or be replaced by an SSO token or a session cookie;
+// without them clients must use the login tool
+const HAS_CONFIGURED_CREDENTIALS = TEAMCENTER_AUTH_METHOD !== 'password' || Boolean(
+  TEAMCENTER_CREDENTIALS_COMMAND || TEAMCENTER_CREDENTIALS_FILE || (TEAMCENTER_USERNAME && TEAMCENTER_PASSWORD)
+);
+
+// The configured credentials are only used by the stdio client; every HTTP client has to log in with the login tool,
+// so that nobody who can reach the port gets a session of the configured account
+const USE_CONFIGURED_CREDENTIALS = HAS_CONFIGURED_CREDENTIALS && MCP_TRANSPORT !== 'http';
+
+// Sources of the configured credentials, read on every login
+const credentialSource: CredentialSource = {
+  credentialsCommand: TEAMCENTER_CREDENTIALS_COMMAND,
+  credentialsFile: TEAMCENTER_CREDENTIALS_FILE,
+  username: TEAMCENTER_USERNAME,
+  password: TEAMCENTER_PASSWORD,
+  group: TEAMCENTER_GROUP,
+  role: TEAMCENTER_ROLE,
+  locale: TEAMCENTER_LOCALE
+};
+
+/**
+ * Build the authentication configuration selected by TEAMCENTER_AUTH_METHOD
+ * @returns The authentication configuration, or undefined in mock mode, without credentials or over HTTP
+ */
+const getAuthenticationConfig = (): TCAuthenticationConfig | undefined => {
+  if (MOCK_MODE || !USE_CONFIGURED_CREDENTIALS) {
+    return undefined;
+  }
+
+  switch (TEAMCENTER_AUTH_METHOD) {
+    case 'sso':
+      return {
+        method: 'sso',
+        appId: TEAMCENTER_SSO_APP_ID as string,
+        tokenProvider: (appId) => getSSOToken(TEAMCENTER_SSO_TOKEN_COMMAND as string, appId, {
+          group: TEAMCENTER_GROUP,
+          role: TEAMCENTER_ROLE,
+          locale: TEAMCENTER_LOCALE
+        })
+      };
+    case 'cookie':
+      return { method: 'sessionCookie', cookie: parseSessionCookie(TEAMCENTER_SESSION_COOKIE as string) };
+    default:
+      return { method: 'password', credentialProvider: () => getConfiguredCredentials(credentialSource) };
+  }
+};
+
+/**
+ * Parse the time to live of cached properties by object type
+ * @param text Comma separated TYPE=milliseconds pairs, e.g. ImanType=3600000,User=600000
+ * @returns The time to live by object type
+ */
+const parseTypeTtl = (text: string): Record<string, number> =>
+  text.split(',').filter(pair => pair.trim()).reduce((typeTtl, pair) => {
+    const [type, ttl] = pair.split('=').map(part => part.trim());
+    if (!type || !/^\d+$/.test(ttl || '')) {
+      throw new Error(`Invalid TEAMCENTER_CACHE_TYPE_TTL entry: ${pair}. Use TYPE=milliseconds.`);
+    }
+    typeTtl[type] = parseInt(ttl, 10);
+    return typeTtl;
+  }, {} as Record<string, number>);
+
+// Categories that release status names can be mapped onto
+const STATUS_CATEGORIES: TCStatusCategory[] = ['In Work', 'In Review', 'Released', 'Obsolete'];
+
+/**
+ * Parse the site specific categories of release status names
+ * @param text Comma separated STATUS=category pairs, e.g. Frozen=Released,Prototype=In Work
+ * @returns The category by release status name
+ */
+const parseStatusCategories = (text: string): Record<string, TCStatusCategory> =>
+  text.split(',').filter(pair => pair.trim()).reduce((statusCategories, pair) => {
+    const [status, category] = pair.split('=').map(part => part.trim());
+    if (!status || !STATUS_CATEGORIES.includes(category as TCStatusCategory)) {
+      throw new Error(`Invalid TEAMCENTER_STATUS_CATEGORIES entry: ${pair}. Use STATUS=category with one of ${STATUS_CATEGORIES.join(', ')}.`);
+    }
+    statusCategories[status] = category as TCStatusCategory;
+    return statusCategories;
+  }, {} as Record<string, TCStatusCategory>);
+
+/**
+ * Build the property cache configuration
+ * @returns The property cache configuration, or undefined when no time to live is set
+ */
+const getPropertyCacheConfig = (): TCPropertyCacheConfig | undefined => {
+  if (!TEAMCENTER_CACHE_TTL && !TEAMCENTER_CACHE_TYPE_TTL) {
+    return undefined;
+  }
+
+  return {
+    ttl: TEAMCENTER_CACHE_TTL,
+    typeTtl: TEAMCENTER_CACHE_TYPE_TTL ? parseTypeTtl(TEAMCENTER_CACHE_TYPE_TTL) : undefined,
+    maxEntries: TEAMCENTER_CACHE_MAX_ENTRIES || undefined
+  };
+};
+
+if (MCP_TRANSPORT !== 'stdio' && MCP_TRANSPORT !== 'http') {
+  throw new Error(`Invalid MCP_TRANSPORT: ${MCP_TRANSPORT}. Use 'stdio' or 'http'.`);
+}
+
+if (MCP_TRANSPORT === 'http' && TEAMCENTER_AUTH_METHOD === 'cookie') {
+  throw new Error('Cookie authentication is only supported with the stdio transport, as all HTTP clients would share the session of the cookie.');
+}
+
+if (MCP_TRANSPORT === 'http' && !MCP_HTTP_AUTH_TOKEN) {
+  throw new Error('The HTTP transport requires MCP_HTTP_AUTH_TOKEN, the bearer token clients have to present.');
+}
+
+if (isNaN(MCP_HTTP_MAX_BODY_SIZE) || MCP_HTTP_MAX_BODY_SIZE <= 0) {
+  throw new Error(`Invalid MCP_HTTP_MAX_BODY_SIZE: ${process.env.MCP_HTTP_MAX_BODY_SIZE}. Use a number of bytes.`);
+}
+
+if (isNaN(MCP_HTTP_SESSION_IDLE_TIMEOUT) || MCP_HTTP_SESSION_IDLE_TIMEOUT < 0) {
+  throw new Error(`Invalid MCP_HTTP_SESSION_IDLE_TIMEOUT: ${process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT}. Use milliseconds, or 0 to keep idle sessions.`);
+}
+
+if (isNaN(MCP_UPLOAD_MAX_FILE_SIZE) || MCP_UPLOAD_MAX_FILE_SIZE <= 0) {
+  throw new Error(`Invalid MCP_UPLOAD_MAX_FILE_SIZE: ${process.env.MCP_UPLOAD_MAX_FILE_SIZE}. Use a number of bytes.`);
+}
+
+/**
+ * Split a comma separated list of the environment
+ * @param text The list, e.g. mcp.example.com,mcp.internal
+ * @returns The trimmed entries
+ */
+const parseList = (text: string | undefined): string[] =>
+  (text || '').split(',').map(entry => entry.trim()).filter(entry => entry);
+
+/**
+ * Get the host names accepted in the Host header of HTTP requests: the loopback names,
+ * the listening host unless it is a wildcard address, and MCP_HTTP_ALLOWED_HOSTS
+ * @returns The lower case host names
+ */
+const getAllowedHosts = (): string[] => {
+  const listenHost = ['0.0.0.0', '::', ''].includes(MCP_HTTP_HOST) ? [] : [MCP_HTTP_HOST.includes(':') ? `[${MCP_HTTP_HOST}]` : MCP_HTTP_HOST];
+  return [...new Set([...LOOPBACK_HOSTS, ...listenHost, ...parseList(MCP_HTTP_ALLOWED_HOSTS)].map(host => host.toLowerCase()))];
+};
+
 // Create a logger adapter that uses the MCP server's logger
 const loggerAdapter: Logger = {
   error: (message: string, ...meta: any[]) => logger.error(message, ...meta),
@@ -47,7 +296,11 @@ const loggerAdapter: Logger = {
   debug: (message: string, ...meta: any[]) => logger.debug(message, ...meta),
   logTeamcenterRequest: (service: string, operation: string, params: unknown, requestId?: string) => {
     const reqId = requestId || `req_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
-    logger.info(`[${reqId}] TC REQUEST: ${service}.${operation}`, { params });
+    // Never log passwords or SSO tokens
+    const sanitizedParams = service.endsWith('-Session') && operation.startsWith('login')
+      ? { username: (params as { username?: string } | null)?.username }
+      : params;
+    logger.info(`[${reqId}] TC REQUEST: ${service}.${operation}`, { params: sanitizedParams });
     return reqId;
   },
   logTeamcenterResponse: (service: string, operation: string, response: unknown, requestId: string, error?: Error) => {
@@ -59,27 +312,88 @@ const loggerAdapter: Logger = {
   }
 };
 
+// Circuit breaker shared by all sessions, as they all talk to the same Teamcenter server
+const circuitBreaker = createCircuitBreaker({
+  failureThreshold: TEAMCENTER_CIRCUIT_FAILURE_THRESHOLD || undefined,
+  resetTimeout: TEAMCENTER_CIRCUIT_RESET_TIMEOUT || undefined
+}, loggerAdapter);
+
 // Initialize Teamcenter configuration
 const teamcenterConfig = {
   endpoint: MOCK_MODE ? 'http://localhost:8080/tc' : (TEAMCENTER_BASE_URL as string),
   timeout: 60000,
-  mockMode: MOCK_MODE
+  mockMode: MOCK_MODE,
+  fmsUrl: TEAMCENTER_FMS_URL,
+  // Log in with the configured authentication method, and again when the Teamcenter session has expired
+  authentication: getAuthenticationConfig(),
+  keepAliveInterval: TEAMCENTER_KEEP_ALIVE_INTERVAL || undefined,
+  retryPolicy: {
+    maxAttempts: TEAMCENTER_RETRY_MAX_ATTEMPTS || undefined,
+    initialDelay: TEAMCENTER_RETRY_INITIAL_DELAY || undefined
+  },
+  circuitBreaker,
+  // Every service caches on its own, as the cached values depend on the access rights of its user
+  propertyCache: getPropertyCacheConfig(),
+  propertyBatchSize: TEAMCENTER_PROPERTY_BATCH_SIZE || undefined,
+  statusCategories: TEAMCENTER_STATUS_CATEGORIES ? parseStatusCategories(TEAMCENTER_STATUS_CATEGORIES) : undefined
 };
 
 logger.info(`Starting Teamcenter MCP server in ${MOCK_MODE ? 'MOCK' : 'REAL'} mode`);
 
-// Create the Teamcenter service with the logger adapter
-const teamcenterService = createTeamcenterService({
+/**
+ * Create a Teamcenter service with the logger adapter.
+ * Every service owns its session store, so every MCP client gets its own Teamcenter session.
+ */
+const createClientService = (): ITeamcenterService => createTeamcenterService({
   logger: loggerAdapter,
   config: teamcenterConfig
 });
 
+/**
+ * Log a Teamcenter service in with the configured authentication method unless it already has a session.
+ * Does nothing in mock mode, when no credentials are configured or over HTTP (the login tool is needed then).
+ */
+const ensureLoggedIn = createLoginHandler(!MOCK_MODE && USE_CONFIGURED_CREDENTIALS, TEAMCENTER_AUTH_METHOD);
+
+/**
+ * Format the error of a failed tool call
+ * Errors reported by Teamcenter are followed by their error type and error stacks, so the assistant can
+ * explain why the operation failed (e.g. an object checked out by another user)
+ * @param summary What failed, e.g. "Failed to update item"
+ * @param error The error of the service response
+ * @returns The text of the tool result
+ */
+const formatToolError = (summary: string, error: TCError): string => {
+  const text = `${summary}: ${error.message}`;
+  if (!error.errorStacks?.length) {
+    return text;
+  }
+
+  return `${text}\n\nTeamcenter errors:\n${JSON.stringify({ type: error.type, errorStacks: error.errorStacks }, null, 2)}`;
+};
+
 // MCP Server implementation
 class TeamcenterServer {
   private server: Server;
+  // Teamcenter service of the stdio client
+  private teamcenterService: ITeamcenterService;
+  private httpTransport: McpHttpTransport | null = null;
 
   constructor() {
-    this.server = new Server(
+    this.teamcenterService = createClientService();
+    this.server = this.createServer(this.teamcenterService);
+
+    process.on('SIGINT', () => this.shutdown());
+    process.on('SIGTERM', () => this.shutdown());
+  }
+
+  /**
+   * Create an MCP server with the Teamcenter resources and tools.
+   * Every HTTP client gets its own server, as a server is connected to a single transport.
+   * @param teamcenterService The Teamcenter service holding the client's session
+   */
+  private createServer(teamcenterService: ITeamcenterService): Server {
+    const server = new Server(
       {
         name: 'teamcenter-mcp-server',
         version: '0.1.0',
@@ -92,20 +406,32 @@ class TeamcenterServer {
       }
     );
 
-    this.setupResourceHandlers();
-    this.setupToolHandlers();
+    this.setupResourceHandlers(server, teamcenterService);
+    this.setupToolHandlers(server, teamcenterService);
     
     // Error handling
-    this.server.onerror = (error) => logger.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
+    server.onerror = (error) => logger.error('[MCP Error]', error);
+
+    return server;
+  }
+
+  /**
+   * Close all client connections and the HTTP listener, then exit
+   */
+  private async shutdown() {
+    logger.info('Shutting down Teamcenter MCP server');
+    try {
+      await this.httpTransport?.close();
       await this.server.close();
-      process.exit(0);
-    });
+    } catch (error) {
+      logger.error('Error during shutdown:', error);
+    }
+    process.exit(0);
   }
 
-  private setupResourceHandlers() {
+  private setupResourceHandlers(server: Server, teamcenterService: ITeamcenterService) {
     // List available resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
       resources: [
         {
           uri: 'teamcenter://item-types',
@@ -117,7 +443,7 @@ class TeamcenterServer {
     }));
 
     // Define resource templates
-    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
       resourceTemplates: [
         {
           uriTemplate: 'teamcenter://items/{id}',
@@ -131,12 +457,19 @@ class TeamcenterServer {
           mimeType: 'application/json',
           description: 'Search results for items in Teamcenter',
         },
+        {
+          uriTemplate: 'teamcenter://datasets/{uid}/files/{name}',
+          name: 'Teamcenter Dataset File',
+          description: 'Content of a file attached to a Teamcenter dataset (text files as text, other files as base64 blobs)',
+        },
       ],
     }));
 
     // Handle resource requests
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       try {
+        await ensureLoggedIn(teamcenterService);
+        
         // Item types resource
         if (request.params.uri === 'teamcenter://item-types') {
           // Use the teamcenterService to get item types
@@ -203,6 +536,29 @@ class TeamcenterServer {
           };
         }
 
+        // Dataset file content
+        const datasetFileMatch = request.params.uri.match(/^teamcenter:\/\/datasets\/([^/]+)\/files\/(.+)$/);
+        if (datasetFileMatch) {
+          const datasetUid = decodeURIComponent(datasetFileMatch[1]);
+          const fileName = decodeURIComponent(datasetFileMatch[2]);
+          
+          // Use the teamcenterService to download the file through FMS
+          const response = await teamcenterService.downloadDatasetFile(datasetUid, fileName);
+          
+          if (response.error || !response.data) {
+            throw new McpError(ErrorCode.InternalError, response.error?.message || 'No file content returned');
+          }
+          
+          const file = response.data;
+          return {
+            contents: [
+              file.text !== undefined
+                ? { uri: request.params.uri, mimeType: file.mimeType, text: file.text }
+                : { uri: request.params.uri, mimeType: file.mimeType, blob: file.blob ?? '' },
+            ],
+          };
+        }
+
         throw new McpError(ErrorCode.InvalidRequest, `Invalid URI: ${request.params.uri}`);
       } catch (error) {
         if (error instanceof McpError) {
@@ -213,9 +569,9 @@ class TeamcenterServer {
     });
   }
 
-  private setupToolHandlers() {
+  private setupToolHandlers(server: Server, teamcenterService: ITeamcenterService) {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: 'search_items',
@@ -235,6 +591,10 @@ class TeamcenterServer {
                 type: 'number',
                 description: 'Maximum number of results to return (default: 10)',
               },
+              status: {
+                type: 'string',
+                description: 'Status to filter by (optional): a category (In Work, In Review, Released, Obsolete) or a release status name, e.g. Frozen',
+              },
             },
             required: ['query'],
           },
@@ -249,10 +609,42 @@ class TeamcenterServer {
                 type: 'string',
                 description: 'Item ID',
               },
+              refresh: {
+                type: 'boolean',
+                description: 'Read the item from Teamcenter even when it is cached (default: false)',
+              },
             },
             required: ['id'],
           },
         },
+        {
+          name: 'get_properties',
+          description: 'Get properties of many objects by UID at once, e.g. to summarize search results. Objects that cannot be read are listed as partial errors',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uids: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'UIDs of the objects',
+              },
+              attributes: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Names of the properties to read, e.g. object_name, object_desc, owning_user',
+              },
+              refresh: {
+                type: 'boolean',
+                description: 'Read the properties from Teamcenter even when they are cached (default: false)',
+              },
+            },
+            required: ['uids', 'attributes'],
+          },
+        },
         {
           name: 'create_item',
           description: 'Create a new item in Teamcenter',
@@ -293,6 +685,10 @@ class TeamcenterServer {
                 type: 'object',
                 description: 'Properties to update',
               },
+              checkOut: {
+                type: 'boolean',
+                description: 'Check the item out before the update and back in after it; the checkout is cancelled if the update fails (default: false)',
+              },
             },
             required: ['id', 'properties'],
           },
@@ -302,12 +698,17 @@ class TeamcenterServer {
           description: 'Get available item types in Teamcenter',
           inputSchema: {
             type: 'object',
-            properties: {},
+            properties: {
+              refresh: {
+                type: 'boolean',
+                description: 'Read the type descriptions from Teamcenter even when they are cached (default: false)',
+              },
+            },
           },
         },
         {
           name: 'login',
-          description: 'Login to Teamcenter',
+          description: 'Login to Teamcenter. Only needed to log in as another user when the server has configured credentials, as it then logs in automatically',
           inputSchema: {
             type: 'object',
             properties: {
@@ -319,6 +720,18 @@ class TeamcenterServer {
                 type: 'string',
                 description: 'Teamcenter password',
               },
+              group: {
+                type: 'string',
+                description: 'Group to log in to (default: the user\'s default group)',
+              },
+              role: {
+                type: 'string',
+                description: 'Role in the group (default: the user\'s default role in the group)',
+              },
+              locale: {
+                type: 'string',
+                description: 'Locale of the session, e.g. de_DE (default: en_US)',
+              },
             },
             required: ['username', 'password'],
           },
@@ -331,6 +744,31 @@ class TeamcenterServer {
             properties: {},
           },
         },
+        {
+          name: 'get_connection_status',
+          description: 'Diagnose the connection to Teamcenter: circuit breaker state (CLOSED, OPEN while the server is down, HALF_OPEN while checking whether it is back), recent failures and retry policy',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'set_user_session_state',
+          description: 'Switch the group and role of the current Teamcenter session, e.g. to act as Designer. Access rules depend on the role',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              group: {
+                type: 'string',
+                description: 'Name of the group to switch to (default: the current group)',
+              },
+              role: {
+                type: 'string',
+                description: 'Name of the role in the group (default: the first role of the user in the group)',
+              },
+            },
+          },
+        },
         {
           name: 'get_user_owned_items',
           description: 'Get items owned by the current user',
@@ -385,6 +823,10 @@ class TeamcenterServer {
                 },
                 description: 'Optional array of specific attributes to retrieve',
               },
+              refresh: {
+                type: 'boolean',
+                description: 'Read the properties from Teamcenter even when they are cached (default: false)',
+              },
             },
             required: ['uid'],
           },
@@ -405,93 +847,1822 @@ class TeamcenterServer {
             },
           },
         },
-      ],
-    }));
-
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        switch (request.params.name) {
-          case 'login': {
-            const { username, password } = request.params.arguments as {
-              username: string;
-              password: string;
-            };
-            
-            if (!username || !password) {
-              throw new McpError(ErrorCode.InvalidParams, 'Username and password are required');
-            }
-            
-            // Create credentials object matching TCCredentials interface
-            const credentials: TCCredentials = { username, password };
-            const response = await teamcenterService.login(credentials);
-            
-            if (response.error) {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `Login failed: ${response.error.message}`,
-                  },
-                ],
-                isError: true,
-              };
-            }
-            
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(response.data, null, 2),
-                },
-              ],
-            };
-          }
-          
-          case 'logout': {
-            const response = await teamcenterService.logout();
-            
-            if (response.error) {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `Logout failed: ${response.error.message}`,
-                  },
-                ],
-                isError: true,
-              };
-            }
-            
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'Successfully logged out',
+        {
+          name: 'expand_bom',
+          description: 'Expand the product structure (BOM) of an item revision',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'Item revision UID',
+              },
+              levels: {
+                type: 'number',
+                description: 'Number of levels to expand (default: 1)',
+              },
+              revisionRule: {
+                type: 'string',
+                description: 'Revision rule used to configure the structure (default: Latest Working)',
+              },
+            },
+            required: ['uid'],
+          },
+        },
+        {
+          name: 'where_used',
+          description: 'Find the parent assemblies that use an item or item revision',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'Item or item revision UID',
+              },
+              depth: {
+                type: 'number',
+                description: 'Number of levels to walk up the structure (default: 1)',
+              },
+              revisionRule: {
+                type: 'string',
+                description: 'Revision rule used to filter parent revisions (optional)',
+              },
+            },
+            required: ['uid'],
+          },
+        },
+        {
+          name: 'list_revisions',
+          description: 'List all revisions of an item',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: 'Item ID',
+              },
+            },
+            required: ['id'],
+          },
+        },
+        {
+          name: 'revise_item',
+          description: 'Create a new revision of an item from an existing revision',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'UID of the item revision to revise',
+              },
+              newRevId: {
+                type: 'string',
+                description: 'ID of the new revision (optional, generated by Teamcenter if omitted)',
+              },
+            },
+            required: ['uid'],
+          },
+        },
+        {
+          name: 'compare_revisions',
+          description: 'Compare the properties of two item revisions',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              revA: {
+                type: 'string',
+                description: 'UID of the first item revision',
+              },
+              revB: {
+                type: 'string',
+                description: 'UID of the second item revision',
+              },
+              attributes: {
+                type: 'array',
+                items: {
+                  type: 'string'
                 },
-              ],
-            };
-          }
-          
-          case 'search_items': {
-            const { query, type, limit } = request.params.arguments as {
-              query: string;
+                description: 'Optional array of properties to compare',
+              },
+            },
+            required: ['revA', 'revB'],
+          },
+        },
+        {
+          name: 'get_datasets',
+          description: 'List the datasets attached to an item revision, grouped by relation. Files can be read through the teamcenter://datasets/{uid}/files/{name} resource',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'Item revision UID',
+              },
+              relations: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Optional array of relation types to search (default: IMAN_specification, IMAN_Rendering, IMAN_reference, IMAN_manifestation)',
+              },
+            },
+            required: ['uid'],
+          },
+        },
+        {
+          name: 'attach_file',
+          description: 'Upload a file as a new dataset and attach it to an item revision. Provide either the path of a local file in the upload directories of the server, or the base64 encoded content and the file name',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'Item revision UID to attach the dataset to',
+              },
+              datasetType: {
+                type: 'string',
+                description: 'Dataset type (e.g. Text, PDF, MSWordX, Image)',
+              },
+              filePath: {
+                type: 'string',
+                description: 'Absolute path of a local file inside the upload directories of the server (MCP_UPLOAD_DIRECTORIES)',
+              },
+              content: {
+                type: 'string',
+                description: 'Base64 encoded file content, used when no file path is given',
+              },
+              fileName: {
+                type: 'string',
+                description: 'File name, which also decides the MIME type (required with base64 content, defaults to the name of the local file)',
+              },
+              name: {
+                type: 'string',
+                description: 'Optional dataset name (default: the file name)',
+              },
+              description: {
+                type: 'string',
+                description: 'Optional dataset description',
+              },
+              relationType: {
+                type: 'string',
+                description: 'Optional relation type (default: IMAN_specification)',
+              },
+              namedReference: {
+                type: 'string',
+                description: 'Optional named reference for the file (default depends on the dataset type)',
+              },
+            },
+            required: ['uid', 'datasetType'],
+          },
+        },
+        {
+          name: 'list_process_templates',
+          description: 'List the workflow process templates that can be started',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              objectTypes: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Optional target object types to filter the templates by',
+              },
+            },
+          },
+        },
+        {
+          name: 'start_workflow',
+          description: 'Start a workflow process on one or more target objects',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              template: {
+                type: 'string',
+                description: 'Name of the process template',
+              },
+              targets: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'UIDs of the objects to attach as workflow targets',
+              },
+              name: {
+                type: 'string',
+                description: 'Optional process name (default: the template name)',
+              },
+              description: {
+                type: 'string',
+                description: 'Optional process description',
+              },
+            },
+            required: ['template', 'targets'],
+          },
+        },
+        {
+          name: 'get_inbox_tasks',
+          description: 'List the workflow tasks waiting in the logged-in user\'s inbox',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'perform_task_action',
+          description: 'Complete a workflow task, or approve or reject it on the signoff of the logged in user',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'Workflow task UID',
+              },
+              action: {
+                type: 'string',
+                enum: ['complete', 'approve', 'reject'],
+                description: 'Action to perform on the task',
+              },
+              comments: {
+                type: 'string',
+                description: 'Optional comments recorded with the action',
+              },
+            },
+            required: ['uid', 'action'],
+          },
+        },
+        {
+          name: 'create_change',
+          description: 'Create a change request (ECR) or change notice (ECN)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              type: {
+                type: 'string',
+                enum: ['ChangeRequest', 'ChangeNotice'],
+                description: 'Type of change to create',
+              },
+              name: {
+                type: 'string',
+                description: 'Change name',
+              },
+              description: {
+                type: 'string',
+                description: 'Optional change description',
+              },
+            },
+            required: ['type', 'name'],
+          },
+        },
+        {
+          name: 'list_change_items',
+          description: 'List the problem, solution and impacted items of a change',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'Change revision UID',
+              },
+            },
+            required: ['uid'],
+          },
+        },
+        {
+          name: 'add_change_items',
+          description: 'Add items to the problem, solution or impacted folder of a change',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'Change revision UID',
+              },
+              folder: {
+                type: 'string',
+                enum: ['problem', 'solution', 'impacted'],
+                description: 'Folder of the change',
+              },
+              items: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'UIDs of the items',
+              },
+            },
+            required: ['uid', 'folder', 'items'],
+          },
+        },
+        {
+          name: 'remove_change_items',
+          description: 'Remove items from the problem, solution or impacted folder of a change',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'Change revision UID',
+              },
+              folder: {
+                type: 'string',
+                enum: ['problem', 'solution', 'impacted'],
+                description: 'Folder of the change',
+              },
+              items: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'UIDs of the items',
+              },
+            },
+            required: ['uid', 'folder', 'items'],
+          },
+        },
+        {
+          name: 'get_open_changes',
+          description: 'List the open changes that affect an item revision',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'Item revision UID',
+              },
+            },
+            required: ['uid'],
+          },
+        },
+        {
+          name: 'get_related_objects',
+          description: 'List the objects related to an object through GRM relations',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'Object UID',
+              },
+              relationTypes: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'Optional relation types to expand (default: all relations)',
+              },
+              direction: {
+                type: 'string',
+                enum: ['primary', 'secondary'],
+                description: 'Side of the relations the object is on: primary returns its secondary objects, secondary returns its primary objects (default: primary)',
+              },
+            },
+            required: ['uid'],
+          },
+        },
+        {
+          name: 'create_relation',
+          description: 'Create a GRM relation between two objects',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              primary: {
+                type: 'string',
+                description: 'Primary object UID',
+              },
+              secondary: {
+                type: 'string',
+                description: 'Secondary object UID',
+              },
+              relationType: {
+                type: 'string',
+                description: 'Relation type (e.g. IMAN_specification, IMAN_reference)',
+              },
+            },
+            required: ['primary', 'secondary', 'relationType'],
+          },
+        },
+        {
+          name: 'delete_relation',
+          description: 'Delete the GRM relation between two objects',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              primary: {
+                type: 'string',
+                description: 'Primary object UID',
+              },
+              secondary: {
+                type: 'string',
+                description: 'Secondary object UID',
+              },
+              relationType: {
+                type: 'string',
+                description: 'Relation type (e.g. IMAN_specification, IMAN_reference)',
+              },
+            },
+            required: ['primary', 'secondary', 'relationType'],
+          },
+        },
+        {
+          name: 'list_saved_queries',
+          description: 'List the saved queries visible to the user',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+        {
+          name: 'describe_saved_query',
+          description: 'Describe the criteria fields of a saved query and the allowed values of fields bound to a LOV',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Saved query name (e.g. Item Revision...)',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        {
+          name: 'run_saved_query',
+          description: 'Execute a saved query by name. Criteria are keyed by the field names returned by describe_saved_query',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Saved query name',
+              },
+              criteria: {
+                type: 'object',
+                additionalProperties: {
+                  type: 'string'
+                },
+                description: 'Criteria values keyed by field name (e.g. {"Item ID": "ASM-*"})',
+              },
+              startIndex: {
+                type: 'number',
+                description: 'Index of the first result to return (default: 0)',
+              },
+              pageSize: {
+                type: 'number',
+                description: 'Maximum number of results to return (default: 20, max: 100)',
+              },
+            },
+            required: ['name'],
+          },
+        },
+        {
+          name: 'advanced_search',
+          description: 'Search with a chosen provider, filter selections, sorting and paging. Returns facet counts and totalFound so the search can be refined step by step; pass nextStartIndex as startIndex to get the next page',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              searchString: {
+                type: 'string',
+                description: 'Full-text search string',
+              },
+              provider: {
+                type: 'string',
+                description: 'Search provider (default: Awp0FullTextSearchProvider)',
+              },
+              criteria: {
+                type: 'object',
+                additionalProperties: {
+                  type: 'string'
+                },
+                description: 'Additional provider specific search criteria',
+              },
+              filters: {
+                type: 'object',
+                additionalProperties: {
+                  type: 'array',
+                  items: {
+                    oneOf: [
+                      { type: 'string' },
+                      {
+                        type: 'object',
+                        properties: {
+                          from: { type: 'string' },
+                          to: { type: 'string' },
+                        },
+                      },
+                      {
+                        type: 'object',
+                        properties: {
+                          min: { type: 'number' },
+                          max: { type: 'number' },
+                        },
+                      },
+                    ],
+                  },
+                },
+                description: 'Filter selections keyed by facet name (e.g. {"WorkspaceObject.object_type": ["ItemRevision"], "WorkspaceObject.creation_date": [{"from": "2024-01-01T00:00:00", "to": "2024-12-31T23:59:59"}]})',
+              },
+              sort: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    field: { type: 'string' },
+                    direction: { type: 'string', enum: ['ASC', 'DESC'] },
+                  },
+                  required: ['field'],
+                },
+                description: 'Sort fields in order of priority',
+              },
+              startIndex: {
+                type: 'number',
+                description: 'Index of the first result to return (default: 0)',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of results to return (default: 20, max: 100)',
+              },
+            },
+          },
+        },
+        {
+          name: 'browse_classification',
+          description: 'Get the child groups and classes of a node of the classification hierarchy',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              classId: {
+                type: 'string',
+                description: 'ID of the group or class to browse (default: the hierarchy root ICM)',
+              },
+            },
+          },
+        },
+        {
+          name: 'get_class_attributes',
+          description: 'Get the attributes defined on a classification class with their IDs, units and formats',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              classId: {
+                type: 'string',
+                description: 'ID of the class',
+              },
+            },
+            required: ['classId'],
+          },
+        },
+        {
+          name: 'get_classification',
+          description: 'Get the classification classes and attribute values of an object',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'UID of the classified object',
+              },
+            },
+            required: ['uid'],
+          },
+        },
+        {
+          name: 'search_classification',
+          description: 'Find objects classified in a class by attribute values, e.g. bolts with thread M6 and a length between 20 and 30',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              classId: {
+                type: 'string',
+                description: 'ID of the class',
+              },
+              criteria: {
+                type: 'object',
+                additionalProperties: {
+                  oneOf: [
+                    { type: 'string' },
+                    {
+                      type: 'object',
+                      properties: {
+                        min: { type: 'number' },
+                        max: { type: 'number' },
+                      },
+                    },
+                  ],
+                },
+                description: 'Values keyed by attribute name or ID: an exact value/query or a numeric range (e.g. {"Thread": "M6", "Length": {"min": 20, "max": 30}})',
+              },
+            },
+            required: ['classId'],
+          },
+        },
+        {
+          name: 'classify_object',
+          description: 'Classify an item revision into a class with attribute values',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uid: {
+                type: 'string',
+                description: 'UID of the item revision to classify',
+              },
+              classId: {
+                type: 'string',
+                description: 'ID of the class',
+              },
+              values: {
+                type: 'object',
+                additionalProperties: {
+                  oneOf: [
+                    { type: 'string' },
+                    { type: 'array', items: { type: 'string' } },
+                  ],
+                },
+                description: 'Attribute values keyed by attribute name or ID (e.g. {"Thread": "M6", "Length": "25"})',
+              },
+              unitSystem: {
+                type: 'string',
+                enum: ['METRIC', 'NONMETRIC'],
+                description: 'Unit system of the values (default: METRIC)',
+              },
+            },
+            required: ['uid', 'classId'],
+          },
+        },
+        {
+          name: 'check_out',
+          description: 'Check objects out, so that no other user can change them until they are checked in',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uids: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'UIDs of the objects',
+              },
+              comment: {
+                type: 'string',
+                description: 'Checkout comment',
+              },
+            },
+            required: ['uids'],
+          },
+        },
+        {
+          name: 'check_in',
+          description: 'Check objects in, keeping the changes made while they were checked out',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uids: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'UIDs of the objects',
+              },
+            },
+            required: ['uids'],
+          },
+        },
+        {
+          name: 'cancel_check_out',
+          description: 'Cancel the checkout of objects, discarding the changes made while they were checked out',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uids: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'UIDs of the objects',
+              },
+            },
+            required: ['uids'],
+          },
+        },
+        {
+          name: 'get_checkout_status',
+          description: 'Get whether objects are checked out, by which user and since when, e.g. to explain why an update failed',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uids: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'UIDs of the objects',
+              },
+            },
+            required: ['uids'],
+          },
+        },
+        {
+          name: 'get_release_status',
+          description: 'Get the release statuses of objects with their release date, effectivity and status category, e.g. to check whether a part is released',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              uids: {
+                type: 'array',
+                items: {
+                  type: 'string'
+                },
+                description: 'UIDs of the objects',
+              },
+            },
+            required: ['uids'],
+          },
+        },
+      ],
+    }));
+
+    // Handle tool calls
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      try {
+        // Log in transparently with the configured credentials, except for the session tools themselves
+        // and the connection diagnosis, which has to work while Teamcenter is down
+        if (!['login', 'logout', 'get_connection_status'].includes(request.params.name)) {
+          await ensureLoggedIn(teamcenterService);
+        }
+        
+        switch (request.params.name) {
+          case 'login': {
+            const { username, password, group, role, locale } = request.params.arguments as {
+              username: string;
+              password: string;
+              group?: string;
+              role?: string;
+              locale?: string;
+            };
+            
+            if (!username || !password) {
+              throw new McpError(ErrorCode.InvalidParams, 'Username and password are required');
+            }
+            
+            // Create credentials object matching TCCredentials interface
+            const credentials: TCCredentials = { username, password, group, role, locale };
+            const response = await teamcenterService.login(credentials);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Login failed', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'logout': {
+            const response = await teamcenterService.logout();
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Logout failed', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: 'Successfully logged out',
+                },
+              ],
+            };
+          }
+          
+          case 'get_connection_status': {
+            const response = await teamcenterService.getConnectionStatus();
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get connection status', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'set_user_session_state': {
+            const { group, role } = request.params.arguments as {
+              group?: string;
+              role?: string;
+            };
+            
+            if (!group && !role) {
+              throw new McpError(ErrorCode.InvalidParams, 'Group or role is required');
+            }
+            
+            const response = await teamcenterService.setUserSessionState(group, role);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to set user session state', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'search_items': {
+            const { query, type, limit, status } = request.params.arguments as {
+              query: string;
               type?: string;
               limit?: number;
+              status?: string;
+            };
+            
+            if (!query) {
+              throw new McpError(ErrorCode.InvalidParams, 'Query parameter is required');
+            }
+            
+            const response = await teamcenterService.searchItems(query, type, limit, status);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Search failed', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_item': {
+            const { id, refresh = false } = request.params.arguments as { id: string; refresh?: boolean };
+            
+            if (!id) {
+              throw new McpError(ErrorCode.InvalidParams, 'Item ID is required');
+            }
+            
+            const response = await teamcenterService.getItemById(id, refresh);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get item', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_properties': {
+            const { uids, attributes, refresh = false } = request.params.arguments as {
+              uids: string[];
+              attributes: string[];
+              refresh?: boolean;
+            };
+            
+            if (!Array.isArray(uids) || uids.length === 0 || !Array.isArray(attributes) || attributes.length === 0) {
+              throw new McpError(ErrorCode.InvalidParams, 'UIDs and attributes are required');
+            }
+            
+            const response = await teamcenterService.getProperties(uids, attributes, refresh);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get properties', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'create_item': {
+            const { type, name, description = '', properties = {} } = request.params.arguments as {
+              type: string;
+              name: string;
+              description?: string;
+              properties?: Record<string, any>;
+            };
+            
+            if (!type || !name) {
+              throw new McpError(ErrorCode.InvalidParams, 'Type and name parameters are required');
+            }
+            
+            const response = await teamcenterService.createItem(type, name, description, properties);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to create item', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'update_item': {
+            const { id, properties, checkOut = false } = request.params.arguments as {
+              id: string;
+              properties: Record<string, any>;
+              checkOut?: boolean;
+            };
+            
+            if (!id || !properties) {
+              throw new McpError(ErrorCode.InvalidParams, 'Item ID and properties are required');
+            }
+            
+            const response = await teamcenterService.updateItem(id, properties, checkOut);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to update item', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_item_types': {
+            const { refresh = false } = (request.params.arguments || {}) as { refresh?: boolean };
+            const response = await teamcenterService.getItemTypes(refresh);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get item types', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_user_owned_items': {
+            const response = await teamcenterService.getUserOwnedItems();
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get user owned items', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_last_created_items': {
+            const { limit } = request.params.arguments as { limit?: number };
+            const response = await teamcenterService.getLastCreatedItems(limit);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get last created items', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'get_session_info': {
+            const response = await teamcenterService.getSessionInfo();
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get session info', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'get_favorites': {
+            const response = await teamcenterService.getFavorites();
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get favorites', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'get_user_properties': {
+            const { uid, attributes, refresh = false } = request.params.arguments as {
+              uid: string;
+              attributes?: string[];
+              refresh?: boolean;
+            };
+            
+            if (!uid) {
+              throw new McpError(ErrorCode.InvalidParams, 'User UID is required');
+            }
+            
+            const response = await teamcenterService.getUserProperties(uid, attributes, refresh);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get user properties', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'get_logged_user_properties': {
+            const { attributes } = request.params.arguments as {
+              attributes?: string[];
+            };
+            
+            const response = await teamcenterService.getLoggedUserProperties(attributes);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get logged user properties', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'expand_bom': {
+            const { uid, levels, revisionRule } = request.params.arguments as {
+              uid: string;
+              levels?: number;
+              revisionRule?: string;
+            };
+            
+            if (!uid) {
+              throw new McpError(ErrorCode.InvalidParams, 'Item revision UID is required');
+            }
+            
+            const response = await teamcenterService.expandBOM(uid, { levels, revisionRule });
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to expand BOM', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'where_used': {
+            const { uid, depth, revisionRule } = request.params.arguments as {
+              uid: string;
+              depth?: number;
+              revisionRule?: string;
+            };
+            
+            if (!uid) {
+              throw new McpError(ErrorCode.InvalidParams, 'Item or item revision UID is required');
+            }
+            
+            const response = await teamcenterService.whereUsed(uid, { depth, revisionRule });
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to run where-used query', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'list_revisions': {
+            const { id } = request.params.arguments as {
+              id: string;
+            };
+            
+            if (!id) {
+              throw new McpError(ErrorCode.InvalidParams, 'Item ID is required');
+            }
+            
+            const response = await teamcenterService.listRevisions(id);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to list revisions', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'revise_item': {
+            const { uid, newRevId } = request.params.arguments as {
+              uid: string;
+              newRevId?: string;
+            };
+            
+            if (!uid) {
+              throw new McpError(ErrorCode.InvalidParams, 'Item revision UID is required');
+            }
+            
+            const response = await teamcenterService.reviseItem(uid, newRevId);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to revise item', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'compare_revisions': {
+            const { revA, revB, attributes } = request.params.arguments as {
+              revA: string;
+              revB: string;
+              attributes?: string[];
+            };
+            
+            if (!revA || !revB) {
+              throw new McpError(ErrorCode.InvalidParams, 'Two item revision UIDs are required');
+            }
+            
+            const response = await teamcenterService.compareRevisions(revA, revB, attributes);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to compare revisions', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_datasets': {
+            const { uid, relations } = request.params.arguments as {
+              uid: string;
+              relations?: string[];
+            };
+            
+            if (!uid) {
+              throw new McpError(ErrorCode.InvalidParams, 'Item revision UID is required');
+            }
+            
+            const response = await teamcenterService.getDatasets(uid, relations);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get datasets', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'attach_file': {
+            const { uid, datasetType, filePath, content, fileName, name, description, relationType, namedReference } = request.params.arguments as {
+              uid: string;
+              datasetType: string;
+              filePath?: string;
+              content?: string;
+              fileName?: string;
+              name?: string;
+              description?: string;
+              relationType?: string;
+              namedReference?: string;
+            };
+            
+            if (!uid || !datasetType) {
+              throw new McpError(ErrorCode.InvalidParams, 'Item revision UID and dataset type are required');
+            }
+            
+            if (!filePath && (!content || !fileName)) {
+              throw new McpError(ErrorCode.InvalidParams, 'Either a file path, or base64 content and a file name are required');
+            }
+            
+            // Local files are read here, so that the client never reads from the disk of the server
+            let file: UploadFile;
+            try {
+              file = filePath
+                ? await readUploadFile(filePath, parseList(MCP_UPLOAD_DIRECTORIES), MCP_UPLOAD_MAX_FILE_SIZE)
+                : { fileName: fileName as string, content: content as string };
+            } catch (error) {
+              throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+            }
+            
+            const response = await teamcenterService.uploadDataset({
+              itemRevUid: uid,
+              datasetType,
+              content: file.content,
+              fileName: fileName || file.fileName,
+              name,
+              description,
+              relationType,
+              namedReference
+            });
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to attach file', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'list_process_templates': {
+            const { objectTypes } = request.params.arguments as {
+              objectTypes?: string[];
+            };
+            
+            const response = await teamcenterService.listProcessTemplates(objectTypes);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to list process templates', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'start_workflow': {
+            const { template, targets, name, description } = request.params.arguments as {
+              template: string;
+              targets: string[];
+              name?: string;
+              description?: string;
+            };
+            
+            if (!template || !targets || targets.length === 0) {
+              throw new McpError(ErrorCode.InvalidParams, 'Process template and at least one target are required');
+            }
+            
+            const response = await teamcenterService.startWorkflow(template, targets, name, description);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to start workflow', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_inbox_tasks': {
+            const response = await teamcenterService.getInboxTasks();
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get inbox tasks', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'perform_task_action': {
+            const { uid, action, comments } = request.params.arguments as {
+              uid: string;
+              action: TCTaskAction;
+              comments?: string;
+            };
+            
+            if (!uid || !['complete', 'approve', 'reject'].includes(action)) {
+              throw new McpError(ErrorCode.InvalidParams, 'Task UID and an action (complete, approve, reject) are required');
+            }
+            
+            const response = await teamcenterService.performTaskAction(uid, action, comments);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to perform task action', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'create_change': {
+            const { type, name, description } = request.params.arguments as {
+              type: TCChangeType;
+              name: string;
+              description?: string;
+            };
+            
+            if (!['ChangeRequest', 'ChangeNotice'].includes(type) || !name) {
+              throw new McpError(ErrorCode.InvalidParams, 'Change type (ChangeRequest or ChangeNotice) and name are required');
+            }
+            
+            const response = await teamcenterService.createChange(type, name, description);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to create change', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'list_change_items': {
+            const { uid } = request.params.arguments as {
+              uid: string;
+            };
+            
+            if (!uid) {
+              throw new McpError(ErrorCode.InvalidParams, 'Change UID is required');
+            }
+            
+            const response = await teamcenterService.listChangeItems(uid);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to list change items', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'add_change_items': {
+            const { uid, folder, items } = request.params.arguments as {
+              uid: string;
+              folder: TCChangeFolder;
+              items: string[];
+            };
+            
+            if (!uid || !['problem', 'solution', 'impacted'].includes(folder) || !items || items.length === 0) {
+              throw new McpError(ErrorCode.InvalidParams, 'Change UID, folder (problem, solution, impacted) and at least one item are required');
+            }
+            
+            const response = await teamcenterService.addChangeItems(uid, folder, items);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to add change items', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'remove_change_items': {
+            const { uid, folder, items } = request.params.arguments as {
+              uid: string;
+              folder: TCChangeFolder;
+              items: string[];
+            };
+            
+            if (!uid || !['problem', 'solution', 'impacted'].includes(folder) || !items || items.length === 0) {
+              throw new McpError(ErrorCode.InvalidParams, 'Change UID, folder (problem, solution, impacted) and at least one item are required');
+            }
+            
+            const response = await teamcenterService.removeChangeItems(uid, folder, items);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to remove change items', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_open_changes': {
+            const { uid } = request.params.arguments as {
+              uid: string;
+            };
+            
+            if (!uid) {
+              throw new McpError(ErrorCode.InvalidParams, 'Item revision UID is required');
+            }
+            
+            const response = await teamcenterService.getOpenChanges(uid);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get open changes', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_related_objects': {
+            const { uid, relationTypes, direction } = request.params.arguments as {
+              uid: string;
+              relationTypes?: string[];
+              direction?: TCRelationDirection;
             };
             
-            if (!query) {
-              throw new McpError(ErrorCode.InvalidParams, 'Query parameter is required');
+            if (!uid) {
+              throw new McpError(ErrorCode.InvalidParams, 'Object UID is required');
             }
             
-            const response = await teamcenterService.searchItems(query, type, limit);
+            const response = await teamcenterService.getRelatedObjects(uid, relationTypes, direction);
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Search failed: ${response.error.message}`,
+                    text: formatToolError('Failed to get related objects', response.error),
                   },
                 ],
                 isError: true,
@@ -508,21 +2679,25 @@ class TeamcenterServer {
             };
           }
           
-          case 'get_item': {
-            const { id } = request.params.arguments as { id: string };
+          case 'create_relation': {
+            const { primary, secondary, relationType } = request.params.arguments as {
+              primary: string;
+              secondary: string;
+              relationType: string;
+            };
             
-            if (!id) {
-              throw new McpError(ErrorCode.InvalidParams, 'Item ID is required');
+            if (!primary || !secondary || !relationType) {
+              throw new McpError(ErrorCode.InvalidParams, 'Primary UID, secondary UID and relation type are required');
             }
             
-            const response = await teamcenterService.getItemById(id);
+            const response = await teamcenterService.createRelation(primary, secondary, relationType);
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to get item: ${response.error.message}`,
+                    text: formatToolError('Failed to create relation', response.error),
                   },
                 ],
                 isError: true,
@@ -539,26 +2714,83 @@ class TeamcenterServer {
             };
           }
           
-          case 'create_item': {
-            const { type, name, description = '', properties = {} } = request.params.arguments as {
-              type: string;
+          case 'delete_relation': {
+            const { primary, secondary, relationType } = request.params.arguments as {
+              primary: string;
+              secondary: string;
+              relationType: string;
+            };
+            
+            if (!primary || !secondary || !relationType) {
+              throw new McpError(ErrorCode.InvalidParams, 'Primary UID, secondary UID and relation type are required');
+            }
+            
+            const response = await teamcenterService.deleteRelation(primary, secondary, relationType);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to delete relation', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Deleted ${relationType} relation between ${primary} and ${secondary}`,
+                },
+              ],
+            };
+          }
+          
+          case 'list_saved_queries': {
+            const response = await teamcenterService.listSavedQueries();
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to list saved queries', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'describe_saved_query': {
+            const { name } = request.params.arguments as {
               name: string;
-              description?: string;
-              properties?: Record<string, any>;
             };
             
-            if (!type || !name) {
-              throw new McpError(ErrorCode.InvalidParams, 'Type and name parameters are required');
+            if (!name) {
+              throw new McpError(ErrorCode.InvalidParams, 'Query name is required');
             }
             
-            const response = await teamcenterService.createItem(type, name, description, properties);
+            const response = await teamcenterService.describeSavedQuery(name);
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to create item: ${response.error.message}`,
+                    text: formatToolError('Failed to describe saved query', response.error),
                   },
                 ],
                 isError: true,
@@ -575,24 +2807,26 @@ class TeamcenterServer {
             };
           }
           
-          case 'update_item': {
-            const { id, properties } = request.params.arguments as {
-              id: string;
-              properties: Record<string, any>;
+          case 'run_saved_query': {
+            const { name, criteria, startIndex, pageSize } = request.params.arguments as {
+              name: string;
+              criteria?: Record<string, string>;
+              startIndex?: number;
+              pageSize?: number;
             };
             
-            if (!id || !properties) {
-              throw new McpError(ErrorCode.InvalidParams, 'Item ID and properties are required');
+            if (!name) {
+              throw new McpError(ErrorCode.InvalidParams, 'Query name is required');
             }
             
-            const response = await teamcenterService.updateItem(id, properties);
+            const response = await teamcenterService.runSavedQuery(name, { criteria, startIndex, pageSize });
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to update item: ${response.error.message}`,
+                    text: formatToolError('Failed to run saved query', response.error),
                   },
                 ],
                 isError: true,
@@ -609,15 +2843,29 @@ class TeamcenterServer {
             };
           }
           
-          case 'get_item_types': {
-            const response = await teamcenterService.getItemTypes();
+          case 'advanced_search': {
+            const { searchString, provider, criteria, filters, sort, startIndex, limit } = request.params.arguments as {
+              searchString?: string;
+              provider?: string;
+              criteria?: Record<string, string>;
+              filters?: Record<string, TCSearchFilterSelection[]>;
+              sort?: Array<{ field: string; direction?: 'ASC' | 'DESC' }>;
+              startIndex?: number;
+              limit?: number;
+            };
+            
+            if (!searchString && !criteria && !filters) {
+              throw new McpError(ErrorCode.InvalidParams, 'A search string, criteria or filters are required');
+            }
+            
+            const response = await teamcenterService.advancedSearch({ searchString, provider, criteria, filters, sort, startIndex, limit });
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to get item types: ${response.error.message}`,
+                    text: formatToolError('Failed to search', response.error),
                   },
                 ],
                 isError: true,
@@ -634,15 +2882,19 @@ class TeamcenterServer {
             };
           }
           
-          case 'get_user_owned_items': {
-            const response = await teamcenterService.getUserOwnedItems();
+          case 'browse_classification': {
+            const { classId } = request.params.arguments as {
+              classId?: string;
+            };
+            
+            const response = await teamcenterService.getClassChildren(classId);
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to get user owned items: ${response.error.message}`,
+                    text: formatToolError('Failed to browse classification', response.error),
                   },
                 ],
                 isError: true,
@@ -659,16 +2911,23 @@ class TeamcenterServer {
             };
           }
           
-          case 'get_last_created_items': {
-            const { limit } = request.params.arguments as { limit?: number };
-            const response = await teamcenterService.getLastCreatedItems(limit);
+          case 'get_class_attributes': {
+            const { classId } = request.params.arguments as {
+              classId: string;
+            };
+            
+            if (!classId) {
+              throw new McpError(ErrorCode.InvalidParams, 'Class ID is required');
+            }
+            
+            const response = await teamcenterService.getClassAttributes(classId);
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to get last created items: ${response.error.message}`,
+                    text: formatToolError('Failed to get class attributes', response.error),
                   },
                 ],
                 isError: true,
@@ -684,16 +2943,24 @@ class TeamcenterServer {
               ],
             };
           }
-
-          case 'get_session_info': {
-            const response = await teamcenterService.getSessionInfo();
+          
+          case 'get_classification': {
+            const { uid } = request.params.arguments as {
+              uid: string;
+            };
+            
+            if (!uid) {
+              throw new McpError(ErrorCode.InvalidParams, 'Object UID is required');
+            }
+            
+            const response = await teamcenterService.getClassification(uid);
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to get session info: ${response.error.message}`,
+                    text: formatToolError('Failed to get classification', response.error),
                   },
                 ],
                 isError: true,
@@ -709,16 +2976,25 @@ class TeamcenterServer {
               ],
             };
           }
-
-          case 'get_favorites': {
-            const response = await teamcenterService.getFavorites();
+          
+          case 'search_classification': {
+            const { classId, criteria } = request.params.arguments as {
+              classId: string;
+              criteria?: TCClassificationCriteria;
+            };
+            
+            if (!classId) {
+              throw new McpError(ErrorCode.InvalidParams, 'Class ID is required');
+            }
+            
+            const response = await teamcenterService.searchClassification(classId, criteria);
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to get favorites: ${response.error.message}`,
+                    text: formatToolError('Failed to search classification', response.error),
                   },
                 ],
                 isError: true,
@@ -734,25 +3010,27 @@ class TeamcenterServer {
               ],
             };
           }
-
-          case 'get_user_properties': {
-            const { uid, attributes } = request.params.arguments as {
+          
+          case 'classify_object': {
+            const { uid, classId, values, unitSystem } = request.params.arguments as {
               uid: string;
-              attributes?: string[];
+              classId: string;
+              values?: Record<string, string | string[]>;
+              unitSystem?: 'METRIC' | 'NONMETRIC';
             };
             
-            if (!uid) {
-              throw new McpError(ErrorCode.InvalidParams, 'User UID is required');
+            if (!uid || !classId) {
+              throw new McpError(ErrorCode.InvalidParams, 'Object UID and class ID are required');
             }
             
-            const response = await teamcenterService.getUserProperties(uid, attributes);
+            const response = await teamcenterService.classifyObject(uid, classId, values, unitSystem);
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to get user properties: ${response.error.message}`,
+                    text: formatToolError('Failed to classify object', response.error),
                   },
                 ],
                 isError: true,
@@ -768,20 +3046,157 @@ class TeamcenterServer {
               ],
             };
           }
-
-          case 'get_logged_user_properties': {
-            const { attributes } = request.params.arguments as {
-              attributes?: string[];
+          
+          case 'check_out': {
+            const { uids, comment = '' } = request.params.arguments as {
+              uids: string[];
+              comment?: string;
             };
             
-            const response = await teamcenterService.getLoggedUserProperties(attributes);
+            if (!Array.isArray(uids) || uids.length === 0) {
+              throw new McpError(ErrorCode.InvalidParams, 'UIDs are required');
+            }
+            
+            const response = await teamcenterService.checkOut(uids, comment);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to check out objects', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'check_in': {
+            const { uids } = request.params.arguments as {
+              uids: string[];
+            };
+            
+            if (!Array.isArray(uids) || uids.length === 0) {
+              throw new McpError(ErrorCode.InvalidParams, 'UIDs are required');
+            }
+            
+            const response = await teamcenterService.checkIn(uids);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to check in objects', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'cancel_check_out': {
+            const { uids } = request.params.arguments as {
+              uids: string[];
+            };
+            
+            if (!Array.isArray(uids) || uids.length === 0) {
+              throw new McpError(ErrorCode.InvalidParams, 'UIDs are required');
+            }
+            
+            const response = await teamcenterService.cancelCheckOut(uids);
             
             if (response.error) {
               return {
                 content: [
                   {
                     type: 'text',
-                    text: `Failed to get logged user properties: ${response.error.message}`,
+                    text: formatToolError('Failed to cancel the checkout', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_checkout_status': {
+            const { uids } = request.params.arguments as {
+              uids: string[];
+            };
+            
+            if (!Array.isArray(uids) || uids.length === 0) {
+              throw new McpError(ErrorCode.InvalidParams, 'UIDs are required');
+            }
+            
+            const response = await teamcenterService.getCheckoutStatus(uids);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get checkout status', response.error),
+                  },
+                ],
+                isError: true,
+              };
+            }
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          }
+          
+          case 'get_release_status': {
+            const { uids } = request.params.arguments as {
+              uids: string[];
+            };
+            
+            if (!Array.isArray(uids) || uids.length === 0) {
+              throw new McpError(ErrorCode.InvalidParams, 'UIDs are required');
+            }
+            
+            const response = await teamcenterService.getReleaseStatus(uids);
+            
+            if (response.error) {
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: formatToolError('Failed to get release status', response.error),
                   },
                 ],
                 isError: true,
@@ -821,27 +3236,40 @@ class TeamcenterServer {
 
   async run() {
     try {
-      if (!MOCK_MODE) {
-        // Test authentication on startup in real mode
-        const credentials: TCCredentials = {
-          username: TEAMCENTER_USERNAME!,
-          password: TEAMCENTER_PASSWORD!
-        };
-        
-        const loginResponse = await teamcenterService.login(credentials);
-        
-        if (loginResponse.error) {
-          throw new Error(`Authentication failed: ${loginResponse.error.message}`);
-        }
-        
-        logger.info('Successfully authenticated with Teamcenter');
-      } else {
+      if (MOCK_MODE) {
         logger.info('Running in MOCK mode - no authentication required');
+      } else if (!HAS_CONFIGURED_CREDENTIALS) {
+        logger.info('No Teamcenter credentials configured - clients need to use the login tool');
+      } else if (!USE_CONFIGURED_CREDENTIALS) {
+        logger.warn('The configured Teamcenter credentials are not used over HTTP - clients need to use the login tool');
+      } else {
+        await loginOnStartup(this.teamcenterService, TEAMCENTER_LOGIN_MODE, ensureLoggedIn);
       }
       
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
-      logger.info('Teamcenter MCP server running on stdio');
+      if (MCP_TRANSPORT === 'http') {
+        this.httpTransport = new McpHttpTransport(
+          {
+            host: MCP_HTTP_HOST,
+            port: MCP_HTTP_PORT,
+            authToken: MCP_HTTP_AUTH_TOKEN as string,
+            allowedHosts: getAllowedHosts(),
+            allowedOrigins: parseList(MCP_HTTP_ALLOWED_ORIGINS),
+            maxBodySize: MCP_HTTP_MAX_BODY_SIZE,
+            sessionIdleTimeout: MCP_HTTP_SESSION_IDLE_TIMEOUT
+          },
+          () => {
+            const teamcenterService = createClientService();
+            return { server: this.createServer(teamcenterService), teamcenterService };
+          },
+          () => ({ mode: MOCK_MODE ? 'mock' : 'real', teamcenter: circuitBreaker.getStatus().state })
+        );
+        await this.httpTransport.listen();
+        logger.info(`Teamcenter MCP server running on http://${MCP_HTTP_HOST}:${MCP_HTTP_PORT}${MCP_PATH} (SSE fallback on ${SSE_PATH})`);
+      } else {
+        const transport = new StdioServerTransport();
+        await this.server.connect(transport);
+        logger.info('Teamcenter MCP server running on stdio');
+      }
     } catch (error) {
       logger.error('Failed to start Teamcenter MCP server:', error);
       process.exit(1);
@@ -852,6 +3280,9 @@ class TeamcenterServer {
 // Export the TeamcenterServer class for testing
 export { TeamcenterServer };
 
-// Start the server
-const server = new TeamcenterServer();
-server.run().catch((error) => logger.error('Server run error:', error));
+// Start the server when run as a program, not when imported, e.g. by the tests
+const isEntryPoint = Boolean(process.argv[1]) && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href;
+if (isEntryPoint) {
+  const server = new TeamcenterServer();
+  server.run().catch((error) => logger.error('Server run error:', error));
+}
@@ -0,0 +1,168 @@
+import { exec } from 'node:child_process';
+import { readFile } from 'node:fs/promises';
+import { promisify } from 'node:util';
+import type { ITeamcenterService, SessionCookie, TCCredentials, TCSSOToken } from 'teamcenter-client';
+import logger from '../logger.js';
+
+const execAsync = promisify(exec);
+
+// When the server logs in with the configured credentials: when it starts, or on the first request
+export type LoginMode = 'startup' | 'lazy';
+
+// Where the configured credentials come from, in order of precedence: command, file, username and password
+export interface CredentialSource {
+  credentialsCommand?: string; // Command printing {"username": "...", "password": "..."}
+  credentialsFile?: string; // File holding {"username": "...", "password": "..."}
+  username?: string;
+  password?: string;
+  group?: string;
+  role?: string;
+  locale?: string;
+}
+
+/**
+ * Parse credentials from the JSON output of a credentials file or command
+ * @param text The JSON text ({"username": "...", "password": "..."})
+ * @param source Description of where the text came from, for error messages
+ * @returns The parsed credentials
+ */
+export const parseCredentials = (text: string, source: string): TCCredentials => {
+  let credentials: Partial<TCCredentials>;
+  try {
+    credentials = JSON.parse(text);
+  } catch {
+    throw new Error(`Invalid credentials in ${source}: expected JSON`);
+  }
+
+  if (typeof credentials?.username !== 'string' || typeof credentials?.password !== 'string') {
+    throw new Error(`Invalid credentials in ${source}: expected {"username": "...", "password": "..."}`);
+  }
+
+  return { username: credentials.username, password: credentials.password };
+};
+
+/**
+ * Resolve the configured Teamcenter credentials. They are read on every call,
+ * so rotated passwords are picked up without restarting the server.
+ * @param source The configured credential sources
+ * @returns The credentials from the credentials command, the credentials file or the environment,
+ * with the configured group, role and locale
+ */
+export const getConfiguredCredentials = async (source: CredentialSource): Promise<TCCredentials> => {
+  const sessionOptions = { group: source.group, role: source.role, locale: source.locale };
+
+  if (source.credentialsCommand) {
+    const { stdout } = await execAsync(source.credentialsCommand, { timeout: 30000 });
+    return { ...parseCredentials(stdout, 'the output of TEAMCENTER_CREDENTIALS_COMMAND'), ...sessionOptions };
+  }
+
+  if (source.credentialsFile) {
+    return { ...parseCredentials(await readFile(source.credentialsFile, 'utf8'), source.credentialsFile), ...sessionOptions };
+  }
+
+  if (source.username && source.password) {
+    return { username: source.username, password: source.password, ...sessionOptions };
+  }
+
+  throw new Error('No Teamcenter credentials configured. Use the login tool or set TEAMCENTER_USERNAME and TEAMCENTER_PASSWORD.');
+};
+
+/**
+ * Exchange the identity of the server for a Teamcenter Security Services token by running the
+ * token command. The command gets the application ID in TEAMCENTER_SSO_APP_ID and prints
+ * {"username": "...", "token": "..."}; it runs on every login because tokens are short-lived.
+ * @param command The token command
+ * @param appId The Security Services application ID of the Teamcenter web tier
+ * @param sessionOptions The configured group, role and locale of the session
+ * @returns The SSO token
+ */
+export const getSSOToken = async (
+  command: string,
+  appId: string,
+  sessionOptions: Pick<TCSSOToken, 'group' | 'role' | 'locale'> = {}
+): Promise<TCSSOToken> => {
+  const { stdout } = await execAsync(command, {
+    timeout: 30000,
+    env: { ...process.env, TEAMCENTER_SSO_APP_ID: appId }
+  });
+
+  let ssoToken: Partial<TCSSOToken>;
+  try {
+    ssoToken = JSON.parse(stdout);
+  } catch {
+    throw new Error('Invalid SSO token in the output of TEAMCENTER_SSO_TOKEN_COMMAND: expected JSON');
+  }
+
+  if (typeof ssoToken?.username !== 'string' || typeof ssoToken?.token !== 'string') {
+    throw new Error('Invalid SSO token in the output of TEAMCENTER_SSO_TOKEN_COMMAND: expected {"username": "...", "token": "..."}');
+  }
+
+  return { username: ssoToken.username, token: ssoToken.token, ...sessionOptions };
+};
+
+/**
+ * Parse a pre-issued session cookie
+ * @param text The cookie as name=value, or only the value of a JSESSIONID cookie
+ * @returns The session cookie
+ */
+export const parseSessionCookie = (text: string): SessionCookie => {
+  const separator = text.indexOf('=');
+  return separator > 0
+    ? { name: text.substring(0, separator).trim(), value: text.substring(separator + 1).trim() }
+    : { name: 'JSESSIONID', value: text.trim() };
+};
+
+/**
+ * Create the function that logs a Teamcenter service in with its configured authentication
+ * unless it already has a session. Concurrent calls for a service share one login.
+ * @param enabled Whether to log in at all; without configured credentials the login tool is needed
+ * @param authMethod The configured authentication method, for the log
+ * @returns The login function
+ */
+export const createLoginHandler = (enabled: boolean, authMethod: string) => {
+  // Logins in progress, so that concurrent tool calls of a client share one login
+  const pendingLogins = new WeakMap<ITeamcenterService, Promise<void>>();
+
+  return async (teamcenterService: ITeamcenterService): Promise<void> => {
+    if (!enabled || teamcenterService.isLoggedIn()) {
+      return;
+    }
+
+    let pendingLogin = pendingLogins.get(teamcenterService);
+    if (!pendingLogin) {
+      pendingLogin = (async () => {
+        const loginResponse = await teamcenterService.authenticate();
+
+        if (loginResponse.error) {
+          throw new Error(`Authentication failed: ${loginResponse.error.message}`);
+        }
+
+        logger.info(`Logged in to Teamcenter with ${authMethod} authentication`);
+      })().finally(() => pendingLogins.delete(teamcenterService));
+      pendingLogins.set(teamcenterService, pendingLogin);
+    }
+
+    await pendingLogin;
+  };
+};
+
+/**
+ * Log in when the server starts in startup mode, which verifies the credentials before any client
+ * connects; in lazy mode the login happens on the first request
+ * @param teamcenterService The service to log in
+ * @param loginMode The configured login mode
+ * @param ensureLoggedIn The login function of the server
+ */
+export const loginOnStartup = async (
+  teamcenterService: ITeamcenterService,
+  loginMode: LoginMode,
+  ensureLoggedIn: (teamcenterService: ITeamcenterService) => Promise<void>
+): Promise<void> => {
+  if (loginMode === 'startup') {
+    await ensureLoggedIn(teamcenterService);
+
+    logger.info('Successfully authenticated with Teamcenter');
+  } else {
+    logger.info('Lazy login enabled - logging in to Teamcenter on the first request');
+  }
+};
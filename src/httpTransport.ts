@@ -0,0 +1,418 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ITeamcenterService } from 'teamcenter-client';
+import logger from '../logger.js';
+
+// HTTP endpoints of the MCP server
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+export const HEALTH_PATH = '/health';
+
+// Host names of the loopback interface, which are always accepted in the Host header
+export const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Limits used unless configured otherwise
+export const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024;
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+// Configuration of the HTTP listener
+export interface McpHttpConfig {
+  host: string;
+  port: number;
+  authToken: string; // Bearer token every MCP request has to present
+  allowedHosts: string[]; // Host names accepted in the Host header, against DNS rebinding
+  allowedOrigins: string[]; // Origins of browser requests; requests from other origins are rejected
+  maxBodySize: number; // Maximum size of a request body in bytes
+  sessionIdleTimeout: number; // Milliseconds without a request before a session is closed, 0 to keep sessions open
+}
+
+// MCP server and Teamcenter service of a new client connection
+export interface McpClient {
+  server: Server;
+  teamcenterService: ITeamcenterService;
+}
+
+// State of an MCP client connected over HTTP
+interface ClientSession extends McpClient {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  connectedAt: Date;
+  lastActivityAt: Date;
+}
+
+// Error of a request body larger than the configured maximum
+class PayloadTooLargeError extends Error {}
+
+/**
+ * Read and parse the JSON body of an HTTP request
+ * @param req The HTTP request
+ * @param maxBodySize Maximum size of the body in bytes
+ * @returns The parsed body, or undefined if the body is empty
+ */
+const readJsonBody = (req: IncomingMessage, maxBodySize: number): Promise<unknown> => new Promise((resolve, reject) => {
+  if (parseInt(req.headers['content-length'] || '0', 10) > maxBodySize) {
+    reject(new PayloadTooLargeError(`Request body exceeds ${maxBodySize} bytes`));
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let settled = false;
+
+  req.on('data', (chunk: Buffer) => {
+    if (settled) return;
+
+    size += chunk.length;
+    if (size > maxBodySize) {
+      // Stop buffering, the rest of the body is discarded
+      settled = true;
+      chunks.length = 0;
+      reject(new PayloadTooLargeError(`Request body exceeds ${maxBodySize} bytes`));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (settled) return;
+
+    settled = true;
+    const body = Buffer.concat(chunks).toString('utf8');
+    try {
+      resolve(body ? JSON.parse(body) : undefined);
+    } catch (error) {
+      reject(error);
+    }
+  });
+  req.on('error', (error) => {
+    if (!settled) {
+      settled = true;
+      reject(error);
+    }
+  });
+});
+
+/**
+ * Send a JSON response
+ * @param res The HTTP response
+ * @param status The HTTP status code
+ * @param body The response body
+ * @param headers Additional response headers
+ */
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Send a JSON-RPC error response for a request that could not be dispatched to a session
+ * @param res The HTTP response
+ * @param status The HTTP status code
+ * @param message The error message
+ * @param headers Additional response headers
+ */
+const sendJsonRpcError = (res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void => {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  }, headers);
+};
+
+/**
+ * Get the host name of a Host header
+ * @param host The Host header, e.g. localhost:3000
+ * @returns The lower case host name, or null if the header is missing or invalid
+ */
+const getHostName = (host: string | undefined): string | null => {
+  if (!host) {
+    return null;
+  }
+
+  try {
+    return new URL(`http://${host}`).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * MCP server over the Streamable HTTP transport, with the HTTP+SSE transport as fallback for older clients.
+ * Every client connection gets its own MCP session with its own Teamcenter service.
+ */
+export class McpHttpTransport {
+  private config: McpHttpConfig;
+  private createClient: () => McpClient;
+  private getStatus: () => Record<string, unknown>;
+  private httpServer: HttpServer | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  // Clients connected over HTTP, keyed by MCP session ID
+  private sessions = new Map<string, ClientSession>();
+
+  /**
+   * @param config The HTTP listener configuration
+   * @param createClient Creates the MCP server and Teamcenter service of a new session
+   * @param getStatus Server status reported by the health endpoint in addition to the sessions
+   */
+  constructor(config: McpHttpConfig, createClient: () => McpClient, getStatus: () => Record<string, unknown> = () => ({})) {
+    this.config = config;
+    this.createClient = createClient;
+    this.getStatus = getStatus;
+  }
+
+  /**
+   * Start the HTTP listener
+   * @returns The port the server listens on
+   */
+  listen(): Promise<number> {
+    this.httpServer = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error) => {
+        logger.error('HTTP request error:', error);
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, 'Internal server error');
+        }
+      });
+    });
+
+    if (this.config.sessionIdleTimeout > 0) {
+      this.idleTimer = setInterval(() => this.closeIdleSessions(), Math.min(this.config.sessionIdleTimeout, 60000));
+      this.idleTimer.unref();
+    }
+
+    const httpServer = this.httpServer;
+    return new Promise((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.config.port, this.config.host, () => resolve((httpServer.address() as AddressInfo).port));
+    });
+  }
+
+  /**
+   * End the Teamcenter sessions of all clients and close their connections and the HTTP listener
+   */
+  async close(): Promise<void> {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    // End the Teamcenter sessions, then close the servers (closing a server closes its transport, which removes the session)
+    const sessions = [...this.sessions.values()];
+    await Promise.all(sessions.map(session => session.teamcenterService.logout()));
+    await Promise.all(sessions.map(session => session.server.close()));
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>(resolve => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    }
+  }
+
+  /**
+   * Close the sessions that have not sent a request within the idle timeout, so that abandoned
+   * clients do not keep their Teamcenter session and its keep-alive timer forever
+   * @param now The current time in milliseconds
+   */
+  closeIdleSessions(now: number = Date.now()): void {
+    for (const [sessionId, session] of this.sessions) {
+      if (now - session.lastActivityAt.getTime() >= this.config.sessionIdleTimeout) {
+        logger.info(`MCP session ${sessionId} has been idle since ${session.lastActivityAt.toISOString()}`);
+        this.closeSession(sessionId);
+        session.server.close().catch((error) => logger.error(`Failed to close MCP session ${sessionId}:`, error));
+      }
+    }
+  }
+
+  /**
+   * Dispatch an HTTP request to the health endpoint or one of the MCP transports
+   */
+  private async handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    // A web page must neither reach the server through a rebound DNS name nor call it from its own origin
+    const hostName = getHostName(req.headers.host);
+    if (!hostName || !this.config.allowedHosts.includes(hostName)) {
+      sendJsonRpcError(res, 403, 'Host not allowed');
+      return;
+    }
+
+    if (req.headers.origin && !this.config.allowedOrigins.includes(req.headers.origin)) {
+      sendJsonRpcError(res, 403, 'Origin not allowed');
+      return;
+    }
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        ...this.getStatus(),
+        sessions: this.sessions.size,
+        loggedInSessions: [...this.sessions.values()].filter(session => session.teamcenterService.isLoggedIn()).length,
+      });
+      return;
+    }
+
+    if (![MCP_PATH, SSE_PATH, SSE_MESSAGES_PATH].includes(url.pathname)) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      sendJsonRpcError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req, this.config.maxBodySize);
+      } catch (error) {
+        if (error instanceof PayloadTooLargeError) {
+          sendJsonRpcError(res, 413, error.message, { Connection: 'close' });
+        } else {
+          sendJson(res, 400, { jsonrpc: '2.0', error: { code: ErrorCode.ParseError, message: 'Parse error' }, id: null });
+        }
+        return;
+      }
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await this.handleStreamableHttpRequest(req, res, body);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await this.handleSseConnection(res);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await this.handleSseMessage(req, res, body, url.searchParams.get('sessionId'));
+    } else {
+      sendJson(res, 405, { error: 'Method not allowed' });
+    }
+  }
+
+  /**
+   * Check the bearer token of a request
+   * @param req The HTTP request
+   * @returns Whether the request presents the configured token
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    const authorization = req.headers.authorization || '';
+    const token = Buffer.from(authorization.startsWith('Bearer ') ? authorization.substring('Bearer '.length).trim() : '');
+    const expected = Buffer.from(this.config.authToken);
+
+    return token.length === expected.length && timingSafeEqual(token, expected);
+  }
+
+  /**
+   * Handle a request of the Streamable HTTP transport. An initialize request without
+   * a session ID starts a new session; all other requests go to their session's transport.
+   */
+  private async handleStreamableHttpRequest(req: IncomingMessage, res: ServerResponse, body: unknown) {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, 'Session not found');
+      } else if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, 'Session uses the SSE transport');
+      } else {
+        session.lastActivityAt = new Date();
+        await session.transport.handleRequest(req, res, body);
+      }
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const { server, teamcenterService } = this.createClient();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        this.sessions.set(newSessionId, { server, teamcenterService, transport, connectedAt: new Date(), lastActivityAt: new Date() });
+        logger.info(`MCP session ${newSessionId} started (Streamable HTTP)`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.closeSession(transport.sessionId);
+      }
+    };
+
+    // A failed initialize leaves no session, so its client is discarded instead of leaking with every retry
+    let initialized = false;
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      initialized = Boolean(transport.sessionId) && res.statusCode < 400;
+    } finally {
+      if (!initialized) {
+        this.discardClient(transport.sessionId, { server, teamcenterService });
+      }
+    }
+  }
+
+  /**
+   * Open a session of the (deprecated) HTTP+SSE transport for clients without Streamable HTTP support
+   */
+  private async handleSseConnection(res: ServerResponse) {
+    const { server, teamcenterService } = this.createClient();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { server, teamcenterService, transport, connectedAt: new Date(), lastActivityAt: new Date() });
+    transport.onclose = () => this.closeSession(sessionId);
+
+    await server.connect(transport);
+    logger.info(`MCP session ${sessionId} started (SSE)`);
+  }
+
+  /**
+   * Deliver a client message to its SSE session
+   */
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, body: unknown, sessionId: string | null) {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+
+    session.lastActivityAt = new Date();
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Discard the client of a session whose initialize failed: forget the session if it was registered,
+   * end the Teamcenter session and close the MCP server
+   * @param sessionId The MCP session ID, if one was assigned
+   * @param client The server and Teamcenter service of the session
+   */
+  private discardClient(sessionId: string | undefined, { server, teamcenterService }: McpClient) {
+    if (sessionId && this.sessions.has(sessionId)) {
+      this.closeSession(sessionId);
+    } else {
+      teamcenterService.logout().catch((error) => logger.error('Failed to log out a failed MCP session:', error));
+    }
+    server.close().catch((error) => logger.error('Failed to close a failed MCP session:', error));
+  }
+
+  /**
+   * Forget a closed MCP session and end its Teamcenter session
+   * @param sessionId The MCP session ID
+   */
+  private closeSession(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    logger.info(`MCP session ${sessionId} closed`);
+    session.teamcenterService.logout().catch((error) => logger.error(`Failed to log out MCP session ${sessionId}:`, error));
+  }
+}
@@ -0,0 +1,64 @@
+import { readFile, realpath, stat } from 'node:fs/promises';
+import { basename, isAbsolute, relative } from 'node:path';
+
+// Largest local file that is uploaded, as it is held in memory base64 encoded
+export const DEFAULT_UPLOAD_MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+// A local file read for an upload, in the form the Teamcenter client takes it
+export interface UploadFile {
+  fileName: string;
+  content: string; // Base64 encoded
+}
+
+/**
+ * Check whether a path lies inside a directory
+ * @param directory The resolved directory
+ * @param path The resolved path
+ * @returns True if the path is the directory or below it
+ */
+const isInside = (directory: string, path: string): boolean => {
+  const relativePath = relative(directory, path);
+  return !relativePath.startsWith('..') && !isAbsolute(relativePath);
+};
+
+/**
+ * Read a local file to upload. Only files inside the configured upload directories can be read;
+ * symbolic links are resolved first, so that a link cannot point outside of them.
+ * @param filePath The absolute path of the file
+ * @param uploadDirectories The directories files may be uploaded from (MCP_UPLOAD_DIRECTORIES)
+ * @param maxSize The largest file in bytes that is read
+ * @returns The name and the base64 encoded content of the file
+ */
+export const readUploadFile = async (filePath: string, uploadDirectories: string[], maxSize: number): Promise<UploadFile> => {
+  if (uploadDirectories.length === 0) {
+    throw new Error('Uploading local files is disabled. Set MCP_UPLOAD_DIRECTORIES to the directories files may be uploaded from, or pass base64 content.');
+  }
+
+  if (!isAbsolute(filePath)) {
+    throw new Error(`The file path must be absolute: ${filePath}`);
+  }
+
+  let resolvedPath: string;
+  try {
+    resolvedPath = await realpath(filePath);
+  } catch {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  // Upload directories that do not exist allow nothing
+  const resolvedDirectories = await Promise.all(uploadDirectories.map(directory => realpath(directory).catch(() => null)));
+  if (!resolvedDirectories.some(directory => directory && isInside(directory, resolvedPath))) {
+    throw new Error(`The file is not inside the upload directories: ${filePath}`);
+  }
+
+  const fileStat = await stat(resolvedPath);
+  if (!fileStat.isFile()) {
+    throw new Error(`Not a file: ${filePath}`);
+  }
+
+  if (fileStat.size > maxSize) {
+    throw new Error(`The file is larger than ${maxSize} bytes: ${filePath}`);
+  }
+
+  return { fileName: basename(filePath), content: (await readFile(resolvedPath)).toString('base64') };
+};
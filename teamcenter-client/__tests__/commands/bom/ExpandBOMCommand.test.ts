@@ -0,0 +1,181 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { ExpandBOMCommand } from '../../../src/commands/bom/ExpandBOMCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (value: string) => ({ dbValues: [value], uiValues: [value] });
+
+// Responses for a two-level assembly: top -> (bolt, bracket) and nothing below
+const responses: Record<string, unknown> = {
+  getRevisionRules: {
+    output: [
+      { revRule: { uid: 'rule-latest', type: 'RevisionRule' } },
+      { revRule: { uid: 'rule-precise', type: 'RevisionRule' } }
+    ],
+    ServiceData: {
+      modelObjects: {
+        'rule-latest': { uid: 'rule-latest', props: { object_name: prop('Latest Working') } },
+        'rule-precise': { uid: 'rule-precise', props: { object_name: prop('Precise Only') } }
+      }
+    }
+  },
+  createBOMWindows: {
+    output: [{
+      bomWindow: { uid: 'window-1', type: 'BOMWindow' },
+      bomLine: { uid: 'line-top', type: 'BOMLine' }
+    }]
+  },
+  getProperties: {
+    modelObjects: {
+      'line-top': { uid: 'line-top', props: { bl_item_item_id: prop('ASM-001'), bl_rev_item_revision_id: prop('A'), bl_rev_object_name: prop('Gearbox') } },
+      'line-bolt': { uid: 'line-bolt', props: { bl_item_item_id: prop('BLT-006'), bl_quantity: prop('4'), bl_sequence_no: prop('10') } },
+      'line-bracket': { uid: 'line-bracket', props: { bl_item_item_id: prop('BRK-100'), bl_quantity: prop('1'), bl_sequence_no: prop('20') } }
+    }
+  },
+  closeBOMWindows: {}
+};
+
+const mockServiceResponses = () => {
+  mockCallService.mockImplementation(async (_service, operation, params: any) => {
+    if (operation === 'expandPSOneLevel') {
+      const parent = params.input.parentBomLines[0];
+      if (parent.uid !== 'line-top') {
+        return { output: params.input.parentBomLines.map((line: any) => ({ parent: { bomLine: line }, children: [] })) };
+      }
+      return {
+        output: [{
+          parent: { bomLine: parent },
+          children: [
+            { bomLine: { uid: 'line-bolt', type: 'BOMLine' }, itemRevOfBOMLine: { uid: 'rev-bolt', type: 'ItemRevision' } },
+            { bomLine: { uid: 'line-bracket', type: 'BOMLine' }, itemRevOfBOMLine: { uid: 'rev-bracket', type: 'ItemRevision' } }
+          ]
+        }]
+      };
+    }
+    return responses[operation];
+  });
+};
+
+describe('ExpandBOMCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should expand the structure and return a tree of lines', async () => {
+    mockServiceResponses();
+
+    const command = new ExpandBOMCommand(mockLogger, mockSoaClient, true, 'rev-top', 2);
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data?.revisionRule).toBe('Latest Working');
+    expect(result.data?.root.itemId).toBe('ASM-001');
+    expect(result.data?.root.children).toHaveLength(2);
+    expect(result.data?.root.children[0]).toEqual(expect.objectContaining({
+      itemId: 'BLT-006',
+      quantity: '4',
+      findNumber: '10',
+      level: 1,
+      childRevision: { uid: 'rev-bolt', type: 'ItemRevision' }
+    }));
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Cad-2007-01-StructureManagement',
+      'createBOMWindows',
+      expect.objectContaining({
+        info: [expect.objectContaining({
+          itemRev: { uid: 'rev-top', type: 'ItemRevision' },
+          revRuleConfigInfo: expect.objectContaining({ revRule: { uid: 'rule-latest', type: 'RevisionRule' } })
+        })]
+      })
+    );
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Cad-2007-01-StructureManagement',
+      'closeBOMWindows',
+      { bomWindows: [{ uid: 'window-1', type: 'BOMWindow' }] }
+    );
+  });
+
+  it('should stop expanding at the requested number of levels', async () => {
+    mockServiceResponses();
+
+    const command = new ExpandBOMCommand(mockLogger, mockSoaClient, true, 'rev-top', 1);
+    await command.execute();
+
+    const expandCalls = mockCallService.mock.calls.filter(call => call[1] === 'expandPSOneLevel');
+    expect(expandCalls).toHaveLength(1);
+  });
+
+  it('should return error if the revision rule does not exist', async () => {
+    mockServiceResponses();
+
+    const command = new ExpandBOMCommand(mockLogger, mockSoaClient, true, 'rev-top', 1, 'Released Only');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('BOM_ERROR');
+    expect(result.error?.message).toContain('Revision rule not found: Released Only');
+    expect(mockCallService).not.toHaveBeenCalledWith('Cad-2007-01-StructureManagement', 'createBOMWindows', expect.anything());
+  });
+
+  it('should close the BOM window when the expansion fails', async () => {
+    mockServiceResponses();
+    const defaultImplementation = mockCallService.getMockImplementation()!;
+    mockCallService.mockImplementation(async (service, operation, params) => {
+      if (operation === 'expandPSOneLevel') {
+        throw new Error('Expansion failed');
+      }
+      return defaultImplementation(service, operation, params);
+    });
+
+    const command = new ExpandBOMCommand(mockLogger, mockSoaClient, true, 'rev-top', 1);
+    const result = await command.execute();
+
+    expect(result.error?.message).toBe('Expansion failed');
+    expect(mockCallService).toHaveBeenCalledWith('Cad-2007-01-StructureManagement', 'closeBOMWindows', expect.anything());
+  });
+
+  it('should return error if levels is out of range', async () => {
+    const command = new ExpandBOMCommand(mockLogger, mockSoaClient, true, 'rev-top', 0);
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(result.error?.message).toContain('Levels must be between 1 and 20');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+
+  it('should return error if not logged in', async () => {
+    const command = new ExpandBOMCommand(mockLogger, mockSoaClient, false, 'rev-top');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('NO_SESSION');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { WhereUsedCommand } from '../../../src/commands/bom/WhereUsedCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (value: string) => ({ dbValues: [value], uiValues: [value] });
+
+// The bolt is used in the gearbox directly and through the housing, which is also used in the gearbox
+const responses: Record<string, unknown> = {
+  getRevisionRules: {
+    output: [{ revRule: { uid: 'rule-latest', type: 'RevisionRule' } }],
+    ServiceData: {
+      modelObjects: {
+        'rule-latest': { uid: 'rule-latest', props: { object_name: prop('Latest Working') } }
+      }
+    }
+  },
+  whereUsed: {
+    output: [{
+      inputObject: { uid: 'bolt-rev', type: 'ItemRevision' },
+      info: [
+        { parentItemRev: { uid: 'housing-rev', type: 'ItemRevision' }, level: 1 },
+        { parentItemRev: { uid: 'gearbox-rev', type: 'ItemRevision' }, level: 2 },
+        { parentItemRev: { uid: 'gearbox-rev', type: 'ItemRevision' }, level: 1 }
+      ]
+    }]
+  },
+  getProperties: {
+    modelObjects: {
+      'housing-rev': { uid: 'housing-rev', props: { item_id: prop('HSG-010'), item_revision_id: prop('B'), object_name: prop('Housing') } },
+      'gearbox-rev': { uid: 'gearbox-rev', props: { item_id: prop('ASM-001'), item_revision_id: prop('A'), object_name: prop('Gearbox') } }
+    }
+  }
+};
+
+describe('WhereUsedCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+    mockCallService.mockImplementation(async (_service, operation) => responses[operation]);
+  });
+
+  it('should report every parent once at its closest level', async () => {
+    const command = new WhereUsedCommand(mockLogger, mockSoaClient, true, 'bolt-rev', 2);
+    const response = await command.execute();
+
+    expect(response.error).toBeUndefined();
+    expect(response.data?.parents).toEqual([
+      { uid: 'housing-rev', type: 'ItemRevision', itemId: 'HSG-010', revisionId: 'B', name: 'Housing', level: 1 },
+      { uid: 'gearbox-rev', type: 'ItemRevision', itemId: 'ASM-001', revisionId: 'A', name: 'Gearbox', level: 1 }
+    ]);
+    expect(mockCallService).toHaveBeenCalledWith('Core-2007-01-DataManagement', 'whereUsed', {
+      objects: [{ uid: 'bolt-rev' }],
+      numLevels: 2,
+      whereUsedPrecise: false,
+      rule: ''
+    });
+    expect(mockCallService).not.toHaveBeenCalledWith('Cad-2007-01-StructureManagement', 'getRevisionRules', expect.anything());
+  });
+
+  it('should resolve the revision rule by name', async () => {
+    const command = new WhereUsedCommand(mockLogger, mockSoaClient, true, 'bolt-rev', 1, 'Latest Working');
+    const response = await command.execute();
+
+    expect(response.data?.revisionRule).toBe('Latest Working');
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Core-2007-01-DataManagement',
+      'whereUsed',
+      expect.objectContaining({ rule: { uid: 'rule-latest', type: 'RevisionRule' } })
+    );
+  });
+
+  it('should fail for an unknown revision rule', async () => {
+    const command = new WhereUsedCommand(mockLogger, mockSoaClient, true, 'bolt-rev', 1, 'Released Only');
+    const response = await command.execute();
+
+    expect(response.error?.code).toBe('WHERE_USED_ERROR');
+    expect(response.error?.message).toBe('Revision rule not found: Released Only');
+    expect(mockCallService).not.toHaveBeenCalledWith('Core-2007-01-DataManagement', 'whereUsed', expect.anything());
+  });
+
+  it('should not read properties when the object is not used anywhere', async () => {
+    mockCallService.mockResolvedValue({ output: [{ inputObject: { uid: 'bolt-rev' }, info: [] }] });
+
+    const command = new WhereUsedCommand(mockLogger, mockSoaClient, true, 'bolt-rev');
+    const response = await command.execute();
+
+    expect(response.data?.parents).toEqual([]);
+    expect(mockCallService).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a depth outside of 1 to 20', async () => {
+    for (const depth of [0, -1, 21]) {
+      const response = await new WhereUsedCommand(mockLogger, mockSoaClient, true, 'bolt-rev', depth).execute();
+
+      expect(response.error?.code).toBe('INVALID_PARAMETER');
+      expect(response.error?.message).toBe('Depth must be between 1 and 20');
+    }
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { GetOpenChangesCommand } from '../../../src/commands/change/GetOpenChangesCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (...values: string[]) => ({ dbValues: values, uiValues: values });
+
+
+const change = (itemId: string, closure: string) => ({
+  uid: `ecn-${itemId}`,
+  type: 'ChangeNoticeRevision',
+  props: { item_id: prop(itemId), item_revision_id: prop('A'), object_name: prop(`Change ${itemId}`), CMClosure: prop(closure), CMMaturity: prop('Reviewing') }
+});
+
+describe('GetOpenChangesCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should return the changes holding the object that are not closed', async () => {
+    mockCallService.mockImplementation(async (_service, operation) => {
+      if (operation === 'expandGRMRelationsForSecondary') {
+        return {
+          output: [{
+            inputObject: { uid: 'rev-1', type: 'ItemRevision' },
+            relationshipData: [
+              { relationName: 'CMHasImpactedItem', relationshipObjects: [{ otherSideObject: { uid: 'ecn-100', type: 'ChangeNoticeRevision' } }] },
+              { relationName: 'CMHasSolutionItem', relationshipObjects: [
+                { otherSideObject: { uid: 'ecn-100', type: 'ChangeNoticeRevision' } },
+                { otherSideObject: { uid: 'ecn-200', type: 'ChangeNoticeRevision' } }
+              ] }
+            ]
+          }]
+        };
+      }
+      return { modelObjects: { 'ecn-100': change('100', 'Open'), 'ecn-200': change('200', 'Closed') } };
+    });
+
+    const command = new GetOpenChangesCommand(mockLogger, mockSoaClient, true, 'rev-1');
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toEqual([{
+      uid: 'ecn-100',
+      type: 'ChangeNoticeRevision',
+      itemId: '100',
+      revisionId: 'A',
+      name: 'Change 100',
+      description: '',
+      closure: 'Open',
+      maturity: 'Reviewing',
+      properties: expect.objectContaining({ CMClosure: expect.objectContaining({ value: 'Open', dbValues: ['Open'] }) })
+    }]);
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Core-2006-03-DataManagement',
+      'getProperties',
+      expect.objectContaining({
+        objects: [{ uid: 'ecn-100', type: 'ChangeItemRevision' }, { uid: 'ecn-200', type: 'ChangeItemRevision' }]
+      })
+    );
+  });
+
+  it('should return an empty list when no change references the object', async () => {
+    mockCallService.mockResolvedValue({ output: [] });
+
+    const command = new GetOpenChangesCommand(mockLogger, mockSoaClient, true, 'rev-1');
+    const result = await command.execute();
+
+    expect(result.data).toEqual([]);
+    expect(mockCallService).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return error if not logged in', async () => {
+    const command = new GetOpenChangesCommand(mockLogger, mockSoaClient, false, 'rev-1');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('NO_SESSION');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
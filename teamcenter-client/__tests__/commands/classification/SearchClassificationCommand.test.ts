@@ -0,0 +1,119 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { SearchClassificationCommand } from '../../../src/commands/classification/SearchClassificationCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const boltAttributes = {
+  attributes: {
+    'ICM0101': [
+      { id: 1001, name: 'Thread', shortName: 'THR', unitName: '', format: 0 },
+      { id: 1002, name: 'Length', shortName: 'LEN', unitName: 'mm', format: 1 }
+    ]
+  }
+};
+
+describe('SearchClassificationCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should search by attribute IDs with exact values and ranges', async () => {
+    mockCallService
+      .mockResolvedValueOnce(boltAttributes)
+      .mockResolvedValueOnce({ clsObjTags: {} });
+
+    const command = new SearchClassificationCommand(mockLogger, mockSoaClient, true, 'ICM0101', {
+      thread: 'M6',
+      Length: { min: 20, max: 30 }
+    });
+    const response = await command.execute();
+
+    expect(response.data).toEqual([]);
+    expect(mockCallService).toHaveBeenNthCalledWith(2, 'Classification-2007-01-Classification', 'search', {
+      searchCriteria: [{
+        classIds: ['ICM0101'],
+        searchAttributes: [
+          { attributeId: 1001, query: 'M6' },
+          { attributeId: 1002, query: '>=20 & <=30' }
+        ],
+        searchOption: 0
+      }]
+    });
+  });
+
+  it('should return the classified objects with their names', async () => {
+    mockCallService
+      .mockResolvedValueOnce(boltAttributes)
+      .mockResolvedValueOnce({ clsObjTags: { 'ICM0101': [{ uid: 'ico1', type: 'icm0' }] } })
+      .mockResolvedValueOnce({
+        clsObjs: {
+          'ico1': { clsObjTag: { uid: 'ico1' }, classId: 'ICM0101', wsoId: { uid: 'rev1', type: 'ItemRevision' } }
+        }
+      })
+      .mockResolvedValueOnce({
+        modelObjects: {
+          'rev1': { props: { object_string: { dbValues: ['000123/A;1-Bolt M6x25'], uiValues: ['000123/A;1-Bolt M6x25'] } } }
+        }
+      });
+
+    const command = new SearchClassificationCommand(mockLogger, mockSoaClient, true, 'ICM0101', { Thread: 'M6' });
+    const response = await command.execute();
+
+    expect(response.error).toBeUndefined();
+    expect(response.data).toEqual([{
+      uid: 'rev1',
+      type: 'ItemRevision',
+      name: '000123/A;1-Bolt M6x25',
+      icoUid: 'ico1',
+      classId: 'ICM0101'
+    }]);
+  });
+
+  it('should return an error for an attribute the class does not define', async () => {
+    mockCallService.mockResolvedValueOnce(boltAttributes);
+
+    const command = new SearchClassificationCommand(mockLogger, mockSoaClient, true, 'ICM0101', { Diameter: '6' });
+    const response = await command.execute();
+
+    expect(response.error?.code).toBe('CLASSIFICATION_ERROR');
+    expect(response.error?.message).toBe('Attribute Diameter not found in class ICM0101');
+    expect(mockCallService).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return an error when not logged in', async () => {
+    const command = new SearchClassificationCommand(mockLogger, mockSoaClient, false, 'ICM0101', { Thread: 'M6' });
+    const response = await command.execute();
+
+    expect(response.error?.code).toBe('NO_SESSION');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { DownloadDatasetFileCommand } from '../../../src/commands/dataset/DownloadDatasetFileCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create properly typed mock functions for the SOA client
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+const mockDownloadFile = jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: mockDownloadFile,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (...values: string[]) => ({ dbValues: values, uiValues: values });
+
+const mockDatasetResponses = () => {
+  mockCallService.mockImplementation(async (_service, operation, params: any) => {
+    if (operation === 'getProperties' && params.attributes.includes('ref_list')) {
+      return { modelObjects: { 'ds-1': { uid: 'ds-1', props: { ref_list: prop('file-txt', 'file-pdf') } } } };
+    }
+    if (operation === 'getProperties') {
+      return {
+        modelObjects: {
+          'file-txt': { uid: 'file-txt', props: { original_file_name: prop('notes.txt'), file_size: prop('12') } },
+          'file-pdf': { uid: 'file-pdf', props: { original_file_name: prop('spec.pdf'), file_size: prop('4') } }
+        }
+      };
+    }
+    if (operation === 'getFileReadTickets') {
+      // Teamcenter serializes maps as parallel key and value arrays
+      return { tickets: [[{ uid: params.files[0].uid }], [`ticket-${params.files[0].uid}`]] };
+    }
+    return {};
+  });
+};
+
+describe('DownloadDatasetFileCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should return text files as text', async () => {
+    mockDatasetResponses();
+    mockDownloadFile.mockResolvedValue(Buffer.from('Torque 12 Nm', 'utf-8'));
+
+    const command = new DownloadDatasetFileCommand(mockLogger, mockSoaClient, true, 'ds-1', 'notes.txt');
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toEqual({
+      datasetUid: 'ds-1',
+      name: 'notes.txt',
+      mimeType: 'text/plain',
+      size: 12,
+      text: 'Torque 12 Nm'
+    });
+    expect(mockDownloadFile).toHaveBeenCalledWith('ticket-file-txt', 'notes.txt');
+  });
+
+  it('should return binary files as base64 blobs', async () => {
+    mockDatasetResponses();
+    mockDownloadFile.mockResolvedValue(Buffer.from([0x25, 0x50, 0x44, 0x46]));
+
+    const command = new DownloadDatasetFileCommand(mockLogger, mockSoaClient, true, 'ds-1', 'spec.pdf');
+    const result = await command.execute();
+
+    expect(result.data?.mimeType).toBe('application/pdf');
+    expect(result.data?.blob).toBe('JVBERg==');
+    expect(result.data?.text).toBeUndefined();
+  });
+
+  it('should return error if the file is not part of the dataset', async () => {
+    mockDatasetResponses();
+
+    const command = new DownloadDatasetFileCommand(mockLogger, mockSoaClient, true, 'ds-1', 'missing.doc');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('NOT_FOUND');
+    expect(mockDownloadFile).not.toHaveBeenCalled();
+  });
+
+  it('should return error if not logged in', async () => {
+    const command = new DownloadDatasetFileCommand(mockLogger, mockSoaClient, false, 'ds-1', 'notes.txt');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('NO_SESSION');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
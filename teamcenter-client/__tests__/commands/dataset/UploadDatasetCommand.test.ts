@@ -0,0 +1,196 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { UploadDatasetCommand } from '../../../src/commands/dataset/UploadDatasetCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { mockCallService as mockTeamcenter } from '../../../src/tcMockService.js';
+import { ErrorType } from '../../../src/tcErrors.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Route service calls through the offline Teamcenter fake so the whole ticket and commit flow is exercised
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const callMockTeamcenter = (service: string, operation: string, params: unknown) => mockTeamcenter(service, operation, params, mockLogger);
+const mockCallService = jest.fn(callMockTeamcenter) as jest.MockedFunction<CallServiceType>;
+const mockUploadFile = jest.fn(async () => undefined) as jest.MockedFunction<SOAClient['uploadFile']>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: mockUploadFile,
+  sessionStore: createSessionStore()
+};
+
+describe('UploadDatasetCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+    mockCallService.mockImplementation(callMockTeamcenter);
+  });
+
+  it('should create, upload, commit and relate the dataset', async () => {
+    const command = new UploadDatasetCommand(mockLogger, mockSoaClient, true, {
+      itemRevUid: 'rev-1',
+      datasetType: 'Text',
+      fileName: 'notes.txt',
+      content: Buffer.from('Torque 12 Nm').toString('base64')
+    });
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toEqual(expect.objectContaining({
+      name: 'notes.txt',
+      relationType: 'IMAN_specification',
+      fileName: 'notes.txt',
+      size: 12
+    }));
+    expect(result.data?.dataset.type).toBe('Text');
+    expect(result.data?.relation?.type).toBe('IMAN_specification');
+
+    const operations = mockCallService.mock.calls.map(call => call[1]);
+    expect(operations).toEqual(['createDatasets', 'getDatasetWriteTickets', 'commitDatasetFiles', 'createRelations']);
+
+    const uploadedContent = mockUploadFile.mock.calls[0][2];
+    expect(mockUploadFile.mock.calls[0][0]).toContain('mock-write-ticket');
+    expect(uploadedContent.toString('utf-8')).toBe('Torque 12 Nm');
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Core-2006-03-FileManagement',
+      'getDatasetWriteTickets',
+      expect.objectContaining({
+        inputs: [expect.objectContaining({
+          datasetFileInfos: [expect.objectContaining({ fileName: 'notes.txt', namedReferencedName: 'Text', isText: true })]
+        })]
+      })
+    );
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Core-2006-03-DataManagement',
+      'createRelations',
+      expect.objectContaining({
+        input: [expect.objectContaining({ primaryObject: { uid: 'rev-1', type: 'ItemRevision' }, secondaryObject: result.data?.dataset })]
+      })
+    );
+  }, 10000);
+
+  it('should not relate and delete the dataset if the upload fails', async () => {
+    mockUploadFile.mockRejectedValueOnce(new Error('FMS upload error: 500 Internal Server Error'));
+
+    const command = new UploadDatasetCommand(mockLogger, mockSoaClient, true, {
+      itemRevUid: 'rev-1',
+      datasetType: 'PDF',
+      relationType: 'IMAN_Rendering',
+      fileName: 'drawing.pdf',
+      content: Buffer.from('%PDF').toString('base64')
+    });
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('UPLOAD_ERROR');
+    expect(result.error?.message).toContain('FMS upload error');
+    expect(mockCallService).not.toHaveBeenCalledWith('Core-2006-03-DataManagement', 'createRelations', expect.anything());
+    expect(mockCallService).toHaveBeenLastCalledWith(
+      'Core-2006-03-DataManagement',
+      'deleteObjects',
+      { objects: [expect.objectContaining({ type: 'PDF' })] }
+    );
+  }, 10000);
+
+  it('should fail and delete the dataset when the relation is rejected', async () => {
+    mockCallService.mockImplementation(async (service, operation, params) => operation === 'createRelations'
+      ? {
+        output: [{ clientId: 'rel-1', relation: null }],
+        ServiceData: { partialErrors: [{ uid: 'rev-1', errorValues: [{ code: 515024, level: 3, message: 'No write access to rev-1' }] }] }
+      }
+      : callMockTeamcenter(service, operation, params));
+
+    const command = new UploadDatasetCommand(mockLogger, mockSoaClient, true, {
+      itemRevUid: 'rev-1',
+      datasetType: 'Text',
+      fileName: 'notes.txt',
+      content: Buffer.from('Torque 12 Nm').toString('base64')
+    });
+    const result = await command.execute();
+
+    expect(result.data).toBeUndefined();
+    expect(result.error).toMatchObject({ code: 'UPLOAD_ERROR', message: 'No write access to rev-1', type: ErrorType.ACCESS_DENIED });
+    expect(mockCallService).toHaveBeenLastCalledWith(
+      'Core-2006-03-DataManagement',
+      'deleteObjects',
+      { objects: [{ uid: expect.stringMatching(/^mock-dataset-/), type: 'Text' }] }
+    );
+  }, 10000);
+
+  it('should fail and delete the dataset when the commit is rejected', async () => {
+    mockCallService.mockImplementation(async (service, operation, params) => operation === 'commitDatasetFiles'
+      ? { ServiceData: { partialErrors: [{ uid: 'mock-dataset', errorValues: [{ code: 214503, level: 3, message: 'The file could not be committed' }] }] } }
+      : callMockTeamcenter(service, operation, params));
+
+    const command = new UploadDatasetCommand(mockLogger, mockSoaClient, true, {
+      itemRevUid: 'rev-1',
+      datasetType: 'Text',
+      fileName: 'notes.txt',
+      content: Buffer.from('Torque 12 Nm').toString('base64')
+    });
+    const result = await command.execute();
+
+    expect(result.data).toBeUndefined();
+    expect(result.error).toMatchObject({ code: 'UPLOAD_ERROR', message: 'The file could not be committed' });
+    expect(mockCallService).not.toHaveBeenCalledWith('Core-2006-03-DataManagement', 'createRelations', expect.anything());
+    expect(mockCallService).toHaveBeenLastCalledWith(
+      'Core-2006-03-DataManagement',
+      'deleteObjects',
+      { objects: [{ uid: expect.stringMatching(/^mock-dataset-/), type: 'Text' }] }
+    );
+  }, 10000);
+
+  it('should require base64 content and a file name', async () => {
+    const command = new UploadDatasetCommand(mockLogger, mockSoaClient, true, {
+      itemRevUid: 'rev-1',
+      datasetType: 'Text',
+      fileName: 'notes.txt',
+      content: ''
+    });
+    const result = await command.execute();
+
+    expect(result.error).toMatchObject({ code: 'INVALID_PARAMETER', message: 'Base64 content and a file name are required' });
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+
+  it('should require a named reference for unknown dataset types', async () => {
+    const command = new UploadDatasetCommand(mockLogger, mockSoaClient, true, {
+      itemRevUid: 'rev-1',
+      datasetType: 'CustomCAD',
+      fileName: 'part.cad',
+      content: 'AAAA'
+    });
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+
+  it('should return error if not logged in', async () => {
+    const command = new UploadDatasetCommand(mockLogger, mockSoaClient, false, {
+      itemRevUid: 'rev-1',
+      datasetType: 'Text',
+      fileName: 'notes.txt',
+      content: 'VG9ycXVl'
+    });
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('NO_SESSION');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
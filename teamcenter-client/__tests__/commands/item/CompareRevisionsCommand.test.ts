@@ -0,0 +1,84 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { CompareRevisionsCommand } from '../../../src/commands/item/CompareRevisionsCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (value: string) => ({ dbValues: [value], uiValues: [value] });
+
+describe('CompareRevisionsCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should report the properties that differ between the revisions', async () => {
+    mockCallService.mockResolvedValue({
+      modelObjects: {
+        'rev-a': { uid: 'rev-a', props: { item_revision_id: prop('A'), object_name: prop('Bracket'), object_desc: prop('Steel bracket') } },
+        'rev-b': { uid: 'rev-b', props: { item_revision_id: prop('B'), object_name: prop('Bracket'), object_desc: prop('Aluminium bracket') } }
+      }
+    });
+
+    const command = new CompareRevisionsCommand(mockLogger, mockSoaClient, true, 'rev-a', 'rev-b', ['object_name', 'object_desc']);
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data?.revA).toEqual({ uid: 'rev-a', revisionId: 'A' });
+    expect(result.data?.revB).toEqual({ uid: 'rev-b', revisionId: 'B' });
+    expect(result.data?.differences).toEqual([
+      { name: 'object_desc', valueA: 'Steel bracket', valueB: 'Aluminium bracket' }
+    ]);
+    expect(result.data?.unchanged).toEqual(['object_name']);
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Core-2006-03-DataManagement',
+      'getProperties',
+      expect.objectContaining({
+        attributes: ['item_revision_id', 'object_name', 'object_desc']
+      })
+    );
+  });
+
+  it('should return error if a revision UID is missing', async () => {
+    const command = new CompareRevisionsCommand(mockLogger, mockSoaClient, true, 'rev-a', '');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+
+  it('should return error if not logged in', async () => {
+    const command = new CompareRevisionsCommand(mockLogger, mockSoaClient, false, 'rev-a', 'rev-b');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('NO_SESSION');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { GetPropertiesCommand } from '../../../src/commands/item/GetPropertiesCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { AppError, ErrorType } from '../../../src/tcErrors.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown, policy?: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+// Returns the requested objects, except the ones Teamcenter reports as inaccessible
+const mockGetProperties = (inaccessible: string[] = []) => async (_service: string, _operation: string, params: unknown): Promise<unknown> => {
+  const uids = (params as { objects: { uid: string }[] }).objects.map(object => object.uid);
+  const readable = uids.filter(uid => !inaccessible.includes(uid));
+
+  return {
+    plain: readable,
+    modelObjects: Object.fromEntries(readable.map(uid => [uid, {
+      uid,
+      type: 'Item',
+      props: { object_name: { dbValues: [`Name ${uid}`], uiValues: [`Name ${uid}`] } }
+    }])),
+    partialErrors: uids.filter(uid => inaccessible.includes(uid)).map(uid => ({
+      uid,
+      errorValues: [{ code: 515024, level: 3, message: `No read access to ${uid}` }]
+    }))
+  };
+};
+
+describe('GetPropertiesCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should request the objects in batches and keep their order', async () => {
+    mockCallService.mockImplementation(mockGetProperties());
+
+    const command = new GetPropertiesCommand(mockLogger, mockSoaClient, true, ['a', 'b', 'c', 'd', 'e', 'a'], ['object_name'], 2);
+    const response = await command.execute();
+
+    expect(mockCallService).toHaveBeenCalledTimes(3);
+    expect((mockCallService.mock.calls[2][2] as any).objects).toEqual([{ uid: 'e', type: 'BusinessObject' }]);
+    expect(mockCallService.mock.calls[0][3]).toEqual({ types: [{ name: 'BusinessObject', properties: ['object_name'] }] });
+    expect(response.data?.objects.map(object => object.uid)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(response.data?.objects[0]).toEqual({ uid: 'a', type: 'Item', properties: { object_name: 'Name a' } });
+    expect(response.data?.partialErrors).toEqual([]);
+  });
+
+  it('should return the errors of objects that could not be read', async () => {
+    mockCallService
+      .mockImplementationOnce(mockGetProperties(['b']))
+      .mockRejectedValueOnce(new AppError('Request timed out', ErrorType.API_TIMEOUT, null, {}))
+      .mockImplementationOnce(async () => ({ plain: [], modelObjects: {} }));
+
+    const command = new GetPropertiesCommand(mockLogger, mockSoaClient, true, ['a', 'b', 'c', 'd', 'e'], ['object_name'], 2);
+    const response = await command.execute();
+
+    expect(response.data?.objects.map(object => object.uid)).toEqual(['a']);
+    expect(response.data?.partialErrors).toEqual([
+      { uid: 'b', code: 515024, message: 'No read access to b' },
+      { uid: 'c', code: 0, message: 'Request timed out' },
+      { uid: 'd', code: 0, message: 'Request timed out' },
+      { uid: 'e', code: 0, message: 'Object was not returned by Teamcenter' }
+    ]);
+  });
+
+  it('should fail when no object could be read', async () => {
+    mockCallService.mockRejectedValue(new AppError('Teamcenter is unavailable', ErrorType.NETWORK, null, {}));
+
+    const command = new GetPropertiesCommand(mockLogger, mockSoaClient, true, ['a', 'b', 'c'], ['object_name'], 2);
+    const response = await command.execute();
+
+    expect(response.error).toEqual({ code: 'PROPERTIES_ERROR', level: 'ERROR', message: 'Teamcenter is unavailable' });
+  });
+
+  it('should reject an empty list of UIDs', async () => {
+    const command = new GetPropertiesCommand(mockLogger, mockSoaClient, true, [], ['object_name']);
+    const response = await command.execute();
+
+    expect(response.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
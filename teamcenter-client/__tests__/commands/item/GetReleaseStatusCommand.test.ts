@@ -0,0 +1,124 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { GetReleaseStatusCommand } from '../../../src/commands/item/GetReleaseStatusCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { ErrorType } from '../../../src/tcErrors.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown, policy?: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const releaseStatus = (uid: string, name: string, dateReleased: string, effectivity = '') => ({
+  uid,
+  type: 'ReleaseStatus',
+  props: {
+    name: { dbValues: [name], uiValues: [name] },
+    object_name: { dbValues: [name], uiValues: [name] },
+    date_released: { dbValues: [dateReleased], uiValues: ['15-Mar-2024 10:00'] },
+    effectivity_text: { dbValues: [], uiValues: effectivity ? [effectivity] : [] }
+  }
+});
+
+const releaseStatusResponse = {
+  plain: ['part-uid', 'draft-uid'],
+  modelObjects: {
+    'part-uid': {
+      uid: 'part-uid',
+      type: 'ItemRevision',
+      props: { release_status_list: { dbValues: ['status-1', 'status-2'], uiValues: ['Pending', 'Frozen'] } }
+    },
+    'draft-uid': {
+      uid: 'draft-uid',
+      type: 'ItemRevision',
+      props: { release_status_list: { dbValues: [], uiValues: [] } }
+    },
+    'status-1': releaseStatus('status-1', 'Pending', '2024-03-01T09:00:00+01:00'),
+    'status-2': releaseStatus('status-2', 'Frozen', '2024-03-15T10:00:00+01:00', 'Unit 10 to UP')
+  }
+};
+
+describe('GetReleaseStatusCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should return the release statuses with the category of the site mapping', async () => {
+    mockCallService.mockResolvedValue(releaseStatusResponse);
+
+    const command = new GetReleaseStatusCommand(mockLogger, mockSoaClient, true, ['part-uid', 'draft-uid'], { Frozen: 'Released' });
+    const response = await command.execute();
+
+    expect(mockCallService.mock.calls[0][3]).toEqual({
+      types: [
+        { name: 'WorkspaceObject', properties: [{ name: 'release_status_list', withProperties: true }] },
+        { name: 'ReleaseStatus', properties: ['name', 'object_name', 'date_released', 'effectivity_text'] }
+      ]
+    });
+    expect(response.data).toEqual([
+      {
+        uid: 'part-uid',
+        status: 'Released',
+        releaseStatuses: [
+          { uid: 'status-1', name: 'Pending', displayName: 'Pending', category: 'In Review', dateReleased: '2024-03-01T09:00:00+01:00', effectivity: null },
+          { uid: 'status-2', name: 'Frozen', displayName: 'Frozen', category: 'Released', dateReleased: '2024-03-15T10:00:00+01:00', effectivity: 'Unit 10 to UP' }
+        ]
+      },
+      { uid: 'draft-uid', status: 'In Work', releaseStatuses: [] }
+    ]);
+  });
+
+  it('should report unmapped status names as unknown', async () => {
+    mockCallService.mockResolvedValue(releaseStatusResponse);
+
+    const command = new GetReleaseStatusCommand(mockLogger, mockSoaClient, true, ['part-uid']);
+    const response = await command.execute();
+
+    expect(response.data?.[0].status).toBe('Unknown');
+  });
+
+  it('should fail with the Teamcenter errors of objects that were not returned', async () => {
+    mockCallService.mockResolvedValue({
+      plain: [],
+      modelObjects: {},
+      partialErrors: [{ uid: 'part-uid', errorValues: [{ code: 515024, level: 3, message: 'No read access to part-uid' }] }]
+    });
+
+    const command = new GetReleaseStatusCommand(mockLogger, mockSoaClient, true, ['part-uid']);
+    const response = await command.execute();
+
+    expect(response.error).toMatchObject({ code: 'RELEASE_STATUS_ERROR', message: 'No read access to part-uid', type: ErrorType.ACCESS_DENIED });
+  });
+
+  it('should reject an empty list of UIDs', async () => {
+    const command = new GetReleaseStatusCommand(mockLogger, mockSoaClient, true, []);
+    const response = await command.execute();
+
+    expect(response.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
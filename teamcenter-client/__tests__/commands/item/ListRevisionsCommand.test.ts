@@ -0,0 +1,99 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { ListRevisionsCommand } from '../../../src/commands/item/ListRevisionsCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (value: string) => ({ dbValues: [value], uiValues: [value] });
+
+describe('ListRevisionsCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should return the item with all its revisions in order', async () => {
+    mockCallService
+      .mockResolvedValueOnce({
+        modelObjects: {
+          'item-uid': {
+            uid: 'item-uid',
+            type: 'Item',
+            props: {
+              item_id: prop('000123'),
+              object_name: prop('Bracket'),
+              object_type: prop('Item'),
+              revision_list: { dbValues: ['rev-a', 'rev-b'], uiValues: ['000123/A;1-Bracket', '000123/B;1-Bracket'] }
+            }
+          }
+        }
+      })
+      .mockResolvedValueOnce({
+        modelObjects: {
+          'rev-b': { uid: 'rev-b', type: 'ItemRevision', props: { item_revision_id: prop('B'), release_status_list: { dbValues: [], uiValues: [] } } },
+          'rev-a': { uid: 'rev-a', type: 'ItemRevision', props: { item_revision_id: prop('A'), release_status_list: prop('Released') } }
+        }
+      });
+
+    const command = new ListRevisionsCommand(mockLogger, mockSoaClient, true, 'item-uid');
+    const response = await command.execute();
+
+    expect(response.error).toBeUndefined();
+    expect(response.data?.properties.item_id.value).toBe('000123');
+    expect(response.data?.properties.object_name.displayValue).toBe('Bracket');
+    expect(response.data?.revisions.map(revision => [revision.uid, revision.properties.item_revision_id.value])).toEqual([['rev-a', 'A'], ['rev-b', 'B']]);
+    expect(response.data?.revisions[0].properties.release_status_list.uiValues).toEqual(['Released']);
+    expect(mockCallService).toHaveBeenLastCalledWith(
+      'Core-2006-03-DataManagement',
+      'getProperties',
+      expect.objectContaining({ objects: [{ uid: 'rev-a', type: 'ItemRevision' }, { uid: 'rev-b', type: 'ItemRevision' }] })
+    );
+  });
+
+  it('should not read revisions when the item has none', async () => {
+    mockCallService.mockResolvedValue({
+      modelObjects: { 'item-uid': { uid: 'item-uid', type: 'Item', props: { object_name: prop('Bracket') } } }
+    });
+
+    const command = new ListRevisionsCommand(mockLogger, mockSoaClient, true, 'item-uid');
+    const response = await command.execute();
+
+    expect(response.data?.revisions).toEqual([]);
+    expect(mockCallService).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require an item ID', async () => {
+    const command = new ListRevisionsCommand(mockLogger, mockSoaClient, true, '');
+    const response = await command.execute();
+
+    expect(response.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
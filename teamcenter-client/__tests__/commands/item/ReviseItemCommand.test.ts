@@ -0,0 +1,142 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { ReviseItemCommand } from '../../../src/commands/item/ReviseItemCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+import { PropertyCache } from '../../../src/types.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (value: string) => ({ dbValues: [value], uiValues: [value] });
+
+const baseRevision = {
+  modelObjects: {
+    'rev-a': {
+      uid: 'rev-a',
+      type: 'ItemRevision',
+      props: {
+        items_tag: { dbValues: ['item-uid'], uiValues: ['000123-Bracket'] },
+        object_name: prop('Bracket'),
+        object_desc: prop('Steel bracket'),
+        item_revision_id: prop('A')
+      }
+    }
+  }
+};
+
+// revise2 keys its output by the client ID of the request
+const reviseResponse = (params: unknown) => {
+  const clientId = (params as { info: { clientId: string }[] }).info[0].clientId;
+  return {
+    reviseOutputMap: { [clientId]: { newItemRev: { uid: 'rev-b', type: 'ItemRevision' } } },
+    ServiceData: {
+      created: ['rev-b'],
+      modelObjects: { 'rev-b': { uid: 'rev-b', type: 'ItemRevision', props: { object_name: prop('Bracket') } } }
+    }
+  };
+};
+
+describe('ReviseItemCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should revise with the revision ID generated by Teamcenter', async () => {
+    mockCallService.mockImplementation(async (_service, operation, params) => {
+      switch (operation) {
+        case 'getProperties': return baseRevision;
+        case 'generateRevisionIds': return { outputRevisionIds: [{ newRevId: 'B' }] };
+        case 'revise2': return reviseResponse(params);
+        default: throw new Error(`Unexpected operation ${operation}`);
+      }
+    });
+
+    const command = new ReviseItemCommand(mockLogger, mockSoaClient, true, 'rev-a');
+    const response = await command.execute();
+
+    expect(response.error).toBeUndefined();
+    expect(response.data).toEqual({ uid: 'rev-b', type: 'ItemRevision', properties: { object_name: 'Bracket', item_revision_id: 'B' } });
+    expect(mockCallService).toHaveBeenCalledWith('Core-2007-01-DataManagement', 'generateRevisionIds', {
+      input: [{ item: { uid: 'item-uid', type: 'Item' }, itemType: '' }]
+    });
+    expect(mockCallService).toHaveBeenCalledWith('Core-2008-06-DataManagement', 'revise2', {
+      info: [expect.objectContaining({
+        baseItemRevision: { uid: 'rev-a', type: 'ItemRevision' },
+        newRevId: 'B',
+        name: 'Bracket',
+        description: 'Steel bracket'
+      })]
+    });
+  });
+
+  it('should use the given revision ID', async () => {
+    mockCallService.mockImplementation(async (_service, operation, params) =>
+      operation === 'revise2' ? reviseResponse(params) : baseRevision);
+
+    const command = new ReviseItemCommand(mockLogger, mockSoaClient, true, 'rev-a', 'X1');
+    const response = await command.execute();
+
+    expect(response.data?.properties.item_revision_id).toBe('X1');
+    expect(mockCallService).not.toHaveBeenCalledWith('Core-2007-01-DataManagement', 'generateRevisionIds', expect.anything());
+  });
+
+  it('should drop the cached properties of the base revision and its item', async () => {
+    const cache = { invalidate: jest.fn() } as unknown as PropertyCache;
+    mockCallService.mockImplementation(async (_service, operation, params) =>
+      operation === 'revise2' ? reviseResponse(params) : baseRevision);
+
+    await new ReviseItemCommand(mockLogger, mockSoaClient, true, 'rev-a', 'B', cache).execute();
+
+    expect(cache.invalidate).toHaveBeenCalledWith('rev-a');
+    expect(cache.invalidate).toHaveBeenCalledWith('item-uid');
+    expect(cache.invalidate).toHaveBeenCalledWith('rev-b');
+  });
+
+  it('should fail with the Teamcenter errors when no revision was created', async () => {
+    mockCallService.mockImplementation(async (_service, operation) => operation === 'revise2'
+      ? { reviseOutputMap: {}, ServiceData: { partialErrors: [{ uid: 'rev-a', errorValues: [{ code: 48020, level: 3, message: 'Revision B already exists' }] }] } }
+      : baseRevision);
+
+    const command = new ReviseItemCommand(mockLogger, mockSoaClient, true, 'rev-a', 'B');
+    const response = await command.execute();
+
+    expect(response.error).toMatchObject({ code: 'REVISE_ERROR', message: 'Revision B already exists' });
+  });
+
+  it('should fail when Teamcenter generates no revision ID', async () => {
+    mockCallService.mockImplementation(async (_service, operation) =>
+      operation === 'generateRevisionIds' ? { outputRevisionIds: [] } : baseRevision);
+
+    const command = new ReviseItemCommand(mockLogger, mockSoaClient, true, 'rev-a');
+    const response = await command.execute();
+
+    expect(response.error?.message).toBe('Could not generate a revision ID for item item-uid');
+    expect(mockCallService).not.toHaveBeenCalledWith('Core-2008-06-DataManagement', 'revise2', expect.anything());
+  });
+});
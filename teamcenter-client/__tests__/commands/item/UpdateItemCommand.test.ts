@@ -0,0 +1,82 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { UpdateItemCommand } from '../../../src/commands/item/UpdateItemCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { AppError, ErrorType } from '../../../src/tcErrors.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown, policy?: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+// Operations called on the SOA client, in order
+const operations = () => mockCallService.mock.calls.map(call => call[1]);
+
+describe('UpdateItemCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should check the item out and in around the update', async () => {
+    mockCallService.mockImplementation(async (_service, operation) =>
+      operation === 'setProperties2' ? { updated: ['item-uid'] } : {});
+
+    const command = new UpdateItemCommand(mockLogger, mockSoaClient, true, 'item-uid', { object_desc: 'Bracket' }, null, true);
+    const response = await command.execute();
+
+    expect(operations()).toEqual(['checkout', 'setProperties2', 'checkin']);
+    expect(response.data?.updated.map(object => object.uid)).toEqual(['item-uid']);
+  });
+
+  it('should cancel the checkout when the update fails', async () => {
+    mockCallService.mockImplementation(async (_service, operation) => {
+      if (operation === 'setProperties2') {
+        throw new AppError('Server error: Internal Server Error', ErrorType.API_RESPONSE, null, { status: 500 });
+      }
+      return {};
+    });
+
+    const command = new UpdateItemCommand(mockLogger, mockSoaClient, true, 'item-uid', { object_desc: 'Bracket' }, null, true);
+    const response = await command.execute();
+
+    expect(operations()).toEqual(['checkout', 'setProperties2', 'cancelCheckout']);
+    expect(response.error?.code).toBe('UPDATE_ERROR');
+  });
+
+  it('should not update an item checked out by another user', async () => {
+    mockCallService.mockResolvedValue({
+      partialErrors: [{ uid: 'item-uid', errorValues: [{ code: 32009, level: 3, message: 'item-uid is checked out by jdoe' }] }]
+    });
+
+    const command = new UpdateItemCommand(mockLogger, mockSoaClient, true, 'item-uid', { object_desc: 'Bracket' }, null, true);
+    const response = await command.execute();
+
+    expect(operations()).toEqual(['checkout']);
+    expect(response.error).toMatchObject({ code: 'UPDATE_ERROR', message: 'item-uid is checked out by jdoe', type: ErrorType.OBJECT_LOCKED });
+    expect(response.error?.errorStacks?.[0].uid).toBe('item-uid');
+  });
+});
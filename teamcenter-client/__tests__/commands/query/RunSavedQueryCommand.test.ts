@@ -0,0 +1,119 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { RunSavedQueryCommand } from '../../../src/commands/query/RunSavedQueryCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (...values: string[]) => ({ dbValues: values, uiValues: values });
+
+
+const mockQueryResponses = (uids: string[]) => {
+  mockCallService.mockImplementation(async (_service, operation, params: any) => {
+    if (operation === 'getSavedQueries') {
+      return {
+        queries: [
+          { query: { uid: 'query-item', type: 'ImanQuery' }, name: 'Item...', description: 'Find items' },
+          { query: { uid: 'query-rev', type: 'ImanQuery' }, name: 'Item Revision...', description: 'Find item revisions' }
+        ]
+      };
+    }
+    if (operation === 'executeSavedQueries') {
+      return { arrayOfResults: [{ objectUIDS: uids, numOfObjects: uids.length }] };
+    }
+    return {
+      modelObjects: Object.fromEntries(params.objects.map((object: any) => [
+        object.uid,
+        { uid: object.uid, type: 'ItemRevision', props: { object_name: prop(`Part ${object.uid}`), item_revision_id: prop('A') } }
+      ]))
+    };
+  });
+};
+
+describe('RunSavedQueryCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should execute the query by name and load the requested page', async () => {
+    mockQueryResponses(['r1', 'r2', 'r3', 'r4', 'r5']);
+
+    const command = new RunSavedQueryCommand(mockLogger, mockSoaClient, true, 'Item Revision...', {
+      criteria: { 'Item ID': 'ASM-*', 'Revision': 'A' },
+      startIndex: 2,
+      pageSize: 2
+    });
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data?.totalFound).toBe(5);
+    expect(result.data?.startIndex).toBe(2);
+    expect(result.data?.objects.map(object => object.id)).toEqual(['r3', 'r4']);
+    expect(result.data?.objects[0].name).toBe('Part r3');
+    expect(result.data?.objects[0].properties.item_revision_id).toEqual({ name: 'item_revision_id', value: 'A', displayValue: 'A', dbValues: ['A'], uiValues: ['A'] });
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Query-2008-06-SavedQuery',
+      'executeSavedQueries',
+      {
+        input: [expect.objectContaining({
+          query: { uid: 'query-rev', type: 'ImanQuery' },
+          entries: ['Item ID', 'Revision'],
+          values: ['ASM-*', 'A']
+        })]
+      }
+    );
+  });
+
+  it('should return not found for an unknown query', async () => {
+    mockQueryResponses([]);
+
+    const command = new RunSavedQueryCommand(mockLogger, mockSoaClient, true, 'Dataset...');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('NOT_FOUND');
+    expect(mockCallService).not.toHaveBeenCalledWith('Query-2008-06-SavedQuery', 'executeSavedQueries', expect.anything());
+  });
+
+  it('should return error if page size is out of range', async () => {
+    const command = new RunSavedQueryCommand(mockLogger, mockSoaClient, true, 'Item...', { pageSize: 500 });
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+
+  it('should return error if not logged in', async () => {
+    const command = new RunSavedQueryCommand(mockLogger, mockSoaClient, false, 'Item...');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('NO_SESSION');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
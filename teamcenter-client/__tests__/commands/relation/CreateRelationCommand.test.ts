@@ -0,0 +1,97 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { CreateRelationCommand } from '../../../src/commands/relation/CreateRelationCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { ErrorType } from '../../../src/tcErrors.js';
+import { Logger } from '../../../src/logger.js';
+import { PropertyCache } from '../../../src/types.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+describe('CreateRelationCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should create the relation from the primary to the secondary object', async () => {
+    mockCallService.mockResolvedValue({ output: [{ relation: { uid: 'rel-1', type: 'IMAN_reference' } }] });
+
+    const command = new CreateRelationCommand(mockLogger, mockSoaClient, true, 'rev-1', 'doc-1', 'IMAN_reference');
+    const result = await command.execute();
+
+    expect(result.data).toEqual({
+      uid: 'rel-1',
+      type: 'IMAN_reference',
+      primary: { uid: 'rev-1', type: 'WorkspaceObject' },
+      secondary: { uid: 'doc-1', type: 'WorkspaceObject' }
+    });
+    expect(mockCallService).toHaveBeenCalledWith('Core-2006-03-DataManagement', 'createRelations', {
+      input: [expect.objectContaining({
+        relationType: 'IMAN_reference',
+        primaryObject: { uid: 'rev-1', type: 'WorkspaceObject' },
+        secondaryObject: { uid: 'doc-1', type: 'WorkspaceObject' }
+      })]
+    });
+  });
+
+  it('should drop the cached properties of both objects', async () => {
+    const cache = { invalidate: jest.fn() } as unknown as PropertyCache;
+    mockCallService.mockResolvedValue({ output: [{ relation: { uid: 'rel-1', type: 'IMAN_reference' } }] });
+
+    await new CreateRelationCommand(mockLogger, mockSoaClient, true, 'rev-1', 'doc-1', 'IMAN_reference', cache).execute();
+
+    expect(cache.invalidate).toHaveBeenCalledWith('rev-1');
+    expect(cache.invalidate).toHaveBeenCalledWith('doc-1');
+  });
+
+  it('should fail with the partial errors of a relation that was not created', async () => {
+    mockCallService.mockResolvedValue({
+      output: [],
+      ServiceData: { partialErrors: [{ uid: 'rev-1', errorValues: [{ code: 515024, level: 3, message: 'No write access to rev-1' }] }] }
+    });
+
+    const command = new CreateRelationCommand(mockLogger, mockSoaClient, true, 'rev-1', 'doc-1', 'IMAN_reference');
+    const result = await command.execute();
+
+    expect(result.error).toMatchObject({
+      code: 'RELATION_ERROR',
+      message: 'No write access to rev-1',
+      type: ErrorType.ACCESS_DENIED,
+      errorStacks: [{ uid: 'rev-1', clientId: null, errorValues: [{ code: 515024, level: 3, message: 'No write access to rev-1' }] }]
+    });
+  });
+
+  it('should require both objects and the relation type', async () => {
+    const command = new CreateRelationCommand(mockLogger, mockSoaClient, true, 'rev-1', 'doc-1', '');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { DeleteRelationCommand } from '../../../src/commands/relation/DeleteRelationCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { ErrorType } from '../../../src/tcErrors.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+describe('DeleteRelationCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should delete the relation between the objects', async () => {
+    mockCallService.mockResolvedValue({ deleted: ['rel-1'] });
+
+    const command = new DeleteRelationCommand(mockLogger, mockSoaClient, true, 'rev-1', 'doc-1', 'IMAN_reference');
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(mockCallService).toHaveBeenCalledWith('Core-2006-03-DataManagement', 'deleteRelations', {
+      input: [expect.objectContaining({
+        relationType: 'IMAN_reference',
+        primaryObject: { uid: 'rev-1', type: 'WorkspaceObject' },
+        secondaryObject: { uid: 'doc-1', type: 'WorkspaceObject' }
+      })]
+    });
+  });
+
+  it('should fail with the partial errors of a relation that was not deleted', async () => {
+    mockCallService.mockResolvedValue({
+      partialErrors: [{ uid: 'rev-1', errorValues: [{ code: 32009, level: 3, message: 'rev-1 is checked out by jsmith' }] }]
+    });
+
+    const command = new DeleteRelationCommand(mockLogger, mockSoaClient, true, 'rev-1', 'doc-1', 'IMAN_reference');
+    const result = await command.execute();
+
+    expect(result.error).toMatchObject({ code: 'RELATION_ERROR', message: 'rev-1 is checked out by jsmith', type: ErrorType.OBJECT_LOCKED });
+  });
+});
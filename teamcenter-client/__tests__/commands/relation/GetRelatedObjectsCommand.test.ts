@@ -0,0 +1,121 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { GetRelatedObjectsCommand } from '../../../src/commands/relation/GetRelatedObjectsCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (value: string) => ({ dbValues: [value], uiValues: [value] });
+
+// The revision has a specification and a drawing, which is also attached as rendering
+const expandResponse = {
+  output: [{
+    inputObject: { uid: 'rev-1', type: 'ItemRevision' },
+    relationshipData: [
+      {
+        relationName: 'IMAN_specification',
+        relationshipObjects: [
+          { otherSideObject: { uid: 'spec-1', type: 'Text' }, relation: { uid: 'rel-1', type: 'IMAN_specification' } },
+          { otherSideObject: { uid: 'drawing-1', type: 'PDF' }, relation: { uid: 'rel-2', type: 'IMAN_specification' } }
+        ]
+      },
+      {
+        relationName: 'IMAN_Rendering',
+        relationshipObjects: [
+          { otherSideObject: { uid: 'drawing-1', type: 'PDF' } },
+          { otherSideObject: null }
+        ]
+      }
+    ]
+  }]
+};
+
+const propertiesResponse = {
+  modelObjects: {
+    'spec-1': { uid: 'spec-1', props: { object_string: prop('Specification') } },
+    'drawing-1': { uid: 'drawing-1', props: { object_string: prop('Drawing') } }
+  }
+};
+
+describe('GetRelatedObjectsCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should expand the secondary objects of a primary object with all relation types', async () => {
+    mockCallService.mockResolvedValueOnce(expandResponse).mockResolvedValueOnce(propertiesResponse);
+
+    const command = new GetRelatedObjectsCommand(mockLogger, mockSoaClient, true, 'rev-1');
+    const result = await command.execute();
+
+    expect(result.data).toEqual([
+      { uid: 'spec-1', type: 'Text', name: 'Specification', relationType: 'IMAN_specification', relation: { uid: 'rel-1', type: 'IMAN_specification' } },
+      { uid: 'drawing-1', type: 'PDF', name: 'Drawing', relationType: 'IMAN_specification', relation: { uid: 'rel-2', type: 'IMAN_specification' } },
+      { uid: 'drawing-1', type: 'PDF', name: 'Drawing', relationType: 'IMAN_Rendering', relation: null }
+    ]);
+    expect(mockCallService).toHaveBeenCalledWith('Core-2007-09-DataManagement', 'expandGRMRelationsForPrimary', {
+      primaryObjects: [{ uid: 'rev-1', type: 'WorkspaceObject' }],
+      pref: { expItemRev: false, returnRelations: true, info: [] }
+    });
+    expect((mockCallService.mock.calls[1][2] as any).objects).toEqual([
+      { uid: 'spec-1', type: 'WorkspaceObject' },
+      { uid: 'drawing-1', type: 'WorkspaceObject' }
+    ]);
+  });
+
+  it('should expand the primary objects of a secondary object with the given relation types', async () => {
+    mockCallService.mockResolvedValueOnce({ output: [] });
+
+    const command = new GetRelatedObjectsCommand(mockLogger, mockSoaClient, true, 'drawing-1', ['IMAN_specification', 'IMAN_Rendering'], 'secondary');
+    const result = await command.execute();
+
+    expect(result.data).toEqual([]);
+    expect(mockCallService).toHaveBeenCalledTimes(1);
+    expect(mockCallService).toHaveBeenCalledWith('Core-2007-09-DataManagement', 'expandGRMRelationsForSecondary', {
+      secondaryObjects: [{ uid: 'drawing-1', type: 'WorkspaceObject' }],
+      pref: {
+        expItemRev: false,
+        returnRelations: true,
+        info: [
+          { relationTypeName: 'IMAN_specification', otherSideObjectTypes: [] },
+          { relationTypeName: 'IMAN_Rendering', otherSideObjectTypes: [] }
+        ]
+      }
+    });
+  });
+
+  it('should reject an unknown direction', async () => {
+    const command = new GetRelatedObjectsCommand(mockLogger, mockSoaClient, true, 'rev-1', [], 'both' as any);
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
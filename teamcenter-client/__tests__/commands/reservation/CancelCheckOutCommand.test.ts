@@ -0,0 +1,114 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { CancelCheckOutCommand } from '../../../src/commands/reservation/CancelCheckOutCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { ErrorType } from '../../../src/tcErrors.js';
+import { PropertyCache } from '../../../src/types.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (value: string) => ({ dbValues: [value], uiValues: [value] });
+
+describe('CancelCheckOutCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should cancel the check-out of the objects and return the updated objects', async () => {
+    mockCallService.mockResolvedValue({
+      ServiceData: {
+        updated: ['rev-1', 'rev-2'],
+        modelObjects: {
+          'rev-1': { uid: 'rev-1', type: 'ItemRevision', props: { checked_out: prop('N') } },
+          'rev-2': { uid: 'rev-2', type: 'ItemRevision', props: { checked_out: prop('N') } }
+        }
+      }
+    });
+
+    const command = new CancelCheckOutCommand(mockLogger, mockSoaClient, true, ['rev-1', 'rev-2']);
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data?.updated.map(object => object.uid)).toEqual(['rev-1', 'rev-2']);
+    expect(result.data?.partialErrors).toEqual([]);
+    expect(mockCallService).toHaveBeenCalledWith('Core-2006-03-Reservation', 'cancelCheckout', {
+      objects: [{ uid: 'rev-1', type: 'WorkspaceObject' }, { uid: 'rev-2', type: 'WorkspaceObject' }]
+    });
+  });
+
+  it('should report an object locked by another session as OBJECT_LOCKED', async () => {
+    mockCallService.mockResolvedValue({
+      ServiceData: {
+        partialErrors: [{ uid: 'rev-1', errorValues: [{ code: 515062, level: 3, message: 'rev-1 is locked by another session' }] }]
+      }
+    });
+
+    const command = new CancelCheckOutCommand(mockLogger, mockSoaClient, true, ['rev-1']);
+    const result = await command.execute();
+
+    expect(result.data).toBeUndefined();
+    expect(result.error).toMatchObject({
+      code: 'CHECKOUT_ERROR',
+      message: 'rev-1 is locked by another session',
+      type: ErrorType.OBJECT_LOCKED,
+      errorStacks: [{ uid: 'rev-1', clientId: null, errorValues: [{ code: 515062, level: 3, message: 'rev-1 is locked by another session' }] }]
+    });
+  });
+
+  it('should drop the cached properties of the objects, also when Teamcenter rejects them', async () => {
+    const cache = { invalidate: jest.fn() } as unknown as PropertyCache;
+    mockCallService.mockResolvedValue({
+      ServiceData: {
+        partialErrors: [{ uid: 'rev-1', errorValues: [{ code: 515062, level: 3, message: 'rev-1 is locked by another session' }] }]
+      }
+    });
+
+    const command = new CancelCheckOutCommand(mockLogger, mockSoaClient, true, ['rev-1'], cache);
+    await command.execute();
+
+    expect(cache.invalidate).toHaveBeenCalledWith('rev-1');
+  });
+
+  it('should require UIDs', async () => {
+    const command = new CancelCheckOutCommand(mockLogger, mockSoaClient, true, []);
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+
+  it('should require a session', async () => {
+    const command = new CancelCheckOutCommand(mockLogger, mockSoaClient, false, ['rev-1']);
+    const result = await command.execute();
+
+    expect(result.error).toBeDefined();
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
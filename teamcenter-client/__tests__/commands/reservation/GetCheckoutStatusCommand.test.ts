@@ -0,0 +1,97 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { GetCheckoutStatusCommand } from '../../../src/commands/reservation/GetCheckoutStatusCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { ErrorType } from '../../../src/tcErrors.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown, policy?: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+describe('GetCheckoutStatusCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should return who checked the objects out and when', async () => {
+    mockCallService.mockResolvedValue({
+      plain: ['item-uid', 'other-uid'],
+      modelObjects: {
+        'item-uid': {
+          uid: 'item-uid',
+          type: 'Item',
+          props: {
+            checked_out: { dbValues: ['Y'], uiValues: ['Y'] },
+            checked_out_user: { dbValues: ['user-uid'], uiValues: ['John Doe (jdoe)'] },
+            checked_out_date: { dbValues: ['2024-03-01T10:15:00+01:00'], uiValues: ['01-Mar-2024 10:15'] },
+            checked_out_change_id: { dbValues: [''], uiValues: [''] }
+          }
+        },
+        'other-uid': {
+          uid: 'other-uid',
+          type: 'Item',
+          props: {
+            checked_out: { dbValues: [' '], uiValues: [''] },
+            checked_out_user: { dbValues: [''], uiValues: [''] }
+          }
+        }
+      }
+    });
+
+    const command = new GetCheckoutStatusCommand(mockLogger, mockSoaClient, true, ['item-uid', 'other-uid']);
+    const response = await command.execute();
+
+    expect(mockCallService.mock.calls[0][3]).toEqual({
+      types: [{ name: 'WorkspaceObject', properties: ['checked_out', 'checked_out_user', 'checked_out_date', 'checked_out_change_id'] }]
+    });
+    expect(response.data).toEqual([
+      {
+        uid: 'item-uid',
+        checkedOut: true,
+        checkedOutUser: 'John Doe (jdoe)',
+        checkedOutUserUid: 'user-uid',
+        checkedOutDate: '2024-03-01T10:15:00+01:00',
+        changeId: null
+      },
+      { uid: 'other-uid', checkedOut: false, checkedOutUser: null, checkedOutUserUid: null, checkedOutDate: null, changeId: null }
+    ]);
+  });
+
+  it('should fail with the error of an object that could not be read', async () => {
+    mockCallService.mockResolvedValue({
+      plain: [],
+      modelObjects: {},
+      partialErrors: [{ uid: 'item-uid', errorValues: [{ code: 515024, level: 3, message: 'No read access to item-uid' }] }]
+    });
+
+    const command = new GetCheckoutStatusCommand(mockLogger, mockSoaClient, true, ['item-uid']);
+    const response = await command.execute();
+
+    expect(response.error).toMatchObject({ code: 'CHECKOUT_ERROR', message: 'No read access to item-uid', type: ErrorType.ACCESS_DENIED });
+  });
+});
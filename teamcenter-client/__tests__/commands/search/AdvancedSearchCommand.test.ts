@@ -0,0 +1,156 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { AdvancedSearchCommand } from '../../../src/commands/search/AdvancedSearchCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+
+const filterValue = (stringValue: string, count: number, selected = false) => ({
+  searchFilterType: 'StringFilter',
+  stringValue,
+  count,
+  selected
+});
+
+describe('AdvancedSearchCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should send provider, filters, sorting and paging to the Finder service', async () => {
+    mockCallService.mockResolvedValue({ searchResults: [], totalFound: 0, totalLoaded: 0 });
+
+    const command = new AdvancedSearchCommand(mockLogger, mockSoaClient, true, {
+      searchString: 'bolt',
+      provider: 'Awp0FullTextSearchProvider',
+      filters: {
+        'WorkspaceObject.object_type': ['ItemRevision'],
+        'WorkspaceObject.creation_date': [{ from: '2024-01-01T00:00:00', to: '2024-12-31T23:59:59' }]
+      },
+      sort: [{ field: 'last_mod_date', direction: 'DESC' }],
+      startIndex: 40,
+      limit: 20
+    });
+    await command.execute();
+
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Query-2012-10-Finder',
+      'performSearch',
+      {
+        searchInput: expect.objectContaining({
+          providerName: 'Awp0FullTextSearchProvider',
+          searchCriteria: { searchString: 'bolt' },
+          startIndex: 40,
+          maxToReturn: 20,
+          searchFilterMap: {
+            'WorkspaceObject.object_type': [expect.objectContaining({ searchFilterType: 'StringFilter', stringValue: 'ItemRevision', selected: true })],
+            'WorkspaceObject.creation_date': [expect.objectContaining({
+              searchFilterType: 'DateFilter',
+              startDateValue: '2024-01-01T00:00:00',
+              endDateValue: '2024-12-31T23:59:59'
+            })]
+          },
+          searchSortCriteria: [{ fieldName: 'last_mod_date', sortDirection: 'DESC' }]
+        })
+      }
+    );
+  });
+
+  it('should return facet counts, the total and the next start index', async () => {
+    mockCallService.mockResolvedValue({
+      searchResults: [
+        { uid: 'rev-1', type: 'ItemRevision', properties: { object_name: 'Bolt M6x20' } },
+        { uid: 'rev-2', type: 'ItemRevision', properties: { object_name: 'Bolt M6x25' } }
+      ],
+      totalFound: 5,
+      totalLoaded: 2,
+      searchFilterMap: {
+        'WorkspaceObject.object_type': [filterValue('ItemRevision', 4, true), filterValue('Dataset', 1)],
+        'POM_application_object.owning_user': [filterValue('jdoe', 5)]
+      },
+      searchFilterCategories: [
+        { internalName: 'WorkspaceObject.object_type', displayName: 'Type', defaultFilterValueDisplayCount: 5 }
+      ]
+    });
+
+    const command = new AdvancedSearchCommand(mockLogger, mockSoaClient, true, { searchString: 'bolt', limit: 2 });
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data?.objects.map(object => object.name)).toEqual(['Bolt M6x20', 'Bolt M6x25']);
+    expect(result.data?.totalFound).toBe(5);
+    expect(result.data?.nextStartIndex).toBe(2);
+    expect(result.data?.facets).toEqual([
+      {
+        name: 'WorkspaceObject.object_type',
+        displayName: 'Type',
+        values: [
+          { value: 'ItemRevision', count: 4, selected: true },
+          { value: 'Dataset', count: 1, selected: false }
+        ]
+      },
+      {
+        name: 'POM_application_object.owning_user',
+        displayName: 'POM_application_object.owning_user',
+        values: [{ value: 'jdoe', count: 5, selected: false }]
+      }
+    ]);
+  });
+
+  it('should not return a next start index on the last page', async () => {
+    mockCallService.mockResolvedValue({
+      searchResults: [{ uid: 'rev-5', type: 'ItemRevision', properties: {} }],
+      totalFound: 5,
+      totalLoaded: 1
+    });
+
+    const command = new AdvancedSearchCommand(mockLogger, mockSoaClient, true, { searchString: 'bolt', startIndex: 4 });
+    const result = await command.execute();
+
+    expect(result.data?.nextStartIndex).toBeNull();
+  });
+
+  it('should return error without search string, criteria or filters', async () => {
+    const command = new AdvancedSearchCommand(mockLogger, mockSoaClient, true, {});
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+
+  it('should return error if not logged in', async () => {
+    const command = new AdvancedSearchCommand(mockLogger, mockSoaClient, false, { searchString: 'bolt' });
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('NO_SESSION');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it, jest, beforeEach } from '@jest/globals';
 import { SearchItemsCommand } from '../../../src/commands/search/SearchItemsCommand.js';
 import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
 import { Logger } from '../../../src/logger.js';
 import { TCObject, TCResponse, TCSearchResponse } from '../../../src/types.js';
 import { AppError, ErrorType } from '../../../src/tcErrors.js';
@@ -26,7 +27,10 @@ const mockSoaClient: SOAClient = {
     mockMode: true
   },
   sessionId: 'mock-session-id',
-  callService: mockCallService
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
 };
 
 describe('SearchItemsCommand', () => {
@@ -106,6 +110,66 @@ describe('SearchItemsCommand', () => {
     );
   });
 
+  it('should keep the items of a status category or release status name', async () => {
+    const mockResponse: TCSearchResponse = {
+      objects: [
+        { uid: 'item1', type: 'Item', properties: { object_name: 'Item 1', release_status_list: ['Frozen'] } },
+        { uid: 'item2', type: 'Item', properties: { object_name: 'Item 2', release_status_list: [] } },
+        { uid: 'item3', type: 'Item', properties: { object_name: 'Item 3', release_status_list: ['TCM Released'] } },
+        { uid: 'item4', type: 'Item', properties: { object_name: 'Item 4', release_status_list: ['Released'] } },
+      ],
+      searchResults: [],
+      totalFound: 4,
+      totalLoaded: 4,
+      serviceData: { plain: [], partialErrors: [] },
+    };
+    mockCallService.mockResolvedValue(mockResponse);
+
+    command = new SearchItemsCommand(mockLogger, mockSoaClient, true, 'testQuery', undefined, 2, 'released', { Frozen: 'Released' });
+    const released = await command.execute();
+    command = new SearchItemsCommand(mockLogger, mockSoaClient, true, 'testQuery', undefined, 10, 'Frozen');
+    const frozen = await command.execute();
+
+    expect(released.data?.map(item => item.id)).toEqual(['item1', 'item3']);
+    expect(frozen.data?.map(item => [item.id, item.status])).toEqual([['item1', 'Unknown']]);
+    expect((mockCallService.mock.calls[0][2] as any).searchInput.maxToLoad).toBe(100);
+  });
+
+  it('should keep the items of site statuses mapped to In Work', async () => {
+    mockCallService.mockResolvedValue({
+      objects: [
+        { uid: 'item1', type: 'Item', properties: { object_name: 'Item 1', release_status_list: ['Prototype'] } },
+        { uid: 'item2', type: 'Item', properties: { object_name: 'Item 2', release_status_list: [] } },
+        { uid: 'item3', type: 'Item', properties: { object_name: 'Item 3', release_status_list: ['Released'] } },
+      ],
+      searchResults: [],
+      totalFound: 3,
+      totalLoaded: 3,
+    });
+
+    command = new SearchItemsCommand(mockLogger, mockSoaClient, true, 'testQuery', undefined, 10, 'In Work', { Prototype: 'In Work' });
+    const result = await command.execute();
+
+    expect(result.data?.map(item => [item.id, item.status])).toEqual([['item1', 'In Work'], ['item2', 'In Work']]);
+    expect((mockCallService.mock.calls[0][2] as any).searchInput.searchFilterMap['WorkspaceObject.release_status_list'])
+      .toEqual([expect.objectContaining({ stringValue: '$NONE' }), expect.objectContaining({ stringValue: 'Prototype' })]);
+  });
+
+  it('should search the release statuses of a status on the server', async () => {
+    mockCallService.mockResolvedValue({ objects: [], searchResults: [], totalFound: 0, totalLoaded: 0 });
+    const statusFilter = async (status: string, statusCategories = {}) => {
+      await new SearchItemsCommand(mockLogger, mockSoaClient, true, 'testQuery', 'TypeA', 10, status, statusCategories).execute();
+      const searchFilterMap = (mockCallService.mock.calls[mockCallService.mock.calls.length - 1][2] as any).searchInput.searchFilterMap;
+      expect(searchFilterMap['Item Type']).toEqual([expect.objectContaining({ stringValue: 'TypeA' })]);
+      return searchFilterMap['WorkspaceObject.release_status_list']?.map((filter: any) => filter.stringValue);
+    };
+
+    expect(await statusFilter('released', { Frozen: 'Released' })).toEqual(['Released', 'TCM Released', 'Approved', 'Frozen']);
+    expect(await statusFilter('Frozen')).toEqual(['Frozen']);
+    expect(await statusFilter('In Work', { Prototype: 'In Work' })).toEqual(['$NONE', 'Prototype']);
+    expect(await statusFilter('Unknown')).toBeUndefined();
+  });
+
   it('should return error if not logged in', async () => {
     command = new SearchItemsCommand(mockLogger, mockSoaClient, false, 'testQuery');
     const result = await command.execute();
@@ -0,0 +1,121 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { SetUserSessionStateCommand } from '../../../src/commands/session/SetUserSessionStateCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const reference = (uid: string, name: string) => ({ dbValues: [uid], uiValues: [name] });
+
+const groupMember = (uid: string, group: string, role: string) => ({
+  uid,
+  type: 'GroupMember',
+  props: { group: reference(`group-${group}`, group), role: reference(`role-${role}`, role) }
+});
+
+// The user is an Engineer and a Designer in Engineering, and a Reviewer in Quality
+const mockMemberships = async (_service: string, operation: string): Promise<unknown> => {
+  if (operation === 'getTCSessionInfo') {
+    return {
+      group: { uid: 'group-Engineering', type: 'Group' },
+      role: { uid: 'role-Engineer', type: 'Role' },
+      ServiceData: {
+        modelObjects: {
+          'group-Engineering': { uid: 'group-Engineering', type: 'Group', props: { object_string: { dbValues: ['Engineering'], uiValues: ['Engineering'] } } },
+          'role-Engineer': { uid: 'role-Engineer', type: 'Role', props: { object_string: { dbValues: ['Engineer'], uiValues: ['Engineer'] } } }
+        }
+      }
+    };
+  }
+  if (operation === 'getGroupMembership') {
+    return {
+      groupMembers: [
+        { uid: 'gm-1', type: 'GroupMember' },
+        { uid: 'gm-2', type: 'GroupMember' },
+        { uid: 'gm-3', type: 'GroupMember' }
+      ]
+    };
+  }
+  if (operation === 'getProperties') {
+    return {
+      modelObjects: {
+        'gm-1': groupMember('gm-1', 'Engineering', 'Engineer'),
+        'gm-2': groupMember('gm-2', 'Engineering', 'Designer'),
+        'gm-3': groupMember('gm-3', 'Quality', 'Reviewer')
+      }
+    };
+  }
+  return {};
+};
+
+describe('SetUserSessionStateCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+    mockCallService.mockImplementation(mockMemberships);
+  });
+
+  it('should switch the role within the current group', async () => {
+    const command = new SetUserSessionStateCommand(mockLogger, mockSoaClient, true, undefined, 'designer');
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toEqual({ groupId: 'group-Engineering', groupName: 'Engineering', roleId: 'role-Designer', roleName: 'Designer' });
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Core-2006-03-Session',
+      'setSessionGroupMember',
+      { groupMember: { uid: 'gm-2', type: 'GroupMember' } }
+    );
+  });
+
+  it('should switch to another group without reading the current one', async () => {
+    const command = new SetUserSessionStateCommand(mockLogger, mockSoaClient, true, 'Quality');
+    const result = await command.execute();
+
+    expect(result.data?.roleName).toBe('Reviewer');
+    expect(mockCallService).not.toHaveBeenCalledWith('Core-2007-01-Session', 'getTCSessionInfo', {});
+  });
+
+  it('should list the available memberships when the user is not a member', async () => {
+    const command = new SetUserSessionStateCommand(mockLogger, mockSoaClient, true, 'Quality', 'Designer');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('SESSION_STATE_ERROR');
+    expect(result.error?.message).toContain('Engineering/Designer, Quality/Reviewer');
+    expect(mockCallService).not.toHaveBeenCalledWith('Core-2006-03-Session', 'setSessionGroupMember', expect.anything());
+  });
+
+  it('should require a group or a role', async () => {
+    const command = new SetUserSessionStateCommand(mockLogger, mockSoaClient, true);
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
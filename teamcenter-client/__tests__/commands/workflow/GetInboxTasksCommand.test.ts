@@ -0,0 +1,125 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { GetInboxTasksCommand } from '../../../src/commands/workflow/GetInboxTasksCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (...values: string[]) => ({ dbValues: values, uiValues: values });
+
+const mockInboxResponses = (tasks: string[]) => {
+  mockCallService.mockImplementation(async (_service, operation, params: any) => {
+    if (operation === 'getTCSessionInfo') {
+      return { user: { uid: 'user-1', type: 'User' } };
+    }
+    if (params.attributes.includes('taskinbox')) {
+      return { modelObjects: { 'user-1': { uid: 'user-1', props: { taskinbox: prop('inbox-1') } } } };
+    }
+    if (params.attributes.includes('tasks_to_perform')) {
+      return { modelObjects: { 'inbox-1': { uid: 'inbox-1', props: { tasks_to_perform: prop(...tasks) } } } };
+    }
+    return {
+      modelObjects: {
+        'task-1': {
+          uid: 'task-1',
+          type: 'EPMPerformSignoffTask',
+          props: {
+            object_name: prop('Review'),
+            task_state: prop('Started'),
+            parent_process: prop('Change Approval'),
+            resp_party: prop('jdoe'),
+            due_date: prop(''),
+            root_target_attachments: { dbValues: ['rev-1', 'rev-2'], uiValues: ['ASM-001/A', 'BLT-006/B'] }
+          }
+        }
+      }
+    };
+  });
+};
+
+describe('GetInboxTasksCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should return the tasks to perform of the session user', async () => {
+    mockInboxResponses(['task-1']);
+
+    const command = new GetInboxTasksCommand(mockLogger, mockSoaClient, true);
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toEqual([{
+      uid: 'task-1',
+      type: 'EPMPerformSignoffTask',
+      name: 'Review',
+      description: '',
+      state: 'Started',
+      process: 'Change Approval',
+      responsibleParty: 'jdoe',
+      dueDate: null,
+      targets: ['rev-1', 'rev-2'],
+      properties: expect.objectContaining({ task_state: expect.objectContaining({ value: 'Started', dbValues: ['Started'] }) })
+    }]);
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Core-2006-03-DataManagement',
+      'getProperties',
+      { objects: [{ uid: 'user-1', type: 'User' }], attributes: ['taskinbox'] }
+    );
+  });
+
+  it('should return an empty list without loading tasks when the inbox is empty', async () => {
+    mockInboxResponses([]);
+
+    const command = new GetInboxTasksCommand(mockLogger, mockSoaClient, true);
+    const result = await command.execute();
+
+    expect(result.data).toEqual([]);
+    expect(mockCallService).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return error if the session user cannot be resolved', async () => {
+    mockCallService.mockResolvedValue({});
+
+    const command = new GetInboxTasksCommand(mockLogger, mockSoaClient, true);
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('WORKFLOW_ERROR');
+    expect(result.error?.message).toContain('Could not retrieve current user UID');
+  });
+
+  it('should return error if not logged in', async () => {
+    const command = new GetInboxTasksCommand(mockLogger, mockSoaClient, false);
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('NO_SESSION');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { ListProcessTemplatesCommand } from '../../../src/commands/workflow/ListProcessTemplatesCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (value: string) => ({ dbValues: [value], uiValues: [value] });
+
+describe('ListProcessTemplatesCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should return the templates for the target types with their names', async () => {
+    mockCallService
+      .mockResolvedValueOnce({
+        templatesOutput: [{ workflowTemplates: [{ uid: 'template-1', type: 'EPMTaskTemplate' }, { uid: 'template-2', type: 'EPMTaskTemplate' }] }]
+      })
+      .mockResolvedValueOnce({
+        modelObjects: {
+          'template-1': { uid: 'template-1', props: { template_name: prop('TCM Release Process'), object_desc: prop('Release with review') } },
+          'template-2': { uid: 'template-2', props: { template_name: prop('Fast Track') } }
+        }
+      });
+
+    const command = new ListProcessTemplatesCommand(mockLogger, mockSoaClient, true, ['ItemRevision']);
+    const result = await command.execute();
+
+    expect(result.data).toEqual([
+      { uid: 'template-1', name: 'TCM Release Process', description: 'Release with review' },
+      { uid: 'template-2', name: 'Fast Track', description: '' }
+    ]);
+    expect(mockCallService).toHaveBeenCalledWith('Workflow-2013-05-Workflow', 'getWorkflowTemplates', {
+      input: [expect.objectContaining({ getFiltered: true, objectTypes: ['ItemRevision'], includeUnderConstruction: false })]
+    });
+  });
+
+  it('should not filter or load names when there are no templates', async () => {
+    mockCallService.mockResolvedValue({ templatesOutput: [{ workflowTemplates: [] }] });
+
+    const command = new ListProcessTemplatesCommand(mockLogger, mockSoaClient, true);
+    const result = await command.execute();
+
+    expect(result.data).toEqual([]);
+    expect((mockCallService.mock.calls[0][2] as any).input[0].getFiltered).toBe(false);
+    expect(mockCallService).toHaveBeenCalledTimes(1);
+  });
+});
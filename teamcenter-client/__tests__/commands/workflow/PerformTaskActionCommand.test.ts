@@ -0,0 +1,145 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { PerformTaskActionCommand } from '../../../src/commands/workflow/PerformTaskActionCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const prop = (...values: string[]) => ({ dbValues: values, uiValues: values });
+
+// A review task with one signoff per reviewer; jdoe (user-1) is the session user
+const mockTaskResponses = (signoffs: string[] = ['signoff-2', 'signoff-1']) => {
+  mockCallService.mockImplementation(async (_service, operation, params: any) => {
+    if (operation === 'getTCSessionInfo') {
+      return { user: { uid: 'user-1', type: 'User' } };
+    }
+    if (operation === 'performAction') {
+      return { updated: ['task-1'] };
+    }
+    if (params.attributes.includes('signoff_attachments')) {
+      return {
+        modelObjects: {
+          'task-1': { uid: 'task-1', props: { signoff_attachments: prop(...signoffs) } },
+          'signoff-1': { uid: 'signoff-1', props: { group_member: prop('member-1') } },
+          'signoff-2': { uid: 'signoff-2', props: { group_member: prop('member-2') } },
+          'member-1': { uid: 'member-1', props: { user: prop('user-1') } },
+          'member-2': { uid: 'member-2', props: { user: prop('user-2') } }
+        }
+      };
+    }
+    return {
+      modelObjects: {
+        'task-1': {
+          uid: 'task-1',
+          type: 'EPMPerformSignoffTask',
+          props: { object_name: prop('Review'), task_state: prop('Completed'), parent_process: prop('Change Approval') }
+        }
+      }
+    };
+  });
+};
+
+describe('PerformTaskActionCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should record the decision on the signoff of the session user', async () => {
+    mockTaskResponses();
+
+    const command = new PerformTaskActionCommand(mockLogger, mockSoaClient, true, 'task-1', 'approve', 'Looks good');
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(result.data).toMatchObject({ uid: 'task-1', state: 'Completed' });
+    expect(mockCallService).toHaveBeenCalledWith('Workflow-2006-03-Workflow', 'performAction', {
+      actionableObject: { uid: 'task-1', type: 'EPMTask' },
+      action: 'SOA_EPM_perform_action',
+      comments: 'Looks good',
+      password: '',
+      supportingValue: 'SOA_EPM_approve',
+      supportingObject: { uid: 'signoff-1', type: 'Signoff' }
+    });
+  });
+
+  it('should fail when the session user has no signoff on the task', async () => {
+    mockTaskResponses(['signoff-2']);
+
+    const command = new PerformTaskActionCommand(mockLogger, mockSoaClient, true, 'task-1', 'reject');
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('WORKFLOW_ERROR');
+    expect(result.error?.message).toBe('The current user has no signoff on task task-1 to reject');
+    expect(mockCallService).not.toHaveBeenCalledWith('Workflow-2006-03-Workflow', 'performAction', expect.anything());
+  });
+
+  it('should complete a task without a signoff', async () => {
+    mockTaskResponses([]);
+
+    const command = new PerformTaskActionCommand(mockLogger, mockSoaClient, true, 'task-1', 'complete');
+    const result = await command.execute();
+
+    expect(result.error).toBeUndefined();
+    expect(mockCallService).toHaveBeenCalledWith(
+      'Workflow-2006-03-Workflow',
+      'performAction',
+      expect.objectContaining({ action: 'SOA_EPM_complete_action', supportingValue: 'SOA_EPM_completed', supportingObject: null })
+    );
+    expect(mockCallService).not.toHaveBeenCalledWith('Core-2007-01-Session', 'getTCSessionInfo', expect.anything());
+  });
+
+  it('should fail with the Teamcenter errors of a rejected action', async () => {
+    mockTaskResponses();
+    mockCallService.mockImplementationOnce(async () => ({ user: { uid: 'user-1', type: 'User' } }))
+      .mockImplementationOnce(async () => ({
+        modelObjects: {
+          'task-1': { uid: 'task-1', props: { signoff_attachments: prop('signoff-1') } },
+          'signoff-1': { uid: 'signoff-1', props: { group_member: prop('member-1') } },
+          'member-1': { uid: 'member-1', props: { user: prop('user-1') } }
+        }
+      }))
+      .mockImplementationOnce(async () => ({
+        partialErrors: [{ uid: 'task-1', errorValues: [{ code: 515024, level: 3, message: 'The task has already been completed' }] }]
+      }));
+
+    const command = new PerformTaskActionCommand(mockLogger, mockSoaClient, true, 'task-1', 'approve');
+    const result = await command.execute();
+
+    expect(result.error?.message).toBe('The task has already been completed');
+  });
+
+  it('should reject an unknown action', async () => {
+    const command = new PerformTaskActionCommand(mockLogger, mockSoaClient, true, 'task-1', 'delegate' as any);
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { StartWorkflowCommand } from '../../../src/commands/workflow/StartWorkflowCommand.js';
+import { SOAClient } from '../../../src/tcSOAClient.js';
+import { createSessionStore } from '../../../src/tcUtils.js';
+import { ErrorType } from '../../../src/tcErrors.js';
+import { Logger } from '../../../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+describe('StartWorkflowCommand', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should start the process with the targets attached', async () => {
+    mockCallService.mockResolvedValue({ instance: { uid: 'job-1', type: 'EPMJob' } });
+
+    const command = new StartWorkflowCommand(mockLogger, mockSoaClient, true, 'TCM Release Process', ['rev-1', 'rev-2'], 'Release bracket');
+    const result = await command.execute();
+
+    expect(result.data).toEqual({ uid: 'job-1', type: 'EPMJob', name: 'Release bracket', template: 'TCM Release Process', targets: ['rev-1', 'rev-2'] });
+    expect(mockCallService).toHaveBeenCalledWith('Workflow-2008-06-Workflow', 'createInstance', expect.objectContaining({
+      startImmediately: true,
+      name: 'Release bracket',
+      contextData: expect.objectContaining({
+        processTemplate: 'TCM Release Process',
+        attachmentCount: 2,
+        attachments: ['rev-1', 'rev-2'],
+        attachmentTypes: [1, 1]
+      })
+    }));
+  });
+
+  it('should fail with the Teamcenter errors when no process was created', async () => {
+    mockCallService.mockResolvedValue({
+      ServiceData: { partialErrors: [{ uid: 'rev-1', errorValues: [{ code: 32009, level: 3, message: 'rev-1 is checked out' }] }] }
+    });
+
+    const command = new StartWorkflowCommand(mockLogger, mockSoaClient, true, 'TCM Release Process', ['rev-1']);
+    const result = await command.execute();
+
+    expect(result.error).toMatchObject({ code: 'WORKFLOW_ERROR', message: 'rev-1 is checked out', type: ErrorType.OBJECT_LOCKED });
+  });
+
+  it('should require a template and a target', async () => {
+    const command = new StartWorkflowCommand(mockLogger, mockSoaClient, true, 'TCM Release Process', []);
+    const result = await command.execute();
+
+    expect(result.error?.code).toBe('INVALID_PARAMETER');
+    expect(mockCallService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it, jest, beforeEach, afterAll } from '@jest/globals';
+import { createSSOAuthenticator, createSessionCookieAuthenticator } from '../src/tcAuthenticators.js';
+import { createSOAClient } from '../src/tcSOAClient.js';
+import { Logger } from '../src/logger.js';
+import { TCSSOTokenProvider } from '../src/types.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Mock fetch so that the real API implementation can be exercised
+const originalFetch = global.fetch;
+const mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const unauthorized = () => new Response('Session expired', { status: 401, statusText: 'Unauthorized' });
+
+const requestBody = (call: number) => JSON.parse(mockFetch.mock.calls[call][1]?.body as string);
+
+const config = { endpoint: 'https://teamcenter.example.com/tc' };
+
+describe('Authenticators', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('SSO authenticator', () => {
+    it('should log in with a token exchanged for the application ID', async () => {
+      const tokenProvider = jest.fn(() => ({ username: 'jdoe', token: 'sso-token' })) as jest.MockedFunction<TCSSOTokenProvider>;
+      mockFetch.mockResolvedValueOnce(jsonResponse(
+        { serverInfo: { UserID: 'jdoe', TcServerID: 'server-1' } },
+        200,
+        { 'Set-Cookie': 'JSESSIONID=sso-session; Path=/tc' }
+      ));
+
+      const client = createSOAClient(config, null, mockLogger);
+      const response = await createSSOAuthenticator('TC_WEB', tokenProvider)(mockLogger, client);
+
+      expect(tokenProvider).toHaveBeenCalledWith('TC_WEB');
+      expect(mockFetch.mock.calls[0][0]).toBe('https://teamcenter.example.com/tc/Core-2011-06-Session/loginSSO');
+      expect(requestBody(0).body.credentials).toMatchObject({ user: 'jdoe', password: 'sso-token' });
+      expect(response.data?.userId).toBe('jdoe');
+      expect(client.sessionId).toBe('sso-session');
+    });
+
+    it('should log in to the group, role and locale of the token', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(
+        { serverInfo: { UserID: 'jdoe', TcServerID: 'server-1' } },
+        200,
+        { 'Set-Cookie': 'JSESSIONID=sso-session; Path=/tc' }
+      ));
+
+      const client = createSOAClient(config, null, mockLogger);
+      await createSSOAuthenticator('TC_WEB', () => ({
+        username: 'jdoe',
+        token: 'sso-token',
+        group: 'Engineering',
+        role: 'Designer',
+        locale: 'de_DE'
+      }))(mockLogger, client);
+
+      expect(requestBody(0).body.credentials).toMatchObject({ group: 'Engineering', role: 'Designer', locale: 'de_DE' });
+    });
+
+    it('should be used to re-authenticate when the session is rejected', async () => {
+      const tokenProvider = jest.fn(() => ({ username: 'jdoe', token: 'fresh-token' })) as jest.MockedFunction<TCSSOTokenProvider>;
+      mockFetch
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(jsonResponse(
+          { serverInfo: { UserID: 'jdoe', TcServerID: 'server-2' } },
+          200,
+          { 'Set-Cookie': 'JSESSIONID=new-session; Path=/tc' }
+        ))
+        .mockResolvedValueOnce(jsonResponse({ userName: 'jdoe' }));
+
+      const authenticator = createSSOAuthenticator('TC_WEB', tokenProvider);
+      const client = createSOAClient({ ...config, authenticator }, 'old-session', mockLogger);
+      const result = await client.callService('Core-2007-01-Session', 'getTCSessionInfo', {});
+
+      expect(result).toEqual({ userName: 'jdoe' });
+      expect(mockFetch.mock.calls[1][0]).toBe('https://teamcenter.example.com/tc/Core-2011-06-Session/loginSSO');
+      expect((mockFetch.mock.calls[2][1]?.headers as Record<string, string>).Cookie).toBe('JSESSIONID=new-session');
+    });
+
+    it('should report a rejected token', async () => {
+      mockFetch.mockResolvedValueOnce(unauthorized());
+
+      const client = createSOAClient(config, null, mockLogger);
+      const response = await createSSOAuthenticator('TC_WEB', () => ({ username: 'jdoe', token: 'expired' }))(mockLogger, client);
+
+      expect(response.error?.code).toBe('INVALID_SSO_TOKEN');
+    });
+  });
+
+  describe('Session cookie authenticator', () => {
+    it('should send the pre-issued cookie and read the user of the session', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        user: { uid: 'user-uid', type: 'User' },
+        ServiceData: {
+          modelObjects: {
+            'user-uid': {
+              uid: 'user-uid',
+              type: 'User',
+              props: {
+                user_id: { dbValues: ['jdoe'], uiValues: ['jdoe'] },
+                user_name: { dbValues: ['John Doe'], uiValues: ['John Doe'] }
+              }
+            }
+          }
+        }
+      }));
+
+      const client = createSOAClient(config, null, mockLogger);
+      const response = await createSessionCookieAuthenticator({ name: 'JSESSIONID', value: 'portal-session' })(mockLogger, client);
+
+      expect((mockFetch.mock.calls[0][1]?.headers as Record<string, string>).Cookie).toBe('JSESSIONID=portal-session');
+      expect(response.data).toMatchObject({ sessionId: 'portal-session', userId: 'jdoe', userName: 'John Doe' });
+      expect(client.sessionId).toBe('portal-session');
+    });
+
+    it('should drop a rejected cookie', async () => {
+      mockFetch.mockResolvedValueOnce(unauthorized());
+
+      const client = createSOAClient(config, null, mockLogger);
+      const response = await createSessionCookieAuthenticator({ name: 'JSESSIONID', value: 'expired' })(mockLogger, client);
+
+      expect(response.error?.code).toBe('INVALID_SESSION');
+      expect(client.sessionId).toBeNull();
+      expect(client.sessionStore.getCookie()).toBeNull();
+    });
+  });
+});
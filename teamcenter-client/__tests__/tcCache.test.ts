@@ -0,0 +1,157 @@
+import { describe, expect, it, jest, beforeEach, afterEach } from '@jest/globals';
+import { createPropertyCache } from '../src/tcCache.js';
+import { GetItemByIdCommand } from '../src/commands/item/GetItemByIdCommand.js';
+import { GetItemTypesCommand } from '../src/commands/item/GetItemTypesCommand.js';
+import { UpdateItemCommand } from '../src/commands/item/UpdateItemCommand.js';
+import { SOAClient } from '../src/tcSOAClient.js';
+import { createSessionStore } from '../src/tcUtils.js';
+import { Logger } from '../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const ITEM_PROPERTIES = [
+  'object_name', 'object_desc', 'object_string', 'item_id', 'item_revision_id', 'release_status_list',
+  'owning_user', 'creation_date', 'last_mod_date', 'items_tag', 'revision_list', 'fnd0_master_form'
+];
+
+const itemResponse = (name: string) => ({
+  plain: ['item-uid'],
+  modelObjects: {
+    'item-uid': {
+      uid: 'item-uid',
+      type: 'Item',
+      className: 'Item',
+      props: Object.fromEntries(ITEM_PROPERTIES.map(property => [
+        property,
+        { dbValues: [property === 'object_name' ? name : property], uiValues: [property === 'object_name' ? name : property] }
+      ]))
+    }
+  }
+});
+
+describe('Property cache', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('createPropertyCache', () => {
+    it('should evict the least recently used entry when full', () => {
+      const cache = createPropertyCache({ maxEntries: 2 }, mockLogger);
+
+      cache.set('a', 'object_name', 'Item', 'A');
+      cache.set('b', 'object_name', 'Item', 'B');
+      cache.get('a', 'object_name');
+      cache.set('c', 'object_name', 'Item', 'C');
+
+      expect(cache.get('a', 'object_name')).toBe('A');
+      expect(cache.get('b', 'object_name')).toBeUndefined();
+      expect(cache.get('c', 'object_name')).toBe('C');
+      expect(cache.getStatus()).toMatchObject({ entries: 2, evictions: 1, hits: 3, misses: 1 });
+    });
+
+    it('should expire entries after the time to live of their type', () => {
+      jest.useFakeTimers();
+      const cache = createPropertyCache({ ttl: 1000, typeTtl: { ImanType: 60000, User: 0 } }, mockLogger);
+
+      cache.set('item-uid', 'object_name', 'Item', 'Bracket');
+      cache.set('ImanType:Item', 'typeDescriptions', 'ImanType', { types: [] });
+      cache.set('user-uid', 'user_id', 'User', 'jdoe');
+      jest.advanceTimersByTime(1000);
+
+      expect(cache.get('item-uid', 'object_name')).toBeUndefined();
+      expect(cache.get('ImanType:Item', 'typeDescriptions')).toEqual({ types: [] });
+      expect(cache.get('user-uid', 'user_id')).toBeUndefined();
+    });
+
+    it('should drop all properties of an invalidated object', () => {
+      const cache = createPropertyCache({}, mockLogger);
+
+      cache.set('item-uid', 'object_name', 'Item', 'Bracket');
+      cache.set('item-uid', 'object_string', 'Item', '000123-Bracket');
+      cache.set('other-uid', 'object_name', 'Item', 'Plate');
+      cache.invalidate('item-uid');
+
+      expect(cache.get('item-uid', 'object_name')).toBeUndefined();
+      expect(cache.get('item-uid', 'object_string')).toBeUndefined();
+      expect(cache.get('other-uid', 'object_name')).toBe('Plate');
+    });
+  });
+
+  describe('Commands', () => {
+    it('should serve a cached item until it is refreshed', async () => {
+      const cache = createPropertyCache({}, mockLogger);
+      mockCallService
+        .mockResolvedValueOnce(itemResponse('Bracket'))
+        .mockResolvedValueOnce(itemResponse('Bracket v2'));
+
+      await new GetItemByIdCommand(mockLogger, mockSoaClient, true, 'item-uid', cache).execute();
+      const cached = await new GetItemByIdCommand(mockLogger, mockSoaClient, true, 'item-uid', cache).execute();
+      const refreshed = await new GetItemByIdCommand(mockLogger, mockSoaClient, true, 'item-uid', cache, true).execute();
+
+      expect(mockCallService).toHaveBeenCalledTimes(2);
+      expect(cached.data).toMatchObject({ uid: 'item-uid', type: 'Item', properties: { object_name: { uiValues: ['Bracket'] } } });
+      expect(refreshed.data?.properties.object_name.uiValues).toEqual(['Bracket v2']);
+    });
+
+    it('should read an updated item and the objects updated with it again', async () => {
+      const cache = createPropertyCache({}, mockLogger);
+      cache.set('revision-uid', 'object_name', 'ItemRevision', 'Bracket');
+      mockCallService
+        .mockResolvedValueOnce(itemResponse('Bracket'))
+        .mockResolvedValueOnce({ updated: ['item-uid', 'revision-uid'] })
+        .mockResolvedValueOnce(itemResponse('Renamed'));
+
+      await new GetItemByIdCommand(mockLogger, mockSoaClient, true, 'item-uid', cache).execute();
+      await new UpdateItemCommand(mockLogger, mockSoaClient, true, 'item-uid', { object_name: 'Renamed' }, cache).execute();
+      const response = await new GetItemByIdCommand(mockLogger, mockSoaClient, true, 'item-uid', cache).execute();
+
+      expect(mockCallService).toHaveBeenCalledTimes(3);
+      expect(response.data?.properties.object_name.uiValues).toEqual(['Renamed']);
+      expect(cache.get('revision-uid', 'object_name')).toBeUndefined();
+    });
+
+    it('should cache the type descriptions', async () => {
+      const cache = createPropertyCache({ ttl: 0, typeTtl: { ImanType: 3600000 } }, mockLogger);
+      mockCallService.mockResolvedValue({ types: [{ name: 'Item' }, { name: 'Document' }] });
+
+      await new GetItemTypesCommand(mockLogger, mockSoaClient, true, cache).execute();
+      const response = await new GetItemTypesCommand(mockLogger, mockSoaClient, true, cache).execute();
+
+      expect(mockCallService).toHaveBeenCalledTimes(1);
+      expect(response.data).toEqual([
+        { name: 'Item', displayName: 'Item', parentTypeName: '' },
+        { name: 'Document', displayName: 'Document', parentTypeName: '' }
+      ]);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from '@jest/globals';
-import { AppError, ErrorType, handleApiError, handleDataError, handleAuthError, handleNetworkError } from '../src/tcErrors.js';
+import { AppError, ErrorType, handleApiError, handleDataError, handleAuthError, handleNetworkError, createTeamcenterError, toTCError } from '../src/tcErrors.js';
 
 describe('tcErrors', () => {
   describe('AppError', () => {
@@ -100,4 +100,64 @@ describe('tcErrors', () => {
       expect(networkError).toBe(originalError);
     });
   });
+
+  describe('Teamcenter errors', () => {
+    const errorStacks = [
+      {
+        uid: 'item-uid',
+        clientId: 'update-1',
+        errorValues: [
+          { code: 214018, level: 3, message: 'Failed to save item-uid' },
+          { code: 32009, level: 3, message: 'item-uid is checked out by jdoe' }
+        ]
+      },
+      { uid: 'form-uid', clientId: null, errorValues: [{ code: 515024, level: 3, message: 'No write access to form-uid' }] }
+    ];
+
+    it('createTeamcenterError should type the error after the first known code', () => {
+      const error = createTeamcenterError(errorStacks, 'Failed to update item', { method: 'updateItem' });
+
+      expect(error.type).toBe(ErrorType.OBJECT_LOCKED);
+      expect(error.message).toBe('Failed to save item-uid; No write access to form-uid');
+      expect(error.errorStacks).toBe(errorStacks);
+      expect(error.context).toEqual({ method: 'updateItem' });
+    });
+
+    it('createTeamcenterError should use the fallback message without error stacks', () => {
+      const error = createTeamcenterError([], 'Failed to update item');
+
+      expect(error.type).toBe(ErrorType.API_RESPONSE);
+      expect(error.message).toBe('Failed to update item');
+    });
+
+    it('toTCError should only add the type and error stacks of Teamcenter errors', () => {
+      expect(toTCError(createTeamcenterError(errorStacks, 'Failed'), 'UPDATE_ERROR', 'Failed')).toEqual({
+        code: 'UPDATE_ERROR',
+        level: 'ERROR',
+        message: 'Failed to save item-uid; No write access to form-uid',
+        type: ErrorType.OBJECT_LOCKED,
+        errorStacks
+      });
+      expect(toTCError(new AppError('Timeout', ErrorType.API_TIMEOUT, null), 'UPDATE_ERROR', 'Failed')).toEqual({
+        code: 'UPDATE_ERROR',
+        level: 'ERROR',
+        message: 'Timeout'
+      });
+      expect(toTCError('unexpected', 'UPDATE_ERROR', 'Failed').message).toBe('Failed');
+    });
+
+    it('toTCError should take the error stacks and message of a failed response', () => {
+      const responseError = (data: any) => new AppError('Request failed', ErrorType.API_RESPONSE, Object.assign(new Error('Request failed'), { response: { data } }));
+
+      expect(toTCError(responseError({ ServiceData: { partialErrors: errorStacks } }), 'UPDATE_ERROR', 'Failed')).toEqual({
+        code: 'UPDATE_ERROR',
+        level: 'ERROR',
+        message: 'Failed to save item-uid; No write access to form-uid',
+        type: ErrorType.OBJECT_LOCKED,
+        errorStacks
+      });
+      expect(toTCError(responseError({ message: 'Invalid query' }), 'UPDATE_ERROR', 'Failed').message).toBe('Invalid query');
+      expect(toTCError(responseError({}), 'UPDATE_ERROR', 'Failed').message).toBe('Request failed');
+    });
+  });
 });
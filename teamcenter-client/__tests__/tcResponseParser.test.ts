@@ -0,0 +1,266 @@
+import { describe, expect, it, jest, beforeEach } from '@jest/globals';
+import { convertToTCObject, getErrorStacks, getStatusCategory, isServiceDataResponse, parseFavorites, parseJSONResponse, parseServiceData, parseSessionInfo } from '../src/tcResponseParser.js';
+import { GetItemByIdCommand } from '../src/commands/item/GetItemByIdCommand.js';
+import { UpdateItemCommand } from '../src/commands/item/UpdateItemCommand.js';
+import { SOAClient } from '../src/tcSOAClient.js';
+import { createSessionStore } from '../src/tcUtils.js';
+import { ErrorType } from '../src/tcErrors.js';
+import { Logger } from '../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Create a properly typed mock function for callService
+type CallServiceType = (service: string, operation: string, params: unknown, policy?: unknown) => Promise<unknown>;
+const mockCallService = jest.fn() as jest.MockedFunction<CallServiceType>;
+
+// Mock SOAClient
+const mockSoaClient: SOAClient = {
+  config: {
+    endpoint: 'https://mock-teamcenter-server.com',
+    mockMode: true
+  },
+  sessionId: 'mock-session-id',
+  callService: mockCallService,
+  downloadFile: jest.fn() as jest.MockedFunction<SOAClient['downloadFile']>,
+  uploadFile: jest.fn() as jest.MockedFunction<SOAClient['uploadFile']>,
+  sessionStore: createSessionStore()
+};
+
+const serviceData = {
+  plain: ['item-uid'],
+  updated: ['item-uid', { uid: 'revision-uid', type: 'ItemRevision' }],
+  deleted: ['dataset-uid'],
+  modelObjects: {
+    'item-uid': {
+      uid: 'item-uid',
+      type: 'Item',
+      className: 'Item',
+      props: {
+        object_name: { dbValues: ['Bracket'], uiValues: ['Bracket'] },
+        owning_user: { dbValues: ['user-uid'], uiValues: ['John Doe (jdoe)'], isModifiable: false },
+        revision_list: { dbValues: ['revision-uid', 'revision-2-uid'], uiValues: ['000123/A', '000123/B'] }
+      }
+    }
+  },
+  partialErrors: [
+    { uid: 'form-uid', errorValues: [{ code: 515024, level: 3, message: 'No write access to form-uid' }] }
+  ]
+};
+
+describe('tcResponseParser', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  describe('parseServiceData', () => {
+    it('should resolve the listed objects and decode their properties', () => {
+      const result = parseServiceData({ output: [], ServiceData: serviceData });
+
+      expect(result.plain).toEqual([result.modelObjects['item-uid']]);
+      expect(result.modelObjects['item-uid'].properties.owning_user).toEqual({
+        name: 'owning_user',
+        value: 'user-uid',
+        displayValue: 'John Doe (jdoe)',
+        dbValues: ['user-uid'],
+        uiValues: ['John Doe (jdoe)'],
+        isModifiable: false
+      });
+      expect(result.modelObjects['item-uid'].properties.revision_list.dbValues).toEqual(['revision-uid', 'revision-2-uid']);
+      expect(result.updated.map(object => object.uid)).toEqual(['item-uid', 'revision-uid']);
+      expect(result.updated[1]).toEqual({ uid: 'revision-uid', type: 'ItemRevision', properties: {} });
+      expect(result.deleted).toEqual(['dataset-uid']);
+      expect(result.partialErrors).toEqual([{ uid: 'form-uid', code: 515024, message: 'No write access to form-uid' }]);
+    });
+
+    it('should return an empty ServiceData for a response without one', () => {
+      expect(isServiceDataResponse({ types: [] })).toBe(false);
+      expect(isServiceDataResponse({ ServiceData: {} })).toBe(true);
+      expect(parseServiceData(undefined)).toEqual({
+        plain: [],
+        created: [],
+        updated: [],
+        deleted: [],
+        modelObjects: {},
+        partialErrors: []
+      });
+    });
+  });
+
+  describe('parseSessionInfo', () => {
+    it('should resolve the objects of the session with their properties', () => {
+      const sessionInfo = parseSessionInfo({
+        serverVersion: 'V14000.1.0',
+        user: { uid: 'user-uid', type: 'User' },
+        group: { uid: 'group-uid', type: 'Group' },
+        role: { uid: 'role-uid', type: 'Role' },
+        bypass: false,
+        journaling: true,
+        extraInfo: [['TcServerID', 'hostName'], ['server-1', 'tc-host']],
+        ServiceData: {
+          modelObjects: {
+            'group-uid': { uid: 'group-uid', type: 'Group', props: { object_string: { dbValues: ['Engineering'], uiValues: ['Engineering'] } } },
+            'role-uid': { uid: 'role-uid', type: 'Role', props: { object_string: { dbValues: ['Designer'], uiValues: ['Designer'] } } }
+          }
+        }
+      });
+
+      expect(sessionInfo).toMatchObject({
+        serverVersion: 'V14000.1.0',
+        groupId: 'group-uid',
+        groupName: 'Engineering',
+        roleId: 'role-uid',
+        roleName: 'Designer',
+        user: { uid: 'user-uid', type: 'User', properties: {} },
+        site: null,
+        journaling: true,
+        extraInfo: { TcServerID: 'server-1', hostName: 'tc-host' }
+      });
+      expect(sessionInfo.group?.properties.object_string.displayValue).toBe('Engineering');
+    });
+  });
+
+  describe('parseFavorites', () => {
+    it('should decode the favorite objects and folders', () => {
+      const favorites = parseFavorites({
+        favorites: {
+          objects: [{ uid: 'item-uid', type: 'Item' }],
+          containers: [{ name: 'Brackets', objects: [{ uid: 'rev-uid', type: 'ItemRevision' }], containers: [] }]
+        },
+        ServiceData: {
+          modelObjects: {
+            'item-uid': { uid: 'item-uid', type: 'Item', props: { object_name: { dbValues: ['Bracket'], uiValues: ['Bracket'] } } }
+          }
+        }
+      });
+
+      expect(favorites.objects[0].properties.object_name.value).toBe('Bracket');
+      expect(favorites.folders).toEqual([{
+        name: 'Brackets',
+        objects: [{ uid: 'rev-uid', type: 'ItemRevision', properties: {} }],
+        folders: []
+      }]);
+      expect(parseFavorites({ favorites: ['item-uid'] })).toEqual({ objects: [{ uid: 'item-uid', type: '', properties: {} }], folders: [] });
+    });
+  });
+
+  describe('parseJSONResponse', () => {
+    it('should hand other responses to the command without a warning', () => {
+      const response = { outputRevisionIds: [{ newRevId: 'B' }], ServiceData: {} };
+
+      expect(parseJSONResponse('Core-2007-01-DataManagement', 'generateRevisionIds', response, mockLogger)).toBe(response);
+      expect(parseJSONResponse('Core-2008-03-Session', 'getFavorites', { favorites: [] }, mockLogger)).toEqual({ favorites: [] });
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getErrorStacks', () => {
+    it('should keep every error of a partial error with its client ID', () => {
+      const errorStacks = getErrorStacks({
+        ServiceData: {
+          partialErrors: [{
+            clientId: 'create-1',
+            errorValues: [
+              { code: 48020, level: 3, message: 'The item ID 000123 already exists' },
+              { code: '214018', level: '3', message: 'Failed to create the item' }
+            ]
+          }]
+        }
+      });
+
+      expect(errorStacks).toEqual([{
+        uid: null,
+        clientId: 'create-1',
+        errorValues: [
+          { code: 48020, level: 3, message: 'The item ID 000123 already exists' },
+          { code: 214018, level: 3, message: 'Failed to create the item' }
+        ]
+      }]);
+    });
+  });
+
+  describe('getStatusCategory', () => {
+    it('should map standard and site specific status names', () => {
+      const statusCategories = { Frozen: 'Released' as const, 'In Review': 'In Work' as const };
+
+      expect(getStatusCategory('TCM Released')).toBe('Released');
+      expect(getStatusCategory('frozen', statusCategories)).toBe('Released');
+      expect(getStatusCategory('In Review', statusCategories)).toBe('In Work');
+      expect(getStatusCategory('Frozen')).toBe('Unknown');
+    });
+
+    it('should report the category of the latest release status of an item', () => {
+      const item = (releaseStatusList: string[]) => convertToTCObject({
+        uid: 'item-uid',
+        type: 'Item',
+        properties: { object_name: 'Bracket', release_status_list: releaseStatusList }
+      }, mockLogger, { Frozen: 'Released' });
+
+      expect(item([])).toMatchObject({ status: 'In Work', releaseStatuses: [] });
+      expect(item(['Pending', 'Frozen'])).toMatchObject({ status: 'Released', releaseStatuses: ['Pending', 'Frozen'] });
+      expect(item(['Frozen', 'Obsolete'])).toMatchObject({ status: 'Obsolete' });
+    });
+  });
+
+  describe('convertToTCObject', () => {
+    it('should leave the revision empty when the object does not report one', () => {
+      const revision = convertToTCObject({ uid: 'rev-uid', type: 'ItemRevision', properties: { item_revision_id: 'C' } }, mockLogger);
+      const item = convertToTCObject({ uid: 'item-uid', type: 'Item', properties: { object_name: 'Bracket' } }, mockLogger);
+
+      expect(revision.revision).toBe('C');
+      expect(item.revision).toBe('');
+    });
+  });
+
+  describe('Commands', () => {
+    it('should return the requested item as a model object', async () => {
+      mockCallService.mockResolvedValue(serviceData);
+
+      const response = await new GetItemByIdCommand(mockLogger, mockSoaClient, true, 'item-uid').execute();
+
+      expect(response.data).toMatchObject({ uid: 'item-uid', type: 'Item', className: 'Item' });
+      expect(response.data?.properties.object_name.value).toBe('Bracket');
+    });
+
+    it('should fail with the partial error of an item that was not returned', async () => {
+      mockCallService.mockResolvedValue({
+        plain: [],
+        modelObjects: {},
+        partialErrors: [{ uid: 'item-uid', errorValues: [{ code: 515001, level: 3, message: 'Object item-uid does not exist' }] }]
+      });
+
+      const response = await new GetItemByIdCommand(mockLogger, mockSoaClient, true, 'item-uid').execute();
+
+      expect(response.error).toMatchObject({ code: 'API_ERROR', level: 'ERROR', message: 'Object item-uid does not exist', type: ErrorType.NOT_FOUND });
+      expect(response.error?.errorStacks).toEqual([
+        { uid: 'item-uid', clientId: null, errorValues: [{ code: 515001, level: 3, message: 'Object item-uid does not exist' }] }
+      ]);
+    });
+
+    it('should return the partial errors of an update next to the updated objects', async () => {
+      mockCallService.mockResolvedValue(serviceData);
+
+      const response = await new UpdateItemCommand(mockLogger, mockSoaClient, true, 'item-uid', { object_name: 'Bracket' }).execute();
+
+      expect(response.data?.updated.map(object => object.uid)).toEqual(['item-uid', 'revision-uid']);
+      expect(response.data?.partialErrors).toHaveLength(1);
+    });
+
+    it('should fail an update that changed nothing', async () => {
+      mockCallService.mockResolvedValue({ updated: [], partialErrors: serviceData.partialErrors });
+
+      const response = await new UpdateItemCommand(mockLogger, mockSoaClient, true, 'item-uid', { object_name: 'Bracket' }).execute();
+
+      expect(response.error?.message).toBe('No write access to form-uid');
+      expect(response.error?.type).toBe(ErrorType.ACCESS_DENIED);
+    });
+  });
+});
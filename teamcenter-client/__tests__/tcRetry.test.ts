@@ -0,0 +1,138 @@
+import { describe, expect, it, jest, beforeEach, afterAll } from '@jest/globals';
+import { createCircuitBreaker, getRetryDelay, resolveRetryPolicy } from '../src/tcRetry.js';
+import { callService } from '../src/tcApiService.js';
+import { createSessionStore } from '../src/tcUtils.js';
+import { ErrorType } from '../src/tcErrors.js';
+import { Logger } from '../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Mock fetch so that the real API implementation can be exercised
+const originalFetch = global.fetch;
+const mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+const serverError = () => new Response('Pool manager restarting', { status: 503, statusText: 'Service Unavailable' });
+
+const networkError = () => new TypeError('fetch failed');
+
+// Retry without waiting
+const config = {
+  endpoint: 'https://teamcenter.example.com/tc',
+  retryPolicy: { maxAttempts: 3, initialDelay: 1, jitter: 0 }
+};
+
+afterAll(() => {
+  global.fetch = originalFetch;
+});
+
+const call = (operation: string, circuitBreaker = createCircuitBreaker({}, mockLogger)) =>
+  callService({ ...config, circuitBreaker }, createSessionStore(), 'session', 'Core-2006-03-DataManagement', operation, {}, mockLogger);
+
+describe('Retry policy', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should retry transient failures of read operations', async () => {
+    mockFetch
+      .mockRejectedValueOnce(networkError())
+      .mockResolvedValueOnce(serverError())
+      .mockResolvedValueOnce(jsonResponse({ modelObjects: {} }));
+
+    await expect(call('getProperties')).resolves.toEqual(expect.objectContaining({ data: { modelObjects: {} } }));
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry operations that change data', async () => {
+    mockFetch.mockResolvedValueOnce(serverError());
+
+    await expect(call('setProperties')).rejects.toMatchObject({ type: ErrorType.API_RESPONSE });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry operations that only have a read-like name', async () => {
+    mockFetch.mockResolvedValueOnce(serverError());
+
+    await expect(callService({ ...config, circuitBreaker: createCircuitBreaker({}, mockLogger) }, createSessionStore(), 'session', 'Core-2006-03-FileManagement', 'getDatasetWriteTickets', {}, mockLogger))
+      .rejects.toMatchObject({ type: ErrorType.API_RESPONSE });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry client errors', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('Bad request', { status: 400, statusText: 'Bad Request' }));
+
+    await expect(call('getProperties')).rejects.toMatchObject({ type: ErrorType.API_RESPONSE });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    mockFetch.mockImplementation(async () => serverError());
+
+    await expect(call('getProperties')).rejects.toMatchObject({ type: ErrorType.API_RESPONSE });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const retryPolicy = resolveRetryPolicy({ initialDelay: 100, maxDelay: 300, jitter: 0 });
+
+    expect([1, 2, 3].map(attempt => getRetryDelay(attempt, retryPolicy))).toEqual([100, 200, 300]);
+  });
+});
+
+describe('Circuit breaker', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should fail fast once the failure threshold is reached', async () => {
+    const circuitBreaker = createCircuitBreaker({ failureThreshold: 3 }, mockLogger);
+    mockFetch.mockImplementation(async () => { throw networkError(); });
+
+    await expect(call('getProperties', circuitBreaker)).rejects.toMatchObject({ type: ErrorType.NETWORK });
+    expect(circuitBreaker.getStatus().state).toBe('OPEN');
+
+    mockFetch.mockClear();
+    await expect(call('getProperties', circuitBreaker)).rejects.toThrow('Teamcenter is unavailable');
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(circuitBreaker.getStatus().rejectedRequests).toBe(1);
+  });
+
+  it('should close again after a successful trial request', async () => {
+    const circuitBreaker = createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1 }, mockLogger);
+    circuitBreaker.recordFailure(new Error('fetch failed'));
+    expect(circuitBreaker.getStatus().state).toBe('OPEN');
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ modelObjects: {} }));
+
+    await call('getProperties', circuitBreaker);
+    expect(circuitBreaker.getStatus()).toMatchObject({ state: 'CLOSED', consecutiveFailures: 0 });
+  });
+
+  it('should let only one trial request through while half-open', async () => {
+    const circuitBreaker = createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1 }, mockLogger);
+    circuitBreaker.recordFailure(new Error('fetch failed'));
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(circuitBreaker.canRequest()).toBe(true);
+    expect(circuitBreaker.getStatus().state).toBe('HALF_OPEN');
+    expect(circuitBreaker.canRequest()).toBe(false);
+
+    circuitBreaker.recordFailure(new Error('fetch failed'));
+    expect(circuitBreaker.getStatus().state).toBe('OPEN');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it, jest, beforeEach, afterAll } from '@jest/globals';
+import { createSOAClient } from '../src/tcSOAClient.js';
+import { AppError, ErrorType } from '../src/tcErrors.js';
+import { Logger } from '../src/logger.js';
+import { TCCredentialProvider } from '../src/types.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Mock fetch so that the real API implementation can be exercised
+const originalFetch = global.fetch;
+const mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const unauthorized = () => new Response('Session expired', { status: 401, statusText: 'Unauthorized' });
+
+const loginResponse = () => jsonResponse(
+  { serverInfo: { UserID: 'infodba', TcServerID: 'server-2' } },
+  200,
+  { 'Set-Cookie': 'JSESSIONID=new-session; Path=/tc' }
+);
+
+const config = { endpoint: 'https://teamcenter.example.com/tc' };
+
+describe('SOA client re-authentication', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should log in again and replay the request when the session is rejected', async () => {
+    const credentialProvider = jest.fn(() => ({ username: 'infodba', password: 'secret' })) as jest.MockedFunction<TCCredentialProvider>;
+    mockFetch
+      .mockResolvedValueOnce(unauthorized())
+      .mockResolvedValueOnce(loginResponse())
+      .mockResolvedValueOnce(jsonResponse({ userName: 'infodba' }));
+
+    const client = createSOAClient({ ...config, credentialProvider }, 'old-session', mockLogger);
+    const result = await client.callService('Core-2007-01-Session', 'getTCSessionInfo', {});
+
+    expect(result).toEqual({ userName: 'infodba' });
+    expect(credentialProvider).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(mockFetch.mock.calls[1][0]).toBe('https://teamcenter.example.com/tc/Core-2011-06-Session/login');
+    expect((mockFetch.mock.calls[2][1]?.headers as Record<string, string>).Cookie).toBe('JSESSIONID=new-session');
+    expect(client.sessionId).toBe('new-session');
+  });
+
+  it('should only re-authenticate once per request', async () => {
+    const credentialProvider = jest.fn(() => ({ username: 'infodba', password: 'secret' })) as jest.MockedFunction<TCCredentialProvider>;
+    mockFetch
+      .mockResolvedValueOnce(unauthorized())
+      .mockResolvedValueOnce(loginResponse())
+      .mockResolvedValueOnce(unauthorized());
+
+    const client = createSOAClient({ ...config, credentialProvider }, 'old-session', mockLogger);
+
+    await expect(client.callService('Core-2007-01-Session', 'getTCSessionInfo', {}))
+      .rejects.toMatchObject({ type: ErrorType.AUTH_SESSION });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should report the original error when no credential provider is configured', async () => {
+    mockFetch.mockResolvedValueOnce(unauthorized());
+
+    const client = createSOAClient(config, 'old-session', mockLogger);
+
+    await expect(client.callService('Core-2007-01-Session', 'getTCSessionInfo', {}))
+      .rejects.toBeInstanceOf(AppError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep a session that cannot be renewed when a request is rejected', async () => {
+    const authenticator = jest.fn(async () => ({ data: undefined }));
+    mockFetch
+      .mockResolvedValueOnce(new Response('Access denied', { status: 403, statusText: 'Forbidden' }))
+      .mockResolvedValueOnce(jsonResponse({ userName: 'infodba' }));
+
+    const client = createSOAClient({ ...config, authenticator, canReauthenticate: () => false }, 'portal-session', mockLogger);
+
+    await expect(client.callService('Core-2007-01-Session', 'getTCSessionInfo', {}))
+      .rejects.toMatchObject({ type: ErrorType.AUTH_SESSION });
+    expect(authenticator).not.toHaveBeenCalled();
+    expect(client.sessionId).toBe('portal-session');
+
+    await expect(client.callService('Core-2007-01-Session', 'getTCSessionInfo', {})).resolves.toEqual({ userName: 'infodba' });
+    expect((mockFetch.mock.calls[1][1]?.headers as Record<string, string>).Cookie).toBe((mockFetch.mock.calls[0][1]?.headers as Record<string, string>).Cookie);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { createSessionStore, storeSession, retrieveSession, clearSession, getSessionCookie, createJSONRequest } from '../src/tcUtils.js';
+import { getModelObjectPropertyInfos } from '../src/tcResponseParser.js';
+import { createSOAClient } from '../src/tcSOAClient.js';
+import { Logger } from '../src/logger.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+describe('tcUtils', () => {
+  describe('session store', () => {
+    it('should keep the sessions of different stores apart', () => {
+      const storeA = createSessionStore();
+      const storeB = createSessionStore();
+
+      storeSession(storeA, { sessionId: 'session-a', userId: 'alice', userName: 'Alice' }, mockLogger);
+
+      expect(retrieveSession(storeA, mockLogger)?.sessionId).toBe('session-a');
+      expect(retrieveSession(storeB, mockLogger)).toBeNull();
+    });
+
+    it('should keep an existing session cookie when the session is stored again', () => {
+      const store = createSessionStore();
+      store.setCookie({ name: 'JSESSIONID', value: 'cookie-value' });
+
+      storeSession(store, { sessionId: 'body-value', userId: '', userName: '' }, mockLogger);
+
+      expect(getSessionCookie(store, mockLogger)).toEqual({ name: 'JSESSIONID', value: 'cookie-value' });
+    });
+
+    it('should only clear its own session', () => {
+      const storeA = createSessionStore();
+      const storeB = createSessionStore();
+      storeSession(storeA, { sessionId: 'session-a', userId: '', userName: '' }, mockLogger);
+      storeSession(storeB, { sessionId: 'session-b', userId: '', userName: '' }, mockLogger);
+
+      clearSession(storeA, mockLogger);
+
+      expect(retrieveSession(storeA, mockLogger)).toBeNull();
+      expect(retrieveSession(storeB, mockLogger)?.sessionId).toBe('session-b');
+    });
+  });
+
+  describe('SOA client sessions', () => {
+    it('should not share a login between clients', async () => {
+      const config = { endpoint: 'http://localhost:8080/tc', mockMode: true };
+      const clientA = createSOAClient(config, null, mockLogger);
+      const clientB = createSOAClient(config, null, mockLogger);
+
+      await clientA.callService('Core-2011-06-Session', 'login', { username: 'admin', password: 'admin' });
+
+      expect(clientA.sessionId).toBe('mock-session-123');
+      expect(clientB.sessionId).toBeNull();
+      expect(clientB.sessionStore.getCookie()).toBeNull();
+    });
+  });
+
+  describe('property policy', () => {
+    it('should send the policy in the request header', () => {
+      const request = createJSONRequest('Core-2006-03-DataManagement', 'getProperties', { objects: [] }, mockLogger, {
+        types: [{
+          name: 'ItemRevision',
+          properties: ['object_name', { name: 'owning_user', withProperties: true }],
+          modifiers: { excludeParentProperties: true }
+        }],
+        modifiers: { includeIsModifiable: true, uIValueOnly: false }
+      });
+
+      expect((request.header as any).policy).toEqual({
+        types: [{
+          name: 'ItemRevision',
+          properties: [
+            { name: 'object_name', modifiers: [] },
+            { name: 'owning_user', modifiers: [{ name: 'withProperties', Value: 'true' }] }
+          ],
+          modifiers: [{ name: 'excludeParentProperties', Value: 'true' }]
+        }],
+        modifiers: [{ name: 'includeIsModifiable', Value: 'true' }, { name: 'uIValueOnly', Value: 'false' }]
+      });
+    });
+
+    it('should send an empty policy when none is declared', () => {
+      const request = createJSONRequest('Core-2006-03-DataManagement', 'getProperties', { objects: [] }, mockLogger);
+
+      expect((request.header as any).policy).toEqual({});
+    });
+
+    it('should map the returned properties to database and display values', () => {
+      const response = {
+        modelObjects: {
+          'rev-uid': {
+            uid: 'rev-uid',
+            type: 'ItemRevision',
+            props: {
+              object_name: { dbValues: ['Bracket'], uiValues: ['Bracket'], isModifiable: true },
+              owning_user: { dbValues: ['user-uid'], uiValues: ['John Doe (jdoe)'] },
+              release_status_list: { dbValues: [], uiValues: [] }
+            }
+          }
+        }
+      };
+
+      expect(getModelObjectPropertyInfos(response, 'rev-uid')).toEqual({
+        object_name: { name: 'object_name', value: 'Bracket', displayValue: 'Bracket', dbValues: ['Bracket'], uiValues: ['Bracket'], isModifiable: true },
+        owning_user: { name: 'owning_user', value: 'user-uid', displayValue: 'John Doe (jdoe)', dbValues: ['user-uid'], uiValues: ['John Doe (jdoe)'] },
+        release_status_list: { name: 'release_status_list', value: null, displayValue: '', dbValues: [], uiValues: [] }
+      });
+    });
+  });
+});
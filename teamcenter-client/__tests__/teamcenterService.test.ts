@@ -0,0 +1,226 @@
+import { describe, expect, it, jest, beforeEach, afterAll } from '@jest/globals';
+import { TeamcenterService } from '../src/teamcenterService.js';
+import { Logger } from '../src/logger.js';
+import { TCCredentialProvider } from '../src/types.js';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  logTeamcenterRequest: jest.fn().mockReturnValue('req_123'),
+  logTeamcenterResponse: jest.fn()
+} as Logger;
+
+// Mock fetch so that the real API implementation can be exercised
+const originalFetch = global.fetch;
+const mockFetch = jest.fn() as jest.MockedFunction<typeof fetch>;
+global.fetch = mockFetch;
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// Group members of the user, keyed by UID
+const GROUP_MEMBERS: Record<string, { group: string; role: string }> = {
+  'gm-dba': { group: 'dba', role: 'DBA' },
+  'gm-engineering': { group: 'Engineering', role: 'Designer' }
+};
+
+/**
+ * Simulate a Teamcenter server whose sessions can be expired
+ */
+const createServer = () => {
+  const state = {
+    sessions: 0,
+    expiredSessions: new Set<string>(),
+    groupMember: 'gm-dba',
+    calls: [] as { operation: string; body: any; cookie?: string }[]
+  };
+
+  mockFetch.mockImplementation(async (url, init) => {
+    const operation = String(url).split('/').pop() as string;
+    const body = JSON.parse(init?.body as string).body;
+    const cookie = (init?.headers as Record<string, string>).Cookie;
+    state.calls.push({ operation, body, cookie });
+
+    if (operation === 'login') {
+      state.sessions++;
+      state.groupMember = 'gm-dba';
+      return jsonResponse(
+        { serverInfo: { UserID: body.credentials.user, TcServerID: 'server-1' } },
+        200,
+        { 'Set-Cookie': `JSESSIONID=session-${state.sessions}; Path=/tc` }
+      );
+    }
+
+    if (cookie && state.expiredSessions.has(cookie)) {
+      return new Response('Session expired', { status: 401, statusText: 'Unauthorized' });
+    }
+
+    const { group, role } = GROUP_MEMBERS[state.groupMember];
+    switch (operation) {
+      case 'getTCSessionInfo':
+        return jsonResponse({
+          group: { uid: `group-${group}` },
+          role: { uid: `role-${role}` },
+          ServiceData: {
+            modelObjects: {
+              [`group-${group}`]: { uid: `group-${group}`, props: { object_string: { uiValues: [group] } } },
+              [`role-${role}`]: { uid: `role-${role}`, props: { object_string: { uiValues: [role] } } }
+            }
+          }
+        });
+      case 'getGroupMembership':
+        return jsonResponse({ groupMembers: Object.keys(GROUP_MEMBERS).map(uid => ({ uid, type: 'GroupMember' })) });
+      case 'getProperties':
+        return jsonResponse({
+          modelObjects: Object.fromEntries(Object.entries(GROUP_MEMBERS).map(([uid, member]) => [uid, {
+            uid,
+            props: {
+              group: { dbValues: [`group-${member.group}`], uiValues: [member.group] },
+              role: { dbValues: [`role-${member.role}`], uiValues: [member.role] }
+            }
+          }]))
+        });
+      case 'setSessionGroupMember':
+        state.groupMember = body.groupMember.uid;
+        return jsonResponse({});
+      default:
+        return jsonResponse({});
+    }
+  });
+
+  return state;
+};
+
+afterAll(() => {
+  global.fetch = originalFetch;
+});
+
+describe('TeamcenterService session renewal', () => {
+  let credentialProvider: jest.MockedFunction<TCCredentialProvider>;
+
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+    credentialProvider = jest.fn(() => ({ username: 'infodba', password: 'secret' })) as jest.MockedFunction<TCCredentialProvider>;
+  });
+
+  const createService = () => new TeamcenterService({
+    logger: mockLogger,
+    config: { endpoint: 'https://teamcenter.example.com/tc', credentialProvider, retryPolicy: { maxAttempts: 1 } }
+  });
+
+  it('should renew a login tool session as its user with its group and role', async () => {
+    const server = createServer();
+    const service = createService();
+
+    await service.login({ username: 'jdoe', password: 'jdoe-password' });
+    await service.setUserSessionState('Engineering', 'Designer');
+    server.expiredSessions.add('JSESSIONID=session-1');
+
+    const response = await service.getSessionInfo();
+
+    const logins = server.calls.filter(call => call.operation === 'login');
+    expect(logins.map(call => call.body.credentials.user)).toEqual(['jdoe', 'jdoe']);
+    expect(credentialProvider).not.toHaveBeenCalled();
+    expect(server.groupMember).toBe('gm-engineering');
+    expect(server.calls[server.calls.length - 1].cookie).toBe('JSESSIONID=session-2');
+    expect(response.data).toMatchObject({ group: { uid: 'group-Engineering' } });
+    expect(service.getSessionId()).toBe('session-2');
+  });
+
+  it('should renew a configured session with the configured credentials', async () => {
+    const server = createServer();
+    const service = createService();
+
+    await service.authenticate();
+    server.expiredSessions.add('JSESSIONID=session-1');
+
+    const response = await service.getSessionInfo();
+
+    const logins = server.calls.filter(call => call.operation === 'login');
+    expect(logins.map(call => call.body.credentials.user)).toEqual(['infodba', 'infodba']);
+    expect(credentialProvider).toHaveBeenCalledTimes(2);
+    expect(server.calls.some(call => call.operation === 'setSessionGroupMember')).toBe(false);
+    expect(response.data).toMatchObject({ group: { uid: 'group-dba' } });
+  });
+
+  it('should not renew a session after logout', async () => {
+    const server = createServer();
+    const service = createService();
+
+    await service.login({ username: 'jdoe', password: 'jdoe-password' });
+    server.expiredSessions.add('JSESSIONID=session-1');
+    await service.logout();
+
+    const response = await service.getSessionInfo();
+
+    expect(response.error).toBeDefined();
+    expect(server.calls.filter(call => call.operation === 'login')).toHaveLength(1);
+  });
+});
+
+describe('TeamcenterService logout', () => {
+  beforeEach(() => {
+    // Reset mocks before each test
+    jest.clearAllMocks();
+  });
+
+  it('should end a session it logged in', async () => {
+    const server = createServer();
+    const service = new TeamcenterService({ logger: mockLogger, config: { endpoint: 'https://teamcenter.example.com/tc' } });
+
+    await service.login({ username: 'jdoe', password: 'jdoe-password' });
+    const response = await service.logout();
+
+    expect(response.error).toBeUndefined();
+    expect(server.calls.filter(call => call.operation === 'logout')).toHaveLength(1);
+    expect(service.isLoggedIn()).toBe(false);
+  });
+
+  it('should only forget a session injected from a pre-issued cookie', async () => {
+    const server = createServer();
+    const service = new TeamcenterService({
+      logger: mockLogger,
+      config: {
+        endpoint: 'https://teamcenter.example.com/tc',
+        authentication: { method: 'sessionCookie', cookie: { name: 'JSESSIONID', value: 'portal-session' } }
+      }
+    });
+
+    await service.authenticate();
+    expect(service.isLoggedIn()).toBe(true);
+
+    const response = await service.logout();
+
+    expect(response.error).toBeUndefined();
+    expect(server.calls.some(call => call.operation === 'logout')).toBe(false);
+    expect(service.isLoggedIn()).toBe(false);
+  });
+
+  it('should keep a session from a pre-issued cookie when a request is rejected', async () => {
+    const server = createServer();
+    const service = new TeamcenterService({
+      logger: mockLogger,
+      config: {
+        endpoint: 'https://teamcenter.example.com/tc',
+        authentication: { method: 'sessionCookie', cookie: { name: 'JSESSIONID', value: 'portal-session' } },
+        retryPolicy: { maxAttempts: 1 }
+      }
+    });
+
+    await service.authenticate();
+    server.expiredSessions.add('JSESSIONID=portal-session');
+    const rejected = await service.getSessionInfo();
+    server.expiredSessions.clear();
+    const response = await service.getSessionInfo();
+
+    expect(rejected.error).toBeDefined();
+    expect(response.error).toBeUndefined();
+    expect(server.calls[server.calls.length - 1].cookie).toBe('JSESSIONID=portal-session');
+    expect(server.calls.some(call => call.operation === 'login')).toBe(false);
+    expect(service.isLoggedIn()).toBe(true);
+  });
+});
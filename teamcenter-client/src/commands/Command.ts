@@ -1,6 +1,7 @@
 import { TCResponse } from '../types.js';
 import { Logger } from '../logger.js';
 import { SOAClient } from '../tcSOAClient.js';
+import { toTCError } from '../tcErrors.js';
 
 export interface Command<T> {
   execute(): Promise<TCResponse<T>>;
@@ -30,4 +31,8 @@ export abstract class BaseCommand<T> implements Command<T> {
       }
     };
   }
+
+  protected createErrorResponse(code: string, error: unknown, fallbackMessage: string): TCResponse<T> {
+    return { error: toTCError(error, code, fallbackMessage) };
+  }
 }
@@ -1,6 +1,7 @@
 import { Command } from './Command.js';
 import { TCResponse } from '../types.js';
 import { Logger } from '../logger.js';
+import { toTCError } from '../tcErrors.js';
 
 export class CommandExecutor {
   private logger: Logger;
@@ -14,13 +15,7 @@ export class CommandExecutor {
       return await command.execute();
     } catch (error) {
       this.logger.error('Command execution error:', error);
-      return {
-        error: {
-          code: 'COMMAND_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Command execution failed'
-        }
-      };
+      return { error: toTCError(error, 'COMMAND_ERROR', 'Command execution failed') };
     }
   }
 }
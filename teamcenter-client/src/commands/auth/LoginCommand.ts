@@ -44,7 +44,7 @@ export class LoginCommand extends BaseCommand<TCSession> {
       ) as TCSession;
       
       // Store session
-      storeSession(session, this.logger);
+      storeSession(this.soaClient.sessionStore, session, this.logger);
       
       this.logger.debug(`[${this.serviceRequestId}] LoginCommand.execute successful for user: ${this.credentials.username}`);
       return { data: session };
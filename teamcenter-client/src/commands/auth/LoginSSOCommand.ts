@@ -0,0 +1,71 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCSession, TCSSOToken } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { storeSession } from '../../tcUtils.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+
+export class LoginSSOCommand extends BaseCommand<TCSession> {
+  private ssoToken: TCSSOToken;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, ssoToken: TCSSOToken) {
+    super(logger, soaClient, isLoggedIn);
+    this.ssoToken = ssoToken;
+  }
+
+  async execute(): Promise<TCResponse<TCSession>> {
+    this.logger.debug(`[${this.serviceRequestId}] LoginSSOCommand.execute called for user: ${this.ssoToken.username}`);
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'loginSSO' }
+        );
+      }
+
+      // Validate the token
+      if (!this.ssoToken.username || !this.ssoToken.token) {
+        throw new AppError(
+          'Username and SSO token are required',
+          ErrorType.DATA_VALIDATION,
+          null,
+          { method: 'loginSSO' }
+        );
+      }
+
+      // The web tier validates the token with Security Services instead of checking a password
+      const session = await this.soaClient.callService(
+        'Core-2011-06-Session',
+        'loginSSO',
+        this.ssoToken
+      ) as TCSession;
+
+      // Store session
+      storeSession(this.soaClient.sessionStore, session, this.logger);
+
+      this.logger.debug(`[${this.serviceRequestId}] LoginSSOCommand.execute successful for user: ${this.ssoToken.username}`);
+      return { data: session };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Teamcenter SSO login error:`, error);
+
+      let errorCode = 'LOGIN_ERROR';
+      let errorMessage = error instanceof Error ? error.message : 'SSO login failed';
+
+      if (error instanceof AppError && error.type === ErrorType.AUTH_SESSION) {
+        errorCode = 'INVALID_SSO_TOKEN';
+        errorMessage = error.message || 'The SSO token was rejected by Teamcenter';
+      }
+
+      return {
+        error: {
+          code: errorCode,
+          level: 'ERROR',
+          message: errorMessage
+        }
+      };
+    }
+  }
+}
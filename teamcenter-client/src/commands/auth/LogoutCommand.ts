@@ -6,8 +6,14 @@ import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
 
 export class LogoutCommand extends BaseCommand<void> {
-  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean) {
+  private endServerSession: boolean;
+
+  /**
+   * @param endServerSession Whether to end the session on the server, or only forget it locally (for sessions owned by someone else)
+   */
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, endServerSession: boolean = true) {
     super(logger, soaClient, isLoggedIn);
+    this.endServerSession = endServerSession;
   }
 
   async execute(): Promise<TCResponse<void>> {
@@ -29,17 +35,19 @@ export class LogoutCommand extends BaseCommand<void> {
         );
       }
       
-      await this.soaClient.callService(
-        'Core-2007-06-Session',
-        'logout',
-        {}
-      );
+      if (this.endServerSession) {
+        await this.soaClient.callService(
+          'Core-2007-06-Session',
+          'logout',
+          {}
+        );
+      } else {
+        this.logger.debug(`[${this.serviceRequestId}] LogoutCommand.execute: Keeping the server session, which was not opened by this client`);
+      }
       
       // Clear session
-      clearSession(this.logger);
-      if (this.soaClient) {
-        this.soaClient.sessionId = null;
-      }
+      clearSession(this.soaClient.sessionStore, this.logger);
+      this.soaClient.sessionId = null;
       
       this.logger.debug(`[${this.serviceRequestId}] LogoutCommand.execute successful`);
       return { data: undefined };
@@ -47,18 +55,12 @@ export class LogoutCommand extends BaseCommand<void> {
       this.logger.error(`[${this.serviceRequestId}] Teamcenter logout error:`, error);
       
       // Even if logout fails, clear the local session
-      clearSession(this.logger);
       if (this.soaClient) {
+        clearSession(this.soaClient.sessionStore, this.logger);
         this.soaClient.sessionId = null;
       }
       
-      return {
-        error: {
-          code: 'LOGOUT_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Logout failed'
-        }
-      };
+      return this.createErrorResponse('LOGOUT_ERROR', error, 'Logout failed');
     }
   }
 }
@@ -0,0 +1,92 @@
+import { BaseCommand } from '../Command.js';
+import { SessionCookie, TCResponse, TCSession } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { storeSessionCookie, storeSession } from '../../tcUtils.js';
+import { getModelObjectProperties } from '../../tcResponseParser.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+
+export class SessionCookieLoginCommand extends BaseCommand<TCSession> {
+  private cookie: SessionCookie;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, cookie: SessionCookie) {
+    super(logger, soaClient, isLoggedIn);
+    this.cookie = cookie;
+  }
+
+  async execute(): Promise<TCResponse<TCSession>> {
+    this.logger.debug(`[${this.serviceRequestId}] SessionCookieLoginCommand.execute called for cookie: ${this.cookie.name}`);
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'sessionCookieLogin' }
+        );
+      }
+
+      // Validate the cookie
+      if (!this.cookie.name || !this.cookie.value) {
+        throw new AppError(
+          'Session cookie name and value are required',
+          ErrorType.DATA_VALIDATION,
+          null,
+          { method: 'sessionCookieLogin' }
+        );
+      }
+
+      // Replace the current session by the pre-issued one
+      this.soaClient.sessionStore.clear();
+      storeSessionCookie(this.soaClient.sessionStore, this.cookie.name, this.cookie.value, this.logger);
+      this.soaClient.sessionId = this.cookie.value;
+
+      // Check that the session is alive and find out whom it belongs to
+      let sessionInfo: any;
+      try {
+        sessionInfo = await this.soaClient.callService(
+          'Core-2007-01-Session',
+          'getTCSessionInfo',
+          {}
+        );
+      } catch (error) {
+        this.soaClient.sessionStore.clear();
+        this.soaClient.sessionId = null;
+        throw error;
+      }
+
+      const userProperties = getModelObjectProperties(sessionInfo, sessionInfo?.user?.uid);
+      const session: TCSession = {
+        sessionId: this.cookie.value,
+        userId: userProperties.user_id || sessionInfo?.user?.uid || '',
+        userName: userProperties.user_name || userProperties.user_id || '',
+        status: 'OK'
+      };
+
+      // Store session
+      storeSession(this.soaClient.sessionStore, session, this.logger);
+
+      this.logger.debug(`[${this.serviceRequestId}] SessionCookieLoginCommand.execute successful for user: ${session.userId}`);
+      return { data: session };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Teamcenter session cookie login error:`, error);
+
+      let errorCode = 'LOGIN_ERROR';
+      let errorMessage = error instanceof Error ? error.message : 'Session cookie login failed';
+
+      if (error instanceof AppError && error.type === ErrorType.AUTH_SESSION) {
+        errorCode = 'INVALID_SESSION';
+        errorMessage = 'The session cookie was rejected by Teamcenter';
+      }
+
+      return {
+        error: {
+          code: errorCode,
+          level: 'ERROR',
+          message: errorMessage
+        }
+      };
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCBOMLine, TCBOMStructure, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectProperties, getErrorStacks } from '../../tcResponseParser.js';
+import { GetRevisionRuleCommand } from './GetRevisionRuleCommand.js';
+
+// Properties read from each BOM line once the structure has been expanded
+const BOM_LINE_ATTRIBUTES = [
+  'bl_item_item_id',
+  'bl_rev_item_revision_id',
+  'bl_rev_object_name',
+  'bl_quantity',
+  'bl_sequence_no'
+];
+
+export const DEFAULT_REVISION_RULE = 'Latest Working';
+
+export class ExpandBOMCommand extends BaseCommand<TCBOMStructure> {
+  private itemRevUid: string;
+  private levels: number;
+  private revisionRule: string;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    itemRevUid: string,
+    levels: number = 1,
+    revisionRule: string = DEFAULT_REVISION_RULE
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.itemRevUid = itemRevUid;
+    this.levels = levels;
+    this.revisionRule = revisionRule;
+  }
+
+  async execute(): Promise<TCResponse<TCBOMStructure>> {
+    this.logger.debug(`[${this.serviceRequestId}] ExpandBOMCommand.execute called for revision: ${this.itemRevUid}, levels: ${this.levels}, revision rule: ${this.revisionRule}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] ExpandBOMCommand.execute failed: No session`);
+      return this.createNotLoggedInError('expandBOM');
+    }
+
+    // Validate parameters
+    if (!this.itemRevUid) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Item revision UID is required'
+        }
+      };
+    }
+
+    if (this.levels <= 0 || this.levels > 20) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Levels must be between 1 and 20'
+        }
+      };
+    }
+
+    let bomWindow: TCObjectRef | null = null;
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'expandBOM' }
+        );
+      }
+
+      // Resolve the revision rule used to configure the structure
+      const revRuleCommand = new GetRevisionRuleCommand(this.logger, this.soaClient, this.isLoggedIn, this.revisionRule);
+      const revRuleResponse = await revRuleCommand.execute();
+
+      if (revRuleResponse.error || !revRuleResponse.data) {
+        throw new AppError(
+          revRuleResponse.error?.message || `Revision rule not found: ${this.revisionRule}`,
+          ErrorType.DATA_VALIDATION,
+          null,
+          { method: 'expandBOM', revisionRule: this.revisionRule }
+        );
+      }
+
+      const revRule = revRuleResponse.data;
+
+      // Open a BOM window on the item revision configured with the revision rule
+      const windowPayload = {
+        info: [{
+          clientId: this.serviceRequestId,
+          item: '',
+          itemRev: { uid: this.itemRevUid, type: 'ItemRevision' },
+          bomView: '',
+          revRuleConfigInfo: {
+            clientId: this.serviceRequestId,
+            revRule,
+            props: {}
+          },
+          objectForConfigure: '',
+          activeAssemblyArrangement: ''
+        }]
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] createBOMWindows payload:`, JSON.stringify(windowPayload, null, 2));
+
+      const windowResult = await this.soaClient.callService(
+        'Cad-2007-01-StructureManagement',
+        'createBOMWindows',
+        windowPayload
+      ) as any;
+
+      const windowOutput = windowResult?.output?.[0];
+      if (!windowOutput?.bomWindow || !windowOutput?.bomLine) {
+        throw createTeamcenterError(
+          getErrorStacks(windowResult),
+          `Could not open a BOM window for revision ${this.itemRevUid}`,
+          { method: 'expandBOM' }
+        );
+      }
+
+      bomWindow = windowOutput.bomWindow as TCObjectRef;
+
+      // Expand level by level so that the depth stays under our control
+      const childrenByParent = new Map<string, { bomLine: TCObjectRef; itemRev: TCObjectRef | null }[]>();
+      const revisionByLine = new Map<string, TCObjectRef | null>();
+      revisionByLine.set(windowOutput.bomLine.uid, { uid: this.itemRevUid, type: 'ItemRevision' });
+
+      let parents: TCObjectRef[] = [windowOutput.bomLine];
+      for (let level = 1; level <= this.levels && parents.length > 0; level++) {
+        const expandResult = await this.soaClient.callService(
+          'Cad-2007-01-StructureManagement',
+          'expandPSOneLevel',
+          {
+            input: {
+              parentBomLines: parents,
+              excludeFilter: 'None'
+            },
+            pref: {
+              expItemRev: false,
+              info: []
+            }
+          }
+        ) as any;
+
+        const nextParents: TCObjectRef[] = [];
+        for (const output of expandResult?.output || []) {
+          const children = (output.children || []).map((child: any) => ({
+            bomLine: child.bomLine as TCObjectRef,
+            itemRev: (child.itemRevOfBOMLine as TCObjectRef) || null
+          }));
+
+          childrenByParent.set(output.parent?.bomLine?.uid, children);
+          for (const child of children) {
+            revisionByLine.set(child.bomLine.uid, child.itemRev);
+            nextParents.push(child.bomLine);
+          }
+        }
+
+        this.logger.debug(`[${this.serviceRequestId}] Expanded level ${level}: ${nextParents.length} lines found`);
+        parents = nextParents;
+      }
+
+      // Load the line properties for every line in the structure in one call
+      const allLines = [windowOutput.bomLine, ...Array.from(childrenByParent.values()).flat().map(child => child.bomLine)];
+      const properties = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: allLines,
+          attributes: BOM_LINE_ATTRIBUTES
+        }
+      );
+
+      const buildLine = (bomLine: TCObjectRef, level: number): TCBOMLine => {
+        const props = getModelObjectProperties(properties, bomLine.uid);
+        const children = childrenByParent.get(bomLine.uid) || [];
+
+        return {
+          uid: bomLine.uid,
+          level,
+          itemId: props.bl_item_item_id || '',
+          revisionId: props.bl_rev_item_revision_id || '',
+          name: props.bl_rev_object_name || '',
+          quantity: props.bl_quantity || '',
+          findNumber: props.bl_sequence_no || '',
+          childRevision: revisionByLine.get(bomLine.uid) || null,
+          children: children.map(child => buildLine(child.bomLine, level + 1))
+        };
+      };
+
+      const structure: TCBOMStructure = {
+        revisionRule: this.revisionRule,
+        levels: this.levels,
+        root: buildLine(windowOutput.bomLine, 0)
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] ExpandBOMCommand.execute successful: ${allLines.length} lines loaded`);
+      return { data: structure };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error expanding BOM:`, error);
+      return this.createErrorResponse('BOM_ERROR', error, 'Failed to expand BOM');
+    } finally {
+      if (bomWindow && this.soaClient) {
+        await this.closeBOMWindow(this.soaClient, bomWindow);
+      }
+    }
+  }
+
+  /**
+   * Close a BOM window, logging rather than failing if the server refuses
+   * @param soaClient The SOA client to use
+   * @param bomWindow The BOM window to close
+   */
+  private async closeBOMWindow(soaClient: SOAClient, bomWindow: TCObjectRef): Promise<void> {
+    try {
+      await soaClient.callService(
+        'Cad-2007-01-StructureManagement',
+        'closeBOMWindows',
+        { bomWindows: [bomWindow] }
+      );
+    } catch (error) {
+      this.logger.warn(`[${this.serviceRequestId}] Failed to close BOM window ${bomWindow.uid}:`, error);
+    }
+  }
+}
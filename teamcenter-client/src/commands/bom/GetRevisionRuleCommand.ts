@@ -0,0 +1,73 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectProperties } from '../../tcResponseParser.js';
+
+export class GetRevisionRuleCommand extends BaseCommand<TCObjectRef> {
+  private ruleName: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, ruleName: string) {
+    super(logger, soaClient, isLoggedIn);
+    this.ruleName = ruleName;
+  }
+
+  async execute(): Promise<TCResponse<TCObjectRef>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetRevisionRuleCommand.execute called for rule: ${this.ruleName}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetRevisionRuleCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getRevisionRule');
+    }
+
+    // Validate parameters
+    if (!this.ruleName) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Revision rule name is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getRevisionRule' }
+        );
+      }
+
+      const result = await this.soaClient.callService(
+        'Cad-2007-01-StructureManagement',
+        'getRevisionRules',
+        {}
+      ) as any;
+
+      for (const output of result?.output || []) {
+        const revRule = output.revRule as TCObjectRef | undefined;
+        if (revRule && getModelObjectProperties(result, revRule.uid).object_name === this.ruleName) {
+          this.logger.debug(`[${this.serviceRequestId}] GetRevisionRuleCommand.execute successful: ${revRule.uid}`);
+          return { data: revRule };
+        }
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] GetRevisionRuleCommand.execute failed: rule not found`);
+      return {
+        error: {
+          code: 'NOT_FOUND',
+          level: 'ERROR',
+          message: `Revision rule not found: ${this.ruleName}`
+        }
+      };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting revision rule:`, error);
+      return this.createErrorResponse('API_ERROR', error, 'Failed to get revision rule');
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCObjectRef, TCWhereUsedParent, TCWhereUsedResult } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectProperties } from '../../tcResponseParser.js';
+import { GetRevisionRuleCommand } from './GetRevisionRuleCommand.js';
+
+export class WhereUsedCommand extends BaseCommand<TCWhereUsedResult> {
+  private uid: string;
+  private depth: number;
+  private revisionRule?: string;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    uid: string,
+    depth: number = 1,
+    revisionRule?: string
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.uid = uid;
+    this.depth = depth;
+    this.revisionRule = revisionRule;
+  }
+
+  async execute(): Promise<TCResponse<TCWhereUsedResult>> {
+    this.logger.debug(`[${this.serviceRequestId}] WhereUsedCommand.execute called for object: ${this.uid}, depth: ${this.depth}, revision rule: ${this.revisionRule}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] WhereUsedCommand.execute failed: No session`);
+      return this.createNotLoggedInError('whereUsed');
+    }
+
+    // Validate parameters
+    if (!this.uid) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Item or item revision UID is required'
+        }
+      };
+    }
+
+    if (this.depth <= 0 || this.depth > 20) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Depth must be between 1 and 20'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'whereUsed' }
+        );
+      }
+
+      // Without a revision rule every revision of the parents is reported
+      let rule: TCObjectRef | string = '';
+      if (this.revisionRule) {
+        const revRuleCommand = new GetRevisionRuleCommand(this.logger, this.soaClient, this.isLoggedIn, this.revisionRule);
+        const revRuleResponse = await revRuleCommand.execute();
+
+        if (revRuleResponse.error || !revRuleResponse.data) {
+          throw new AppError(
+            revRuleResponse.error?.message || `Revision rule not found: ${this.revisionRule}`,
+            ErrorType.DATA_VALIDATION,
+            null,
+            { method: 'whereUsed', revisionRule: this.revisionRule }
+          );
+        }
+
+        rule = revRuleResponse.data;
+      }
+
+      const payload = {
+        objects: [{ uid: this.uid }],
+        numLevels: this.depth,
+        whereUsedPrecise: false,
+        rule
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] whereUsed payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Core-2007-01-DataManagement',
+        'whereUsed',
+        payload
+      ) as any;
+
+      // Collect the parents, keeping the closest level when a parent is reached more than once
+      const levels = new Map<string, { ref: TCObjectRef; level: number }>();
+      for (const output of result?.output || []) {
+        for (const info of output.info || []) {
+          const parent = info.parentItemRev as TCObjectRef | undefined;
+          if (!parent?.uid) continue;
+
+          const existing = levels.get(parent.uid);
+          if (!existing || info.level < existing.level) {
+            levels.set(parent.uid, { ref: parent, level: info.level });
+          }
+        }
+      }
+
+      let parents: TCWhereUsedParent[] = [];
+      if (levels.size > 0) {
+        const properties = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: Array.from(levels.values()).map(entry => entry.ref),
+            attributes: ['item_id', 'item_revision_id', 'object_name']
+          }
+        );
+
+        parents = Array.from(levels.values())
+          .map(({ ref, level }) => {
+            const props = getModelObjectProperties(properties, ref.uid);
+            return {
+              uid: ref.uid,
+              type: ref.type || '',
+              itemId: props.item_id || '',
+              revisionId: props.item_revision_id || '',
+              name: props.object_name || '',
+              level
+            };
+          })
+          .sort((a, b) => a.level - b.level);
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] WhereUsedCommand.execute successful: ${parents.length} parents found`);
+      return {
+        data: {
+          uid: this.uid,
+          depth: this.depth,
+          revisionRule: this.revisionRule,
+          parents
+        }
+      };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error running where-used query:`, error);
+      return this.createErrorResponse('WHERE_USED_ERROR', error, 'Failed to run where-used query');
+    }
+  }
+}
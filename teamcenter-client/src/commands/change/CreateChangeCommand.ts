@@ -0,0 +1,118 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCChangeObject, TCChangeType, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { GetChangesCommand } from './GetChangesCommand.js';
+import { getErrorStacks } from '../../tcResponseParser.js';
+
+export class CreateChangeCommand extends BaseCommand<TCChangeObject> {
+  private changeType: TCChangeType;
+  private name: string;
+  private description: string;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    changeType: TCChangeType,
+    name: string,
+    description: string = ''
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.changeType = changeType;
+    this.name = name;
+    this.description = description;
+  }
+
+  async execute(): Promise<TCResponse<TCChangeObject>> {
+    this.logger.debug(`[${this.serviceRequestId}] CreateChangeCommand.execute called with type: ${this.changeType}, name: ${this.name}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] CreateChangeCommand.execute failed: No session`);
+      return this.createNotLoggedInError('createChange');
+    }
+
+    // Validate parameters
+    if (!['ChangeRequest', 'ChangeNotice'].includes(this.changeType) || !this.name) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Change type (ChangeRequest or ChangeNotice) and name are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'createChange' }
+        );
+      }
+
+      // Create the change item together with its first revision
+      const payload = {
+        input: [{
+          clientId: this.serviceRequestId,
+          data: {
+            boName: this.changeType,
+            stringProps: {
+              object_name: this.name,
+              object_desc: this.description
+            },
+            compoundCreateInput: {
+              revision: [{
+                boName: `${this.changeType}Revision`,
+                stringProps: {
+                  object_name: this.name,
+                  object_desc: this.description
+                }
+              }]
+            }
+          }
+        }]
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] createChange payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Core-2008-06-DataManagement',
+        'createObjects',
+        payload
+      ) as any;
+
+      const createdObjects: TCObjectRef[] = result?.output?.[0]?.objects || [];
+      const revision = createdObjects.find(object => object?.type?.endsWith('Revision'));
+      if (!revision) {
+        throw createTeamcenterError(
+          getErrorStacks(result),
+          `Failed to create ${this.changeType}: no revision returned`,
+          { method: 'createChange' }
+        );
+      }
+
+      // Load the change number assigned by Teamcenter
+      const changesCommand = new GetChangesCommand(this.logger, this.soaClient, this.isLoggedIn, [revision.uid]);
+      const changesResponse = await changesCommand.execute();
+      if (changesResponse.error || !changesResponse.data?.[0]) {
+        throw new AppError(
+          `Failed to load created change: ${changesResponse.error?.message || 'change not found'}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'createChange' }
+        );
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] CreateChangeCommand.execute successful: ${changesResponse.data[0].itemId} created`);
+      return { data: changesResponse.data[0] };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error creating change:`, error);
+      return this.createErrorResponse('CHANGE_ERROR', error, 'Failed to create change');
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCChangeObject } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getDisplayValue, parseServiceData } from '../../tcResponseParser.js';
+
+// Properties loaded for every change revision
+export const CHANGE_ATTRIBUTES = [
+  'item_id',
+  'item_revision_id',
+  'object_name',
+  'object_desc',
+  'object_type',
+  'CMClosure',
+  'CMMaturity'
+];
+
+export class GetChangesCommand extends BaseCommand<TCChangeObject[]> {
+  private changeUids: string[];
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, changeUids: string[]) {
+    super(logger, soaClient, isLoggedIn);
+    this.changeUids = changeUids;
+  }
+
+  async execute(): Promise<TCResponse<TCChangeObject[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetChangesCommand.execute called for ${this.changeUids.length} changes`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetChangesCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getChanges');
+    }
+
+    // Nothing to load
+    if (this.changeUids.length === 0) {
+      return { data: [] };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getChanges' }
+        );
+      }
+
+      const result = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: this.changeUids.map(uid => ({ uid, type: 'ChangeItemRevision' })),
+          attributes: CHANGE_ATTRIBUTES
+        }
+      ) as any;
+
+      const { modelObjects } = parseServiceData(result);
+      const changes: TCChangeObject[] = this.changeUids.map(uid => {
+        const change = modelObjects[uid] || { uid, type: '', properties: {} };
+        return {
+          uid,
+          type: change.type || getDisplayValue(change, 'object_type') || 'ChangeItemRevision',
+          itemId: getDisplayValue(change, 'item_id'),
+          revisionId: getDisplayValue(change, 'item_revision_id'),
+          name: getDisplayValue(change, 'object_name'),
+          description: getDisplayValue(change, 'object_desc'),
+          closure: getDisplayValue(change, 'CMClosure'),
+          maturity: getDisplayValue(change, 'CMMaturity'),
+          properties: change.properties
+        };
+      });
+
+      this.logger.debug(`[${this.serviceRequestId}] GetChangesCommand.execute successful: ${changes.length} changes loaded`);
+      return { data: changes };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting changes:`, error);
+      return this.createErrorResponse('CHANGE_ERROR', error, 'Failed to get changes');
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCChangeObject } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { CHANGE_FOLDER_RELATIONS } from './ListChangeItemsCommand.js';
+import { GetChangesCommand } from './GetChangesCommand.js';
+
+export class GetOpenChangesCommand extends BaseCommand<TCChangeObject[]> {
+  private uid: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, uid: string) {
+    super(logger, soaClient, isLoggedIn);
+    this.uid = uid;
+  }
+
+  async execute(): Promise<TCResponse<TCChangeObject[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetOpenChangesCommand.execute called for object: ${this.uid}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetOpenChangesCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getOpenChanges');
+    }
+
+    // Validate parameters
+    if (!this.uid) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Object UID is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getOpenChanges' }
+        );
+      }
+
+      // Find the changes that hold the object in any of their folders
+      const payload = {
+        secondaryObjects: [{ uid: this.uid, type: 'WorkspaceObject' }],
+        pref: {
+          expItemRev: false,
+          returnRelations: false,
+          info: Object.values(CHANGE_FOLDER_RELATIONS).map(relationTypeName => ({
+            relationTypeName,
+            otherSideObjectTypes: ['ChangeItemRevision']
+          }))
+        }
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] getOpenChanges payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Core-2007-09-DataManagement',
+        'expandGRMRelationsForSecondary',
+        payload
+      ) as any;
+
+      const changeUids: string[] = Array.from(new Set(
+        (result?.output || [])
+          .flatMap((output: any) => output.relationshipData || [])
+          .flatMap((relationship: any) => relationship.relationshipObjects || [])
+          .map((relationObject: any) => relationObject.otherSideObject?.uid)
+          .filter((uid: string | undefined): uid is string => !!uid)
+      ));
+
+      const changesCommand = new GetChangesCommand(this.logger, this.soaClient, this.isLoggedIn, changeUids);
+      const changesResponse = await changesCommand.execute();
+      if (changesResponse.error) {
+        throw new AppError(
+          `Failed to load changes: ${changesResponse.error.message}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'getOpenChanges' }
+        );
+      }
+
+      // Closed changes no longer affect the object
+      const openChanges = (changesResponse.data || []).filter(change => change.closure !== 'Closed');
+
+      this.logger.debug(`[${this.serviceRequestId}] GetOpenChangesCommand.execute successful: ${openChanges.length} open changes found`);
+      return { data: openChanges };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting open changes:`, error);
+      return this.createErrorResponse('CHANGE_ERROR', error, 'Failed to get open changes');
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCChangeItems, TCChangeItem, TCChangeFolder } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getDisplayValue, getModelObjectPropertyValues, parseServiceData } from '../../tcResponseParser.js';
+
+// Relation behind every folder of a change
+export const CHANGE_FOLDER_RELATIONS: Record<TCChangeFolder, string> = {
+  problem: 'CMHasProblemItem',
+  solution: 'CMHasSolutionItem',
+  impacted: 'CMHasImpactedItem'
+};
+
+export class ListChangeItemsCommand extends BaseCommand<TCChangeItems> {
+  private changeUid: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, changeUid: string) {
+    super(logger, soaClient, isLoggedIn);
+    this.changeUid = changeUid;
+  }
+
+  async execute(): Promise<TCResponse<TCChangeItems>> {
+    this.logger.debug(`[${this.serviceRequestId}] ListChangeItemsCommand.execute called for change: ${this.changeUid}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] ListChangeItemsCommand.execute failed: No session`);
+      return this.createNotLoggedInError('listChangeItems');
+    }
+
+    // Validate parameters
+    if (!this.changeUid) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Change UID is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'listChangeItems' }
+        );
+      }
+
+      const relations = Object.values(CHANGE_FOLDER_RELATIONS);
+      const result = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: [{ uid: this.changeUid, type: 'ChangeItemRevision' }],
+          attributes: relations
+        }
+      ) as any;
+
+      const folderUids = (folder: TCChangeFolder) =>
+        getModelObjectPropertyValues(result, this.changeUid, CHANGE_FOLDER_RELATIONS[folder]);
+      const itemUids = Array.from(new Set(relations.flatMap(relation => getModelObjectPropertyValues(result, this.changeUid, relation))));
+
+      // Load the names of the items held in the folders
+      let itemsResult: any = {};
+      if (itemUids.length > 0) {
+        itemsResult = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: itemUids.map(uid => ({ uid, type: 'WorkspaceObject' })),
+            attributes: ['object_string', 'object_type']
+          }
+        );
+      }
+
+      const { modelObjects } = parseServiceData(itemsResult);
+      const toChangeItems = (uids: string[]): TCChangeItem[] => uids.map(uid => {
+        const item = modelObjects[uid] || { uid, type: '', properties: {} };
+        return {
+          uid,
+          type: item.type || getDisplayValue(item, 'object_type') || 'WorkspaceObject',
+          name: getDisplayValue(item, 'object_string'),
+          properties: item.properties
+        };
+      });
+
+      const changeItems: TCChangeItems = {
+        changeUid: this.changeUid,
+        problemItems: toChangeItems(folderUids('problem')),
+        solutionItems: toChangeItems(folderUids('solution')),
+        impactedItems: toChangeItems(folderUids('impacted'))
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] ListChangeItemsCommand.execute successful: ${itemUids.length} items found`);
+      return { data: changeItems };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error listing change items:`, error);
+      return this.createErrorResponse('CHANGE_ERROR', error, 'Failed to list change items');
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, TCResponse, TCChangeItems, TCChangeFolder } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { CHANGE_FOLDER_RELATIONS, ListChangeItemsCommand } from './ListChangeItemsCommand.js';
+import { getErrorStacks } from '../../tcResponseParser.js';
+
+export class UpdateChangeItemsCommand extends BaseCommand<TCChangeItems> {
+  private changeUid: string;
+  private folder: TCChangeFolder;
+  private itemUids: string[];
+  private remove: boolean;
+  private cache: PropertyCache | null;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    changeUid: string,
+    folder: TCChangeFolder,
+    itemUids: string[],
+    remove: boolean = false,
+    cache: PropertyCache | null = null
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.changeUid = changeUid;
+    this.folder = folder;
+    this.itemUids = itemUids;
+    this.remove = remove;
+    this.cache = cache;
+  }
+
+  async execute(): Promise<TCResponse<TCChangeItems>> {
+    const operation = this.remove ? 'remove' : 'add';
+    this.logger.debug(`[${this.serviceRequestId}] UpdateChangeItemsCommand.execute called to ${operation} ${this.itemUids.length} ${this.folder} items on change: ${this.changeUid}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] UpdateChangeItemsCommand.execute failed: No session`);
+      return this.createNotLoggedInError('updateChangeItems');
+    }
+
+    // Validate parameters
+    if (!this.changeUid || !CHANGE_FOLDER_RELATIONS[this.folder] || this.itemUids.length === 0) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: `Change UID, folder (${Object.keys(CHANGE_FOLDER_RELATIONS).join(', ')}) and at least one item are required`
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'updateChangeItems' }
+        );
+      }
+
+      // Folder contents are GRM relations from the change revision to the items
+      const relationType = CHANGE_FOLDER_RELATIONS[this.folder];
+      const payload = {
+        input: this.itemUids.map(uid => ({
+          clientId: `${this.serviceRequestId}_${uid}`,
+          relationType,
+          primaryObject: { uid: this.changeUid, type: 'ChangeItemRevision' },
+          secondaryObject: { uid, type: 'WorkspaceObject' },
+          userData: null
+        }))
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] updateChangeItems payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        this.remove ? 'deleteRelations' : 'createRelations',
+        payload
+      );
+
+      // The folders of the change and the relation properties of the items have changed
+      if (this.cache) {
+        invalidateServiceData(this.cache, result, [this.changeUid, ...this.itemUids]);
+      }
+
+      // Teamcenter reports the relations it could not change as partial errors
+      const errorStacks = getErrorStacks(result);
+      if (errorStacks.length > 0) {
+        throw createTeamcenterError(errorStacks, 'Failed to update change items', { method: 'updateChangeItems' });
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] UpdateChangeItemsCommand.execute successful`);
+
+      // Return the folders as they are now
+      const listCommand = new ListChangeItemsCommand(this.logger, this.soaClient, this.isLoggedIn, this.changeUid);
+      return await listCommand.execute();
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error updating change items:`, error);
+      return this.createErrorResponse('CHANGE_ERROR', error, `Failed to ${operation} change items`);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, TCResponse, TCClassification } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { GetClassAttributesCommand, findClassAttribute } from './GetClassAttributesCommand.js';
+import { GetClassificationCommand } from './GetClassificationCommand.js';
+import { getErrorStacks } from '../../tcResponseParser.js';
+
+export class ClassifyObjectCommand extends BaseCommand<TCClassification> {
+  private uid: string;
+  private classId: string;
+  private values: Record<string, string | string[]>;
+  private unitSystem: string;
+  private cache: PropertyCache | null;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    uid: string,
+    classId: string,
+    values: Record<string, string | string[]> = {},
+    unitSystem: string = 'METRIC',
+    cache: PropertyCache | null = null
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.uid = uid;
+    this.classId = classId;
+    this.values = values;
+    this.unitSystem = unitSystem;
+    this.cache = cache;
+  }
+
+  async execute(): Promise<TCResponse<TCClassification>> {
+    this.logger.debug(`[${this.serviceRequestId}] ClassifyObjectCommand.execute called for object: ${this.uid}, class: ${this.classId}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] ClassifyObjectCommand.execute failed: No session`);
+      return this.createNotLoggedInError('classifyObject');
+    }
+
+    // Validate parameters
+    if (!this.uid || !this.classId) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Object UID and class ID are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'classifyObject' }
+        );
+      }
+
+      // Resolve attribute names to the numeric IDs stored on the classification object
+      const attributesCommand = new GetClassAttributesCommand(this.logger, this.soaClient, this.isLoggedIn, this.classId);
+      const attributesResponse = await attributesCommand.execute();
+      if (attributesResponse.error) {
+        throw new AppError(
+          `Failed to get class attributes: ${attributesResponse.error.message}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'classifyObject' }
+        );
+      }
+
+      const properties = Object.entries(this.values).map(([key, value]) => {
+        const attribute = findClassAttribute(attributesResponse.data || [], key);
+        if (!attribute) {
+          throw new AppError(
+            `Attribute ${key} not found in class ${this.classId}`,
+            ErrorType.DATA_VALIDATION,
+            null,
+            { method: 'classifyObject' }
+          );
+        }
+        return {
+          attributeId: attribute.id,
+          values: (Array.isArray(value) ? value : [value]).map(dbValue => ({ dbValue }))
+        };
+      });
+
+      const payload = {
+        clsObjs: [{
+          clsObjTag: null,
+          classId: this.classId,
+          instanceId: '',
+          unitBase: this.unitSystem,
+          wsoId: { uid: this.uid, type: 'WorkspaceObject' },
+          properties
+        }]
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] classifyObject payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Classification-2007-01-Classification',
+        'createClassificationObjects',
+        payload
+      );
+
+      // The classification properties of the object have changed
+      if (this.cache) {
+        invalidateServiceData(this.cache, result, [this.uid]);
+      }
+
+      // Teamcenter reports the objects it could not classify as partial errors
+      const errorStacks = getErrorStacks(result);
+      if (errorStacks.length > 0) {
+        throw createTeamcenterError(errorStacks, `Failed to classify ${this.uid} in ${this.classId}`, { method: 'classifyObject' });
+      }
+
+      // Return the classification as stored by Teamcenter
+      const classificationCommand = new GetClassificationCommand(this.logger, this.soaClient, this.isLoggedIn, this.uid);
+      const classificationResponse = await classificationCommand.execute();
+      const classification = classificationResponse.data?.find(candidate => candidate.classId === this.classId);
+      if (!classification) {
+        throw new AppError(
+          `Failed to read back the classification in ${this.classId}: ${classificationResponse.error?.message || 'classification not found'}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'classifyObject' }
+        );
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] ClassifyObjectCommand.execute successful: ${classification.icoUid} created`);
+      return { data: classification };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error classifying object:`, error);
+      return this.createErrorResponse('CLASSIFICATION_ERROR', error, 'Failed to classify object');
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCClassAttribute } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getMapEntries } from '../../tcResponseParser.js';
+
+/**
+ * Find the attribute referred to by a name, short name or numeric ID
+ * @param attributes The attributes of the class
+ * @param key The attribute name, short name or ID
+ * @returns The matching attribute, or undefined if the class has none
+ */
+export const findClassAttribute = (attributes: TCClassAttribute[], key: string): TCClassAttribute | undefined => {
+  const normalizedKey = key.trim().toLowerCase();
+  return attributes.find(attribute =>
+    String(attribute.id) === normalizedKey ||
+    attribute.name.toLowerCase() === normalizedKey ||
+    attribute.shortName.toLowerCase() === normalizedKey
+  );
+};
+
+export class GetClassAttributesCommand extends BaseCommand<TCClassAttribute[]> {
+  private classId: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, classId: string) {
+    super(logger, soaClient, isLoggedIn);
+    this.classId = classId;
+  }
+
+  async execute(): Promise<TCResponse<TCClassAttribute[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetClassAttributesCommand.execute called for class: ${this.classId}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetClassAttributesCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getClassAttributes');
+    }
+
+    // Validate parameters
+    if (!this.classId) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Class ID is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getClassAttributes' }
+        );
+      }
+
+      const result = await this.soaClient.callService(
+        'Classification-2007-01-Classification',
+        'getAttributesForClasses',
+        { classIds: [this.classId] }
+      ) as any;
+
+      const rawAttributes = getMapEntries<string, any[]>(result?.attributes)
+        .find(([classId]) => classId === this.classId)?.[1] || [];
+
+      const attributes: TCClassAttribute[] = rawAttributes.map(attribute => ({
+        id: Number(attribute.id),
+        name: attribute.name || '',
+        shortName: attribute.shortName || '',
+        unit: attribute.unitName || '',
+        format: typeof attribute.format === 'object' ? JSON.stringify(attribute.format) : String(attribute.format ?? '')
+      }));
+
+      this.logger.debug(`[${this.serviceRequestId}] GetClassAttributesCommand.execute successful: ${attributes.length} attributes found`);
+      return { data: attributes };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting class attributes:`, error);
+      return this.createErrorResponse('CLASSIFICATION_ERROR', error, 'Failed to get class attributes');
+    }
+  }
+}
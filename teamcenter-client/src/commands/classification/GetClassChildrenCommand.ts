@@ -0,0 +1,61 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCClassificationNode } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getMapEntries } from '../../tcResponseParser.js';
+
+// ID of the root of the classification hierarchy
+export const CLASSIFICATION_ROOT = 'ICM';
+
+export class GetClassChildrenCommand extends BaseCommand<TCClassificationNode[]> {
+  private classId: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, classId: string = CLASSIFICATION_ROOT) {
+    super(logger, soaClient, isLoggedIn);
+    this.classId = classId;
+  }
+
+  async execute(): Promise<TCResponse<TCClassificationNode[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetClassChildrenCommand.execute called for class: ${this.classId}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetClassChildrenCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getClassChildren');
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getClassChildren' }
+        );
+      }
+
+      const result = await this.soaClient.callService(
+        'Classification-2007-01-Classification',
+        'getChildren',
+        { classIds: [this.classId] }
+      ) as any;
+
+      const children = getMapEntries<string, any[]>(result?.children)
+        .find(([classId]) => classId === this.classId)?.[1] || [];
+
+      const nodes: TCClassificationNode[] = children.map(child => ({
+        id: child.id,
+        name: child.name || '',
+        type: child.type || '',
+        childCount: child.childCount ?? 0
+      }));
+
+      this.logger.debug(`[${this.serviceRequestId}] GetClassChildrenCommand.execute successful: ${nodes.length} children found`);
+      return { data: nodes };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting class children:`, error);
+      return this.createErrorResponse('CLASSIFICATION_ERROR', error, 'Failed to get class children');
+    }
+  }
+}
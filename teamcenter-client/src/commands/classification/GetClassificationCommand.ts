@@ -0,0 +1,99 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCClassification, TCClassAttribute, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getMapEntries } from '../../tcResponseParser.js';
+import { GetClassAttributesCommand } from './GetClassAttributesCommand.js';
+
+export class GetClassificationCommand extends BaseCommand<TCClassification[]> {
+  private uid: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, uid: string) {
+    super(logger, soaClient, isLoggedIn);
+    this.uid = uid;
+  }
+
+  async execute(): Promise<TCResponse<TCClassification[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetClassificationCommand.execute called for object: ${this.uid}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetClassificationCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getClassification');
+    }
+
+    // Validate parameters
+    if (!this.uid) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Object UID is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getClassification' }
+        );
+      }
+
+      // Find the classification objects (ICOs) of the workspace object
+      const findResult = await this.soaClient.callService(
+        'Classification-2007-01-Classification',
+        'findClassificationObjects',
+        { wsoIds: [{ uid: this.uid, type: 'WorkspaceObject' }] }
+      ) as any;
+
+      const icoRefs: TCObjectRef[] = getMapEntries<any, TCObjectRef[]>(findResult?.icos).flatMap(([, icos]) => icos || []);
+      if (icoRefs.length === 0) {
+        this.logger.debug(`[${this.serviceRequestId}] GetClassificationCommand.execute successful: object is not classified`);
+        return { data: [] };
+      }
+
+      const icoResult = await this.soaClient.callService(
+        'Classification-2007-01-Classification',
+        'getClassificationObjects',
+        { icoIds: icoRefs }
+      ) as any;
+
+      const icos = getMapEntries<any, any>(icoResult?.clsObjs);
+
+      // Attribute names come from the class definitions
+      const attributesByClass: Record<string, TCClassAttribute[]> = {};
+      for (const classId of new Set(icos.map(([, ico]) => ico.classId as string))) {
+        const attributesCommand = new GetClassAttributesCommand(this.logger, this.soaClient, this.isLoggedIn, classId);
+        const attributesResponse = await attributesCommand.execute();
+        attributesByClass[classId] = attributesResponse.data || [];
+      }
+
+      const classifications: TCClassification[] = icos.map(([icoRef, ico]) => ({
+        icoUid: ico.clsObjTag?.uid || (typeof icoRef === 'string' ? icoRef : icoRef?.uid) || '',
+        classId: ico.classId,
+        instanceId: ico.instanceId || '',
+        unitSystem: ico.unitBase || '',
+        attributes: (ico.properties || []).map((property: any) => {
+          const definition = attributesByClass[ico.classId]?.find(attribute => attribute.id === Number(property.attributeId));
+          return {
+            id: Number(property.attributeId),
+            name: definition?.name || String(property.attributeId),
+            values: (property.values || []).map((value: any) => String(value.dbValue ?? '')),
+            unit: definition?.unit || ''
+          };
+        })
+      }));
+
+      this.logger.debug(`[${this.serviceRequestId}] GetClassificationCommand.execute successful: ${classifications.length} classifications found`);
+      return { data: classifications };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting classification:`, error);
+      return this.createErrorResponse('CLASSIFICATION_ERROR', error, 'Failed to get classification');
+    }
+  }
+}
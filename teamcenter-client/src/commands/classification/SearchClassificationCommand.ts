@@ -0,0 +1,147 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCClassificationCriteria, TCClassifiedObject, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getMapEntries, getModelObjectProperties } from '../../tcResponseParser.js';
+import { GetClassAttributesCommand, findClassAttribute } from './GetClassAttributesCommand.js';
+
+/**
+ * Convert a criterion into an ICS query expression
+ * @param criterion An exact value or query, or a numeric range
+ * @returns The query expression (ranges use the >= and <= operators joined by &)
+ */
+const toClassificationQuery = (criterion: TCClassificationCriteria[string]): string => {
+  if (typeof criterion === 'string') {
+    return criterion;
+  }
+
+  return [
+    criterion.min !== undefined ? `>=${criterion.min}` : '',
+    criterion.max !== undefined ? `<=${criterion.max}` : ''
+  ].filter(Boolean).join(' & ');
+};
+
+export class SearchClassificationCommand extends BaseCommand<TCClassifiedObject[]> {
+  private classId: string;
+  private criteria: TCClassificationCriteria;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, classId: string, criteria: TCClassificationCriteria = {}) {
+    super(logger, soaClient, isLoggedIn);
+    this.classId = classId;
+    this.criteria = criteria;
+  }
+
+  async execute(): Promise<TCResponse<TCClassifiedObject[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] SearchClassificationCommand.execute called for class: ${this.classId}, criteria: ${JSON.stringify(this.criteria)}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] SearchClassificationCommand.execute failed: No session`);
+      return this.createNotLoggedInError('searchClassification');
+    }
+
+    // Validate parameters
+    if (!this.classId) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Class ID is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'searchClassification' }
+        );
+      }
+
+      // Resolve attribute names to the numeric IDs used by the search
+      const attributesCommand = new GetClassAttributesCommand(this.logger, this.soaClient, this.isLoggedIn, this.classId);
+      const attributesResponse = await attributesCommand.execute();
+      if (attributesResponse.error) {
+        throw new AppError(
+          `Failed to get class attributes: ${attributesResponse.error.message}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'searchClassification' }
+        );
+      }
+
+      const searchAttributes = Object.entries(this.criteria).map(([key, criterion]) => {
+        const attribute = findClassAttribute(attributesResponse.data || [], key);
+        if (!attribute) {
+          throw new AppError(
+            `Attribute ${key} not found in class ${this.classId}`,
+            ErrorType.DATA_VALIDATION,
+            null,
+            { method: 'searchClassification' }
+          );
+        }
+        return { attributeId: attribute.id, query: toClassificationQuery(criterion) };
+      });
+
+      const payload = {
+        searchCriteria: [{
+          classIds: [this.classId],
+          searchAttributes,
+          searchOption: 0
+        }]
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] searchClassification payload:`, JSON.stringify(payload, null, 2));
+
+      const searchResult = await this.soaClient.callService(
+        'Classification-2007-01-Classification',
+        'search',
+        payload
+      ) as any;
+
+      const icoRefs: TCObjectRef[] = getMapEntries<string, TCObjectRef[]>(searchResult?.clsObjTags).flatMap(([, icos]) => icos || []);
+      if (icoRefs.length === 0) {
+        this.logger.debug(`[${this.serviceRequestId}] SearchClassificationCommand.execute successful: no objects found`);
+        return { data: [] };
+      }
+
+      // Resolve the classified workspace objects and their names
+      const icoResult = await this.soaClient.callService(
+        'Classification-2007-01-Classification',
+        'getClassificationObjects',
+        { icoIds: icoRefs }
+      ) as any;
+
+      const icos = getMapEntries<any, any>(icoResult?.clsObjs).filter(([, ico]) => ico.wsoId?.uid);
+      let propertiesResult: unknown = {};
+      if (icos.length > 0) {
+        propertiesResult = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: icos.map(([, ico]) => ico.wsoId),
+            attributes: ['object_string']
+          }
+        );
+      }
+
+      const objects: TCClassifiedObject[] = icos.map(([icoRef, ico]) => ({
+        uid: ico.wsoId.uid,
+        type: ico.wsoId.type,
+        name: getModelObjectProperties(propertiesResult, ico.wsoId.uid).object_string || '',
+        icoUid: ico.clsObjTag?.uid || (typeof icoRef === 'string' ? icoRef : icoRef?.uid) || '',
+        classId: ico.classId
+      }));
+
+      this.logger.debug(`[${this.serviceRequestId}] SearchClassificationCommand.execute successful: ${objects.length} objects found`);
+      return { data: objects };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error searching classification:`, error);
+      return this.createErrorResponse('CLASSIFICATION_ERROR', error, 'Failed to search classification');
+    }
+  }
+}
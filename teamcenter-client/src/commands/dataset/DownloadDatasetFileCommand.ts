@@ -0,0 +1,112 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCFileContent } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getMapEntries } from '../../tcResponseParser.js';
+import { getMimeType, isTextMimeType } from '../../tcFmsService.js';
+import { GetDatasetFilesCommand } from './GetDatasetFilesCommand.js';
+
+export class DownloadDatasetFileCommand extends BaseCommand<TCFileContent> {
+  private datasetUid: string;
+  private fileName: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, datasetUid: string, fileName: string) {
+    super(logger, soaClient, isLoggedIn);
+    this.datasetUid = datasetUid;
+    this.fileName = fileName;
+  }
+
+  async execute(): Promise<TCResponse<TCFileContent>> {
+    this.logger.debug(`[${this.serviceRequestId}] DownloadDatasetFileCommand.execute called for dataset: ${this.datasetUid}, file: ${this.fileName}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] DownloadDatasetFileCommand.execute failed: No session`);
+      return this.createNotLoggedInError('downloadDatasetFile');
+    }
+
+    // Validate parameters
+    if (!this.datasetUid || !this.fileName) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Dataset UID and file name are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'downloadDatasetFile' }
+        );
+      }
+
+      // Find the named reference matching the requested file name
+      const filesCommand = new GetDatasetFilesCommand(this.logger, this.soaClient, this.isLoggedIn, [this.datasetUid]);
+      const filesResponse = await filesCommand.execute();
+      if (filesResponse.error) {
+        throw new AppError(
+          `Failed to get dataset files: ${filesResponse.error.message}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'downloadDatasetFile' }
+        );
+      }
+
+      const file = filesResponse.data?.[this.datasetUid]?.find(candidate => candidate.name === this.fileName);
+      if (!file) {
+        return {
+          error: {
+            code: 'NOT_FOUND',
+            level: 'ERROR',
+            message: `File ${this.fileName} not found in dataset ${this.datasetUid}`
+          }
+        };
+      }
+
+      // Get a read ticket for the file and download it from FMS
+      const ticketResult = await this.soaClient.callService(
+        'Core-2006-03-FileManagement',
+        'getFileReadTickets',
+        { files: [{ uid: file.uid, type: 'ImanFile' }] }
+      ) as any;
+
+      const ticket = getMapEntries<any, string>(ticketResult?.tickets)
+        .find(([key]) => (typeof key === 'string' ? key : key?.uid) === file.uid)?.[1];
+
+      if (!ticket) {
+        throw new AppError(
+          `No read ticket returned for file ${this.fileName}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'downloadDatasetFile' }
+        );
+      }
+
+      const content = await this.soaClient.downloadFile(ticket, this.fileName);
+      const mimeType = getMimeType(this.fileName);
+
+      const fileContent: TCFileContent = {
+        datasetUid: this.datasetUid,
+        name: this.fileName,
+        mimeType,
+        size: content.length,
+        ...(isTextMimeType(mimeType)
+          ? { text: content.toString('utf-8') }
+          : { blob: content.toString('base64') })
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] DownloadDatasetFileCommand.execute successful: ${content.length} bytes downloaded`);
+      return { data: fileContent };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error downloading dataset file:`, error);
+      return this.createErrorResponse('DOWNLOAD_ERROR', error, 'Failed to download dataset file');
+    }
+  }
+}
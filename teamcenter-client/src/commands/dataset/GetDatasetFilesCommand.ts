@@ -0,0 +1,89 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCDatasetFile } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectProperties, getModelObjectPropertyValues } from '../../tcResponseParser.js';
+
+/**
+ * Loads the named references (ImanFiles) of one or more datasets
+ * The result maps each dataset UID to its files
+ */
+export class GetDatasetFilesCommand extends BaseCommand<Record<string, TCDatasetFile[]>> {
+  private datasetUids: string[];
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, datasetUids: string[]) {
+    super(logger, soaClient, isLoggedIn);
+    this.datasetUids = datasetUids;
+  }
+
+  async execute(): Promise<TCResponse<Record<string, TCDatasetFile[]>>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetDatasetFilesCommand.execute called for ${this.datasetUids.length} datasets`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetDatasetFilesCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getDatasetFiles');
+    }
+
+    if (this.datasetUids.length === 0) {
+      return { data: {} };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getDatasetFiles' }
+        );
+      }
+
+      const datasetResult = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: this.datasetUids.map(uid => ({ uid, type: 'Dataset' })),
+          attributes: ['ref_list']
+        }
+      );
+
+      const fileUidsByDataset = this.datasetUids.reduce((acc, uid) => {
+        acc[uid] = getModelObjectPropertyValues(datasetResult, uid, 'ref_list');
+        return acc;
+      }, {} as Record<string, string[]>);
+
+      const allFileUids = Object.values(fileUidsByDataset).flat();
+      let fileResult: unknown = {};
+      if (allFileUids.length > 0) {
+        fileResult = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: allFileUids.map(uid => ({ uid, type: 'ImanFile' })),
+            attributes: ['original_file_name', 'file_size']
+          }
+        );
+      }
+
+      const files = Object.entries(fileUidsByDataset).reduce((acc, [datasetUid, fileUids]) => {
+        acc[datasetUid] = fileUids.map(uid => {
+          const props = getModelObjectProperties(fileResult, uid);
+          return {
+            uid,
+            name: props.original_file_name || '',
+            size: props.file_size ? Number(props.file_size) : undefined
+          };
+        });
+        return acc;
+      }, {} as Record<string, TCDatasetFile[]>);
+
+      this.logger.debug(`[${this.serviceRequestId}] GetDatasetFilesCommand.execute successful: ${allFileUids.length} files found`);
+      return { data: files };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting dataset files:`, error);
+      return this.createErrorResponse('DATASET_ERROR', error, 'Failed to get dataset files');
+    }
+  }
+}
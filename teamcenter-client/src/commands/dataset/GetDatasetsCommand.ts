@@ -0,0 +1,138 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCDatasetsByRelation, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectProperties } from '../../tcResponseParser.js';
+import { GetDatasetFilesCommand } from './GetDatasetFilesCommand.js';
+
+// Relations searched when the caller does not provide a list
+export const DEFAULT_DATASET_RELATIONS = [
+  'IMAN_specification',
+  'IMAN_Rendering',
+  'IMAN_reference',
+  'IMAN_manifestation'
+];
+
+export class GetDatasetsCommand extends BaseCommand<TCDatasetsByRelation> {
+  private itemRevUid: string;
+  private relations: string[];
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    itemRevUid: string,
+    relations: string[] = DEFAULT_DATASET_RELATIONS
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.itemRevUid = itemRevUid;
+    this.relations = relations;
+  }
+
+  async execute(): Promise<TCResponse<TCDatasetsByRelation>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetDatasetsCommand.execute called for revision: ${this.itemRevUid}, relations: ${this.relations.join(', ')}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetDatasetsCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getDatasets');
+    }
+
+    // Validate parameters
+    if (!this.itemRevUid) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Item revision UID is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getDatasets' }
+        );
+      }
+
+      const payload = {
+        primaryObjects: [{ uid: this.itemRevUid, type: 'ItemRevision' }],
+        pref: {
+          expItemRev: false,
+          returnRelations: false,
+          info: this.relations.map(relationTypeName => ({
+            relationTypeName,
+            otherSideObjectTypes: ['Dataset']
+          }))
+        }
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] getDatasets payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Core-2007-09-DataManagement',
+        'expandGRMRelationsForPrimary',
+        payload
+      ) as any;
+
+      // Group the secondary objects by the relation that attaches them
+      const refsByRelation: Record<string, TCObjectRef[]> = {};
+      for (const output of result?.output || []) {
+        for (const relationship of output.relationshipData || []) {
+          const refs = (relationship.relationshipObjects || [])
+            .map((relationObject: any) => relationObject.otherSideObject as TCObjectRef)
+            .filter((ref: TCObjectRef | undefined) => ref?.uid);
+          refsByRelation[relationship.relationName] = [...(refsByRelation[relationship.relationName] || []), ...refs];
+        }
+      }
+
+      const allRefs = Object.values(refsByRelation).flat();
+      const datasetUids = Array.from(new Set(allRefs.map(ref => ref.uid)));
+
+      // Load the dataset names and their files
+      let datasetResult: unknown = {};
+      if (datasetUids.length > 0) {
+        datasetResult = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: datasetUids.map(uid => ({ uid, type: 'Dataset' })),
+            attributes: ['object_name', 'object_type', 'object_desc', 'last_mod_date']
+          }
+        );
+      }
+
+      const filesCommand = new GetDatasetFilesCommand(this.logger, this.soaClient, this.isLoggedIn, datasetUids);
+      const filesResponse = await filesCommand.execute();
+      if (filesResponse.error) {
+        throw new AppError(
+          `Failed to get dataset files: ${filesResponse.error.message}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'getDatasets' }
+        );
+      }
+
+      const datasets = Object.entries(refsByRelation).reduce((acc, [relation, refs]) => {
+        acc[relation] = refs.map(ref => ({
+          uid: ref.uid,
+          type: ref.type || 'Dataset',
+          properties: getModelObjectProperties(datasetResult, ref.uid),
+          files: filesResponse.data?.[ref.uid] || []
+        }));
+        return acc;
+      }, {} as TCDatasetsByRelation);
+
+      this.logger.debug(`[${this.serviceRequestId}] GetDatasetsCommand.execute successful: ${datasetUids.length} datasets found`);
+      return { data: datasets };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting datasets:`, error);
+      return this.createErrorResponse('DATASET_ERROR', error, 'Failed to get datasets');
+    }
+  }
+}
@@ -0,0 +1,258 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, TCResponse, TCDatasetUploadOptions, TCDatasetUploadResult, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { getMimeType, isTextMimeType } from '../../tcFmsService.js';
+import { getErrorStacks } from '../../tcResponseParser.js';
+
+// Relation used when the caller does not choose one
+export const DEFAULT_UPLOAD_RELATION = 'IMAN_specification';
+
+// Named reference that holds the file for the standard dataset types
+export const DATASET_NAMED_REFERENCES: Record<string, string> = {
+  Text: 'Text',
+  PDF: 'PDF_Reference',
+  MSWord: 'word',
+  MSWordX: 'word',
+  MSExcel: 'excel',
+  MSExcelX: 'excel',
+  MSPowerPoint: 'powerpoint',
+  MSPowerPointX: 'powerpoint',
+  Image: 'Image',
+  JPEG: 'JPEG_Reference',
+  Zip: 'ZIPFILE'
+};
+
+export class UploadDatasetCommand extends BaseCommand<TCDatasetUploadResult> {
+  private options: TCDatasetUploadOptions;
+  private cache: PropertyCache | null;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    options: TCDatasetUploadOptions,
+    cache: PropertyCache | null = null
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.options = options;
+    this.cache = cache;
+  }
+
+  async execute(): Promise<TCResponse<TCDatasetUploadResult>> {
+    this.logger.debug(`[${this.serviceRequestId}] UploadDatasetCommand.execute called for revision: ${this.options.itemRevUid}, type: ${this.options.datasetType}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] UploadDatasetCommand.execute failed: No session`);
+      return this.createNotLoggedInError('uploadDataset');
+    }
+
+    // Validate parameters
+    const validationError = this.validate();
+    if (validationError) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: validationError
+        }
+      };
+    }
+
+    // Dataset to delete again when a later step fails, so that no empty dataset is left behind
+    let createdDataset: TCObjectRef | null = null;
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'uploadDataset' }
+        );
+      }
+
+      const fileName = this.options.fileName;
+      const content = Buffer.from(this.options.content, 'base64');
+      const name = this.options.name || fileName;
+      const relationType = this.options.relationType || DEFAULT_UPLOAD_RELATION;
+      const namedReference = this.options.namedReference || DATASET_NAMED_REFERENCES[this.options.datasetType];
+
+      // Create the empty dataset
+      const createPayload = {
+        input: [{
+          clientId: this.serviceRequestId,
+          type: this.options.datasetType,
+          name,
+          description: this.options.description || '',
+          toolUsed: '',
+          datasetId: '',
+          datasetRev: ''
+        }]
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] createDatasets payload:`, JSON.stringify(createPayload, null, 2));
+
+      const createResult = await this.soaClient.callService(
+        'Core-2010-04-DataManagement',
+        'createDatasets',
+        createPayload
+      ) as any;
+
+      const dataset = createResult?.datasetOutput?.[0]?.dataset as TCObjectRef | undefined;
+      if (!dataset?.uid) {
+        throw createTeamcenterError(
+          getErrorStacks(createResult),
+          `Failed to create dataset of type ${this.options.datasetType}`,
+          { method: 'uploadDataset' }
+        );
+      }
+      createdDataset = dataset;
+
+      // Get a write ticket for the file
+      const ticketResult = await this.soaClient.callService(
+        'Core-2006-03-FileManagement',
+        'getDatasetWriteTickets',
+        {
+          inputs: [{
+            dataset,
+            createNewVersion: false,
+            datasetFileInfos: [{
+              clientId: this.serviceRequestId,
+              fileName,
+              namedReferencedName: namedReference,
+              isText: isTextMimeType(getMimeType(fileName)),
+              allowReplace: false
+            }]
+          }]
+        }
+      ) as any;
+
+      const commitInfo = ticketResult?.commitInfo || [];
+      const ticket = commitInfo[0]?.datasetFileTicketInfos?.[0]?.ticket;
+      if (!ticket) {
+        throw new AppError(
+          `No write ticket returned for file ${fileName}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'uploadDataset' }
+        );
+      }
+
+      // Upload the content to FMS and commit it to the dataset
+      await this.soaClient.uploadFile(ticket, fileName, content);
+
+      const commitResult = await this.soaClient.callService(
+        'Core-2006-03-FileManagement',
+        'commitDatasetFiles',
+        { commitInput: commitInfo }
+      );
+
+      // A rejected commit leaves the dataset without its file
+      const commitErrors = getErrorStacks(commitResult);
+      if (commitErrors.length > 0) {
+        throw createTeamcenterError(
+          commitErrors,
+          `Failed to commit file ${fileName} to dataset ${dataset.uid}`,
+          { method: 'uploadDataset' }
+        );
+      }
+
+      // Attach the dataset to the item revision
+      const relationResult = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'createRelations',
+        {
+          input: [{
+            clientId: this.serviceRequestId,
+            relationType,
+            primaryObject: { uid: this.options.itemRevUid, type: 'ItemRevision' },
+            secondaryObject: dataset,
+            userData: null
+          }]
+        }
+      ) as any;
+
+      // The attachments of the object have changed
+      if (this.cache) {
+        invalidateServiceData(this.cache, relationResult, [this.options.itemRevUid]);
+      }
+
+      // Teamcenter reports a relation it could not create, e.g. without write access to the revision, as a partial error
+      const relation = relationResult?.output?.[0]?.relation as TCObjectRef | undefined;
+      const relationErrors = getErrorStacks(relationResult);
+      if (!relation?.uid || relationErrors.length > 0) {
+        throw createTeamcenterError(
+          relationErrors,
+          `Failed to attach dataset ${dataset.uid} to ${this.options.itemRevUid} with ${relationType}`,
+          { method: 'uploadDataset' }
+        );
+      }
+
+      const uploadResult: TCDatasetUploadResult = {
+        dataset,
+        name,
+        relationType,
+        relation,
+        fileName,
+        size: content.length
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] UploadDatasetCommand.execute successful: dataset ${dataset.uid} attached with ${relationType}`);
+      return { data: uploadResult };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error uploading dataset:`, error);
+
+      if (createdDataset && this.soaClient) {
+        await this.deleteDataset(this.soaClient, createdDataset);
+      }
+      return this.createErrorResponse('UPLOAD_ERROR', error, 'Failed to upload dataset');
+    }
+  }
+
+  /**
+   * Delete a dataset created by a failed upload, logging instead of failing when it cannot be deleted
+   * @param soaClient The SOA client to use
+   * @param dataset The dataset to delete
+   */
+  private async deleteDataset(soaClient: SOAClient, dataset: TCObjectRef): Promise<void> {
+    try {
+      const result = await soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'deleteObjects',
+        { objects: [dataset] }
+      );
+
+      const errorStacks = getErrorStacks(result);
+      if (errorStacks.length > 0) {
+        throw createTeamcenterError(errorStacks, `Failed to delete dataset ${dataset.uid}`, { method: 'uploadDataset' });
+      }
+      this.logger.debug(`[${this.serviceRequestId}] Deleted dataset ${dataset.uid} of the failed upload`);
+    } catch (deleteError) {
+      this.logger.warn(`[${this.serviceRequestId}] Failed to delete dataset ${dataset.uid} of the failed upload:`, deleteError);
+    }
+  }
+
+  /**
+   * Check the upload options
+   * @returns An error message, or null if the options are valid
+   */
+  private validate(): string | null {
+    if (!this.options.itemRevUid || !this.options.datasetType) {
+      return 'Item revision UID and dataset type are required';
+    }
+
+    if (!this.options.content || !this.options.fileName) {
+      return 'Base64 content and a file name are required';
+    }
+
+    if (!this.options.namedReference && !DATASET_NAMED_REFERENCES[this.options.datasetType]) {
+      return `No default named reference for dataset type ${this.options.datasetType}, please provide one`;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,118 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCPropertyDiff, TCRevisionComparison } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectProperties } from '../../tcResponseParser.js';
+
+// Properties compared when the caller does not provide a list
+const DEFAULT_COMPARE_ATTRIBUTES = [
+  'item_revision_id',
+  'object_name',
+  'object_desc',
+  'object_type',
+  'release_status_list',
+  'date_released',
+  'owning_user',
+  'owning_group',
+  'creation_date',
+  'last_mod_date',
+  'last_mod_user'
+];
+
+export class CompareRevisionsCommand extends BaseCommand<TCRevisionComparison> {
+  private revA: string;
+  private revB: string;
+  private attributes: string[];
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    revA: string,
+    revB: string,
+    attributes: string[] = DEFAULT_COMPARE_ATTRIBUTES
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.revA = revA;
+    this.revB = revB;
+    this.attributes = attributes;
+  }
+
+  async execute(): Promise<TCResponse<TCRevisionComparison>> {
+    this.logger.debug(`[${this.serviceRequestId}] CompareRevisionsCommand.execute called for revisions: ${this.revA}, ${this.revB}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] CompareRevisionsCommand.execute failed: No session`);
+      return this.createNotLoggedInError('compareRevisions');
+    }
+
+    // Validate parameters
+    if (!this.revA || !this.revB) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Two item revision UIDs are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'compareRevisions' }
+        );
+      }
+
+      const attributes = this.attributes.includes('item_revision_id')
+        ? this.attributes
+        : ['item_revision_id', ...this.attributes];
+
+      const result = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: [
+            { uid: this.revA, type: 'ItemRevision' },
+            { uid: this.revB, type: 'ItemRevision' }
+          ],
+          attributes
+        }
+      );
+
+      const propsA = getModelObjectProperties(result, this.revA);
+      const propsB = getModelObjectProperties(result, this.revB);
+
+      const differences: TCPropertyDiff[] = [];
+      const unchanged: string[] = [];
+      for (const name of this.attributes) {
+        const valueA = propsA[name] ?? '';
+        const valueB = propsB[name] ?? '';
+
+        if (valueA === valueB) {
+          unchanged.push(name);
+        } else {
+          differences.push({ name, valueA, valueB });
+        }
+      }
+
+      const comparison: TCRevisionComparison = {
+        revA: { uid: this.revA, revisionId: propsA.item_revision_id || '' },
+        revB: { uid: this.revB, revisionId: propsB.item_revision_id || '' },
+        differences,
+        unchanged
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] CompareRevisionsCommand.execute successful: ${differences.length} differences found`);
+      return { data: comparison };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error comparing revisions:`, error);
+      return this.createErrorResponse('API_ERROR', error, 'Failed to compare revisions');
+    }
+  }
+}
@@ -1,14 +1,17 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse } from '../../types.js';
-import { AppError, ErrorType } from '../../tcErrors.js';
+import { PropertyCache, TCResponse, TCServiceData } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { parseServiceData, getErrorStacks } from '../../tcResponseParser.js';
 
-export class CreateItemCommand extends BaseCommand<any> {
+export class CreateItemCommand extends BaseCommand<TCServiceData> {
   private type: string;
   private name: string;
   private description: string;
   private properties: Record<string, any>;
+  private cache: PropertyCache | null;
 
   constructor(
     logger: Logger, 
@@ -17,16 +20,18 @@ export class CreateItemCommand extends BaseCommand<any> {
     type: string, 
     name: string, 
     description: string = '', 
-    properties: Record<string, any> = {}
+    properties: Record<string, any> = {},
+    cache: PropertyCache | null = null
   ) {
     super(logger, soaClient, isLoggedIn);
     this.type = type;
     this.name = name;
     this.description = description;
     this.properties = properties;
+    this.cache = cache;
   }
 
-  async execute(): Promise<TCResponse<any>> {
+  async execute(): Promise<TCResponse<TCServiceData>> {
     this.logger.debug(`[${this.serviceRequestId}] CreateItemCommand.execute called with type: ${this.type}, name: ${this.name}`);
     
     // Check if user is logged in
@@ -80,17 +85,22 @@ export class CreateItemCommand extends BaseCommand<any> {
         createData
       );
       
+      // Creating an item also updates objects that refer to it, such as the folder it is put in
+      if (this.cache) {
+        invalidateServiceData(this.cache, result);
+      }
+
+      // Teamcenter reports objects it could not create as partial errors instead of failing the request
+      const serviceData = parseServiceData(result);
+      if (serviceData.created.length === 0 && serviceData.partialErrors.length > 0) {
+        throw createTeamcenterError(getErrorStacks(result), 'Failed to create item', { method: 'createItem' });
+      }
+
       this.logger.debug(`[${this.serviceRequestId}] CreateItemCommand.execute successful for item: ${this.name}`);
-      return { data: result };
+      return { data: serviceData };
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error creating item:`, error);
-      return {
-        error: {
-          code: 'CREATE_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Failed to create item'
-        }
-      };
+      return this.createErrorResponse('CREATE_ERROR', error, 'Failed to create item');
     }
   }
 }
@@ -1,18 +1,47 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse } from '../../types.js';
-import { AppError, ErrorType } from '../../tcErrors.js';
+import { PropertyCache, TCModelObject, TCResponse } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
+import { cacheModelObjects, getCachedModelObject } from '../../tcCache.js';
+import { parseServiceData, getErrorStacks } from '../../tcResponseParser.js';
 
-export class GetItemByIdCommand extends BaseCommand<any> {
+// Properties loaded for an item
+const ITEM_ATTRIBUTES = [
+  "object_name",
+  "object_desc",
+  "object_string",
+  "item_id",
+  "item_revision_id",
+  "release_status_list",
+  "owning_user",
+  "creation_date",
+  "last_mod_date",
+  "items_tag",
+  "revision_list",
+  "fnd0_master_form"
+];
+
+export class GetItemByIdCommand extends BaseCommand<TCModelObject> {
   private itemId: string;
+  private cache: PropertyCache | null;
+  private refresh: boolean;
 
-  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, itemId: string) {
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    itemId: string,
+    cache: PropertyCache | null = null,
+    refresh: boolean = false
+  ) {
     super(logger, soaClient, isLoggedIn);
     this.itemId = itemId;
+    this.cache = cache;
+    this.refresh = refresh;
   }
 
-  async execute(): Promise<TCResponse<any>> {
+  async execute(): Promise<TCResponse<TCModelObject>> {
     this.logger.debug(`[${this.serviceRequestId}] GetItemByIdCommand.execute called for item: ${this.itemId}`);
     
     // Check if user is logged in
@@ -33,6 +62,15 @@ export class GetItemByIdCommand extends BaseCommand<any> {
     }
     
     try {
+      // Serve the item from the cache when all of its properties are cached
+      if (this.cache && !this.refresh) {
+        const cached = getCachedModelObject(this.cache, this.itemId, ITEM_ATTRIBUTES);
+        if (cached) {
+          this.logger.debug(`[${this.serviceRequestId}] GetItemByIdCommand.execute served from cache for item: ${this.itemId}`);
+          return { data: parseServiceData(cached).modelObjects[this.itemId] };
+        }
+      }
+
       if (!this.soaClient) {
         throw new AppError(
           'SOA client is not initialized',
@@ -48,20 +86,7 @@ export class GetItemByIdCommand extends BaseCommand<any> {
           uid: this.itemId,
           type: "Item" // Specify the type to ensure proper handling
         }],
-        attributes: [
-          "object_name",
-          "object_desc",
-          "object_string",
-          "item_id",
-          "item_revision_id",
-          "release_status_list",
-          "owning_user",
-          "creation_date",
-          "last_mod_date",
-          "items_tag",
-          "revision_list",
-          "fnd0_master_form"
-        ],
+        attributes: ITEM_ATTRIBUTES,
         // Include additional options for better results
         options: {
           withProperties: true,
@@ -78,17 +103,27 @@ export class GetItemByIdCommand extends BaseCommand<any> {
         payload
       );
       
+      if (this.cache) {
+        cacheModelObjects(this.cache, result);
+      }
+
+      const serviceData = parseServiceData(result);
+      const item = serviceData.modelObjects[this.itemId];
+      if (!item) {
+        const errorStacks = getErrorStacks(result);
+        const itemErrors = errorStacks.filter(errorStack => errorStack.uid === this.itemId);
+        throw createTeamcenterError(
+          itemErrors.length > 0 ? itemErrors : errorStacks,
+          `Item ${this.itemId} was not returned by Teamcenter`,
+          { method: 'getItemById' }
+        );
+      }
+
       this.logger.debug(`[${this.serviceRequestId}] GetItemByIdCommand.execute successful for item: ${this.itemId}`);
-      return { data: result };
+      return { data: item };
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error getting item by ID:`, error);
-      return {
-        error: {
-          code: 'API_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Failed to get item'
-        }
-      };
+      return this.createErrorResponse('API_ERROR', error, 'Failed to get item');
     }
   }
 }
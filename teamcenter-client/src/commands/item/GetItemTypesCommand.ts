@@ -1,15 +1,21 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse } from '../../types.js';
-import { AppError, ErrorType } from '../../tcErrors.js';
+import { PropertyCache, TCResponse, TCItemType } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError, getErrorStacks } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
+import { TYPE_DESCRIPTION_TYPE } from '../../tcCache.js';
 
-export class GetItemTypesCommand extends BaseCommand<any> {
-  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean) {
+export class GetItemTypesCommand extends BaseCommand<TCItemType[]> {
+  private cache: PropertyCache | null;
+  private refresh: boolean;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, cache: PropertyCache | null = null, refresh: boolean = false) {
     super(logger, soaClient, isLoggedIn);
+    this.cache = cache;
+    this.refresh = refresh;
   }
 
-  async execute(): Promise<TCResponse<any>> {
+  async execute(): Promise<TCResponse<TCItemType[]>> {
     this.logger.debug(`[${this.serviceRequestId}] GetItemTypesCommand.execute called`);
     
     // Check if user is logged in
@@ -19,6 +25,15 @@ export class GetItemTypesCommand extends BaseCommand<any> {
     }
     
     try {
+      // Type descriptions rarely change, so they are cached under the type name
+      if (this.cache && !this.refresh) {
+        const cached = this.cache.get(`${TYPE_DESCRIPTION_TYPE}:Item`, 'typeDescriptions');
+        if (cached !== undefined) {
+          this.logger.debug(`[${this.serviceRequestId}] GetItemTypesCommand.execute served from cache`);
+          return { data: cached as TCItemType[] };
+        }
+      }
+
       if (!this.soaClient) {
         throw new AppError(
           'SOA client is not initialized',
@@ -48,19 +63,28 @@ export class GetItemTypesCommand extends BaseCommand<any> {
         'Core-2007-01-DataManagement', // Updated service name to match Teamcenter API
         'getTypeDescriptions', // Use getTypeDescriptions instead of getBusinessObjectTypes
         payload
-      );
+      ) as any;
+
+      const itemTypes: TCItemType[] = (Array.isArray(result?.types) ? result.types : []).map((type: any) => ({
+        name: type?.name || '',
+        displayName: type?.displayName || type?.name || '',
+        parentTypeName: type?.parentTypeName || ''
+      }));
+
+      const errorStacks = getErrorStacks(result);
+      if (itemTypes.length === 0 && errorStacks.length > 0) {
+        throw createTeamcenterError(errorStacks, 'Failed to get item types', { method: 'getItemTypes' });
+      }
       
-      this.logger.debug(`[${this.serviceRequestId}] GetItemTypesCommand.execute successful`);
-      return { data: result };
+      if (this.cache) {
+        this.cache.set(`${TYPE_DESCRIPTION_TYPE}:Item`, 'typeDescriptions', TYPE_DESCRIPTION_TYPE, itemTypes);
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] GetItemTypesCommand.execute successful: ${itemTypes.length} item types found`);
+      return { data: itemTypes };
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error getting item types:`, error);
-      return {
-        error: {
-          code: 'API_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Failed to get item types'
-        }
-      };
+      return this.createErrorResponse('API_ERROR', error, 'Failed to get item types');
     }
   }
 }
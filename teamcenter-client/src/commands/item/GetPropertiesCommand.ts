@@ -0,0 +1,147 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, PropertyPolicy, TCBatchProperties, TCPartialError, TCResponse } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectProperties, getPartialErrors } from '../../tcResponseParser.js';
+import { cacheModelObjects, getCachedModelObject } from '../../tcCache.js';
+
+// Objects requested per getProperties call unless configured otherwise
+const DEFAULT_PROPERTY_BATCH_SIZE = 100;
+
+export class GetPropertiesCommand extends BaseCommand<TCBatchProperties> {
+  private uids: string[];
+  private attributes: string[];
+  private batchSize: number;
+  private cache: PropertyCache | null;
+  private refresh: boolean;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    uids: string[],
+    attributes: string[],
+    batchSize: number = DEFAULT_PROPERTY_BATCH_SIZE,
+    cache: PropertyCache | null = null,
+    refresh: boolean = false
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.uids = uids;
+    this.attributes = attributes;
+    this.batchSize = batchSize;
+    this.cache = cache;
+    this.refresh = refresh;
+  }
+
+  async execute(): Promise<TCResponse<TCBatchProperties>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetPropertiesCommand.execute called for ${this.uids?.length} objects`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetPropertiesCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getProperties');
+    }
+
+    // Validate parameters
+    if (!Array.isArray(this.uids) || this.uids.length === 0 || !Array.isArray(this.attributes) || this.attributes.length === 0) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'UIDs and attributes are required'
+        }
+      };
+    }
+
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Batch size must be a positive integer'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getProperties' }
+        );
+      }
+
+      const uids = [...new Set(this.uids)];
+      const modelObjects: Record<string, any> = {};
+      const partialErrors: TCPartialError[] = [];
+
+      // Objects whose properties are all cached are not requested again
+      const missingUids = uids.filter(uid => {
+        const cached = this.cache && !this.refresh ? getCachedModelObject(this.cache, uid, this.attributes) : null;
+        if (cached) {
+          Object.assign(modelObjects, cached.modelObjects);
+        }
+        return !cached;
+      });
+
+      // Only the requested properties are returned, whatever the type of the objects
+      const policy: PropertyPolicy = { types: [{ name: 'BusinessObject', properties: this.attributes }] };
+
+      let lastError: unknown = null;
+      for (let start = 0; start < missingUids.length; start += this.batchSize) {
+        const batch = missingUids.slice(start, start + this.batchSize);
+
+        try {
+          const result = await this.soaClient.callService(
+            'Core-2006-03-DataManagement',
+            'getProperties',
+            {
+              objects: batch.map(uid => ({ uid, type: 'BusinessObject' })),
+              attributes: this.attributes
+            },
+            policy
+          ) as any;
+
+          if (this.cache) {
+            cacheModelObjects(this.cache, result);
+          }
+          Object.assign(modelObjects, result?.modelObjects || result?.ServiceData?.modelObjects || {});
+          partialErrors.push(...getPartialErrors(result));
+        } catch (error) {
+          // A failed batch does not discard the objects of the other batches
+          this.logger.warn(`[${this.serviceRequestId}] getProperties batch of ${batch.length} objects failed:`, error);
+          lastError = error;
+          const message = error instanceof Error ? error.message : 'Failed to get properties';
+          partialErrors.push(...batch.map(uid => ({ uid, code: 0, message })));
+        }
+      }
+
+      // Nothing could be read, e.g. because Teamcenter is down
+      if (lastError && Object.keys(modelObjects).length === 0) {
+        throw lastError;
+      }
+
+      const failedUids = new Set(partialErrors.map(partialError => partialError.uid));
+      uids.forEach(uid => {
+        if (!modelObjects[uid] && !failedUids.has(uid)) {
+          partialErrors.push({ uid, code: 0, message: 'Object was not returned by Teamcenter' });
+        }
+      });
+
+      const objects = uids.filter(uid => modelObjects[uid]).map(uid => ({
+        uid,
+        type: modelObjects[uid].type || '',
+        properties: getModelObjectProperties({ modelObjects }, uid)
+      }));
+
+      this.logger.debug(`[${this.serviceRequestId}] GetPropertiesCommand.execute successful: ${objects.length} objects, ${partialErrors.length} errors`);
+      return { data: { objects, partialErrors } };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting properties:`, error);
+      return this.createErrorResponse('PROPERTIES_ERROR', error, 'Failed to get properties');
+    }
+  }
+}
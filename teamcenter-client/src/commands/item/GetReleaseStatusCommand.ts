@@ -0,0 +1,119 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyPolicy, TCObjectReleaseStatus, TCResponse, TCStatusCategory } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { parseServiceData, getErrorStacks, getStatusCategory } from '../../tcResponseParser.js';
+
+// Properties of a release status object
+const RELEASE_STATUS_ATTRIBUTES = ['name', 'object_name', 'date_released', 'effectivity_text'];
+
+export class GetReleaseStatusCommand extends BaseCommand<TCObjectReleaseStatus[]> {
+  private uids: string[];
+  private statusCategories: Record<string, TCStatusCategory>;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    uids: string[],
+    statusCategories: Record<string, TCStatusCategory> = {}
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.uids = uids;
+    this.statusCategories = statusCategories;
+  }
+
+  async execute(): Promise<TCResponse<TCObjectReleaseStatus[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetReleaseStatusCommand.execute called for ${this.uids?.length} objects`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetReleaseStatusCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getReleaseStatus');
+    }
+
+    // Validate parameters
+    if (!Array.isArray(this.uids) || this.uids.length === 0) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'UIDs are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getReleaseStatus' }
+        );
+      }
+
+      // The release status objects are returned with their properties in the same response
+      const policy: PropertyPolicy = {
+        types: [
+          { name: 'WorkspaceObject', properties: [{ name: 'release_status_list', withProperties: true }] },
+          { name: 'ReleaseStatus', properties: RELEASE_STATUS_ATTRIBUTES }
+        ]
+      };
+      const result = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: this.uids.map(uid => ({ uid, type: 'WorkspaceObject' })),
+          attributes: ['release_status_list']
+        },
+        policy
+      );
+
+      const serviceData = parseServiceData(result);
+      const missingUids = this.uids.filter(uid => !serviceData.modelObjects[uid]);
+      if (missingUids.length > 0) {
+        throw createTeamcenterError(
+          getErrorStacks(result),
+          `Objects were not returned by Teamcenter: ${missingUids.join(', ')}`,
+          { method: 'getReleaseStatus' }
+        );
+      }
+
+      const statuses = this.uids.map(uid => {
+        const statusUids = serviceData.modelObjects[uid].properties.release_status_list?.dbValues || [];
+        const releaseStatuses = statusUids.map(statusUid => {
+          const properties = serviceData.modelObjects[statusUid]?.properties || {};
+          // name holds the status type, object_name the name shown to users, which usually are the same
+          const name = properties.name?.displayValue || properties.object_name?.displayValue || '';
+          const displayName = properties.object_name?.displayValue || name;
+          const category = getStatusCategory(name, this.statusCategories);
+
+          return {
+            uid: statusUid,
+            name,
+            displayName,
+            // Sites may have configured the name shown to users instead of the status type
+            category: category === 'Unknown' ? getStatusCategory(displayName, this.statusCategories) : category,
+            dateReleased: properties.date_released?.dbValues[0] || null,
+            effectivity: properties.effectivity_text?.displayValue || null
+          };
+        });
+
+        // The latest status decides, as statuses are listed in the order they were applied
+        return {
+          uid,
+          status: releaseStatuses.length > 0 ? releaseStatuses[releaseStatuses.length - 1].category : 'In Work',
+          releaseStatuses
+        };
+      });
+
+      this.logger.debug(`[${this.serviceRequestId}] GetReleaseStatusCommand.execute successful for ${statuses.length} objects`);
+      return { data: statuses };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting release status:`, error);
+      return this.createErrorResponse('RELEASE_STATUS_ERROR', error, 'Failed to get release status');
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCItemWithRevisions, TCModelObject } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getDisplayValue, parseServiceData } from '../../tcResponseParser.js';
+
+// Properties loaded for every revision in the list
+export const REVISION_ATTRIBUTES = [
+  'item_revision_id',
+  'object_name',
+  'object_desc',
+  'release_status_list',
+  'date_released',
+  'owning_user',
+  'creation_date',
+  'last_mod_date'
+];
+
+export class ListRevisionsCommand extends BaseCommand<TCItemWithRevisions> {
+  private itemId: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, itemId: string) {
+    super(logger, soaClient, isLoggedIn);
+    this.itemId = itemId;
+  }
+
+  async execute(): Promise<TCResponse<TCItemWithRevisions>> {
+    this.logger.debug(`[${this.serviceRequestId}] ListRevisionsCommand.execute called for item: ${this.itemId}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] ListRevisionsCommand.execute failed: No session`);
+      return this.createNotLoggedInError('listRevisions');
+    }
+
+    // Validate itemId
+    if (!this.itemId) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Item ID is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'listRevisions' }
+        );
+      }
+
+      // Load the item together with the UIDs of all its revisions
+      const itemResult = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: [{ uid: this.itemId, type: 'Item' }],
+          attributes: ['item_id', 'object_name', 'object_type', 'revision_list']
+        }
+      );
+
+      const itemObject = parseServiceData(itemResult).modelObjects[this.itemId] || { uid: this.itemId, type: '', properties: {} };
+      const revisionUids = itemObject.properties.revision_list?.dbValues || [];
+
+      let revisions: TCModelObject[] = [];
+      if (revisionUids.length > 0) {
+        const revisionResult = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: revisionUids.map(uid => ({ uid, type: 'ItemRevision' })),
+            attributes: REVISION_ATTRIBUTES
+          }
+        ) as any;
+
+        const { modelObjects } = parseServiceData(revisionResult);
+        revisions = revisionUids.map(uid => ({
+          uid,
+          type: modelObjects[uid]?.type || 'ItemRevision',
+          properties: modelObjects[uid]?.properties || {}
+        }));
+      }
+
+      const item: TCItemWithRevisions = {
+        uid: this.itemId,
+        type: itemObject.type || getDisplayValue(itemObject, 'object_type') || 'Item',
+        properties: itemObject.properties,
+        revisions
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] ListRevisionsCommand.execute successful: ${revisions.length} revisions found`);
+      return { data: item };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error listing revisions:`, error);
+      return this.createErrorResponse('API_ERROR', error, 'Failed to list revisions');
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, TCResponse, TCItemRevision } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { getModelObjectProperties, getModelObjectPropertyValues, getErrorStacks } from '../../tcResponseParser.js';
+
+export class ReviseItemCommand extends BaseCommand<TCItemRevision> {
+  private itemRevUid: string;
+  private newRevId?: string;
+  private cache: PropertyCache | null;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    itemRevUid: string,
+    newRevId?: string,
+    cache: PropertyCache | null = null
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.itemRevUid = itemRevUid;
+    this.newRevId = newRevId;
+    this.cache = cache;
+  }
+
+  async execute(): Promise<TCResponse<TCItemRevision>> {
+    this.logger.debug(`[${this.serviceRequestId}] ReviseItemCommand.execute called for revision: ${this.itemRevUid}, new revision ID: ${this.newRevId}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] ReviseItemCommand.execute failed: No session`);
+      return this.createNotLoggedInError('reviseItem');
+    }
+
+    // Validate parameters
+    if (!this.itemRevUid) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Item revision UID is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'reviseItem' }
+        );
+      }
+
+      // Read the base revision so the new one keeps its name and description
+      const baseResult = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: [{ uid: this.itemRevUid, type: 'ItemRevision' }],
+          attributes: ['items_tag', 'object_name', 'object_desc', 'item_revision_id']
+        }
+      );
+
+      const baseProps = getModelObjectProperties(baseResult, this.itemRevUid);
+      const itemUid = getModelObjectPropertyValues(baseResult, this.itemRevUid, 'items_tag')[0];
+      const newRevId = this.newRevId || await this.generateRevisionId(this.soaClient, itemUid);
+
+      const reviseData = {
+        info: [{
+          clientId: this.serviceRequestId,
+          baseItemRevision: { uid: this.itemRevUid, type: 'ItemRevision' },
+          newRevId,
+          name: baseProps.object_name || '',
+          description: baseProps.object_desc || '',
+          deepCopyInfo: [],
+          newItemRevisionMasterProperties: {}
+        }]
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] reviseItem payload:`, JSON.stringify(reviseData, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Core-2008-06-DataManagement',
+        'revise2',
+        reviseData
+      ) as any;
+
+      // The base revision and the revision list of its item have changed
+      if (this.cache) {
+        invalidateServiceData(this.cache, result, [this.itemRevUid, ...(itemUid ? [itemUid] : [])]);
+      }
+
+      const newItemRev = result?.reviseOutputMap?.[this.serviceRequestId]?.newItemRev;
+      if (!newItemRev?.uid) {
+        throw createTeamcenterError(
+          getErrorStacks(result),
+          `Revise of ${this.itemRevUid} did not return a new revision`,
+          { method: 'reviseItem' }
+        );
+      }
+
+      const revision: TCItemRevision = {
+        uid: newItemRev.uid,
+        type: newItemRev.type || 'ItemRevision',
+        properties: {
+          ...getModelObjectProperties(result, newItemRev.uid),
+          item_revision_id: newRevId
+        }
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] ReviseItemCommand.execute successful: created revision ${newRevId}`);
+      return { data: revision };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error revising item:`, error);
+      return this.createErrorResponse('REVISE_ERROR', error, 'Failed to revise item');
+    }
+  }
+
+  /**
+   * Ask Teamcenter for the next revision ID of an item according to its naming rules
+   * @param soaClient The SOA client to use
+   * @param itemUid The UID of the item being revised
+   * @returns The next revision ID
+   */
+  private async generateRevisionId(soaClient: SOAClient, itemUid: string | undefined): Promise<string> {
+    if (!itemUid) {
+      throw new AppError(
+        `Could not determine the item of revision ${this.itemRevUid}`,
+        ErrorType.DATA_PARSING,
+        null,
+        { method: 'reviseItem' }
+      );
+    }
+
+    const result = await soaClient.callService(
+      'Core-2007-01-DataManagement',
+      'generateRevisionIds',
+      {
+        input: [{
+          item: { uid: itemUid, type: 'Item' },
+          itemType: ''
+        }]
+      }
+    ) as any;
+
+    const newRevId = result?.outputRevisionIds?.[0]?.newRevId;
+    if (!newRevId) {
+      throw new AppError(
+        `Could not generate a revision ID for item ${itemUid}`,
+        ErrorType.API_RESPONSE,
+        null,
+        { method: 'reviseItem' }
+      );
+    }
+
+    return newRevId;
+  }
+}
@@ -1,26 +1,37 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse } from '../../types.js';
-import { AppError, ErrorType } from '../../tcErrors.js';
+import { PropertyCache, TCResponse, TCServiceData } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { parseServiceData, getErrorStacks } from '../../tcResponseParser.js';
+import { CheckOutCommand } from '../reservation/CheckOutCommand.js';
+import { CheckInCommand } from '../reservation/CheckInCommand.js';
+import { CancelCheckOutCommand } from '../reservation/CancelCheckOutCommand.js';
 
-export class UpdateItemCommand extends BaseCommand<any> {
+export class UpdateItemCommand extends BaseCommand<TCServiceData> {
   private itemId: string;
   private properties: Record<string, any>;
+  private cache: PropertyCache | null;
+  private checkOut: boolean;
 
   constructor(
     logger: Logger, 
     soaClient: SOAClient | null, 
     isLoggedIn: boolean, 
     itemId: string, 
-    properties: Record<string, any>
+    properties: Record<string, any>,
+    cache: PropertyCache | null = null,
+    checkOut: boolean = false
   ) {
     super(logger, soaClient, isLoggedIn);
     this.itemId = itemId;
     this.properties = properties;
+    this.cache = cache;
+    this.checkOut = checkOut;
   }
 
-  async execute(): Promise<TCResponse<any>> {
+  async execute(): Promise<TCResponse<TCServiceData>> {
     this.logger.debug(`[${this.serviceRequestId}] UpdateItemCommand.execute called for item: ${this.itemId}`);
     
     // Check if user is logged in
@@ -40,6 +51,7 @@ export class UpdateItemCommand extends BaseCommand<any> {
       };
     }
     
+    let checkedOut = false;
     try {
       if (!this.soaClient) {
         throw new AppError(
@@ -49,6 +61,12 @@ export class UpdateItemCommand extends BaseCommand<any> {
           { method: 'updateItem' }
         );
       }
+
+      // Check the item out first, so that the update is checked in as a whole or not at all
+      if (this.checkOut) {
+        await this.runReservation(new CheckOutCommand(this.logger, this.soaClient, this.isLoggedIn, [this.itemId], 'Update of properties', this.cache));
+        checkedOut = true;
+      }
       
       // Use the correct payload structure for Teamcenter API
       const updateData = {
@@ -72,17 +90,52 @@ export class UpdateItemCommand extends BaseCommand<any> {
         updateData
       );
       
+      // Drop the cached properties of the item and of the objects the server reports as updated
+      if (this.cache) {
+        invalidateServiceData(this.cache, result, [this.itemId]);
+      }
+
+      // Teamcenter reports objects it could not update as partial errors instead of failing the request
+      const serviceData = parseServiceData(result);
+      if (serviceData.updated.length === 0 && serviceData.partialErrors.length > 0) {
+        throw createTeamcenterError(getErrorStacks(result), 'Failed to update item', { method: 'updateItem' });
+      }
+
+      if (checkedOut) {
+        await this.runReservation(new CheckInCommand(this.logger, this.soaClient, this.isLoggedIn, [this.itemId], this.cache));
+        checkedOut = false;
+      }
+
       this.logger.debug(`[${this.serviceRequestId}] UpdateItemCommand.execute successful for item: ${this.itemId}`);
-      return { data: result };
+      return { data: serviceData };
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error updating item:`, error);
-      return {
-        error: {
-          code: 'UPDATE_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Failed to update item'
+
+      // Cancelling the checkout also discards the properties written while the item was checked out
+      if (checkedOut) {
+        const cancelResponse = await new CancelCheckOutCommand(this.logger, this.soaClient, this.isLoggedIn, [this.itemId], this.cache).execute();
+        if (cancelResponse.error) {
+          this.logger.warn(`[${this.serviceRequestId}] Failed to cancel the checkout of item ${this.itemId}: ${cancelResponse.error.message}`);
         }
-      };
+      }
+
+      // The properties may have been written in part
+      this.cache?.invalidate(this.itemId);
+      return this.createErrorResponse('UPDATE_ERROR', error, 'Failed to update item');
+    }
+  }
+
+  // Run a checkout command of the update, failing the update with its error
+  private async runReservation(command: BaseCommand<TCServiceData>): Promise<void> {
+    const response = await command.execute();
+    if (response.error) {
+      throw new AppError(
+        response.error.message,
+        response.error.type || ErrorType.API_RESPONSE,
+        null,
+        { method: 'updateItem' },
+        response.error.errorStacks
+      );
     }
   }
 }
@@ -0,0 +1,107 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCSavedQueryDescription, TCSavedQueryField } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectPropertyValues } from '../../tcResponseParser.js';
+import { GetSavedQueryCommand } from './GetSavedQueryCommand.js';
+
+// Names of the Teamcenter property value types reported for query fields
+const ATTRIBUTE_TYPES: Record<number, string> = {
+  1: 'Char',
+  2: 'Date',
+  3: 'Double',
+  4: 'Float',
+  5: 'Integer',
+  6: 'Boolean',
+  7: 'Short',
+  8: 'String',
+  9: 'Reference',
+  10: 'Reference',
+  11: 'Reference',
+  12: 'Note'
+};
+
+export class DescribeSavedQueryCommand extends BaseCommand<TCSavedQueryDescription> {
+  private queryName: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, queryName: string) {
+    super(logger, soaClient, isLoggedIn);
+    this.queryName = queryName;
+  }
+
+  async execute(): Promise<TCResponse<TCSavedQueryDescription>> {
+    this.logger.debug(`[${this.serviceRequestId}] DescribeSavedQueryCommand.execute called for query: ${this.queryName}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] DescribeSavedQueryCommand.execute failed: No session`);
+      return this.createNotLoggedInError('describeSavedQuery');
+    }
+
+    // Validate parameters
+    if (!this.queryName) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Query name is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'describeSavedQuery' }
+        );
+      }
+
+      const queryCommand = new GetSavedQueryCommand(this.logger, this.soaClient, this.isLoggedIn, this.queryName);
+      const queryResponse = await queryCommand.execute();
+      if (queryResponse.error || !queryResponse.data) {
+        return { error: queryResponse.error };
+      }
+      const query = queryResponse.data;
+
+      const result = await this.soaClient.callService(
+        'Query-2006-03-SavedQuery',
+        'describeSavedQueries',
+        { queries: [{ uid: query.uid, type: 'ImanQuery' }] }
+      ) as any;
+
+      const rawFields: any[] = result?.fieldLists?.[0]?.fields || [];
+
+      // Load the values of the LOVs attached to the fields
+      const lovUids = Array.from(new Set(rawFields.map(field => field.lov?.uid).filter((uid): uid is string => !!uid)));
+      let lovResult: unknown = {};
+      if (lovUids.length > 0) {
+        lovResult = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: lovUids.map(uid => ({ uid, type: 'ListOfValues' })),
+            attributes: ['lov_values']
+          }
+        );
+      }
+
+      const fields: TCSavedQueryField[] = rawFields.map(field => ({
+        name: field.entryName || field.attributeName,
+        attribute: field.attributeName || '',
+        type: ATTRIBUTE_TYPES[field.attributeType] || 'String',
+        defaultValue: field.value || '',
+        lov: field.lov?.uid ? getModelObjectPropertyValues(lovResult, field.lov.uid, 'lov_values') : null
+      }));
+
+      this.logger.debug(`[${this.serviceRequestId}] DescribeSavedQueryCommand.execute successful: ${fields.length} fields found`);
+      return { data: { ...query, fields } };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error describing saved query:`, error);
+      return this.createErrorResponse('QUERY_ERROR', error, 'Failed to describe saved query');
+    }
+  }
+}
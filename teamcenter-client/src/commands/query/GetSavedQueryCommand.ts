@@ -0,0 +1,40 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCSavedQuery } from '../../types.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { ListSavedQueriesCommand } from './ListSavedQueriesCommand.js';
+
+export class GetSavedQueryCommand extends BaseCommand<TCSavedQuery> {
+  private queryName: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, queryName: string) {
+    super(logger, soaClient, isLoggedIn);
+    this.queryName = queryName;
+  }
+
+  async execute(): Promise<TCResponse<TCSavedQuery>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetSavedQueryCommand.execute called for query: ${this.queryName}`);
+
+    // Look the query up among the saved queries visible to the user
+    const listCommand = new ListSavedQueriesCommand(this.logger, this.soaClient, this.isLoggedIn);
+    const listResponse = await listCommand.execute();
+    if (listResponse.error) {
+      return { error: listResponse.error };
+    }
+
+    const query = listResponse.data?.find(candidate => candidate.name === this.queryName);
+    if (!query) {
+      this.logger.debug(`[${this.serviceRequestId}] GetSavedQueryCommand.execute failed: Query not found`);
+      return {
+        error: {
+          code: 'NOT_FOUND',
+          level: 'ERROR',
+          message: `Saved query not found: ${this.queryName}`
+        }
+      };
+    }
+
+    this.logger.debug(`[${this.serviceRequestId}] GetSavedQueryCommand.execute successful: ${query.uid}`);
+    return { data: query };
+  }
+}
@@ -0,0 +1,52 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCSavedQuery } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+
+export class ListSavedQueriesCommand extends BaseCommand<TCSavedQuery[]> {
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean) {
+    super(logger, soaClient, isLoggedIn);
+  }
+
+  async execute(): Promise<TCResponse<TCSavedQuery[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] ListSavedQueriesCommand.execute called`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] ListSavedQueriesCommand.execute failed: No session`);
+      return this.createNotLoggedInError('listSavedQueries');
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'listSavedQueries' }
+        );
+      }
+
+      const result = await this.soaClient.callService(
+        'Query-2006-03-SavedQuery',
+        'getSavedQueries',
+        {}
+      ) as any;
+
+      const queries: TCSavedQuery[] = (result?.queries || [])
+        .filter((info: any) => info.query?.uid)
+        .map((info: any) => ({
+          uid: info.query.uid,
+          name: info.name || '',
+          description: info.description || ''
+        }));
+
+      this.logger.debug(`[${this.serviceRequestId}] ListSavedQueriesCommand.execute successful: ${queries.length} saved queries found`);
+      return { data: queries };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error listing saved queries:`, error);
+      return this.createErrorResponse('QUERY_ERROR', error, 'Failed to list saved queries');
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCSavedQueryObject, TCSavedQueryOptions, TCSavedQueryResult, TCStatusCategory } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { convertToTCObject, getModelObjectProperties, parseServiceData } from '../../tcResponseParser.js';
+import { GetSavedQueryCommand } from './GetSavedQueryCommand.js';
+
+// Properties loaded for every object of the result page
+const RESULT_ATTRIBUTES = [
+  'object_name',
+  'object_desc',
+  'object_string',
+  'item_id',
+  'item_revision_id',
+  'release_status_list',
+  'owning_user',
+  'last_mod_date'
+];
+
+export class RunSavedQueryCommand extends BaseCommand<TCSavedQueryResult> {
+  private queryName: string;
+  private criteria: Record<string, string>;
+  private startIndex: number;
+  private pageSize: number;
+  private statusCategories: Record<string, TCStatusCategory>;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    queryName: string,
+    options: TCSavedQueryOptions = {},
+    statusCategories: Record<string, TCStatusCategory> = {}
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.queryName = queryName;
+    this.criteria = options.criteria || {};
+    this.startIndex = options.startIndex ?? 0;
+    this.pageSize = options.pageSize ?? 20;
+    this.statusCategories = statusCategories;
+  }
+
+  async execute(): Promise<TCResponse<TCSavedQueryResult>> {
+    this.logger.debug(`[${this.serviceRequestId}] RunSavedQueryCommand.execute called for query: ${this.queryName}, startIndex: ${this.startIndex}, pageSize: ${this.pageSize}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] RunSavedQueryCommand.execute failed: No session`);
+      return this.createNotLoggedInError('runSavedQuery');
+    }
+
+    // Validate parameters
+    if (!this.queryName) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Query name is required'
+        }
+      };
+    }
+
+    if (this.startIndex < 0 || this.pageSize <= 0 || this.pageSize > 100) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Start index must not be negative and page size must be between 1 and 100'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'runSavedQuery' }
+        );
+      }
+
+      const queryCommand = new GetSavedQueryCommand(this.logger, this.soaClient, this.isLoggedIn, this.queryName);
+      const queryResponse = await queryCommand.execute();
+      if (queryResponse.error || !queryResponse.data) {
+        return { error: queryResponse.error };
+      }
+
+      // Entries are the criteria field names as shown by describe_saved_query
+      const payload = {
+        input: [{
+          query: { uid: queryResponse.data.uid, type: 'ImanQuery' },
+          entries: Object.keys(this.criteria),
+          values: Object.values(this.criteria),
+          maxNumToReturn: 0,
+          limitList: [],
+          requestId: this.serviceRequestId,
+          clientId: this.serviceRequestId,
+          resultsType: 0
+        }]
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] runSavedQuery payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Query-2008-06-SavedQuery',
+        'executeSavedQueries',
+        payload
+      ) as any;
+
+      const queryResults = result?.arrayOfResults?.[0] || {};
+      const allUids: string[] = queryResults.objectUIDS || [];
+      const pageUids = allUids.slice(this.startIndex, this.startIndex + this.pageSize);
+
+      // Only the requested page is loaded
+      let propertiesResult: any = {};
+      if (pageUids.length > 0) {
+        propertiesResult = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: pageUids.map(uid => ({ uid, type: 'WorkspaceObject' })),
+            attributes: RESULT_ATTRIBUTES
+          }
+        );
+      }
+
+      const { modelObjects } = parseServiceData(propertiesResult);
+      const objects: TCSavedQueryObject[] = pageUids.map(uid => {
+        const type = modelObjects[uid]?.type || 'WorkspaceObject';
+        return {
+          ...convertToTCObject({ uid, type, properties: getModelObjectProperties(propertiesResult, uid) }, this.logger, this.statusCategories),
+          uid,
+          properties: modelObjects[uid]?.properties || {}
+        };
+      });
+
+      const queryResult: TCSavedQueryResult = {
+        queryName: this.queryName,
+        totalFound: queryResults.numOfObjects ?? allUids.length,
+        startIndex: this.startIndex,
+        objects
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] RunSavedQueryCommand.execute successful: ${objects.length} of ${queryResult.totalFound} objects returned`);
+      return { data: queryResult };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error running saved query:`, error);
+      return this.createErrorResponse('QUERY_ERROR', error, 'Failed to run saved query');
+    }
+  }
+}
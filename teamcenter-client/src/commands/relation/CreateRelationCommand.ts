@@ -0,0 +1,107 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, TCResponse, TCRelation } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { getErrorStacks } from '../../tcResponseParser.js';
+
+export class CreateRelationCommand extends BaseCommand<TCRelation> {
+  private primaryUid: string;
+  private secondaryUid: string;
+  private relationType: string;
+  private cache: PropertyCache | null;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    primaryUid: string,
+    secondaryUid: string,
+    relationType: string,
+    cache: PropertyCache | null = null
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.primaryUid = primaryUid;
+    this.secondaryUid = secondaryUid;
+    this.relationType = relationType;
+    this.cache = cache;
+  }
+
+  async execute(): Promise<TCResponse<TCRelation>> {
+    this.logger.debug(`[${this.serviceRequestId}] CreateRelationCommand.execute called: ${this.primaryUid} -[${this.relationType}]-> ${this.secondaryUid}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] CreateRelationCommand.execute failed: No session`);
+      return this.createNotLoggedInError('createRelation');
+    }
+
+    // Validate parameters
+    if (!this.primaryUid || !this.secondaryUid || !this.relationType) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Primary UID, secondary UID and relation type are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'createRelation' }
+        );
+      }
+
+      const payload = {
+        input: [{
+          clientId: this.serviceRequestId,
+          relationType: this.relationType,
+          primaryObject: { uid: this.primaryUid, type: 'WorkspaceObject' },
+          secondaryObject: { uid: this.secondaryUid, type: 'WorkspaceObject' },
+          userData: null
+        }]
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] createRelation payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'createRelations',
+        payload
+      ) as any;
+
+      // The relation properties of both objects have changed
+      if (this.cache) {
+        invalidateServiceData(this.cache, result, [this.primaryUid, this.secondaryUid]);
+      }
+
+      const relation = result?.output?.[0]?.relation;
+      if (!relation?.uid) {
+        throw createTeamcenterError(
+          getErrorStacks(result),
+          `Failed to create ${this.relationType} relation`,
+          { method: 'createRelation' }
+        );
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] CreateRelationCommand.execute successful: relation ${relation.uid} created`);
+      return {
+        data: {
+          uid: relation.uid,
+          type: relation.type || this.relationType,
+          primary: payload.input[0].primaryObject,
+          secondary: payload.input[0].secondaryObject
+        }
+      };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error creating relation:`, error);
+      return this.createErrorResponse('RELATION_ERROR', error, 'Failed to create relation');
+    }
+  }
+}
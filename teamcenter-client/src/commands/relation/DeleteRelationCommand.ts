@@ -0,0 +1,97 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, TCResponse } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { getErrorStacks } from '../../tcResponseParser.js';
+
+export class DeleteRelationCommand extends BaseCommand<void> {
+  private primaryUid: string;
+  private secondaryUid: string;
+  private relationType: string;
+  private cache: PropertyCache | null;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    primaryUid: string,
+    secondaryUid: string,
+    relationType: string,
+    cache: PropertyCache | null = null
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.primaryUid = primaryUid;
+    this.secondaryUid = secondaryUid;
+    this.relationType = relationType;
+    this.cache = cache;
+  }
+
+  async execute(): Promise<TCResponse<void>> {
+    this.logger.debug(`[${this.serviceRequestId}] DeleteRelationCommand.execute called: ${this.primaryUid} -[${this.relationType}]-> ${this.secondaryUid}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] DeleteRelationCommand.execute failed: No session`);
+      return this.createNotLoggedInError('deleteRelation');
+    }
+
+    // Validate parameters
+    if (!this.primaryUid || !this.secondaryUid || !this.relationType) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Primary UID, secondary UID and relation type are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'deleteRelation' }
+        );
+      }
+
+      const payload = {
+        input: [{
+          clientId: this.serviceRequestId,
+          relationType: this.relationType,
+          primaryObject: { uid: this.primaryUid, type: 'WorkspaceObject' },
+          secondaryObject: { uid: this.secondaryUid, type: 'WorkspaceObject' },
+          userData: null
+        }]
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] deleteRelation payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'deleteRelations',
+        payload
+      );
+
+      // The relation properties of both objects have changed
+      if (this.cache) {
+        invalidateServiceData(this.cache, result, [this.primaryUid, this.secondaryUid]);
+      }
+
+      // Teamcenter reports the relations it could not change as partial errors
+      const errorStacks = getErrorStacks(result);
+      if (errorStacks.length > 0) {
+        throw createTeamcenterError(errorStacks, 'Failed to delete relation', { method: 'deleteRelation' });
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] DeleteRelationCommand.execute successful`);
+      return { data: undefined };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error deleting relation:`, error);
+      return this.createErrorResponse('RELATION_ERROR', error, 'Failed to delete relation');
+    }
+  }
+}
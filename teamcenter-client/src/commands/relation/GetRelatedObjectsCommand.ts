@@ -0,0 +1,123 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCRelatedObject, TCRelationDirection, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectProperties } from '../../tcResponseParser.js';
+
+export class GetRelatedObjectsCommand extends BaseCommand<TCRelatedObject[]> {
+  private uid: string;
+  private relationTypes: string[];
+  private direction: TCRelationDirection;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    uid: string,
+    relationTypes: string[] = [],
+    direction: TCRelationDirection = 'primary'
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.uid = uid;
+    this.relationTypes = relationTypes;
+    this.direction = direction;
+  }
+
+  async execute(): Promise<TCResponse<TCRelatedObject[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetRelatedObjectsCommand.execute called for object: ${this.uid}, relations: ${this.relationTypes.join(', ') || 'all'}, direction: ${this.direction}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetRelatedObjectsCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getRelatedObjects');
+    }
+
+    // Validate parameters
+    if (!this.uid || !['primary', 'secondary'].includes(this.direction)) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Object UID and a direction (primary or secondary) are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getRelatedObjects' }
+        );
+      }
+
+      // All relation types are expanded when none are given
+      const object = { uid: this.uid, type: 'WorkspaceObject' };
+      const pref = {
+        expItemRev: false,
+        returnRelations: true,
+        info: this.relationTypes.map(relationTypeName => ({
+          relationTypeName,
+          otherSideObjectTypes: []
+        }))
+      };
+      const payload = this.direction === 'primary'
+        ? { primaryObjects: [object], pref }
+        : { secondaryObjects: [object], pref };
+
+      this.logger.debug(`[${this.serviceRequestId}] getRelatedObjects payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Core-2007-09-DataManagement',
+        this.direction === 'primary' ? 'expandGRMRelationsForPrimary' : 'expandGRMRelationsForSecondary',
+        payload
+      ) as any;
+
+      const related: Array<{ object: TCObjectRef; relationType: string; relation: TCObjectRef | null }> = [];
+      for (const output of result?.output || []) {
+        for (const relationship of output.relationshipData || []) {
+          for (const relationObject of relationship.relationshipObjects || []) {
+            if (relationObject.otherSideObject?.uid) {
+              related.push({
+                object: relationObject.otherSideObject,
+                relationType: relationship.relationName,
+                relation: relationObject.relation || null
+              });
+            }
+          }
+        }
+      }
+
+      // Load display names of the related objects
+      const uids = Array.from(new Set(related.map(entry => entry.object.uid)));
+      let propertiesResult: unknown = {};
+      if (uids.length > 0) {
+        propertiesResult = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: uids.map(uid => ({ uid, type: 'WorkspaceObject' })),
+            attributes: ['object_string']
+          }
+        );
+      }
+
+      const relatedObjects: TCRelatedObject[] = related.map(entry => ({
+        uid: entry.object.uid,
+        type: entry.object.type,
+        name: getModelObjectProperties(propertiesResult, entry.object.uid).object_string || '',
+        relationType: entry.relationType,
+        relation: entry.relation
+      }));
+
+      this.logger.debug(`[${this.serviceRequestId}] GetRelatedObjectsCommand.execute successful: ${relatedObjects.length} related objects found`);
+      return { data: relatedObjects };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting related objects:`, error);
+      return this.createErrorResponse('RELATION_ERROR', error, 'Failed to get related objects');
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, TCResponse, TCServiceData } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { parseServiceData, getErrorStacks } from '../../tcResponseParser.js';
+
+export class CancelCheckOutCommand extends BaseCommand<TCServiceData> {
+  private uids: string[];
+  private cache: PropertyCache | null;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    uids: string[],
+    cache: PropertyCache | null = null
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.uids = uids;
+    this.cache = cache;
+  }
+
+  async execute(): Promise<TCResponse<TCServiceData>> {
+    this.logger.debug(`[${this.serviceRequestId}] CancelCheckOutCommand.execute called for ${this.uids?.length} objects`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] CancelCheckOutCommand.execute failed: No session`);
+      return this.createNotLoggedInError('cancelCheckOut');
+    }
+
+    // Validate parameters
+    if (!Array.isArray(this.uids) || this.uids.length === 0) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'UIDs are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'cancelCheckOut' }
+        );
+      }
+
+      const result = await this.soaClient.callService(
+        'Core-2006-03-Reservation',
+        'cancelCheckout',
+        {
+          objects: this.uids.map(uid => ({ uid, type: 'WorkspaceObject' }))
+        }
+      );
+
+      // Cancelling a checkout discards the changes made while the objects were checked out
+      if (this.cache) {
+        invalidateServiceData(this.cache, result, this.uids);
+      }
+
+      // Teamcenter reports the objects whose checkout it could not cancel as partial errors, e.g. when they are not checked out by the user
+      const errorStacks = getErrorStacks(result);
+      if (errorStacks.length > 0) {
+        throw createTeamcenterError(errorStacks, 'Failed to cancel the checkout of objects', { method: 'cancelCheckOut' });
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] CancelCheckOutCommand.execute successful for ${this.uids.length} objects`);
+      return { data: parseServiceData(result) };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error cancelling the checkout of objects:`, error);
+      return this.createErrorResponse('CHECKOUT_ERROR', error, 'Failed to cancel the checkout of objects');
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, TCResponse, TCServiceData } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { parseServiceData, getErrorStacks } from '../../tcResponseParser.js';
+
+export class CheckOutCommand extends BaseCommand<TCServiceData> {
+  private uids: string[];
+  private comment: string;
+  private cache: PropertyCache | null;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    uids: string[],
+    comment: string = '',
+    cache: PropertyCache | null = null
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.uids = uids;
+    this.comment = comment;
+    this.cache = cache;
+  }
+
+  async execute(): Promise<TCResponse<TCServiceData>> {
+    this.logger.debug(`[${this.serviceRequestId}] CheckOutCommand.execute called for ${this.uids?.length} objects`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] CheckOutCommand.execute failed: No session`);
+      return this.createNotLoggedInError('checkOut');
+    }
+
+    // Validate parameters
+    if (!Array.isArray(this.uids) || this.uids.length === 0) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'UIDs are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'checkOut' }
+        );
+      }
+
+      const result = await this.soaClient.callService(
+        'Core-2006-03-Reservation',
+        'checkout',
+        {
+          objects: this.uids.map(uid => ({ uid, type: 'WorkspaceObject' })),
+          comment: this.comment,
+          changeId: ''
+        }
+      );
+
+      // The checkout properties of the objects have changed
+      if (this.cache) {
+        invalidateServiceData(this.cache, result, this.uids);
+      }
+
+      // Teamcenter reports the objects it could not check out as partial errors, e.g. when another user holds them
+      const errorStacks = getErrorStacks(result);
+      if (errorStacks.length > 0) {
+        throw createTeamcenterError(errorStacks, 'Failed to check out objects', { method: 'checkOut' });
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] CheckOutCommand.execute successful for ${this.uids.length} objects`);
+      return { data: parseServiceData(result) };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error checking out objects:`, error);
+      return this.createErrorResponse('CHECKOUT_ERROR', error, 'Failed to check out objects');
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyPolicy, TCCheckoutStatus, TCResponse } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { parseServiceData, getErrorStacks } from '../../tcResponseParser.js';
+
+// Properties describing the checkout of a workspace object
+const CHECKOUT_ATTRIBUTES = ['checked_out', 'checked_out_user', 'checked_out_date', 'checked_out_change_id'];
+
+export class GetCheckoutStatusCommand extends BaseCommand<TCCheckoutStatus[]> {
+  private uids: string[];
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    uids: string[]
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.uids = uids;
+  }
+
+  async execute(): Promise<TCResponse<TCCheckoutStatus[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetCheckoutStatusCommand.execute called for ${this.uids?.length} objects`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetCheckoutStatusCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getCheckoutStatus');
+    }
+
+    // Validate parameters
+    if (!Array.isArray(this.uids) || this.uids.length === 0) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'UIDs are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getCheckoutStatus' }
+        );
+      }
+
+      // The checkout state changes behind our back, so it is always read from the server rather than the cache
+      const policy: PropertyPolicy = { types: [{ name: 'WorkspaceObject', properties: CHECKOUT_ATTRIBUTES }] };
+      const result = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: this.uids.map(uid => ({ uid, type: 'WorkspaceObject' })),
+          attributes: CHECKOUT_ATTRIBUTES
+        },
+        policy
+      );
+
+      const serviceData = parseServiceData(result);
+      const missingUids = this.uids.filter(uid => !serviceData.modelObjects[uid]);
+      if (missingUids.length > 0) {
+        throw createTeamcenterError(
+          getErrorStacks(result),
+          `Objects were not returned by Teamcenter: ${missingUids.join(', ')}`,
+          { method: 'getCheckoutStatus' }
+        );
+      }
+
+      const statuses = this.uids.map(uid => {
+        const properties = serviceData.modelObjects[uid].properties;
+        // checked_out is 'Y' while the object is checked out, and blank otherwise
+        const checkedOut = String(properties.checked_out?.value ?? '').trim().toUpperCase() === 'Y';
+
+        return {
+          uid,
+          checkedOut,
+          checkedOutUser: checkedOut ? properties.checked_out_user?.displayValue || null : null,
+          checkedOutUserUid: checkedOut ? properties.checked_out_user?.dbValues[0] || null : null,
+          checkedOutDate: checkedOut ? properties.checked_out_date?.dbValues[0] || null : null,
+          changeId: checkedOut ? properties.checked_out_change_id?.displayValue || null : null
+        };
+      });
+
+      this.logger.debug(`[${this.serviceRequestId}] GetCheckoutStatusCommand.execute successful: ${statuses.filter(status => status.checkedOut).length} of ${statuses.length} objects checked out`);
+      return { data: statuses };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting checkout status:`, error);
+      return this.createErrorResponse('CHECKOUT_ERROR', error, 'Failed to get checkout status');
+    }
+  }
+}
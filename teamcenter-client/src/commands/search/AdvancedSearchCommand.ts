@@ -0,0 +1,203 @@
+import { BaseCommand } from '../Command.js';
+import {
+  TCResponse,
+  TCAdvancedSearchOptions,
+  TCAdvancedSearchResult,
+  TCStatusCategory,
+  TCSearchFacet,
+  TCSearchFilter,
+  TCSearchFilterSelection,
+  TCSearchOptions,
+  TCSearchResponse
+} from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { convertToTCObject } from '../../tcResponseParser.js';
+
+// Provider used when the caller does not choose one
+export const DEFAULT_SEARCH_PROVIDER = 'Awp0FullTextSearchProvider';
+
+// Properties inflated for every search result
+const SEARCH_ATTRIBUTES = [
+  'object_name',
+  'object_desc',
+  'object_string',
+  'item_id',
+  'item_revision_id',
+  'release_status_list',
+  'owning_user',
+  'creation_date',
+  'last_mod_date'
+];
+
+export class AdvancedSearchCommand extends BaseCommand<TCAdvancedSearchResult> {
+  private options: TCAdvancedSearchOptions;
+  private statusCategories: Record<string, TCStatusCategory>;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    options: TCAdvancedSearchOptions,
+    statusCategories: Record<string, TCStatusCategory> = {}
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.options = options;
+    this.statusCategories = statusCategories;
+  }
+
+  async execute(): Promise<TCResponse<TCAdvancedSearchResult>> {
+    this.logger.debug(`[${this.serviceRequestId}] AdvancedSearchCommand.execute called with options:`, JSON.stringify(this.options));
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] AdvancedSearchCommand.execute failed: No session`);
+      return this.createNotLoggedInError('advancedSearch');
+    }
+
+    const startIndex = this.options.startIndex ?? 0;
+    const limit = this.options.limit ?? 20;
+
+    // Validate parameters
+    if (!this.options.searchString && !this.options.criteria && !this.options.filters) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'A search string, criteria or filters are required'
+        }
+      };
+    }
+
+    if (startIndex < 0 || limit <= 0 || limit > 100) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Start index must not be negative and limit must be between 1 and 100'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'advancedSearch' }
+        );
+      }
+
+      const searchOptions: TCSearchOptions = {
+        searchInput: {
+          providerName: this.options.provider || DEFAULT_SEARCH_PROVIDER,
+          searchCriteria: {
+            ...(this.options.searchString ? { searchString: this.options.searchString } : {}),
+            ...this.options.criteria
+          },
+          startIndex,
+          maxToReturn: limit,
+          maxToLoad: limit,
+          searchFilterMap: Object.entries(this.options.filters || {}).reduce((acc, [name, selections]) => {
+            acc[name] = selections.map(selection => this.toSearchFilter(selection));
+            return acc;
+          }, {} as Record<string, TCSearchFilter[]>),
+          searchSortCriteria: (this.options.sort || []).map(sort => ({
+            fieldName: sort.field,
+            sortDirection: sort.direction || 'ASC'
+          })),
+          searchFilterFieldSortType: 'Priority',
+          attributesToInflate: SEARCH_ATTRIBUTES
+        }
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] Advanced search options:`, JSON.stringify(searchOptions, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Query-2012-10-Finder',
+        'performSearch',
+        searchOptions
+      ) as TCSearchResponse;
+
+      const objects = (result.searchResults || result.objects || []).map(obj => convertToTCObject(obj, this.logger, this.statusCategories));
+      const totalFound = result.totalFound ?? objects.length;
+      const nextStartIndex = startIndex + objects.length;
+
+      const searchResult: TCAdvancedSearchResult = {
+        objects,
+        totalFound,
+        totalLoaded: result.totalLoaded ?? objects.length,
+        startIndex,
+        nextStartIndex: objects.length > 0 && nextStartIndex < totalFound ? nextStartIndex : null,
+        facets: this.toFacets(result)
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] AdvancedSearchCommand.execute successful: ${objects.length} of ${totalFound} items returned`);
+      return { data: searchResult };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error in advanced search:`, error);
+      return this.createErrorResponse('SEARCH_ERROR', error, 'Failed to search');
+    }
+  }
+
+  /**
+   * Convert a filter selection into a Finder search filter
+   * @param selection A string value, a date range or a numeric range
+   * @returns The search filter
+   */
+  private toSearchFilter(selection: TCSearchFilterSelection): TCSearchFilter {
+    const filter: TCSearchFilter = {
+      searchFilterType: 'StringFilter',
+      stringValue: '',
+      startDateValue: '',
+      endDateValue: '',
+      startNumericValue: 0,
+      endNumericValue: 0,
+      count: 0,
+      selected: true,
+      startEndRange: ''
+    };
+
+    if (typeof selection === 'string') {
+      return { ...filter, stringValue: selection };
+    }
+
+    if ('from' in selection || 'to' in selection) {
+      const range = selection as { from?: string; to?: string };
+      return { ...filter, searchFilterType: 'DateFilter', startDateValue: range.from || '', endDateValue: range.to || '' };
+    }
+
+    const range = selection as { min?: number; max?: number };
+    return { ...filter, searchFilterType: 'NumericFilter', startNumericValue: range.min ?? 0, endNumericValue: range.max ?? 0 };
+  }
+
+  /**
+   * Build the facets of a search response from its filter categories and filter values
+   * @param result The search response
+   * @returns The facets with the hit count of every value
+   */
+  private toFacets(result: TCSearchResponse): TCSearchFacet[] {
+    const filterMap = result.searchFilterMap || {};
+    const categories = result.searchFilterCategories || [];
+
+    // Values without a category are still reported under their internal name
+    const names = [
+      ...categories.map(category => category.internalName),
+      ...Object.keys(filterMap).filter(name => !categories.some(category => category.internalName === name))
+    ];
+
+    return names.map(name => ({
+      name,
+      displayName: categories.find(category => category.internalName === name)?.displayName || name,
+      values: (filterMap[name] || []).map(filter => ({
+        value: filter.stringValue
+          || (filter.searchFilterType === 'DateFilter' ? `${filter.startDateValue} - ${filter.endDateValue}` : '')
+          || (filter.searchFilterType === 'NumericFilter' ? `${filter.startNumericValue} - ${filter.endNumericValue}` : ''),
+        count: filter.count ?? 0,
+        selected: filter.selected ?? false
+      }))
+    }));
+  }
+}
@@ -1,5 +1,5 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse, TCObject, TCSearchOptions, TCSearchResponse } from '../../types.js';
+import { TCResponse, TCObject, TCSearchOptions, TCSearchResponse, TCStatusCategory } from '../../types.js';
 import { AppError, ErrorType } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
@@ -7,10 +7,18 @@ import { convertToTCObject } from '../../tcResponseParser.js';
 
 export class GetLastCreatedItemsCommand extends BaseCommand<TCObject[]> {
   private limit: number;
+  private statusCategories: Record<string, TCStatusCategory>;
 
-  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, limit: number = 10) {
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    limit: number = 10,
+    statusCategories: Record<string, TCStatusCategory> = {}
+  ) {
     super(logger, soaClient, isLoggedIn);
     this.limit = limit;
+    this.statusCategories = statusCategories;
   }
 
   async execute(): Promise<TCResponse<TCObject[]>> {
@@ -91,23 +99,17 @@ export class GetLastCreatedItemsCommand extends BaseCommand<TCObject[]> {
       this.logger.debug(`[${this.serviceRequestId}] getLastCreatedItems search options:`, JSON.stringify(searchOptions, null, 2));
 
       const response = await this.soaClient.callService(
-        'Query-2010-04-SavedQuery', // Updated service name to match Teamcenter API
-        'performSavedSearch', // Updated operation name to match Teamcenter API
+        'Query-2012-10-Finder', // searchInput is a Finder payload, saved queries are run by RunSavedQueryCommand
+        'performSearch',
         searchOptions
       ) as TCSearchResponse;
 
-      const tcObjects = response.objects?.map(obj => convertToTCObject(obj, this.logger)) || [];
+      const tcObjects = response.objects?.map(obj => convertToTCObject(obj, this.logger, this.statusCategories)) || [];
       this.logger.debug(`[${this.serviceRequestId}] GetLastCreatedItemsCommand.execute successful: ${tcObjects.length} items found`);
       return { data: tcObjects };
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error fetching last created items:`, error);
-      return {
-        error: {
-          code: 'SEARCH_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Failed to retrieve items'
-        }
-      };
+      return this.createErrorResponse('SEARCH_ERROR', error, 'Failed to retrieve items');
     }
   }
 }
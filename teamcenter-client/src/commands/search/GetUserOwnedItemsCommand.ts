@@ -1,5 +1,5 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse, TCObject, TCSearchOptions, TCSearchResponse } from '../../types.js';
+import { TCResponse, TCObject, TCSearchOptions, TCSearchResponse, TCStatusCategory } from '../../types.js';
 import { AppError, ErrorType } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
@@ -7,8 +7,16 @@ import { convertToTCObject } from '../../tcResponseParser.js';
 import { GetSessionInfoCommand } from '../session/GetSessionInfoCommand.js';
 
 export class GetUserOwnedItemsCommand extends BaseCommand<TCObject[]> {
-  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean) {
+  private statusCategories: Record<string, TCStatusCategory>;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    statusCategories: Record<string, TCStatusCategory> = {}
+  ) {
     super(logger, soaClient, isLoggedIn);
+    this.statusCategories = statusCategories;
   }
 
   async execute(): Promise<TCResponse<TCObject[]>> {
@@ -111,18 +119,12 @@ export class GetUserOwnedItemsCommand extends BaseCommand<TCObject[]> {
         searchOptions
       ) as TCSearchResponse;
 
-      const tcObjects = response.objects?.map(obj => convertToTCObject(obj, this.logger)) || [];
+      const tcObjects = response.objects?.map(obj => convertToTCObject(obj, this.logger, this.statusCategories)) || [];
       this.logger.debug(`[${this.serviceRequestId}] GetUserOwnedItemsCommand.execute successful: ${tcObjects.length} items found`);
       return { data: tcObjects };
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error fetching user owned items:`, error);
-      return {
-        error: {
-          code: 'SEARCH_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Failed to retrieve items'
-        }
-      };
+      return this.createErrorResponse('SEARCH_ERROR', error, 'Failed to retrieve items');
     }
   }
 }
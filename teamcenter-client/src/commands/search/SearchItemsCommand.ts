@@ -1,14 +1,65 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse, TCObject, TCSearchOptions, TCSearchResponse } from '../../types.js';
+import { TCResponse, TCObject, TCSearchFilter, TCSearchOptions, TCSearchResponse, TCStatusCategory } from '../../types.js';
 import { AppError, ErrorType } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
-import { convertToTCObject } from '../../tcResponseParser.js';
+import { DEFAULT_STATUS_CATEGORIES, convertToTCObject } from '../../tcResponseParser.js';
+
+// Results loaded when filtering by status, as the category of the latest status is checked after the search
+const STATUS_FILTER_MAX_TO_LOAD = 100;
+
+// Search filter of the release statuses of an object, and the filter value of objects without release status
+const RELEASE_STATUS_FILTER = 'WorkspaceObject.release_status_list';
+const NO_VALUE_FILTER = '$NONE';
+
+// A search filter selecting the objects with the given value
+const stringFilter = (value: string): TCSearchFilter => ({
+  searchFilterType: "StringFilter",
+  stringValue: value,
+  startDateValue: "",
+  endDateValue: "",
+  startNumericValue: 0,
+  endNumericValue: 0,
+  count: 1,
+  selected: true,
+  startEndRange: ""
+});
+
+/**
+ * Get the release status names to search for a status
+ * @param status A status category, e.g. 'Released', or a release status name, e.g. 'Frozen'
+ * @param statusCategories Categories of site-specific status names
+ * @returns The names of the category, with the value of objects without release status for 'In Work', or the status name
+ * itself; null for 'Unknown', whose names are not known
+ */
+const getStatusFilterValues = (status: string, statusCategories: Record<string, TCStatusCategory>): string[] | null => {
+  const key = status.trim().toLowerCase();
+  const categories: Record<string, TCStatusCategory> = { ...DEFAULT_STATUS_CATEGORIES, ...statusCategories };
+  const category = ['In Work', 'In Review', 'Released', 'Obsolete', 'Unknown'].find(name => name.toLowerCase() === key);
+
+  if (category === 'Unknown') {
+    return null;
+  }
+  if (category) {
+    const names = Object.keys(categories).filter(name => categories[name] === category);
+    // Objects without release status are In Work too
+    return category === 'In Work' ? [NO_VALUE_FILTER, ...names] : names;
+  }
+  return [status.trim()];
+};
+
+// Whether an object has a status category, e.g. 'Released', or a release status of the given name, e.g. 'Frozen'
+const hasStatus = (tcObject: TCObject, status: string): boolean => {
+  const key = status.trim().toLowerCase();
+  return tcObject.status.toLowerCase() === key || tcObject.releaseStatuses.some(name => name.toLowerCase() === key);
+};
 
 export class SearchItemsCommand extends BaseCommand<TCObject[]> {
   private query: string;
   private type?: string;
   private limit: number;
+  private status?: string;
+  private statusCategories: Record<string, TCStatusCategory>;
 
   constructor(
     logger: Logger, 
@@ -16,16 +67,20 @@ export class SearchItemsCommand extends BaseCommand<TCObject[]> {
     isLoggedIn: boolean, 
     query: string, 
     type?: string, 
-    limit: number = 10
+    limit: number = 10,
+    status?: string,
+    statusCategories: Record<string, TCStatusCategory> = {}
   ) {
     super(logger, soaClient, isLoggedIn);
     this.query = query;
     this.type = type;
     this.limit = limit;
+    this.status = status;
+    this.statusCategories = statusCategories;
   }
 
   async execute(): Promise<TCResponse<TCObject[]>> {
-    this.logger.debug(`[${this.serviceRequestId}] SearchItemsCommand.execute called with query: ${this.query}, type: ${this.type}, limit: ${this.limit}`);
+    this.logger.debug(`[${this.serviceRequestId}] SearchItemsCommand.execute called with query: ${this.query}, type: ${this.type}, limit: ${this.limit}, status: ${this.status}`);
     
     // Check if user is logged in
     if (!this.isLoggedIn) {
@@ -64,6 +119,21 @@ export class SearchItemsCommand extends BaseCommand<TCObject[]> {
         );
       }
       
+      // Teamcenter matches any release status of an object and the category of its latest status is checked
+      // on the client, so more results are loaded to filter them
+      const maxToLoad = this.status ? Math.max(this.limit, STATUS_FILTER_MAX_TO_LOAD) : this.limit;
+
+      const searchFilterMap: Record<string, TCSearchFilter[]> = {};
+      if (this.type) {
+        searchFilterMap["Item Type"] = [stringFilter(this.type)]; // Reverted filter key to "Item Type"
+      }
+
+      // Teamcenter searches the objects with one of the release statuses, so that older matches are found too
+      const statusFilterValues = this.status ? getStatusFilterValues(this.status, this.statusCategories) : null;
+      if (statusFilterValues) {
+        searchFilterMap[RELEASE_STATUS_FILTER] = statusFilterValues.map(stringFilter);
+      }
+
       // Build search criteria - Reverting to Finder service pattern
       const searchOptions: TCSearchOptions = {
         searchInput: {
@@ -72,9 +142,9 @@ export class SearchItemsCommand extends BaseCommand<TCObject[]> {
             Name: this.query // Reverted to Name criteria for base provider
           },
           startIndex: 0,
-          maxToReturn: this.limit,
-          maxToLoad: this.limit,
-          searchFilterMap: {},
+          maxToReturn: maxToLoad,
+          maxToLoad: maxToLoad,
+          searchFilterMap,
           searchSortCriteria: [{
             fieldName: "creation_date",
             sortDirection: "DESC"
@@ -97,22 +167,6 @@ export class SearchItemsCommand extends BaseCommand<TCObject[]> {
         }
       };
       
-      if (this.type) {
-        searchOptions.searchInput.searchFilterMap = {
-          "Item Type": [{ // Reverted filter key to "Item Type"
-            searchFilterType: "StringFilter",
-            stringValue: this.type,
-            startDateValue: "",
-            endDateValue: "",
-            startNumericValue: 0,
-            endNumericValue: 0,
-            count: 1,
-            selected: true,
-            startEndRange: ""
-          }]
-        };
-      }
-      
       this.logger.debug(`[${this.serviceRequestId}] Search options:`, JSON.stringify(searchOptions, null, 2));
       
       const result = await this.soaClient.callService(
@@ -122,36 +176,20 @@ export class SearchItemsCommand extends BaseCommand<TCObject[]> {
       ) as TCSearchResponse;
       
       // Convert the results to TCObject format
-      const tcObjects = result.objects?.map(obj => convertToTCObject(obj, this.logger)) || [];
+      const allObjects = result.objects?.map(obj => convertToTCObject(obj, this.logger, this.statusCategories)) || [];
+      const tcObjects = this.status
+        ? allObjects.filter(tcObject => hasStatus(tcObject, this.status as string)).slice(0, this.limit)
+        : allObjects;
+
+      if (this.status && tcObjects.length < this.limit && result.totalFound > allObjects.length) {
+        this.logger.warn(`[${this.serviceRequestId}] Status ${this.status} was checked in the first ${allObjects.length} of ${result.totalFound} results only`);
+      }
       
       this.logger.debug(`[${this.serviceRequestId}] SearchItemsCommand.execute successful: ${tcObjects.length} items found`);
       return { data: tcObjects };
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error searching items:`, error);
-      
-      // Attempt to extract more specific error message from Teamcenter response
-      let specificMessage = 'Failed to search items';
-      if (error instanceof AppError && error.originalError) {
-        // Check if AppError wrapped an AxiosError or similar with response data
-        const responseData = (error.originalError as any)?.response?.data;
-        if (responseData?.ServiceData?.partialErrors?.[0]?.errorValues?.[0]?.message) {
-          specificMessage = responseData.ServiceData.partialErrors[0].errorValues[0].message;
-        } else if (responseData?.message) {
-          specificMessage = responseData.message;
-        } else if (error.originalError instanceof Error) {
-          specificMessage = error.originalError.message;
-        }
-      } else if (error instanceof Error) {
-        specificMessage = error.message;
-      }
-
-      return {
-        error: {
-          code: 'SEARCH_ERROR',
-          level: 'ERROR',
-          message: specificMessage
-        }
-      };
+      return this.createErrorResponse('SEARCH_ERROR', error, 'Failed to search items');
     }
   }
 }
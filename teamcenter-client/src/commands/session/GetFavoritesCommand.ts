@@ -1,15 +1,16 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse } from '../../types.js';
+import { TCResponse, TCFavorites } from '../../types.js';
 import { AppError, ErrorType } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
+import { parseFavorites } from '../../tcResponseParser.js';
 
-export class GetFavoritesCommand extends BaseCommand<any> {
+export class GetFavoritesCommand extends BaseCommand<TCFavorites> {
   constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean) {
     super(logger, soaClient, isLoggedIn);
   }
 
-  async execute(): Promise<TCResponse<any>> {
+  async execute(): Promise<TCResponse<TCFavorites>> {
     this.logger.debug(`[${this.serviceRequestId}] GetFavoritesCommand.execute called`);
 
     // Check if user is logged in
@@ -34,17 +35,13 @@ export class GetFavoritesCommand extends BaseCommand<any> {
         {}
       );
 
-      this.logger.debug(`[${this.serviceRequestId}] GetFavoritesCommand.execute successful`);
-      return { data: result };
+      const favorites = parseFavorites(result);
+
+      this.logger.debug(`[${this.serviceRequestId}] GetFavoritesCommand.execute successful: ${favorites.objects.length} favorites, ${favorites.folders.length} folders`);
+      return { data: favorites };
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error getting favorites:`, error);
-      return {
-        error: {
-          code: 'FAVORITES_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Failed to retrieve favorites'
-        }
-      };
+      return this.createErrorResponse('FAVORITES_ERROR', error, 'Failed to retrieve favorites');
     }
   }
 }
@@ -1,15 +1,16 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse } from '../../types.js';
+import { TCResponse, TCSessionInfo } from '../../types.js';
 import { AppError, ErrorType } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
+import { parseSessionInfo } from '../../tcResponseParser.js';
 
-export class GetSessionInfoCommand extends BaseCommand<any> {
+export class GetSessionInfoCommand extends BaseCommand<TCSessionInfo> {
   constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean) {
     super(logger, soaClient, isLoggedIn);
   }
 
-  async execute(): Promise<TCResponse<any>> {
+  async execute(): Promise<TCResponse<TCSessionInfo>> {
     this.logger.debug(`[${this.serviceRequestId}] GetSessionInfoCommand.execute called`);
 
     // Check if user is logged in
@@ -34,17 +35,13 @@ export class GetSessionInfoCommand extends BaseCommand<any> {
         {}
       );
 
+      const sessionInfo = parseSessionInfo(result);
+
       this.logger.debug(`[${this.serviceRequestId}] GetSessionInfoCommand.execute successful`);
-      return { data: result };
+      return { data: sessionInfo };
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error getting session info:`, error);
-      return {
-        error: {
-          code: 'SESSION_INFO_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Failed to retrieve session info'
-        }
-      };
+      return this.createErrorResponse('SESSION_INFO_ERROR', error, 'Failed to retrieve session info');
     }
   }
 }
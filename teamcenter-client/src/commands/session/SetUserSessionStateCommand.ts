@@ -0,0 +1,120 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCSessionState, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectProperties, getModelObjectPropertyValues, parseSessionState } from '../../tcResponseParser.js';
+
+export class SetUserSessionStateCommand extends BaseCommand<TCSessionState> {
+  private group?: string;
+  private role?: string;
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, group?: string, role?: string) {
+    super(logger, soaClient, isLoggedIn);
+    this.group = group;
+    this.role = role;
+  }
+
+  async execute(): Promise<TCResponse<TCSessionState>> {
+    this.logger.debug(`[${this.serviceRequestId}] SetUserSessionStateCommand.execute called for group: ${this.group}, role: ${this.role}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] SetUserSessionStateCommand.execute failed: No session`);
+      return this.createNotLoggedInError('setUserSessionState');
+    }
+
+    // Validate parameters
+    if (!this.group && !this.role) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Group or role is required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'setUserSessionState' }
+        );
+      }
+
+      // Switching only the role keeps the current group
+      let groupName = this.group;
+      if (!groupName) {
+        const sessionInfo = await this.soaClient.callService(
+          'Core-2007-01-Session',
+          'getTCSessionInfo',
+          {}
+        );
+        groupName = parseSessionState(sessionInfo).groupName;
+      }
+
+      // A group and role combination is selected through the group member that grants it to the user
+      const membershipResult = await this.soaClient.callService(
+        'Core-2006-03-Session',
+        'getGroupMembership',
+        {}
+      ) as any;
+
+      const groupMembers: TCObjectRef[] = membershipResult?.groupMembers || [];
+      let propertiesResult: unknown = {};
+      if (groupMembers.length > 0) {
+        propertiesResult = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: groupMembers,
+            attributes: ['group', 'role']
+          }
+        );
+      }
+
+      const memberships = groupMembers.map(groupMember => {
+        const properties = getModelObjectProperties(propertiesResult, groupMember.uid);
+        return {
+          groupMember,
+          state: {
+            groupId: getModelObjectPropertyValues(propertiesResult, groupMember.uid, 'group')[0] || '',
+            groupName: properties.group || '',
+            roleId: getModelObjectPropertyValues(propertiesResult, groupMember.uid, 'role')[0] || '',
+            roleName: properties.role || ''
+          }
+        };
+      });
+
+      const matches = (value: string, name?: string) => !name || value.toLowerCase() === name.toLowerCase();
+      const membership = memberships.find(candidate =>
+        matches(candidate.state.groupName, groupName) && matches(candidate.state.roleName, this.role)
+      );
+
+      if (!membership) {
+        const available = memberships.map(candidate => `${candidate.state.groupName}/${candidate.state.roleName}`).join(', ');
+        throw new AppError(
+          `User is not a member of group ${groupName}${this.role ? ` with role ${this.role}` : ''} (available: ${available || 'none'})`,
+          ErrorType.DATA_VALIDATION,
+          null,
+          { method: 'setUserSessionState' }
+        );
+      }
+
+      await this.soaClient.callService(
+        'Core-2006-03-Session',
+        'setSessionGroupMember',
+        { groupMember: { uid: membership.groupMember.uid, type: membership.groupMember.type || 'GroupMember' } }
+      );
+
+      this.logger.debug(`[${this.serviceRequestId}] SetUserSessionStateCommand.execute successful: ${membership.state.groupName}/${membership.state.roleName}`);
+      return { data: membership.state };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error setting user session state:`, error);
+      return this.createErrorResponse('SESSION_STATE_ERROR', error, 'Failed to set user session state');
+    }
+  }
+}
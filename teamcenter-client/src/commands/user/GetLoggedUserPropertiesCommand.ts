@@ -1,12 +1,12 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse } from '../../types.js';
+import { TCModelObject, TCResponse } from '../../types.js';
 import { AppError, ErrorType } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
 import { GetSessionInfoCommand } from '../session/GetSessionInfoCommand.js';
 import { GetUserPropertiesCommand } from './GetUserPropertiesCommand.js';
 
-export class GetLoggedUserPropertiesCommand extends BaseCommand<any> {
+export class GetLoggedUserPropertiesCommand extends BaseCommand<TCModelObject> {
   private attributes?: string[];
 
   constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, attributes?: string[]) {
@@ -14,7 +14,7 @@ export class GetLoggedUserPropertiesCommand extends BaseCommand<any> {
     this.attributes = attributes;
   }
 
-  async execute(): Promise<TCResponse<any>> {
+  async execute(): Promise<TCResponse<TCModelObject>> {
     this.logger.debug(`[${this.serviceRequestId}] GetLoggedUserPropertiesCommand.execute called`);
 
     // Check if user is logged in
@@ -72,13 +72,7 @@ export class GetLoggedUserPropertiesCommand extends BaseCommand<any> {
       return await userPropertiesCommand.execute();
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error getting logged user properties:`, error);
-      return {
-        error: {
-          code: 'USER_PROPERTIES_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Failed to retrieve logged user properties'
-        }
-      };
+      return this.createErrorResponse('USER_PROPERTIES_ERROR', error, 'Failed to retrieve logged user properties');
     }
   }
 }
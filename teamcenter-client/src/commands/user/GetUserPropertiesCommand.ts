@@ -1,20 +1,44 @@
 import { BaseCommand } from '../Command.js';
-import { TCResponse } from '../../types.js';
-import { AppError, ErrorType } from '../../tcErrors.js';
+import { PropertyCache, PropertyPolicy, TCModelObject, TCResponse } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
 import { Logger } from '../../logger.js';
 import { SOAClient } from '../../tcSOAClient.js';
+import { cacheModelObjects, getCachedModelObject } from '../../tcCache.js';
+import { parseServiceData, getErrorStacks } from '../../tcResponseParser.js';
 
-export class GetUserPropertiesCommand extends BaseCommand<any> {
+// Default attributes to retrieve if not specified
+const DEFAULT_USER_ATTRIBUTES = [
+  "user_id",
+  "person",
+  "os_username",
+  "last_login_time",
+  "volume",
+  "home_folder"
+];
+
+export class GetUserPropertiesCommand extends BaseCommand<TCModelObject> {
   private uid: string;
   private attributes?: string[];
+  private cache: PropertyCache | null;
+  private refresh: boolean;
 
-  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, uid: string, attributes?: string[]) {
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    uid: string,
+    attributes?: string[],
+    cache: PropertyCache | null = null,
+    refresh: boolean = false
+  ) {
     super(logger, soaClient, isLoggedIn);
     this.uid = uid;
     this.attributes = attributes;
+    this.cache = cache;
+    this.refresh = refresh;
   }
 
-  async execute(): Promise<TCResponse<any>> {
+  async execute(): Promise<TCResponse<TCModelObject>> {
     this.logger.debug(`[${this.serviceRequestId}] GetUserPropertiesCommand.execute called for user UID: ${this.uid}`);
 
     // Check if user is logged in
@@ -35,6 +59,17 @@ export class GetUserPropertiesCommand extends BaseCommand<any> {
     }
 
     try {
+      const attributes = this.attributes || DEFAULT_USER_ATTRIBUTES;
+
+      // Serve the user from the cache when all of the attributes are cached
+      if (this.cache && !this.refresh) {
+        const cached = getCachedModelObject(this.cache, this.uid, attributes);
+        if (cached) {
+          this.logger.debug(`[${this.serviceRequestId}] GetUserPropertiesCommand.execute served from cache for user UID: ${this.uid}`);
+          return { data: parseServiceData(cached).modelObjects[this.uid] };
+        }
+      }
+
       if (!this.soaClient) {
         throw new AppError(
           'SOA client is not initialized',
@@ -43,17 +78,7 @@ export class GetUserPropertiesCommand extends BaseCommand<any> {
           { method: 'getUserProperties' }
         );
       }
-
-      // Default attributes to retrieve if not specified
-      const defaultAttributes = [
-        "user_id", 
-        "person", 
-        "os_username", 
-        "last_login_time", 
-        "volume", 
-        "home_folder"
-      ];
-
+      
       // Prepare the request payload
       const payload = {
         objects: [{
@@ -61,28 +86,42 @@ export class GetUserPropertiesCommand extends BaseCommand<any> {
           className: "User",
           type: "User"
         }],
-        attributes: this.attributes || defaultAttributes
+        attributes
       };
         
       this.logger.debug(`[${this.serviceRequestId}] Payload for getUserProperties:`, payload);
 
+      // Return only the requested attributes instead of the properties of the server default policy
+      const policy: PropertyPolicy = { types: [{ name: 'User', properties: attributes }] };
+
       const result = await this.soaClient.callService(
         'Core-2006-03-DataManagement',
         'getProperties',
-        payload
+        payload,
+        policy
       );
 
+      if (this.cache) {
+        cacheModelObjects(this.cache, result);
+      }
+
+      const serviceData = parseServiceData(result);
+      const user = serviceData.modelObjects[this.uid];
+      if (!user) {
+        const errorStacks = getErrorStacks(result);
+        const userErrors = errorStacks.filter(errorStack => errorStack.uid === this.uid);
+        throw createTeamcenterError(
+          userErrors.length > 0 ? userErrors : errorStacks,
+          `User ${this.uid} was not returned by Teamcenter`,
+          { method: 'getUserProperties' }
+        );
+      }
+
       this.logger.debug(`[${this.serviceRequestId}] GetUserPropertiesCommand.execute successful for user UID: ${this.uid}`);
-      return { data: result };
+      return { data: user };
     } catch (error) {
       this.logger.error(`[${this.serviceRequestId}] Error getting user properties:`, error);
-      return {
-        error: {
-          code: 'USER_PROPERTIES_ERROR',
-          level: 'ERROR',
-          message: error instanceof Error ? error.message : 'Failed to retrieve user properties'
-        }
-      };
+      return this.createErrorResponse('USER_PROPERTIES_ERROR', error, 'Failed to retrieve user properties');
     }
   }
 }
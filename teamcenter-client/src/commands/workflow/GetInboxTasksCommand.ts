@@ -0,0 +1,93 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCWorkflowTask } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectPropertyValues } from '../../tcResponseParser.js';
+import { GetSessionInfoCommand } from '../session/GetSessionInfoCommand.js';
+import { GetWorkflowTasksCommand } from './GetWorkflowTasksCommand.js';
+
+export class GetInboxTasksCommand extends BaseCommand<TCWorkflowTask[]> {
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean) {
+    super(logger, soaClient, isLoggedIn);
+  }
+
+  async execute(): Promise<TCResponse<TCWorkflowTask[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetInboxTasksCommand.execute called`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetInboxTasksCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getInboxTasks');
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getInboxTasks' }
+        );
+      }
+
+      // First, get the session info to retrieve the current user's UID
+      const sessionInfoCommand = new GetSessionInfoCommand(this.logger, this.soaClient, this.isLoggedIn);
+      const sessionInfoResponse = await sessionInfoCommand.execute();
+
+      if (sessionInfoResponse.error) {
+        throw new AppError(
+          `Failed to get session info: ${sessionInfoResponse.error.message}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'getInboxTasks' }
+        );
+      }
+
+      const userUid = sessionInfoResponse.data?.user?.uid;
+      if (!userUid) {
+        throw new AppError(
+          'Could not retrieve current user UID from session info',
+          ErrorType.DATA_PARSING,
+          null,
+          { method: 'getInboxTasks' }
+        );
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] Retrieved current user UID: ${userUid}`);
+
+      // Resolve the user's task inbox and the tasks waiting to be performed
+      const userResult = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: [{ uid: userUid, type: 'User' }],
+          attributes: ['taskinbox']
+        }
+      );
+
+      const inboxUid = getModelObjectPropertyValues(userResult, userUid, 'taskinbox')[0];
+      if (!inboxUid) {
+        this.logger.debug(`[${this.serviceRequestId}] GetInboxTasksCommand.execute successful: user has no task inbox`);
+        return { data: [] };
+      }
+
+      const inboxResult = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: [{ uid: inboxUid, type: 'TaskInbox' }],
+          attributes: ['tasks_to_perform']
+        }
+      );
+
+      const taskUids = getModelObjectPropertyValues(inboxResult, inboxUid, 'tasks_to_perform');
+
+      const tasksCommand = new GetWorkflowTasksCommand(this.logger, this.soaClient, this.isLoggedIn, taskUids);
+      return await tasksCommand.execute();
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting inbox tasks:`, error);
+      return this.createErrorResponse('WORKFLOW_ERROR', error, 'Failed to get inbox tasks');
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCWorkflowTask } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getDisplayValue, parseServiceData } from '../../tcResponseParser.js';
+
+// Properties loaded for every workflow task
+export const TASK_ATTRIBUTES = [
+  'object_name',
+  'object_desc',
+  'object_type',
+  'task_state',
+  'parent_process',
+  'resp_party',
+  'due_date',
+  'root_target_attachments'
+];
+
+export class GetWorkflowTasksCommand extends BaseCommand<TCWorkflowTask[]> {
+  private taskUids: string[];
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, taskUids: string[]) {
+    super(logger, soaClient, isLoggedIn);
+    this.taskUids = taskUids;
+  }
+
+  async execute(): Promise<TCResponse<TCWorkflowTask[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] GetWorkflowTasksCommand.execute called for ${this.taskUids.length} tasks`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] GetWorkflowTasksCommand.execute failed: No session`);
+      return this.createNotLoggedInError('getWorkflowTasks');
+    }
+
+    // Nothing to load
+    if (this.taskUids.length === 0) {
+      return { data: [] };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'getWorkflowTasks' }
+        );
+      }
+
+      const result = await this.soaClient.callService(
+        'Core-2006-03-DataManagement',
+        'getProperties',
+        {
+          objects: this.taskUids.map(uid => ({ uid, type: 'EPMTask' })),
+          attributes: TASK_ATTRIBUTES
+        }
+      ) as any;
+
+      const { modelObjects } = parseServiceData(result);
+      const tasks: TCWorkflowTask[] = this.taskUids.map(uid => {
+        const task = modelObjects[uid] || { uid, type: '', properties: {} };
+        return {
+          uid,
+          type: task.type || getDisplayValue(task, 'object_type') || 'EPMTask',
+          name: getDisplayValue(task, 'object_name'),
+          description: getDisplayValue(task, 'object_desc'),
+          state: getDisplayValue(task, 'task_state'),
+          process: getDisplayValue(task, 'parent_process'),
+          responsibleParty: getDisplayValue(task, 'resp_party'),
+          dueDate: getDisplayValue(task, 'due_date') || null,
+          targets: task.properties.root_target_attachments?.dbValues || [],
+          properties: task.properties
+        };
+      });
+
+      this.logger.debug(`[${this.serviceRequestId}] GetWorkflowTasksCommand.execute successful: ${tasks.length} tasks loaded`);
+      return { data: tasks };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error getting workflow tasks:`, error);
+      return this.createErrorResponse('WORKFLOW_ERROR', error, 'Failed to get workflow tasks');
+    }
+  }
+}
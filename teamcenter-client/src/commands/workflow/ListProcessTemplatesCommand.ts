@@ -0,0 +1,86 @@
+import { BaseCommand } from '../Command.js';
+import { TCResponse, TCProcessTemplate, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { getModelObjectProperties } from '../../tcResponseParser.js';
+
+export class ListProcessTemplatesCommand extends BaseCommand<TCProcessTemplate[]> {
+  private objectTypes: string[];
+
+  constructor(logger: Logger, soaClient: SOAClient | null, isLoggedIn: boolean, objectTypes: string[] = []) {
+    super(logger, soaClient, isLoggedIn);
+    this.objectTypes = objectTypes;
+  }
+
+  async execute(): Promise<TCResponse<TCProcessTemplate[]>> {
+    this.logger.debug(`[${this.serviceRequestId}] ListProcessTemplatesCommand.execute called`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] ListProcessTemplatesCommand.execute failed: No session`);
+      return this.createNotLoggedInError('listProcessTemplates');
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'listProcessTemplates' }
+        );
+      }
+
+      // Only filter by target types when the caller asked for it
+      const payload = {
+        input: [{
+          clientId: this.serviceRequestId,
+          getFiltered: this.objectTypes.length > 0,
+          objectTypes: this.objectTypes,
+          group: '',
+          includeUnderConstruction: false
+        }]
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] listProcessTemplates payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Workflow-2013-05-Workflow',
+        'getWorkflowTemplates',
+        payload
+      ) as any;
+
+      const templateRefs: TCObjectRef[] = (result?.templatesOutput || [])
+        .flatMap((output: any) => output.workflowTemplates || []);
+
+      // Load the template names
+      let propertiesResult: unknown = {};
+      if (templateRefs.length > 0) {
+        propertiesResult = await this.soaClient.callService(
+          'Core-2006-03-DataManagement',
+          'getProperties',
+          {
+            objects: templateRefs,
+            attributes: ['template_name', 'object_desc']
+          }
+        );
+      }
+
+      const templates: TCProcessTemplate[] = templateRefs.map(ref => {
+        const props = getModelObjectProperties(propertiesResult, ref.uid);
+        return {
+          uid: ref.uid,
+          name: props.template_name || '',
+          description: props.object_desc || ''
+        };
+      });
+
+      this.logger.debug(`[${this.serviceRequestId}] ListProcessTemplatesCommand.execute successful: ${templates.length} templates found`);
+      return { data: templates };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error listing process templates:`, error);
+      return this.createErrorResponse('WORKFLOW_ERROR', error, 'Failed to list process templates');
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, PropertyPolicy, TCResponse, TCWorkflowTask, TCTaskAction, TCObjectRef } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { getModelObjectPropertyValues, getErrorStacks } from '../../tcResponseParser.js';
+import { GetSessionInfoCommand } from '../session/GetSessionInfoCommand.js';
+import { GetWorkflowTasksCommand } from './GetWorkflowTasksCommand.js';
+
+// Workflow action and supporting value sent for every task action
+const TASK_ACTIONS: Record<TCTaskAction, { action: string; supportingValue: string; needsSignoff: boolean }> = {
+  complete: { action: 'SOA_EPM_complete_action', supportingValue: 'SOA_EPM_completed', needsSignoff: false },
+  approve: { action: 'SOA_EPM_perform_action', supportingValue: 'SOA_EPM_approve', needsSignoff: true },
+  reject: { action: 'SOA_EPM_perform_action', supportingValue: 'SOA_EPM_reject', needsSignoff: true }
+};
+
+// The signoffs of the task are returned with the users of their group members in the same response
+const SIGNOFF_POLICY: PropertyPolicy = {
+  types: [
+    { name: 'EPMTask', properties: [{ name: 'signoff_attachments', withProperties: true }] },
+    { name: 'Signoff', properties: [{ name: 'group_member', withProperties: true }] },
+    { name: 'GroupMember', properties: ['user'] }
+  ]
+};
+
+export class PerformTaskActionCommand extends BaseCommand<TCWorkflowTask> {
+  private taskUid: string;
+  private action: TCTaskAction;
+  private comments: string;
+  private cache: PropertyCache | null;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    taskUid: string,
+    action: TCTaskAction,
+    comments: string = '',
+    cache: PropertyCache | null = null
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.taskUid = taskUid;
+    this.action = action;
+    this.comments = comments;
+    this.cache = cache;
+  }
+
+  async execute(): Promise<TCResponse<TCWorkflowTask>> {
+    this.logger.debug(`[${this.serviceRequestId}] PerformTaskActionCommand.execute called for task: ${this.taskUid}, action: ${this.action}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] PerformTaskActionCommand.execute failed: No session`);
+      return this.createNotLoggedInError('performTaskAction');
+    }
+
+    // Validate parameters
+    if (!this.taskUid || !TASK_ACTIONS[this.action]) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: `Task UID and an action (${Object.keys(TASK_ACTIONS).join(', ')}) are required`
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'performTaskAction' }
+        );
+      }
+
+      const { action, supportingValue, needsSignoff } = TASK_ACTIONS[this.action];
+
+      // Approve and reject decisions are recorded on the signoff of the current user
+      const signoff = needsSignoff ? await this.getUserSignoff(this.soaClient) : null;
+
+      const payload = {
+        actionableObject: { uid: this.taskUid, type: 'EPMTask' },
+        action,
+        comments: this.comments,
+        password: '',
+        supportingValue,
+        supportingObject: signoff
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] performTaskAction payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Workflow-2006-03-Workflow',
+        'performAction',
+        payload
+      );
+
+      // The task has changed, and so may the targets of its process (e.g. their release status)
+      if (this.cache) {
+        invalidateServiceData(this.cache, result, [this.taskUid]);
+      }
+
+      // Teamcenter reports why the action could not be performed as partial errors
+      const errorStacks = getErrorStacks(result);
+      if (errorStacks.length > 0) {
+        throw createTeamcenterError(errorStacks, `Failed to ${this.action} task ${this.taskUid}`, { method: 'performTaskAction' });
+      }
+
+      // Return the task with its new state
+      const tasksCommand = new GetWorkflowTasksCommand(this.logger, this.soaClient, this.isLoggedIn, [this.taskUid]);
+      const tasksResponse = await tasksCommand.execute();
+      if (tasksResponse.error || !tasksResponse.data?.[0]) {
+        throw new AppError(
+          `Failed to reload task after ${this.action}: ${tasksResponse.error?.message || 'task not found'}`,
+          ErrorType.API_RESPONSE,
+          null,
+          { method: 'performTaskAction' }
+        );
+      }
+
+      this.logger.debug(`[${this.serviceRequestId}] PerformTaskActionCommand.execute successful`);
+      return { data: tasksResponse.data[0] };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error performing task action:`, error);
+      return this.createErrorResponse('WORKFLOW_ERROR', error, 'Failed to perform task action');
+    }
+  }
+
+  /**
+   * Find the signoff of the task that is assigned to the user of the session.
+   * Tasks reviewed by several users have one signoff per reviewer, and a decision must not be recorded for someone else.
+   * @param soaClient The SOA client to use
+   * @returns The signoff of the current user
+   */
+  private async getUserSignoff(soaClient: SOAClient): Promise<TCObjectRef> {
+    const sessionInfoResponse = await new GetSessionInfoCommand(this.logger, soaClient, this.isLoggedIn).execute();
+    const userUid = sessionInfoResponse.data?.user?.uid;
+    if (!userUid) {
+      throw new AppError(
+        `Failed to get the current user: ${sessionInfoResponse.error?.message || 'no user in the session info'}`,
+        ErrorType.API_RESPONSE,
+        null,
+        { method: 'performTaskAction' }
+      );
+    }
+
+    const signoffResult = await soaClient.callService(
+      'Core-2006-03-DataManagement',
+      'getProperties',
+      {
+        objects: [{ uid: this.taskUid, type: 'EPMTask' }],
+        attributes: ['signoff_attachments']
+      },
+      SIGNOFF_POLICY
+    );
+
+    const signoffUids = getModelObjectPropertyValues(signoffResult, this.taskUid, 'signoff_attachments');
+    const signoffUid = signoffUids.find(uid => {
+      const groupMemberUid = getModelObjectPropertyValues(signoffResult, uid, 'group_member')[0];
+      return !!groupMemberUid && getModelObjectPropertyValues(signoffResult, groupMemberUid, 'user')[0] === userUid;
+    });
+
+    if (!signoffUid) {
+      throw new AppError(
+        signoffUids.length === 0
+          ? `Task ${this.taskUid} has no signoff to ${this.action}`
+          : `The current user has no signoff on task ${this.taskUid} to ${this.action}`,
+        ErrorType.DATA_VALIDATION,
+        null,
+        { method: 'performTaskAction', userUid }
+      );
+    }
+
+    return { uid: signoffUid, type: 'Signoff' };
+  }
+}
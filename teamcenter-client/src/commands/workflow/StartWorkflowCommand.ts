@@ -0,0 +1,120 @@
+import { BaseCommand } from '../Command.js';
+import { PropertyCache, TCResponse, TCWorkflowProcess } from '../../types.js';
+import { AppError, ErrorType, createTeamcenterError } from '../../tcErrors.js';
+import { Logger } from '../../logger.js';
+import { SOAClient } from '../../tcSOAClient.js';
+import { invalidateServiceData } from '../../tcCache.js';
+import { getErrorStacks } from '../../tcResponseParser.js';
+
+// Attachment type of workflow targets (EPM_target_attachment)
+const TARGET_ATTACHMENT_TYPE = 1;
+
+export class StartWorkflowCommand extends BaseCommand<TCWorkflowProcess> {
+  private templateName: string;
+  private targetUids: string[];
+  private processName: string;
+  private description: string;
+  private cache: PropertyCache | null;
+
+  constructor(
+    logger: Logger,
+    soaClient: SOAClient | null,
+    isLoggedIn: boolean,
+    templateName: string,
+    targetUids: string[],
+    processName?: string,
+    description: string = '',
+    cache: PropertyCache | null = null
+  ) {
+    super(logger, soaClient, isLoggedIn);
+    this.templateName = templateName;
+    this.targetUids = targetUids;
+    this.processName = processName || templateName;
+    this.description = description;
+    this.cache = cache;
+  }
+
+  async execute(): Promise<TCResponse<TCWorkflowProcess>> {
+    this.logger.debug(`[${this.serviceRequestId}] StartWorkflowCommand.execute called with template: ${this.templateName}, targets: ${this.targetUids.join(', ')}`);
+
+    // Check if user is logged in
+    if (!this.isLoggedIn) {
+      this.logger.debug(`[${this.serviceRequestId}] StartWorkflowCommand.execute failed: No session`);
+      return this.createNotLoggedInError('startWorkflow');
+    }
+
+    // Validate parameters
+    if (!this.templateName || this.targetUids.length === 0) {
+      return {
+        error: {
+          code: 'INVALID_PARAMETER',
+          level: 'ERROR',
+          message: 'Process template and at least one target are required'
+        }
+      };
+    }
+
+    try {
+      if (!this.soaClient) {
+        throw new AppError(
+          'SOA client is not initialized',
+          ErrorType.UNKNOWN,
+          null,
+          { method: 'startWorkflow' }
+        );
+      }
+
+      const payload = {
+        startImmediately: true,
+        observerKey: '',
+        name: this.processName,
+        subject: '',
+        description: this.description,
+        contextData: {
+          processTemplate: this.templateName,
+          attachmentCount: this.targetUids.length,
+          attachments: this.targetUids,
+          attachmentTypes: this.targetUids.map(() => TARGET_ATTACHMENT_TYPE),
+          deadlineDate: '',
+          container: '',
+          containerType: ''
+        }
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] startWorkflow payload:`, JSON.stringify(payload, null, 2));
+
+      const result = await this.soaClient.callService(
+        'Workflow-2008-06-Workflow',
+        'createInstance',
+        payload
+      ) as any;
+
+      // The targets now list the process in their workflow properties
+      if (this.cache) {
+        invalidateServiceData(this.cache, result, this.targetUids);
+      }
+
+      if (!result?.instance?.uid) {
+        throw createTeamcenterError(
+          getErrorStacks(result),
+          `Failed to start workflow ${this.templateName}`,
+          { method: 'startWorkflow' }
+        );
+      }
+
+      const process: TCWorkflowProcess = {
+        uid: result.instance.uid,
+        type: result.instance.type || 'EPMJob',
+        name: this.processName,
+        template: this.templateName,
+        targets: this.targetUids
+      };
+
+      this.logger.debug(`[${this.serviceRequestId}] StartWorkflowCommand.execute successful: process ${process.uid} started`);
+      return { data: process };
+    } catch (error) {
+      this.logger.error(`[${this.serviceRequestId}] Error starting workflow:`, error);
+      return this.createErrorResponse('WORKFLOW_ERROR', error, 'Failed to start workflow');
+    }
+  }
+}
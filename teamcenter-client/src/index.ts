@@ -22,10 +22,39 @@ export { CommandExecutor } from './commands/CommandExecutor.js';
 // Export Auth commands
 export { LoginCommand } from './commands/auth/LoginCommand.js';
 export { LogoutCommand } from './commands/auth/LogoutCommand.js';
+export { LoginSSOCommand } from './commands/auth/LoginSSOCommand.js';
+export { SessionCookieLoginCommand } from './commands/auth/SessionCookieLoginCommand.js';
+
+// Export retry policy and circuit breaker
+export {
+  DEFAULT_RETRY_POLICY,
+  READ_OPERATIONS,
+  createCircuitBreaker,
+  resolveRetryPolicy,
+  isIdempotentOperation,
+  isTransientError
+} from './tcRetry.js';
+
+// Export property cache
+export {
+  DEFAULT_PROPERTY_CACHE_CONFIG,
+  TYPE_DESCRIPTION_TYPE,
+  createPropertyCache
+} from './tcCache.js';
+
+// Export authenticators
+export type { TCAuthenticator } from './tcAuthenticators.js';
+export {
+  createAuthenticator,
+  createPasswordAuthenticator,
+  createSSOAuthenticator,
+  createSessionCookieAuthenticator
+} from './tcAuthenticators.js';
 
 // Export Session commands
 export { GetSessionInfoCommand } from './commands/session/GetSessionInfoCommand.js';
 export { GetFavoritesCommand } from './commands/session/GetFavoritesCommand.js';
+export { SetUserSessionStateCommand } from './commands/session/SetUserSessionStateCommand.js';
 
 // Export User commands
 export { GetUserPropertiesCommand } from './commands/user/GetUserPropertiesCommand.js';
@@ -34,25 +63,159 @@ export { GetLoggedUserPropertiesCommand } from './commands/user/GetLoggedUserPro
 // Export Item commands
 export { GetItemTypesCommand } from './commands/item/GetItemTypesCommand.js';
 export { GetItemByIdCommand } from './commands/item/GetItemByIdCommand.js';
+export { GetPropertiesCommand } from './commands/item/GetPropertiesCommand.js';
 export { CreateItemCommand } from './commands/item/CreateItemCommand.js';
 export { UpdateItemCommand } from './commands/item/UpdateItemCommand.js';
+export { ListRevisionsCommand } from './commands/item/ListRevisionsCommand.js';
+export { ReviseItemCommand } from './commands/item/ReviseItemCommand.js';
+export { CompareRevisionsCommand } from './commands/item/CompareRevisionsCommand.js';
+export { GetReleaseStatusCommand } from './commands/item/GetReleaseStatusCommand.js';
 
 // Export Search commands
 export { SearchItemsCommand } from './commands/search/SearchItemsCommand.js';
+export { AdvancedSearchCommand } from './commands/search/AdvancedSearchCommand.js';
+
+// Export Classification commands
+export { GetClassChildrenCommand, CLASSIFICATION_ROOT } from './commands/classification/GetClassChildrenCommand.js';
+export { GetClassAttributesCommand, findClassAttribute } from './commands/classification/GetClassAttributesCommand.js';
+export { GetClassificationCommand } from './commands/classification/GetClassificationCommand.js';
+export { SearchClassificationCommand } from './commands/classification/SearchClassificationCommand.js';
+export { ClassifyObjectCommand } from './commands/classification/ClassifyObjectCommand.js';
 export { GetUserOwnedItemsCommand } from './commands/search/GetUserOwnedItemsCommand.js';
 export { GetLastCreatedItemsCommand } from './commands/search/GetLastCreatedItemsCommand.js';
 
+// Export BOM commands
+export { ExpandBOMCommand } from './commands/bom/ExpandBOMCommand.js';
+export { WhereUsedCommand } from './commands/bom/WhereUsedCommand.js';
+export { GetRevisionRuleCommand } from './commands/bom/GetRevisionRuleCommand.js';
+
+// Export Dataset commands
+export { GetDatasetsCommand } from './commands/dataset/GetDatasetsCommand.js';
+export { GetDatasetFilesCommand } from './commands/dataset/GetDatasetFilesCommand.js';
+export { DownloadDatasetFileCommand } from './commands/dataset/DownloadDatasetFileCommand.js';
+export { UploadDatasetCommand } from './commands/dataset/UploadDatasetCommand.js';
+
+// Export Workflow commands
+export { ListProcessTemplatesCommand } from './commands/workflow/ListProcessTemplatesCommand.js';
+export { StartWorkflowCommand } from './commands/workflow/StartWorkflowCommand.js';
+export { GetInboxTasksCommand } from './commands/workflow/GetInboxTasksCommand.js';
+export { PerformTaskActionCommand } from './commands/workflow/PerformTaskActionCommand.js';
+export { GetWorkflowTasksCommand } from './commands/workflow/GetWorkflowTasksCommand.js';
+
+// Export Change commands
+export { CreateChangeCommand } from './commands/change/CreateChangeCommand.js';
+export { ListChangeItemsCommand } from './commands/change/ListChangeItemsCommand.js';
+export { UpdateChangeItemsCommand } from './commands/change/UpdateChangeItemsCommand.js';
+export { GetOpenChangesCommand } from './commands/change/GetOpenChangesCommand.js';
+export { GetChangesCommand } from './commands/change/GetChangesCommand.js';
+
+// Export Relation commands
+export { GetRelatedObjectsCommand } from './commands/relation/GetRelatedObjectsCommand.js';
+export { CreateRelationCommand } from './commands/relation/CreateRelationCommand.js';
+export { DeleteRelationCommand } from './commands/relation/DeleteRelationCommand.js';
+
+// Export Saved query commands
+export { ListSavedQueriesCommand } from './commands/query/ListSavedQueriesCommand.js';
+export { GetSavedQueryCommand } from './commands/query/GetSavedQueryCommand.js';
+export { DescribeSavedQueryCommand } from './commands/query/DescribeSavedQueryCommand.js';
+export { RunSavedQueryCommand } from './commands/query/RunSavedQueryCommand.js';
+
+// Export Reservation commands
+export { CheckOutCommand } from './commands/reservation/CheckOutCommand.js';
+export { CheckInCommand } from './commands/reservation/CheckInCommand.js';
+export { CancelCheckOutCommand } from './commands/reservation/CancelCheckOutCommand.js';
+export { GetCheckoutStatusCommand } from './commands/reservation/GetCheckoutStatusCommand.js';
+
 // Export types
 export type {
   TCCredentials,
+  TCCredentialProvider,
+  TCSSOToken,
+  TCSSOTokenProvider,
+  TCAuthenticationConfig,
+  TCRetryPolicy,
+  CircuitState,
+  CircuitBreaker,
+  TCCircuitBreakerStatus,
+  TCConnectionStatus,
+  PropertyCache,
+  TCPropertyCacheConfig,
+  TCPropertyCacheStatus,
   TCSession,
+  TCSessionState,
   TCResponse,
+  TCError,
   TCSearchOptions,
   TCSearchResponse,
   TCObject,
   TCItem,
   TCItemRevision,
+  TCItemWithRevisions,
   TCDataset,
+  TCObjectRef,
+  TCBOMLine,
+  TCBOMExpandOptions,
+  TCBOMStructure,
+  TCWhereUsedParent,
+  TCWhereUsedOptions,
+  TCWhereUsedResult,
+  TCPropertyDiff,
+  TCRevisionComparison,
+  TCDatasetFile,
+  TCDatasetsByRelation,
+  TCFileContent,
+  TCDatasetUploadOptions,
+  TCDatasetUploadResult,
+  TCProcessTemplate,
+  TCWorkflowProcess,
+  TCWorkflowTask,
+  TCTaskAction,
+  TCChangeType,
+  TCChangeFolder,
+  TCChangeObject,
+  TCChangeItem,
+  TCChangeItems,
+  TCRelationDirection,
+  TCRelation,
+  TCRelatedObject,
+  TCSavedQuery,
+  TCSavedQueryField,
+  TCSavedQueryDescription,
+  TCSavedQueryOptions,
+  TCSavedQueryObject,
+  TCSavedQueryResult,
+  TCSearchFilter,
+  TCSearchFilterSelection,
+  TCAdvancedSearchOptions,
+  TCSearchFacet,
+  TCAdvancedSearchResult,
+  TCClassificationNode,
+  TCClassAttribute,
+  TCClassificationValue,
+  TCClassification,
+  TCClassificationCriteria,
+  TCClassifiedObject,
+  SessionCookie,
+  SessionStore,
+  TCPartialError,
+  TCErrorValue,
+  TCErrorStack,
+  TCObjectProperties,
+  TCBatchProperties,
+  TCModelObject,
+  TCServiceData,
+  TCSessionInfo,
+  TCFavorites,
+  TCFavoritesFolder,
+  TCItemType,
+  PropertyPolicy,
+  TCPolicyType,
+  TCPolicyProperty,
+  TCPolicyModifiers,
+  TCCheckoutStatus,
+  TCStatusCategory,
+  TCReleaseStatus,
+  TCObjectReleaseStatus,
   TCSOAClientConfig,
   TeamcenterConfig,
   TeamcenterServiceOptions,
@@ -61,6 +224,7 @@ export type {
 
 // Export utility functions
 export {
+  createSessionStore,
   storeSessionCookie,
   getSessionCookie,
   clearSessionCookie,
@@ -68,7 +232,8 @@ export {
   retrieveSession,
   clearSession,
   isValidSession,
-  createJSONRequest
+  createJSONRequest,
+  serializePropertyPolicy
 } from './tcUtils.js';
 
 // Export error handling
@@ -79,18 +244,41 @@ export {
   handleDataError,
   handleAuthError,
   handleNetworkError,
-  logError
+  logError,
+  TC_ERROR_CODE_TYPES,
+  getErrorTypeForCode,
+  createTeamcenterError,
+  toTCError
 } from './tcErrors.js';
 
 // Export response parser
 export {
   parseJSONResponse,
   convertToTCObject,
-  getPropertyValue
+  getPropertyValue,
+  getModelObjectProperties,
+  getModelObjectPropertyValues,
+  getModelObjectPropertyInfos,
+  parseServiceData,
+  isServiceDataResponse,
+  getPartialErrors,
+  getErrorStacks,
+  parseSessionState,
+  parseSessionInfo,
+  parseFavorites,
+  resolveModelObjects,
+  getDisplayValue,
+  getMapEntries,
+  DEFAULT_STATUS_CATEGORIES,
+  getStatusCategory,
+  getReleaseStatusCategory
 } from './tcResponseParser.js';
 
 // Export API service
 export { callService } from './tcApiService.js';
 
+// Export FMS file transfer service
+export { downloadFile, uploadFile, getMimeType, isTextMimeType } from './tcFmsService.js';
+
 // Export mock service
-export { mockCallService } from './tcMockService.js';
+export { mockCallService, mockDownloadFile, mockUploadFile } from './tcMockService.js';
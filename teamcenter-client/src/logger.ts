@@ -26,7 +26,11 @@ export const createDefaultLogger = (): Logger => ({
     
     // Mask sensitive data like passwords
     const sanitizedParams = JSON.parse(JSON.stringify(params || {}));
-    if (service === 'Core-2011-06-Session' && operation === 'login') {
+    if (service === 'Core-2011-06-Session' && operation === 'loginSSO') {
+      if (sanitizedParams.token) {
+        sanitizedParams.token = '***';
+      }
+    } else if (service === 'Core-2011-06-Session' && operation === 'login') {
       if (sanitizedParams.credentials?.password) {
         sanitizedParams.credentials.password = '***';
       } else if (sanitizedParams.password) {
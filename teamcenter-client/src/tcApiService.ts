@@ -1,26 +1,93 @@
-import { TCSOAClientConfig } from './types.js';
+import { TCSOAClientConfig, SessionStore, PropertyPolicy, TCErrorStack } from './types.js';
 import { createJSONRequest, getSessionCookie, storeSessionCookie } from './tcUtils.js';
-import { parseJSONResponse } from './tcResponseParser.js';
+import { parseJSONResponse, getErrorStacks } from './tcResponseParser.js';
 import { AppError, ErrorType, handleApiError, logError } from './tcErrors.js';
 import { Logger, createDefaultLogger } from './logger.js';
+import { resolveRetryPolicy, isIdempotentOperation, isRetryableError, isTransientError, getRetryDelay } from './tcRetry.js';
 
 /**
- * Real API communication implementation for Teamcenter services
+ * Real API communication implementation for Teamcenter services.
+ * Transient failures of idempotent operations are retried with exponential backoff, and requests
+ * fail fast while the circuit breaker of the configuration is open.
  * @param config The SOA client configuration
+ * @param sessionStore The store holding the session cookie of the client
  * @param sessionId The current session ID or null if not logged in
  * @param service The service name
  * @param operation The operation name
  * @param params The operation parameters
  * @param logger Optional logger instance
+ * @param policy Optional object property policy of the request
  * @returns The response data
  */
 export const callService = async (
   config: TCSOAClientConfig,
+  sessionStore: SessionStore,
   sessionId: string | null,
   service: string,
   operation: string,
   params: unknown,
-  logger: Logger = createDefaultLogger()
+  logger: Logger = createDefaultLogger(),
+  policy?: PropertyPolicy
+): Promise<unknown> => {
+  const retryPolicy = resolveRetryPolicy(config.retryPolicy);
+  const maxAttempts = isIdempotentOperation(service, operation, retryPolicy) ? Math.max(retryPolicy.maxAttempts, 1) : 1;
+  const circuitBreaker = config.circuitBreaker;
+
+  for (let attempt = 1; ; attempt++) {
+    if (circuitBreaker && !circuitBreaker.canRequest()) {
+      const status = circuitBreaker.getStatus();
+      throw new AppError(
+        `Teamcenter is unavailable after ${status.consecutiveFailures} consecutive failures (last: ${status.lastFailure}), retry after ${status.retryAt}`,
+        ErrorType.NETWORK,
+        null,
+        { service, operation, circuitState: status.state }
+      );
+    }
+
+    try {
+      const result = await callServiceOnce(config, sessionStore, sessionId, service, operation, params, logger, policy);
+      circuitBreaker?.recordSuccess();
+      return result;
+    } catch (error) {
+      // Only failures that show that the server is unavailable count for the circuit breaker
+      if (isTransientError(error)) {
+        circuitBreaker?.recordFailure(error as AppError);
+      } else {
+        circuitBreaker?.recordSuccess();
+      }
+
+      if (attempt >= maxAttempts || !isRetryableError(error, retryPolicy)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, retryPolicy);
+      logger.warn(`${service}.${operation} failed (${(error as AppError).message}), retrying in ${delay}ms (attempt ${attempt + 1}/${maxAttempts})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+};
+
+/**
+ * Make a single request to a Teamcenter service
+ * @param config The SOA client configuration
+ * @param sessionStore The store holding the session cookie of the client
+ * @param sessionId The current session ID or null if not logged in
+ * @param service The service name
+ * @param operation The operation name
+ * @param params The operation parameters
+ * @param logger Logger instance
+ * @param policy Optional object property policy of the request
+ * @returns The response data
+ */
+const callServiceOnce = async (
+  config: TCSOAClientConfig,
+  sessionStore: SessionStore,
+  sessionId: string | null,
+  service: string,
+  operation: string,
+  params: unknown,
+  logger: Logger,
+  policy?: PropertyPolicy
 ): Promise<unknown> => {
   // Form the REST endpoint URL
   const endpoint = `${config.endpoint}/${service}/${operation}`;
@@ -31,13 +98,13 @@ export const callService = async (
   try {
     logger.info(`[${requestId}] Making Teamcenter API call to: ${endpoint}`);
     
-    if (service === 'Core-2011-06-Session' && operation === 'login') {
+    if (service === 'Core-2011-06-Session' && (operation === 'login' || operation === 'loginSSO')) {
       const credentials = params as { username: string; password: string };
       logger.info(`[${requestId}] Login request received`, { username: credentials.username });
     }
     
     // Create JSON request body with the proper envelope structure
-    const jsonRequestBody = createJSONRequest(service, operation, params, logger);
+    const jsonRequestBody = createJSONRequest(service, operation, params, logger, policy);
     
     // Set up the headers
     const headers: HeadersInit = {
@@ -53,7 +120,7 @@ export const callService = async (
     }
     
     // Explicitly add session cookie to the request if it exists
-    const sessionCookie = getSessionCookie(logger);
+    const sessionCookie = getSessionCookie(sessionStore, logger);
     if (sessionCookie) {
       logger.debug(`Adding ${sessionCookie.name} cookie to request headers`);
       headers['Cookie'] = `${sessionCookie.name}=${sessionCookie.value}`;
@@ -86,34 +153,46 @@ export const callService = async (
         logger.error(`API error: ${response.status} ${response.statusText}`);
         logger.error('Error details:', errorText);
         
+        // The body of a failed request may hold the Teamcenter errors as a ServiceData block
+        let errorStacks: TCErrorStack[] = [];
+        try {
+          errorStacks = getErrorStacks(JSON.parse(errorText));
+        } catch (parseError) {
+          logger.debug('Error body is not JSON:', parseError);
+        }
+
         // Create a more specific error based on the status code
         if (response.status === 401 || response.status === 403) {
           throw new AppError(
             `Authentication error: ${response.statusText}`,
             ErrorType.AUTH_SESSION,
             new Error(errorText),
-            { status: response.status }
+            { status: response.status },
+            errorStacks
           );
         } else if (response.status === 404) {
           throw new AppError(
             `Service not found: ${service}.${operation}`,
             ErrorType.API_RESPONSE,
             new Error(errorText),
-            { status: response.status }
+            { status: response.status },
+            errorStacks
           );
         } else if (response.status >= 500) {
           throw new AppError(
             `Server error: ${response.statusText}`,
             ErrorType.API_RESPONSE,
             new Error(errorText),
-            { status: response.status }
+            { status: response.status },
+            errorStacks
           );
         } else {
           throw new AppError(
             `Teamcenter API error: ${response.status} ${response.statusText}`,
             ErrorType.API_RESPONSE,
             new Error(errorText),
-            { status: response.status }
+            { status: response.status },
+            errorStacks
           );
         }
       }
@@ -177,11 +256,11 @@ export const callService = async (
         if (cookieName.trim() === 'JSESSIONID') {
           logger.debug(`Found JSESSIONID cookie in response: ${cookieValue}`);
           // Store the session cookie for future requests
-          storeSessionCookie('JSESSIONID', cookieValue, logger);
+          storeSessionCookie(sessionStore, 'JSESSIONID', cookieValue, logger);
         } else if (cookieName.trim() === 'ASP.NET_SessionId') {
           logger.debug(`Found ASP.NET_SessionId cookie in response: ${cookieValue}`);
           // Store the session cookie for future requests
-          storeSessionCookie('ASP.NET_SessionId', cookieValue, logger);
+          storeSessionCookie(sessionStore, 'ASP.NET_SessionId', cookieValue, logger);
         }
       }
     }
@@ -0,0 +1,57 @@
+import { TCAuthenticationConfig, TCCredentialProvider, TCResponse, TCSession, TCSSOTokenProvider, SessionCookie } from './types.js';
+import { SOAClient } from './tcSOAClient.js';
+import { Logger } from './logger.js';
+import { LoginCommand } from './commands/auth/LoginCommand.js';
+import { LoginSSOCommand } from './commands/auth/LoginSSOCommand.js';
+import { SessionCookieLoginCommand } from './commands/auth/SessionCookieLoginCommand.js';
+
+// Establishes a Teamcenter session on an SOA client.
+// Used for the initial login of a service and to re-authenticate when the session is rejected.
+export type TCAuthenticator = (logger: Logger, soaClient: SOAClient | null) => Promise<TCResponse<TCSession>>;
+
+/**
+ * Create an authenticator that logs in with a username and password
+ * @param credentialProvider Supplies the credentials, read again on every login
+ * @returns The password authenticator
+ */
+export const createPasswordAuthenticator = (credentialProvider: TCCredentialProvider): TCAuthenticator =>
+  async (logger, soaClient) => {
+    const credentials = await credentialProvider();
+    return await new LoginCommand(logger, soaClient, false, credentials).execute();
+  };
+
+/**
+ * Create an authenticator that logs in with a Teamcenter Security Services token
+ * @param appId The Security Services application ID of the Teamcenter web tier
+ * @param tokenProvider Exchanges the identity of the caller for a token of the application, called on every login
+ * @returns The SSO authenticator
+ */
+export const createSSOAuthenticator = (appId: string, tokenProvider: TCSSOTokenProvider): TCAuthenticator =>
+  async (logger, soaClient) => {
+    const ssoToken = await tokenProvider(appId);
+    return await new LoginSSOCommand(logger, soaClient, false, ssoToken).execute();
+  };
+
+/**
+ * Create an authenticator that reuses a session cookie issued outside of the client
+ * @param cookie The pre-issued session cookie
+ * @returns The session cookie authenticator
+ */
+export const createSessionCookieAuthenticator = (cookie: SessionCookie): TCAuthenticator =>
+  async (logger, soaClient) => await new SessionCookieLoginCommand(logger, soaClient, false, cookie).execute();
+
+/**
+ * Create the authenticator selected by the configuration
+ * @param authentication The authentication configuration
+ * @returns The selected authenticator
+ */
+export const createAuthenticator = (authentication: TCAuthenticationConfig): TCAuthenticator => {
+  switch (authentication.method) {
+    case 'password':
+      return createPasswordAuthenticator(authentication.credentialProvider);
+    case 'sso':
+      return createSSOAuthenticator(authentication.appId, authentication.tokenProvider);
+    case 'sessionCookie':
+      return createSessionCookieAuthenticator(authentication.cookie);
+  }
+};
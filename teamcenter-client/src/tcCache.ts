@@ -0,0 +1,168 @@
+import { PropertyCache, TCPropertyCacheConfig } from './types.js';
+import { Logger, createDefaultLogger } from './logger.js';
+
+export const DEFAULT_PROPERTY_CACHE_CONFIG: Required<TCPropertyCacheConfig> = {
+  maxEntries: 1000,
+  ttl: 60000,
+  typeTtl: {}
+};
+
+// Object type of cached type descriptions, whose time to live is usually set much longer
+export const TYPE_DESCRIPTION_TYPE = 'ImanType';
+
+/**
+ * Create an in-memory LRU cache of model object properties
+ * @param config The maximum number of entries and the time to live, by object type
+ * @param logger Optional logger instance
+ * @returns A new, empty property cache
+ */
+export const createPropertyCache = (
+  config: TCPropertyCacheConfig = {},
+  logger: Logger = createDefaultLogger()
+): PropertyCache => {
+  const maxEntries = config.maxEntries || DEFAULT_PROPERTY_CACHE_CONFIG.maxEntries;
+  const ttl = config.ttl ?? DEFAULT_PROPERTY_CACHE_CONFIG.ttl;
+  const typeTtl = config.typeTtl || DEFAULT_PROPERTY_CACHE_CONFIG.typeTtl;
+
+  // A Map iterates in insertion order, so re-inserting an entry on access keeps the least recently used one first
+  const entries = new Map<string, { uid: string; value: unknown; expiresAt: number }>();
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  const keyOf = (uid: string, property: string) => `${uid}\u0000${property}`;
+
+  return {
+    get: (uid, property) => {
+      const key = keyOf(uid, property);
+      const entry = entries.get(key);
+
+      if (!entry || entry.expiresAt <= Date.now()) {
+        if (entry) {
+          entries.delete(key);
+        }
+        misses++;
+        return undefined;
+      }
+
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      return entry.value;
+    },
+
+    set: (uid, property, type, value) => {
+      const entryTtl = typeTtl[type] ?? ttl;
+      if (entryTtl <= 0) {
+        return;
+      }
+
+      const key = keyOf(uid, property);
+      entries.delete(key);
+      entries.set(key, { uid, value, expiresAt: Date.now() + entryTtl });
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+        evictions++;
+      }
+    },
+
+    invalidate: (uid) => {
+      let removed = 0;
+      for (const [key, entry] of entries) {
+        if (entry.uid === uid) {
+          entries.delete(key);
+          removed++;
+        }
+      }
+
+      if (removed > 0) {
+        logger.debug(`Property cache invalidated ${removed} properties of ${uid}`);
+      }
+    },
+
+    clear: () => {
+      entries.clear();
+    },
+
+    getStatus: () => ({
+      entries: entries.size,
+      maxEntries,
+      hits,
+      misses,
+      evictions
+    })
+  };
+};
+
+/**
+ * Store the properties of all model objects of a response in the cache
+ * @param cache The property cache
+ * @param response The ServiceData object, or a response containing a ServiceData object
+ */
+export const cacheModelObjects = (cache: PropertyCache, response: any): void => {
+  const modelObjects = response?.modelObjects || response?.ServiceData?.modelObjects || {};
+
+  Object.values(modelObjects as Record<string, any>).forEach(modelObject => {
+    if (!modelObject?.uid || !modelObject.props) return;
+
+    Object.entries(modelObject.props as Record<string, unknown>).forEach(([property, value]) => {
+      cache.set(modelObject.uid, property, modelObject.type || '', { type: modelObject.type, className: modelObject.className, value });
+    });
+  });
+};
+
+/**
+ * Build a ServiceData response for an object from the cache
+ * @param cache The property cache
+ * @param uid The UID of the object
+ * @param properties The properties to read
+ * @returns A ServiceData object holding the object with the properties, or null unless all of them are cached
+ */
+export const getCachedModelObject = (cache: PropertyCache, uid: string, properties: string[]): Record<string, unknown> | null => {
+  const props: Record<string, unknown> = {};
+  let type: string | undefined;
+  let className: string | undefined;
+
+  for (const property of properties) {
+    const cached = cache.get(uid, property) as { type?: string; className?: string; value: unknown } | undefined;
+    if (!cached) {
+      return null;
+    }
+
+    props[property] = cached.value;
+    type = cached.type;
+    className = cached.className;
+  }
+
+  return {
+    plain: [uid],
+    modelObjects: {
+      [uid]: { uid, type, className, props }
+    }
+  };
+};
+
+/**
+ * Drop the objects changed by a write from the cache
+ * @param cache The property cache
+ * @param response The ServiceData object, or a response containing a ServiceData object
+ * @param uids Objects that were written, in addition to the ones reported by the response
+ */
+export const invalidateServiceData = (cache: PropertyCache, response: any, uids: string[] = []): void => {
+  const serviceData = response?.ServiceData || response || {};
+  const changed = [
+    ...uids,
+    ...(serviceData.created || []),
+    ...(serviceData.updated || []),
+    ...(serviceData.deleted || [])
+  ];
+
+  // Teamcenter lists the changed objects by UID, some services by object reference
+  changed.forEach(object => {
+    const uid = typeof object === 'string' ? object : object?.uid;
+    if (uid) {
+      cache.invalidate(uid);
+    }
+  });
+};
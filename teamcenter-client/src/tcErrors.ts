@@ -1,4 +1,5 @@
 import { Logger, createDefaultLogger } from './logger.js';
+import type { TCError, TCErrorStack } from './types.js';
 
 // Centralized error handling for Teamcenter services
 export enum ErrorType {
@@ -8,6 +9,9 @@ export enum ErrorType {
   API_TIMEOUT = 'API_TIMEOUT',
   AUTH_SESSION = 'AUTH_SESSION',
   NETWORK = 'NETWORK',
+  ACCESS_DENIED = 'ACCESS_DENIED',
+  OBJECT_LOCKED = 'OBJECT_LOCKED',
+  NOT_FOUND = 'NOT_FOUND',
   UNKNOWN = 'UNKNOWN'
 }
 
@@ -16,13 +20,122 @@ export class AppError extends Error {
     message: string,
     public type: ErrorType,
     public originalError: Error | null,
-    public context?: Record<string, any>
+    public context?: Record<string, any>,
+    public errorStacks: TCErrorStack[] = []
   ) {
     super(message);
     this.name = 'AppError';
   }
 }
 
+// Error types of common Teamcenter error codes; other codes are reported as API_RESPONSE
+export const TC_ERROR_CODE_TYPES: Record<number, ErrorType> = {
+  515001: ErrorType.NOT_FOUND, // The object does not exist
+  515024: ErrorType.ACCESS_DENIED, // No read or write access to the object
+  515143: ErrorType.AUTH_SESSION, // Invalid user ID or password
+  32009: ErrorType.OBJECT_LOCKED, // The object is checked out by another user
+  515062: ErrorType.OBJECT_LOCKED, // The object is locked by another session
+  48020: ErrorType.DATA_VALIDATION, // The item ID already exists
+  38015: ErrorType.DATA_VALIDATION // A property value is invalid
+};
+
+/**
+ * Get the error type of a Teamcenter error code
+ * @param code The Teamcenter error code
+ * @returns The mapped error type, or API_RESPONSE for unknown codes
+ */
+export const getErrorTypeForCode = (code: number): ErrorType =>
+  TC_ERROR_CODE_TYPES[code] || ErrorType.API_RESPONSE;
+
+/**
+ * Extract the error stacks of the partial errors of a Teamcenter ServiceData block
+ * @param response The ServiceData object, or a response containing a ServiceData object
+ * @returns The UID, client ID and all errors of every failed object
+ */
+export const getErrorStacks = (response: any): TCErrorStack[] => {
+  const partialErrors = response?.partialErrors || response?.ServiceData?.partialErrors || [];
+
+  return (partialErrors as any[]).map(partialError => ({
+    uid: partialError?.uid || null,
+    clientId: partialError?.clientId || null,
+    errorValues: (Array.isArray(partialError?.errorValues) ? partialError.errorValues : []).map((errorValue: any) => ({
+      code: Number(errorValue?.code) || 0,
+      level: Number(errorValue?.level) || 0,
+      message: errorValue?.message || 'Unknown error'
+    }))
+  }));
+};
+
+/**
+ * Create an error from the error stacks Teamcenter reported
+ * @param errorStacks The error stacks, e.g. from getErrorStacks()
+ * @param fallbackMessage Message used when the stacks hold no message
+ * @param context Additional context
+ * @returns An AppError typed after the first known error code, carrying the error stacks
+ */
+export const createTeamcenterError = (
+  errorStacks: TCErrorStack[],
+  fallbackMessage: string,
+  context?: Record<string, any>
+): AppError => {
+  const errorValues = errorStacks.flatMap(errorStack => errorStack.errorValues);
+  const knownValue = errorValues.find(errorValue => TC_ERROR_CODE_TYPES[errorValue.code]);
+
+  // The first value of a stack is the one Teamcenter shows to the user
+  const messages = [...new Set(errorStacks.map(errorStack => errorStack.errorValues[0]?.message).filter(Boolean))];
+
+  return new AppError(
+    messages.join('; ') || fallbackMessage,
+    knownValue ? getErrorTypeForCode(knownValue.code) : ErrorType.API_RESPONSE,
+    null,
+    context,
+    errorStacks
+  );
+};
+
+/**
+ * Convert an error caught by a command into the error of its response
+ * @param error The caught error
+ * @param code The error code of the command
+ * @param fallbackMessage Message used when the error is not an Error
+ * @returns The response error, with the type and error stacks of errors reported by Teamcenter
+ */
+export const toTCError = (error: unknown, code: string, fallbackMessage: string): TCError => {
+  const cause = getResponseError(error, fallbackMessage) || error;
+  const tcError: TCError = {
+    code,
+    level: 'ERROR',
+    message: cause instanceof Error ? cause.message : fallbackMessage
+  };
+
+  if (cause instanceof AppError && cause.errorStacks.length > 0) {
+    tcError.type = cause.type;
+    tcError.errorStacks = cause.errorStacks;
+  }
+
+  return tcError;
+};
+
+/**
+ * Get the error reported in the body of the failed response an AppError wraps, e.g. the error of an HTTP client
+ * @param error The caught error
+ * @param fallbackMessage Message used when the error stacks hold no message
+ * @returns An error with the error stacks or the message of the response body, or null without one
+ */
+const getResponseError = (error: unknown, fallbackMessage: string): Error | null => {
+  if (!(error instanceof AppError) || error.errorStacks.length > 0) {
+    return null;
+  }
+
+  const responseData = (error.originalError as (Error & { response?: { data?: any } }) | null)?.response?.data;
+  const errorStacks = getErrorStacks(responseData);
+  if (errorStacks.length > 0) {
+    return createTeamcenterError(errorStacks, fallbackMessage);
+  }
+
+  return responseData?.message ? new Error(responseData.message) : null;
+};
+
 export const handleApiError = (error: unknown, context: string, _logger?: Logger): AppError => {
   if (error instanceof AppError) {
     return error;
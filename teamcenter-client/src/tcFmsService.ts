@@ -0,0 +1,189 @@
+import { TCSOAClientConfig } from './types.js';
+import { AppError, ErrorType } from './tcErrors.js';
+import { Logger, createDefaultLogger } from './logger.js';
+
+// Mime types for the file extensions commonly found in Teamcenter datasets
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  csv: 'text/csv',
+  xml: 'application/xml',
+  json: 'application/json',
+  html: 'text/html',
+  htm: 'text/html',
+  md: 'text/markdown',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  zip: 'application/zip'
+};
+
+/**
+ * Determine the mime type of a file from its extension
+ * @param fileName The file name
+ * @returns The mime type, or application/octet-stream if the extension is unknown
+ */
+export const getMimeType = (fileName: string): string => {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  return MIME_TYPES[extension] || 'application/octet-stream';
+};
+
+/**
+ * Check whether a mime type describes textual content
+ * @param mimeType The mime type
+ * @returns True if the content can be returned as text
+ */
+export const isTextMimeType = (mimeType: string): boolean => {
+  return mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType === 'application/xml';
+};
+
+/**
+ * Download a file from the File Management System using a read ticket
+ * @param config The SOA client configuration
+ * @param ticket The FMS read ticket
+ * @param fileName The original name of the file
+ * @param logger Optional logger instance
+ * @returns The file content
+ */
+export const downloadFile = async (
+  config: TCSOAClientConfig,
+  ticket: string,
+  fileName: string,
+  logger: Logger = createDefaultLogger()
+): Promise<Buffer> => {
+  if (!config.fmsUrl) {
+    throw new AppError(
+      'FMS URL is not configured',
+      ErrorType.DATA_VALIDATION,
+      null,
+      { method: 'downloadFile' }
+    );
+  }
+
+  const url = `${config.fmsUrl}/fms/fmsdownload/${encodeURIComponent(fileName)}?ticket=${encodeURIComponent(ticket)}`;
+  logger.info(`Downloading ${fileName} from FMS`);
+
+  // Set up fetch options with timeout
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeout || 60000);
+
+  try {
+    const response = await fetch(url, { method: 'GET', signal: controller.signal });
+
+    if (!response.ok) {
+      throw new AppError(
+        `FMS download error: ${response.status} ${response.statusText}`,
+        ErrorType.API_RESPONSE,
+        new Error(await response.text()),
+        { status: response.status, fileName }
+      );
+    }
+
+    const content = Buffer.from(await response.arrayBuffer());
+    logger.debug(`Downloaded ${content.length} bytes for ${fileName}`);
+    return content;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new AppError(
+        `FMS download timeout after ${config.timeout || 60000}ms`,
+        ErrorType.API_TIMEOUT,
+        error,
+        { fileName }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('fetch failed')) {
+      throw new AppError(
+        `Network error connecting to FMS: ${error.message}`,
+        ErrorType.NETWORK,
+        error,
+        { fileName }
+      );
+    }
+
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Upload a file to the File Management System using a write ticket
+ * @param config The SOA client configuration
+ * @param ticket The FMS write ticket
+ * @param fileName The name of the file
+ * @param content The file content
+ * @param logger Optional logger instance
+ */
+export const uploadFile = async (
+  config: TCSOAClientConfig,
+  ticket: string,
+  fileName: string,
+  content: Buffer,
+  logger: Logger = createDefaultLogger()
+): Promise<void> => {
+  if (!config.fmsUrl) {
+    throw new AppError(
+      'FMS URL is not configured',
+      ErrorType.DATA_VALIDATION,
+      null,
+      { method: 'uploadFile' }
+    );
+  }
+
+  const url = `${config.fmsUrl}/fms/fmsupload/`;
+  logger.info(`Uploading ${fileName} (${content.length} bytes) to FMS`);
+
+  // FMS expects a multipart form with the ticket and the file content
+  const form = new FormData();
+  form.append('fmsTicket', ticket);
+  form.append('fmsFile', new Blob([content], { type: getMimeType(fileName) }), fileName);
+
+  // Set up fetch options with timeout
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeout || 60000);
+
+  try {
+    const response = await fetch(url, { method: 'POST', body: form, signal: controller.signal });
+
+    if (!response.ok) {
+      throw new AppError(
+        `FMS upload error: ${response.status} ${response.statusText}`,
+        ErrorType.API_RESPONSE,
+        new Error(await response.text()),
+        { status: response.status, fileName }
+      );
+    }
+
+    logger.debug(`Uploaded ${content.length} bytes for ${fileName}`);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new AppError(
+        `FMS upload timeout after ${config.timeout || 60000}ms`,
+        ErrorType.API_TIMEOUT,
+        error,
+        { fileName }
+      );
+    }
+
+    if (error instanceof Error && error.message.includes('fetch failed')) {
+      throw new AppError(
+        `Network error connecting to FMS: ${error.message}`,
+        ErrorType.NETWORK,
+        error,
+        { fileName }
+      );
+    }
+
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
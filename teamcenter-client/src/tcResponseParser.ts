@@ -1,5 +1,8 @@
-import { TCItem, TCSearchResponse, TCObject, TCSession } from './types.js';
-import { handleDataError } from './tcErrors.js';
+import { TCItem, TCModelObject, TCStatusCategory, TCSearchResponse, TCServiceData, TCObject, TCPartialError, TCPropertyInfo, TCSession, TCSessionState, TCSessionInfo, TCFavorites, TCFavoritesFolder } from './types.js';
+import { getErrorStacks, handleDataError } from './tcErrors.js';
+
+// The error stacks are extracted with the other error handling, and exported here next to the ServiceData decoding
+export { getErrorStacks };
 import { Logger, createDefaultLogger } from './logger.js';
 
 /**
@@ -52,7 +55,7 @@ export const parseJSONResponse = (
     }
     
     // Parse based on the operation
-    if (service === 'Core-2011-06-Session' && operation === 'login') {
+    if (service === 'Core-2011-06-Session' && (operation === 'login' || operation === 'loginSSO')) {
       logger.debug(`[${parserRequestId}] Parsing new login response format`);
       // Handle the new login response format
       // First, ensure the response is in the expected format
@@ -116,8 +119,9 @@ export const parseJSONResponse = (
       return searchResponse;
     }
     
-    // Default response handling for unimplemented operations
-    logger.warn(`[${parserRequestId}] Unimplemented JSON response parsing for service: ${service}.${operation}`);
+    // Other operations return a ServiceData block, alone or next to their output, or an output of their own,
+    // which the command decodes as it knows which objects it asked for
+    logger.debug(`[${parserRequestId}] Returning ${isServiceDataResponse(response) ? 'ServiceData' : 'raw'} response of ${service}.${operation} to the command`);
     return response;
   } catch (error) {
     logger.error(`[${parserRequestId}] Error parsing response for ${service}.${operation}:`, error);
@@ -125,38 +129,71 @@ export const parseJSONResponse = (
   }
 };
 
+// Categories of the release statuses that ship with Teamcenter, extended by the statusCategories of the site
+export const DEFAULT_STATUS_CATEGORIES: Record<string, TCStatusCategory> = {
+  'Released': 'Released',
+  'TCM Released': 'Released',
+  'Approved': 'Released',
+  'In Review': 'In Review',
+  'Pending': 'In Review',
+  'Obsolete': 'Obsolete'
+};
+
 /**
- * Helper function to determine item status
+ * Get the category of a release status name
+ * @param name The status type or display name
+ * @param statusCategories Categories of site-specific status names, which take precedence over the built-in ones
+ * @returns The category, or 'Unknown' for a status that is not mapped
+ */
+export const getStatusCategory = (
+  name: string,
+  statusCategories: Record<string, TCStatusCategory> = {}
+): TCStatusCategory => {
+  // Status names are matched regardless of case, as sites spell them inconsistently
+  const key = name.trim().toLowerCase();
+  const match = (categories: Record<string, TCStatusCategory>) =>
+    Object.entries(categories).find(([statusName]) => statusName.toLowerCase() === key)?.[1];
+
+  return match(statusCategories) || match(DEFAULT_STATUS_CATEGORIES) || 'Unknown';
+};
+
+/**
+ * Get the names of the release statuses of an item
  * @param props The properties object from a Teamcenter item
- * @returns The standardized status value
+ * @returns The status names, oldest first
  */
-const getItemStatus = (props: Record<string, any>): TCObject['status'] => {
-  const statusList = props.release_status_list as string | string[] | undefined;
-  
-  if (!statusList) return 'In Work';
-  
-  if (Array.isArray(statusList)) {
-    if (statusList.includes('Released')) return 'Released';
-    if (statusList.includes('In Review')) return 'In Review';
-    if (statusList.includes('Obsolete')) return 'Obsolete';
-  } else if (typeof statusList === 'string') {
-    if (statusList === 'Released') return 'Released';
-    if (statusList === 'In Review') return 'In Review';
-    if (statusList === 'Obsolete') return 'Obsolete';
-  }
-  
-  return 'In Work';
+const getReleaseStatusNames = (props: Record<string, any>): string[] => {
+  const statusList = props.release_status_list;
+  const values: unknown[] = Array.isArray(statusList)
+    ? statusList
+    : statusList?.uiValues || (typeof statusList === 'string' ? statusList.split(',') : []);
+
+  return values.map(value => String(value).trim()).filter(Boolean);
 };
 
+/**
+ * Get the normalized status of an object from its release statuses
+ * @param statusNames The names of the release statuses, oldest first
+ * @param statusCategories Categories of site-specific status names
+ * @returns 'In Work' without release status, and the category of the latest status otherwise
+ */
+export const getReleaseStatusCategory = (
+  statusNames: string[],
+  statusCategories: Record<string, TCStatusCategory> = {}
+): TCStatusCategory =>
+  statusNames.length === 0 ? 'In Work' : getStatusCategory(statusNames[statusNames.length - 1], statusCategories);
+
 /**
  * Convert a Teamcenter API object to a standardized TCObject
  * @param itemObj The Teamcenter item object to convert
  * @param logger Optional logger instance
+ * @param statusCategories Categories of site-specific release status names
  * @returns A standardized TCObject
  */
 export const convertToTCObject = (
   itemObj: TCItem,
-  logger: Logger = createDefaultLogger()
+  logger: Logger = createDefaultLogger(),
+  statusCategories: Record<string, TCStatusCategory> = {}
 ): TCObject => {
   const convertRequestId = `convert_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
   logger.debug(`[${convertRequestId}] Converting Teamcenter item to TCObject: ${itemObj.uid}`);
@@ -165,15 +202,18 @@ export const convertToTCObject = (
     // Extract the basic properties
     const props = itemObj.properties || {};
     
+    const releaseStatuses = getReleaseStatusNames(props);
+
     // Map common properties to our standardized object format
     const tcObject = {
       id: itemObj.uid || (props.item_id as string) || '',
       name: (props.object_name as string) || '',
       type: itemObj.type || 'Unknown',
-      revision: (props.item_revision_id as string) || 'A', // Ensure revision always has a default value ('A')
+      revision: (props.item_revision_id as string) || '', // Leave empty when unknown instead of reporting a revision that may not exist
       owner: (props.owning_user as string) || 'Unknown',
       modifiedDate: (props.last_mod_date as string) || new Date().toISOString(),
-      status: getItemStatus(props),
+      status: getReleaseStatusCategory(releaseStatuses, statusCategories),
+      releaseStatuses,
       description: (props.object_desc as string) || '',
       title: (props.object_string as string) || '',
     };
@@ -205,3 +245,236 @@ export const getPropertyValue = <T>(
   
   return prop as T;
 };
+
+/**
+ * Extract the properties of a model object from a Teamcenter ServiceData block
+ * @param response The ServiceData object, or a response containing a ServiceData object
+ * @param uid The UID of the model object to read
+ * @returns A map of property names to their first display value (or database value if no display value exists)
+ */
+export const getModelObjectProperties = (
+  response: any,
+  uid: string
+): Record<string, string> => {
+  const modelObjects = response?.modelObjects || response?.ServiceData?.modelObjects || {};
+  const modelObject = modelObjects[uid];
+
+  if (!modelObject?.props) return {};
+
+  return Object.entries(modelObject.props as Record<string, any>).reduce((acc, [name, prop]) => {
+    const value = prop?.uiValues?.[0] ?? prop?.dbValues?.[0];
+    acc[name] = value !== undefined && value !== null ? String(value) : '';
+    return acc;
+  }, {} as Record<string, string>);
+};
+
+/**
+ * Extract all database values of a model object property from a Teamcenter ServiceData block
+ * @param response The ServiceData object, or a response containing a ServiceData object
+ * @param uid The UID of the model object to read
+ * @param propName The name of the property to read
+ * @returns The database values of the property (typically UIDs for reference properties)
+ */
+export const getModelObjectPropertyValues = (
+  response: any,
+  uid: string,
+  propName: string
+): string[] => {
+  const modelObjects = response?.modelObjects || response?.ServiceData?.modelObjects || {};
+  const values = modelObjects[uid]?.props?.[propName]?.dbValues;
+
+  return Array.isArray(values) ? values.map(value => String(value)) : [];
+};
+
+/**
+ * Extract the database and display values of all properties returned for a model object.
+ * Which properties are returned, and whether with both kinds of values, is controlled by the property policy of the request.
+ * @param response The ServiceData object, or a response containing a ServiceData object
+ * @param uid The UID of the model object to read
+ * @returns The properties by name, with the first values as value and displayValue
+ */
+export const getModelObjectPropertyInfos = (
+  response: any,
+  uid: string
+): Record<string, TCPropertyInfo> => {
+  const modelObjects = response?.modelObjects || response?.ServiceData?.modelObjects || {};
+  return decodeProperties(modelObjects[uid]?.props);
+};
+
+// Normalize the props of a model object into typed property values
+const decodeProperties = (props: unknown): Record<string, TCPropertyInfo> =>
+  Object.entries((props || {}) as Record<string, any>).reduce((acc, [name, prop]) => {
+    const dbValues: string[] = Array.isArray(prop?.dbValues) ? prop.dbValues.map((value: unknown) => String(value)) : [];
+    const uiValues: string[] = Array.isArray(prop?.uiValues) ? prop.uiValues.map((value: unknown) => String(value)) : [];
+
+    acc[name] = {
+      name,
+      value: dbValues[0] ?? null,
+      displayValue: uiValues[0] ?? dbValues[0] ?? '',
+      dbValues,
+      uiValues,
+      ...(prop?.isModifiable !== undefined ? { isModifiable: Boolean(prop.isModifiable) } : {})
+    };
+    return acc;
+  }, {} as Record<string, TCPropertyInfo>);
+
+// Keys of a ServiceData block, of which a response has at least one when it returns one
+const SERVICE_DATA_KEYS = ['modelObjects', 'plain', 'created', 'updated', 'deleted', 'partialErrors'];
+
+/**
+ * Check whether a response is or contains a ServiceData block
+ * @param response The response object
+ * @returns True if the response holds model objects, changed objects or partial errors
+ */
+export const isServiceDataResponse = (response: any): boolean =>
+  Boolean(response?.ServiceData) || SERVICE_DATA_KEYS.some(key => response?.[key] !== undefined);
+
+/**
+ * Decode the ServiceData block of a Teamcenter response
+ * @param response The ServiceData object, or a response containing a ServiceData object
+ * @returns The model objects by UID with typed properties, the plain, created, updated and deleted objects, and the partial errors
+ */
+export const parseServiceData = (response: any): TCServiceData => {
+  const serviceData = response?.ServiceData || response || {};
+
+  const modelObjects = Object.values((serviceData.modelObjects || {}) as Record<string, any>).reduce((acc, modelObject) => {
+    if (modelObject?.uid) {
+      acc[modelObject.uid] = {
+        uid: modelObject.uid,
+        type: modelObject.type || '',
+        ...(modelObject.className ? { className: modelObject.className } : {}),
+        properties: decodeProperties(modelObject.props)
+      };
+    }
+    return acc;
+  }, {} as Record<string, TCModelObject>);
+
+  return {
+    plain: resolveModelObjects(serviceData.plain, modelObjects),
+    created: resolveModelObjects(serviceData.created, modelObjects),
+    updated: resolveModelObjects(serviceData.updated, modelObjects),
+    deleted: resolveModelObjects(serviceData.deleted, modelObjects).map(object => object.uid),
+    modelObjects,
+    partialErrors: getPartialErrors(serviceData)
+  };
+};
+
+/**
+ * Resolve object references of a response to the model objects of its ServiceData block
+ * Teamcenter lists the objects by UID, some services by object reference
+ * @param objects The UIDs or object references
+ * @param modelObjects The decoded model objects by UID
+ * @returns The model objects, without properties for objects that were not returned
+ */
+export const resolveModelObjects = (objects: unknown, modelObjects: Record<string, TCModelObject>): TCModelObject[] =>
+  (Array.isArray(objects) ? objects : [])
+    .map(object => typeof object === 'string' ? { uid: object } : object)
+    .filter(object => Boolean(object?.uid))
+    .map(object => modelObjects[object.uid] || { uid: object.uid, type: object.type || '', properties: {} });
+
+/**
+ * Read the first display value of a property of a decoded model object
+ * @param modelObject The decoded model object
+ * @param propName The name of the property to read
+ * @returns The first display value (or database value if no display value exists), empty when the property was not returned
+ */
+export const getDisplayValue = (modelObject: TCModelObject, propName: string): string =>
+  modelObject.properties[propName]?.displayValue || '';
+
+/**
+ * Extract the current group and role from a Core-2007-01-Session.getTCSessionInfo response
+ * @param sessionInfo The session info response
+ * @returns The UIDs and names of the current group and role (empty when not returned)
+ */
+export const parseSessionState = (sessionInfo: any): TCSessionState => {
+  const groupId = sessionInfo?.group?.uid || '';
+  const roleId = sessionInfo?.role?.uid || '';
+  const groupProperties = getModelObjectProperties(sessionInfo, groupId);
+  const roleProperties = getModelObjectProperties(sessionInfo, roleId);
+
+  return {
+    groupId,
+    groupName: groupProperties.object_string || groupProperties.name || '',
+    roleId,
+    roleName: roleProperties.object_string || roleProperties.role_name || ''
+  };
+};
+
+/**
+ * Decode a Core-2007-01-Session.getTCSessionInfo response
+ * @param sessionInfo The session info response
+ * @returns The server version, the objects of the session with their properties, and the current group and role
+ */
+export const parseSessionInfo = (sessionInfo: any): TCSessionInfo => {
+  const { modelObjects } = parseServiceData(sessionInfo);
+  const resolve = (object: unknown): TCModelObject | null => resolveModelObjects([object], modelObjects)[0] || null;
+
+  return {
+    ...parseSessionState(sessionInfo),
+    serverVersion: sessionInfo?.serverVersion || '',
+    user: resolve(sessionInfo?.user),
+    group: resolve(sessionInfo?.group),
+    role: resolve(sessionInfo?.role),
+    site: resolve(sessionInfo?.site),
+    project: resolve(sessionInfo?.project),
+    volume: resolve(sessionInfo?.tcVolume),
+    workContext: resolve(sessionInfo?.workContext),
+    bypass: Boolean(sessionInfo?.bypass),
+    journaling: Boolean(sessionInfo?.journaling),
+    extraInfo: Object.fromEntries(getMapEntries<string, unknown>(sessionInfo?.extraInfo).map(([key, value]) => [key, String(value)]))
+  };
+};
+
+/**
+ * Decode a Core-2008-03-Session.getFavorites response
+ * @param response The favorites response
+ * @returns The favorite objects with their properties, and the favorites folders
+ */
+export const parseFavorites = (response: any): TCFavorites => {
+  const { modelObjects } = parseServiceData(response);
+  const favorites = response?.favorites ?? response;
+
+  // Older servers return a flat list of objects
+  if (Array.isArray(favorites)) {
+    return { objects: resolveModelObjects(favorites, modelObjects), folders: [] };
+  }
+
+  const toFolder = (container: any): TCFavoritesFolder => ({
+    name: container?.name || container?.containerName || '',
+    objects: resolveModelObjects(container?.objects, modelObjects),
+    folders: (Array.isArray(container?.containers) ? container.containers : []).map(toFolder)
+  });
+
+  const { objects, folders } = toFolder(favorites);
+  return { objects, folders };
+};
+
+/**
+ * Read the entries of a map returned by Teamcenter
+ * Teamcenter serializes maps as two parallel arrays ([keys, values]), but plain objects are accepted too
+ * @param map The serialized map
+ * @returns The map entries as [key, value] pairs
+ */
+export const getMapEntries = <K = any, V = any>(map: unknown): Array<[K, V]> => {
+  if (Array.isArray(map) && map.length === 2 && Array.isArray(map[0]) && Array.isArray(map[1])) {
+    return (map[0] as K[]).map((key, index) => [key, (map[1] as V[])[index]]);
+  }
+
+  if (map && typeof map === 'object') {
+    return Object.entries(map) as unknown as Array<[K, V]>;
+  }
+
+  return [];
+};
+
+/**
+ * Extract the partial errors of a Teamcenter ServiceData block
+ * @param response The ServiceData object, or a response containing a ServiceData object
+ * @returns The first error of every failed object
+ */
+export const getPartialErrors = (response: any): TCPartialError[] =>
+  getErrorStacks(response).map(errorStack => ({
+    uid: errorStack.uid,
+    code: errorStack.errorValues[0]?.code || 0,
+    message: errorStack.errorValues[0]?.message || 'Unknown error'
+  }));
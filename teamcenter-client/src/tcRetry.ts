@@ -0,0 +1,182 @@
+import { CircuitBreaker, CircuitState, TCRetryPolicy } from './types.js';
+import { AppError, ErrorType } from './tcErrors.js';
+import { Logger, createDefaultLogger } from './logger.js';
+
+export const DEFAULT_RETRY_POLICY: Required<TCRetryPolicy> = {
+  maxAttempts: 3,
+  initialDelay: 500,
+  maxDelay: 10000,
+  backoffFactor: 2,
+  jitter: 0.5,
+  retryableErrors: [ErrorType.NETWORK, ErrorType.API_TIMEOUT, ErrorType.API_RESPONSE],
+  idempotentOperations: []
+};
+
+// Operations of the client that only read data, and can therefore be repeated safely. They are listed one by one,
+// as some operations with read-like names change data, e.g. getDatasetWriteTickets allocates write tickets.
+export const READ_OPERATIONS = [
+  'Cad-2007-01-StructureManagement.expandPSOneLevel',
+  'Cad-2007-01-StructureManagement.getRevisionRules',
+  'Classification-2007-01-Classification.findClassificationObjects',
+  'Classification-2007-01-Classification.getAttributesForClasses',
+  'Classification-2007-01-Classification.getChildren',
+  'Classification-2007-01-Classification.getClassificationObjects',
+  'Classification-2007-01-Classification.search',
+  'Core-2006-03-DataManagement.getProperties',
+  'Core-2006-03-FileManagement.getFileReadTickets',
+  'Core-2006-03-Session.getGroupMembership',
+  'Core-2007-01-DataManagement.getTypeDescriptions',
+  'Core-2007-01-DataManagement.whereUsed',
+  'Core-2007-01-Session.getTCSessionInfo',
+  'Core-2007-09-DataManagement.expandGRMRelationsForPrimary',
+  'Core-2007-09-DataManagement.expandGRMRelationsForSecondary',
+  'Core-2008-03-Session.getFavorites',
+  'Query-2006-03-SavedQuery.describeSavedQueries',
+  'Query-2006-03-SavedQuery.getSavedQueries',
+  'Query-2008-06-SavedQuery.executeSavedQueries',
+  'Query-2010-04-SavedQuery.performSavedSearch',
+  'Query-2012-10-Finder.performSearch',
+  'Workflow-2013-05-Workflow.getWorkflowTemplates'
+];
+
+/**
+ * Complete a retry policy with the defaults
+ * @param retryPolicy The configured retry policy
+ * @returns The retry policy with all settings
+ */
+export const resolveRetryPolicy = (retryPolicy: TCRetryPolicy = {}): Required<TCRetryPolicy> => ({
+  ...DEFAULT_RETRY_POLICY,
+  ...Object.fromEntries(Object.entries(retryPolicy).filter(([, value]) => value !== undefined))
+});
+
+/**
+ * Check whether an operation can be repeated without side effects
+ * @param service The service name
+ * @param operation The operation name
+ * @param retryPolicy The retry policy with additional idempotent operations
+ * @returns True for the listed read operations and the configured idempotent operations
+ */
+export const isIdempotentOperation = (service: string, operation: string, retryPolicy: Required<TCRetryPolicy>): boolean => {
+  const qualifiedName = `${service}.${operation}`;
+  return READ_OPERATIONS.includes(qualifiedName)
+    || retryPolicy.idempotentOperations.includes(operation)
+    || retryPolicy.idempotentOperations.includes(qualifiedName);
+};
+
+/**
+ * Check whether an error means that the server is temporarily unavailable
+ * @param error The error of a request
+ * @returns True for network errors, timeouts and 5xx responses
+ */
+export const isTransientError = (error: unknown): boolean => {
+  if (!(error instanceof AppError)) {
+    return false;
+  }
+
+  return error.type === ErrorType.NETWORK
+    || error.type === ErrorType.API_TIMEOUT
+    || (error.type === ErrorType.API_RESPONSE && Number(error.context?.status) >= 500);
+};
+
+/**
+ * Check whether a failed request may be retried under a retry policy
+ * @param error The error of the request
+ * @param retryPolicy The retry policy
+ * @returns True if the error is transient and its type is retryable
+ */
+export const isRetryableError = (error: unknown, retryPolicy: Required<TCRetryPolicy>): boolean =>
+  isTransientError(error) && retryPolicy.retryableErrors.includes((error as AppError).type);
+
+/**
+ * Compute the delay before a retry (exponential backoff with jitter)
+ * @param attempt The number of the failed attempt, starting at 1
+ * @param retryPolicy The retry policy
+ * @returns The delay in milliseconds
+ */
+export const getRetryDelay = (attempt: number, retryPolicy: Required<TCRetryPolicy>): number => {
+  const delay = Math.min(retryPolicy.initialDelay * Math.pow(retryPolicy.backoffFactor, attempt - 1), retryPolicy.maxDelay);
+  // Spread the retries of concurrent requests so that a recovering server is not hit all at once
+  const jitter = Math.min(Math.max(retryPolicy.jitter, 0), 1);
+  return Math.round(delay * (1 - jitter + Math.random() * jitter * 2));
+};
+
+/**
+ * Create a circuit breaker
+ * @param options The number of consecutive transient failures that open the circuit (default: 5)
+ * and the time in milliseconds before a trial request is let through (default: 30000)
+ * @param logger Optional logger instance
+ * @returns A new, closed circuit breaker
+ */
+export const createCircuitBreaker = (
+  options: { failureThreshold?: number; resetTimeout?: number } = {},
+  logger: Logger = createDefaultLogger()
+): CircuitBreaker => {
+  const failureThreshold = options.failureThreshold || 5;
+  const resetTimeout = options.resetTimeout || 30000;
+
+  let state: CircuitState = 'CLOSED';
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let lastFailure: string | null = null;
+  let lastFailureAt: number | null = null;
+  let rejectedRequests = 0;
+  let trialInProgress = false;
+
+  const open = (): void => {
+    state = 'OPEN';
+    openedAt = Date.now();
+    rejectedRequests = 0;
+    trialInProgress = false;
+    logger.warn(`Teamcenter circuit breaker opened after ${consecutiveFailures} consecutive failures, failing requests fast for ${resetTimeout}ms`);
+  };
+
+  return {
+    canRequest: () => {
+      if (state === 'OPEN' && openedAt !== null && Date.now() - openedAt >= resetTimeout) {
+        state = 'HALF_OPEN';
+        logger.info('Teamcenter circuit breaker half-open, letting a trial request through');
+      }
+
+      if (state === 'CLOSED' || (state === 'HALF_OPEN' && !trialInProgress)) {
+        trialInProgress = state === 'HALF_OPEN';
+        return true;
+      }
+
+      rejectedRequests++;
+      return false;
+    },
+
+    recordSuccess: () => {
+      if (state !== 'CLOSED') {
+        logger.info('Teamcenter circuit breaker closed, the server is reachable again');
+      }
+      state = 'CLOSED';
+      consecutiveFailures = 0;
+      openedAt = null;
+      trialInProgress = false;
+    },
+
+    recordFailure: (error: Error) => {
+      consecutiveFailures++;
+      lastFailure = error.message;
+      lastFailureAt = Date.now();
+
+      // A failed trial request opens the circuit again right away
+      if (state === 'HALF_OPEN' || (state === 'CLOSED' && consecutiveFailures >= failureThreshold)) {
+        open();
+      }
+    },
+
+    getStatus: () => ({
+      state,
+      consecutiveFailures,
+      failureThreshold,
+      resetTimeout,
+      openedAt: openedAt !== null ? new Date(openedAt).toISOString() : null,
+      retryAt: state === 'OPEN' && openedAt !== null ? new Date(openedAt + resetTimeout).toISOString() : null,
+      lastFailure,
+      lastFailureAt: lastFailureAt !== null ? new Date(lastFailureAt).toISOString() : null,
+      rejectedRequests
+    })
+  };
+};
@@ -1,14 +1,20 @@
-import { TCSOAClientConfig } from './types.js';
+import { TCSOAClientConfig, SessionStore, PropertyPolicy } from './types.js';
 import { callService } from './tcApiService.js';
-import { mockCallService } from './tcMockService.js';
-import { storeSessionCookie, getSessionCookie, storeSession } from './tcUtils.js';
+import { downloadFile, uploadFile } from './tcFmsService.js';
+import { mockCallService, mockDownloadFile, mockUploadFile } from './tcMockService.js';
+import { createSessionStore, storeSessionCookie, getSessionCookie, storeSession } from './tcUtils.js';
 import { AppError, ErrorType, handleApiError } from './tcErrors.js';
+import { createPasswordAuthenticator } from './tcAuthenticators.js';
 import { Logger, createDefaultLogger } from './logger.js';
 
 export interface SOAClient {
   config: TCSOAClientConfig;
   sessionId: string | null;
-  callService: (service: string, operation: string, params: unknown) => Promise<unknown>;
+  sessionStore: SessionStore;
+  // The policy selects the properties returned for the model objects (the policy of the configuration when not set)
+  callService: (service: string, operation: string, params: unknown, policy?: PropertyPolicy) => Promise<unknown>;
+  downloadFile: (ticket: string, fileName: string) => Promise<Buffer>;
+  uploadFile: (ticket: string, fileName: string, content: Buffer) => Promise<void>;
 }
 
 /**
@@ -16,26 +22,142 @@ export interface SOAClient {
  * @param config The SOA client configuration
  * @param initialSessionId The initial session ID or null
  * @param logger Optional logger instance
+ * @param sessionStore Optional store of the session cookie (a new, empty store by default)
  * @returns A new SOA client instance
  */
 export const createSOAClient = (
   config: TCSOAClientConfig, 
   initialSessionId: string | null = null,
-  logger: Logger = createDefaultLogger()
+  logger: Logger = createDefaultLogger(),
+  sessionStore: SessionStore = createSessionStore()
 ): SOAClient => {
   let sessionId = initialSessionId;
   
   // If we have a session cookie but no initialSessionId, use the cookie value
   if (!initialSessionId) {
-    const cookie = getSessionCookie(logger);
+    const cookie = getSessionCookie(sessionStore, logger);
     if (cookie) {
       sessionId = cookie.value;
       logger.debug(`Using session ID from cookie: ${sessionId}`);
     }
   }
 
-  return {
+  // Service call that routes to the real or mock implementation
+  const invokeService = async (service: string, operation: string, params: unknown, policy?: PropertyPolicy): Promise<unknown> => {
+    // Input validation
+    if (!service || !operation) {
+      throw new AppError(
+        'Invalid service or operation parameters',
+        ErrorType.DATA_VALIDATION,
+        null,
+        { service, operation }
+      );
+    }
+    
+    // Generate a unique request ID for client-level tracing
+    const clientRequestId = `client_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
+    logger.debug(`[${clientRequestId}] SOA client call: ${service}.${operation}`);
+    
+    try {
+      // Use mock service if mockMode is enabled
+      const result = config.mockMode 
+        ? await mockCallService(service, operation, params, logger)
+        : await callService(config, sessionStore, sessionId, service, operation, params, logger, policy || config.propertyPolicy);
+      
+      // Add request tracing
+      logger.debug(`[${clientRequestId}] SOA client call completed: ${service}.${operation}`);
+      
+      // Handle response to extract session ID if available
+      if (typeof result === 'object' && result !== null) {
+        const resultObj = result as { 
+          data: any; 
+          headers?: Headers;
+          sessionId?: string | null;
+        };
+        
+        // For login operations, we need to handle the session ID differently
+        if (service === 'Core-2011-06-Session' && (operation === 'login' || operation === 'loginSSO')) {
+          // The cookie from the Set-Cookie header has already been stored by tcApiService.ts
+          const cookie = getSessionCookie(sessionStore, logger);
+          if (cookie) {
+            // Use the cookie value as the session ID and store it
+            sessionId = cookie.value;
+            // Store session info with the cookie value
+            storeSession(sessionStore, {
+              sessionId: cookie.value,
+              userId: resultObj.data?.userid || '',
+              userName: resultObj.data?.username || ''
+            }, logger);
+            logger.debug(`[${clientRequestId}] Login: Updated session with cookie ID: ${sessionId}`);
+          } else if (resultObj.sessionId) {
+            // Only if no cookie was set, fall back to the sessionId from the response
+            sessionId = resultObj.sessionId;
+            logger.debug(`[${clientRequestId}] Login: No cookie found, using session ID from response: ${sessionId}`);
+          }
+        } else if (resultObj.sessionId && !sessionId) {
+          // For non-login operations, only update the session ID if we don't have one yet
+          sessionId = resultObj.sessionId;
+          logger.debug(`[${clientRequestId}] Session ID updated: ${sessionId}`);
+        }
+        
+        logger.debug(`[${clientRequestId}] SOA client response received for: ${service}.${operation}`);
+        
+        // Return just the data part for consistency
+        return resultObj.data;
+      }
+      
+      logger.debug(`[${clientRequestId}] SOA client response received for: ${service}.${operation}`);
+      return result;
+    } catch (error) {
+      logger.error(`[${clientRequestId}] SOA client error (${service}.${operation}):`, error);
+      
+      // Enhance error handling with more context
+      if (error instanceof AppError) {
+        // Already an AppError, just add more context if needed
+        if (!error.context) {
+          error.context = { service, operation };
+        }
+        throw error;
+      } else {
+        // Convert to AppError with proper context
+        throw handleApiError(error, `SOA client call to ${service}.${operation}`, logger);
+      }
+    }
+  };
+
+  // Authenticator used to log in again, a password login with the credential provider unless configured otherwise
+  const authenticator = config.authenticator
+    || (config.credentialProvider ? createPasswordAuthenticator(config.credentialProvider) : null);
+
+  // Pending re-authentication, shared by the requests that are rejected while it runs
+  let reauthentication: Promise<void> | null = null;
+
+  /**
+   * Log in again with the configured authenticator
+   */
+  const reauthenticate = (): Promise<void> => {
+    if (!reauthentication) {
+      reauthentication = (async () => {
+        // Drop the rejected session so that the new session cookie is used
+        sessionStore.clear();
+        sessionId = null;
+        // Calls of the authenticator must not wait for the re-authentication they are part of
+        const loginClient: SOAClient = Object.create(client, { callService: { value: invokeService } });
+        const response = await authenticator!(logger, loginClient);
+        if (response.error) {
+          throw new AppError(response.error.message, ErrorType.AUTH_SESSION, null, { code: response.error.code });
+        }
+        logger.info(`Re-authenticated with Teamcenter as ${response.data?.userId}`);
+      })().finally(() => {
+        reauthentication = null;
+      });
+    }
+    return reauthentication;
+  };
+
+  const client: SOAClient = {
     config,
+    sessionStore,
     
     get sessionId() {
       return sessionId;
@@ -47,11 +169,11 @@ export const createSOAClient = (
       // When sessionId is updated, also update the session cookie
       // But only if we don't already have a cookie
       if (value) {
-        const existingCookie = getSessionCookie(logger);
+        const existingCookie = getSessionCookie(sessionStore, logger);
         if (!existingCookie) {
           // Determine which cookie name to use (ASP.NET_SessionId by default)
           const cookieName = 'ASP.NET_SessionId';
-          storeSessionCookie(cookieName, value, logger);
+          storeSessionCookie(sessionStore, cookieName, value, logger);
           logger.debug(`Updated session cookie: ${cookieName}=${value}`);
         } else {
           logger.debug(`Not updating cookie, using existing: ${existingCookie.name}=${existingCookie.value}`);
@@ -59,87 +181,65 @@ export const createSOAClient = (
       }
     },
     
-    // Service call method that routes to the real or mock implementation
-    callService: async (service: string, operation: string, params: unknown): Promise<unknown> => {
-      // Input validation
-      if (!service || !operation) {
+    // Service call method that re-authenticates once and replays the request when the session is rejected
+    callService: async (service: string, operation: string, params: unknown, policy?: PropertyPolicy): Promise<unknown> => {
+      try {
+        return await invokeService(service, operation, params, policy);
+      } catch (error) {
+        const isSessionCall = service.endsWith('-Session') && (operation.startsWith('login') || operation === 'logout');
+        if (!(error instanceof AppError) || error.type !== ErrorType.AUTH_SESSION || !authenticator || isSessionCall) {
+          throw error;
+        }
+
+        // A session that cannot be renewed is kept, as the request may have been rejected for another reason
+        if (config.canReauthenticate && !config.canReauthenticate()) {
+          throw error;
+        }
+
+        logger.warn(`Teamcenter session rejected for ${service}.${operation}, logging in again`);
+        try {
+          await reauthenticate();
+        } catch (reauthenticationError) {
+          logger.error('Failed to re-authenticate with Teamcenter:', reauthenticationError);
+          throw error;
+        }
+
+        return await invokeService(service, operation, params, policy);
+      }
+    },
+
+    // File download method that routes to the real or mock FMS implementation
+    downloadFile: async (ticket: string, fileName: string): Promise<Buffer> => {
+      if (!ticket) {
         throw new AppError(
-          'Invalid service or operation parameters',
+          'A read ticket is required to download a file',
           ErrorType.DATA_VALIDATION,
           null,
-          { service, operation }
+          { fileName }
         );
       }
-      
-      // Generate a unique request ID for client-level tracing
-      const clientRequestId = `client_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
-      logger.debug(`[${clientRequestId}] SOA client call: ${service}.${operation}`);
-      
-      try {
-        // Use mock service if mockMode is enabled
-        const result = config.mockMode 
-          ? await mockCallService(service, operation, params, logger)
-          : await callService(config, sessionId, service, operation, params, logger);
-        
-        // Add request tracing
-        logger.debug(`[${clientRequestId}] SOA client call completed: ${service}.${operation}`);
-        
-        // Handle response to extract session ID if available
-        if (typeof result === 'object' && result !== null) {
-          const resultObj = result as { 
-            data: any; 
-            headers?: Headers;
-            sessionId?: string | null;
-          };
-          
-          // For login operations, we need to handle the session ID differently
-          if (service === 'Core-2011-06-Session' && operation === 'login') {
-            // The cookie from the Set-Cookie header has already been stored by tcApiService.ts
-            const cookie = getSessionCookie(logger);
-            if (cookie) {
-              // Use the cookie value as the session ID and store it
-              sessionId = cookie.value;
-              // Store session info with the cookie value
-              storeSession({
-                sessionId: cookie.value,
-                userId: resultObj.data?.userid || '',
-                userName: resultObj.data?.username || ''
-              }, logger);
-              logger.debug(`[${clientRequestId}] Login: Updated session with cookie ID: ${sessionId}`);
-            } else if (resultObj.sessionId) {
-              // Only if no cookie was set, fall back to the sessionId from the response
-              sessionId = resultObj.sessionId;
-              logger.debug(`[${clientRequestId}] Login: No cookie found, using session ID from response: ${sessionId}`);
-            }
-          } else if (resultObj.sessionId && !sessionId) {
-            // For non-login operations, only update the session ID if we don't have one yet
-            sessionId = resultObj.sessionId;
-            logger.debug(`[${clientRequestId}] Session ID updated: ${sessionId}`);
-          }
-          
-          logger.debug(`[${clientRequestId}] SOA client response received for: ${service}.${operation}`);
-          
-          // Return just the data part for consistency
-          return resultObj.data;
-        }
-        
-        logger.debug(`[${clientRequestId}] SOA client response received for: ${service}.${operation}`);
-        return result;
-      } catch (error) {
-        logger.error(`[${clientRequestId}] SOA client error (${service}.${operation}):`, error);
-        
-        // Enhance error handling with more context
-        if (error instanceof AppError) {
-          // Already an AppError, just add more context if needed
-          if (!error.context) {
-            error.context = { service, operation };
-          }
-          throw error;
-        } else {
-          // Convert to AppError with proper context
-          throw handleApiError(error, `SOA client call to ${service}.${operation}`, logger);
-        }
+
+      return config.mockMode
+        ? await mockDownloadFile(ticket, fileName, logger)
+        : await downloadFile(config, ticket, fileName, logger);
+    },
+
+    // File upload method that routes to the real or mock FMS implementation
+    uploadFile: async (ticket: string, fileName: string, content: Buffer): Promise<void> => {
+      if (!ticket) {
+        throw new AppError(
+          'A write ticket is required to upload a file',
+          ErrorType.DATA_VALIDATION,
+          null,
+          { fileName }
+        );
       }
+
+      return config.mockMode
+        ? await mockUploadFile(ticket, fileName, content, logger)
+        : await uploadFile(config, ticket, fileName, content, logger);
     }
   };
+
+  return client;
 };
@@ -1,4 +1,4 @@
-import { TCSession } from './types.js';
+import { TCSession, SessionCookie, SessionStore, PropertyPolicy, TCPolicyModifiers } from './types.js';
 import { AppError, ErrorType, handleDataError } from './tcErrors.js';
 import { Logger, createDefaultLogger } from './logger.js';
 
@@ -6,65 +6,83 @@ import { Logger, createDefaultLogger } from './logger.js';
 export const JSESSIONID_COOKIE = 'JSESSIONID';
 export const ASPNET_SESSIONID_COOKIE = 'ASP.NET_SessionId';
 
-// Session cookie storage for Node.js environment
-interface SessionCookie {
-  name: string;
-  value: string;
-}
+/**
+ * Create an in-memory session store
+ * @returns A new, empty session store
+ */
+export const createSessionStore = (): SessionStore => {
+  let sessionCookie: SessionCookie | null = null;
 
-// Store the session cookie (either JSESSIONID or ASP.NET_SessionId)
-let sessionCookie: SessionCookie | null = null;
+  return {
+    getCookie: () => sessionCookie,
+    setCookie: (cookie: SessionCookie) => {
+      sessionCookie = cookie;
+    },
+    clear: () => {
+      sessionCookie = null;
+    }
+  };
+};
 
 /**
  * Store the session cookie value
+ * @param store The session store to write to
  * @param name The cookie name (JSESSIONID or ASP.NET_SessionId)
  * @param value The cookie value
  * @param logger Optional logger instance
  */
 export const storeSessionCookie = (
+  store: SessionStore,
   name: string, 
   value: string, 
   logger: Logger = createDefaultLogger()
 ): void => {
-  sessionCookie = { name, value };
+  store.setCookie({ name, value });
   logger.debug(`Stored ${name} cookie with value: ${value}`);
 };
 
 /**
  * Get the stored session cookie
+ * @param store The session store to read from
  * @param logger Optional logger instance
  * @returns The session cookie object or null if not set
  */
 export const getSessionCookie = (
+  store: SessionStore,
   logger: Logger = createDefaultLogger()
 ): SessionCookie | null => {
+  const sessionCookie = store.getCookie();
   logger.debug(`Retrieved cookie stored with name: ${sessionCookie?.name} and value: ${sessionCookie?.value}`);
   return sessionCookie;
 };
 
 /**
  * Clear the stored session cookie
+ * @param store The session store to clear
  * @param logger Optional logger instance
  */
 export const clearSessionCookie = (
+  store: SessionStore,
   logger: Logger = createDefaultLogger()
 ): void => {
-  sessionCookie = null;
+  store.clear();
   logger.debug('Session cookie cleared');
 };
 
 /**
  * Store the Teamcenter session
+ * @param store The session store to write to
  * @param session The session object to store
  * @param logger Optional logger instance
  */
 export const storeSession = (
+  store: SessionStore,
   session: TCSession, 
   logger: Logger = createDefaultLogger()
 ): void => {
   try {
     // Check if we already have a session cookie
-    const existingCookie = getSessionCookie(logger);
+    const existingCookie = getSessionCookie(store, logger);
     
     // Only store the session ID if we don't already have a cookie
     // This ensures we don't overwrite the cookie-based session ID with the one from the response body
@@ -73,7 +91,7 @@ export const storeSession = (
       // This is a heuristic - we'll prefer ASP.NET_SessionId by default
       // but could be configured based on server response headers
       const cookieName = ASPNET_SESSIONID_COOKIE;
-      storeSessionCookie(cookieName, session.sessionId, logger);
+      storeSessionCookie(store, cookieName, session.sessionId, logger);
       logger.debug(`No cookie found, storing session ID as ${cookieName}`);
     } else if (existingCookie) {
       logger.debug(`Keeping existing cookie: ${existingCookie.name}=${existingCookie.value}`);
@@ -86,14 +104,16 @@ export const storeSession = (
 
 /**
  * Retrieve the Teamcenter session
+ * @param store The session store to read from
  * @param logger Optional logger instance
  * @returns The session object or null if not found
  */
 export const retrieveSession = (
+  store: SessionStore,
   logger: Logger = createDefaultLogger()
 ): TCSession | null => {
   // Get the session cookie
-  const cookie = getSessionCookie(logger);
+  const cookie = getSessionCookie(store, logger);
   
   if (!cookie) {
     logger.debug('No session cookie found');
@@ -112,12 +132,14 @@ export const retrieveSession = (
 
 /**
  * Clear the Teamcenter session
+ * @param store The session store to clear
  * @param logger Optional logger instance
  */
 export const clearSession = (
+  store: SessionStore,
   logger: Logger = createDefaultLogger()
 ): void => {
-  clearSessionCookie(logger);
+  clearSessionCookie(store, logger);
   logger.debug('Teamcenter session cleared');
 };
 
@@ -142,19 +164,46 @@ export const isValidSession = (
   return true;
 };
 
+// Teamcenter serializes modifiers as name and string value pairs
+const serializePolicyModifiers = (
+  modifiers: TCPolicyModifiers & { withProperties?: boolean } = {}
+): Array<{ name: string; Value: string }> =>
+  Object.entries(modifiers)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ({ name, Value: String(value) }));
+
+/**
+ * Serialize an object property policy for the header of a request
+ * @param policy The property policy
+ * @returns The policy in the JSON format of the Teamcenter SOA framework
+ */
+export const serializePropertyPolicy = (policy: PropertyPolicy): Record<string, unknown> => ({
+  types: policy.types.map(type => ({
+    name: type.name,
+    properties: type.properties.map(property => {
+      const { name, withProperties } = typeof property === 'string' ? { name: property, withProperties: undefined } : property;
+      return { name, modifiers: serializePolicyModifiers({ withProperties }) };
+    }),
+    modifiers: serializePolicyModifiers(type.modifiers)
+  })),
+  modifiers: serializePolicyModifiers(policy.modifiers)
+});
+
 /**
  * Create proper request envelope for Teamcenter API
  * @param service The service name
  * @param operation The operation name
  * @param params The operation parameters
  * @param logger Optional logger instance
+ * @param policy Optional object property policy (the server default policy when not set)
  * @returns The formatted request envelope
  */
 export const createJSONRequest = (
   service: string, 
   operation: string, 
   params: unknown, 
-  logger: Logger = createDefaultLogger()
+  logger: Logger = createDefaultLogger(),
+  policy?: PropertyPolicy
 ): Record<string, unknown> => {
   const requestId = `request_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
   logger.debug(`[${requestId}] Creating JSON request envelope for ${service}.${operation}`);
@@ -169,7 +218,7 @@ export const createJSONRequest = (
         formatProperties: true,
         clientID: "NodeJsTeamcenterClient"
       },
-      policy: {}
+      policy: policy ? serializePropertyPolicy(policy) : {}
     };
     
     // Create the envelope structure with header and body
@@ -181,7 +230,7 @@ export const createJSONRequest = (
     // Handle specific operations
     if (service === 'Core-2011-06-Session' && operation === 'login') {
       // Extract credentials from params
-      const credentials = params as { username: string; password: string };
+      const credentials = params as { username: string; password: string; group?: string; role?: string; locale?: string };
       
       if (!credentials.username || !credentials.password) {
         throw new AppError(
@@ -198,12 +247,37 @@ export const createJSONRequest = (
         credentials: {
           user: credentials.username,
           password: credentials.password,
-          group: "",
-          role: "",
-          locale: "en_US",
+          group: credentials.group || "",
+          role: credentials.role || "",
+          locale: credentials.locale || "en_US",
           descrimator: `NodeJs_${Date.now()}_${Math.random().toString(36).substring(7)}` // Unique discriminator with prefix
         }
       };
+    } else if (service === 'Core-2011-06-Session' && operation === 'loginSSO') {
+      // The Security Services token takes the place of the password
+      const ssoToken = params as { username: string; token: string; group?: string; role?: string; locale?: string };
+
+      if (!ssoToken.username || !ssoToken.token) {
+        throw new AppError(
+          'Missing username or token for SSO login',
+          ErrorType.DATA_VALIDATION,
+          null,
+          { service, operation }
+        );
+      }
+
+      logger.debug(`[${requestId}] Creating SSO login request for user: ${ssoToken.username}`);
+
+      requestEnvelope.body = {
+        credentials: {
+          user: ssoToken.username,
+          password: ssoToken.token,
+          group: ssoToken.group || "",
+          role: ssoToken.role || "",
+          locale: ssoToken.locale || "en_US",
+          descrimator: `NodeJs_${Date.now()}_${Math.random().toString(36).substring(7)}`
+        }
+      };
     } else if (service === 'Core-2007-06-Session' && operation === 'logout') {
       // Empty body for logout
       requestEnvelope.body = {};
@@ -220,7 +294,7 @@ export const createJSONRequest = (
     
     // Debug logging for request envelope (with password masking)
     const debugEnvelope = JSON.parse(JSON.stringify(requestEnvelope));
-    if (service === 'Core-2011-06-Session' && operation === 'login' && 
+    if (service === 'Core-2011-06-Session' && (operation === 'login' || operation === 'loginSSO') && 
         debugEnvelope.body?.credentials?.password) {
       debugEnvelope.body.credentials.password = '***';
     }
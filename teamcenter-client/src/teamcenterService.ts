@@ -1,19 +1,70 @@
 import { 
   TCCredentials,
   TCSession,
+  TCSessionState,
+  TCSessionInfo,
+  TCItemWithRevisions,
+  TCFavorites,
+  TCItemType,
   TCResponse,
   TCObject,
+  TCItemRevision,
+  TCBOMExpandOptions,
+  TCBOMStructure,
+  TCWhereUsedOptions,
+  TCWhereUsedResult,
+  TCRevisionComparison,
+  TCDatasetsByRelation,
+  TCFileContent,
+  TCDatasetUploadOptions,
+  TCDatasetUploadResult,
+  TCProcessTemplate,
+  TCWorkflowProcess,
+  TCWorkflowTask,
+  TCTaskAction,
+  TCChangeType,
+  TCChangeFolder,
+  TCChangeObject,
+  TCChangeItems,
+  TCRelationDirection,
+  TCRelation,
+  TCRelatedObject,
+  TCSavedQuery,
+  TCSavedQueryDescription,
+  TCSavedQueryOptions,
+  TCSavedQueryResult,
+  TCAdvancedSearchOptions,
+  TCAdvancedSearchResult,
+  TCClassificationNode,
+  TCClassAttribute,
+  TCClassification,
+  TCClassificationCriteria,
+  TCClassifiedObject,
+  SessionStore,
+  CircuitBreaker,
+  PropertyCache,
+  TCConnectionStatus,
+  TCSOAClientConfig,
+  TCBatchProperties,
+  TCModelObject,
+  TCServiceData,
+  TCCheckoutStatus,
+  TCObjectReleaseStatus,
   TeamcenterConfig,
   TeamcenterServiceOptions,
   ITeamcenterService
 } from './types.js';
-import { retrieveSession, isValidSession } from './tcUtils.js';
+import { createSessionStore, retrieveSession, isValidSession } from './tcUtils.js';
 import { SOAClient, createSOAClient } from './tcSOAClient.js';
+import { TCAuthenticator, createAuthenticator, createPasswordAuthenticator } from './tcAuthenticators.js';
+import { createCircuitBreaker, resolveRetryPolicy } from './tcRetry.js';
+import { createPropertyCache } from './tcCache.js';
 import { Logger, createDefaultLogger } from './logger.js';
 import { CommandExecutor } from './commands/CommandExecutor.js';
 import { LoginCommand } from './commands/auth/LoginCommand.js';
 import { LogoutCommand } from './commands/auth/LogoutCommand.js';
 import { GetItemByIdCommand } from './commands/item/GetItemByIdCommand.js';
+import { GetPropertiesCommand } from './commands/item/GetPropertiesCommand.js';
 import { CreateItemCommand } from './commands/item/CreateItemCommand.js';
 import { UpdateItemCommand } from './commands/item/UpdateItemCommand.js';
 import { SearchItemsCommand } from './commands/search/SearchItemsCommand.js';
@@ -23,7 +74,41 @@ import { GetUserPropertiesCommand } from './commands/user/GetUserPropertiesComma
 import { GetLoggedUserPropertiesCommand } from './commands/user/GetLoggedUserPropertiesCommand.js';
 import { GetSessionInfoCommand } from './commands/session/GetSessionInfoCommand.js';
 import { GetFavoritesCommand } from './commands/session/GetFavoritesCommand.js';
+import { SetUserSessionStateCommand } from './commands/session/SetUserSessionStateCommand.js';
 import { GetItemTypesCommand } from './commands/item/GetItemTypesCommand.js';
+import { ExpandBOMCommand } from './commands/bom/ExpandBOMCommand.js';
+import { WhereUsedCommand } from './commands/bom/WhereUsedCommand.js';
+import { ListRevisionsCommand } from './commands/item/ListRevisionsCommand.js';
+import { ReviseItemCommand } from './commands/item/ReviseItemCommand.js';
+import { CompareRevisionsCommand } from './commands/item/CompareRevisionsCommand.js';
+import { GetDatasetsCommand } from './commands/dataset/GetDatasetsCommand.js';
+import { DownloadDatasetFileCommand } from './commands/dataset/DownloadDatasetFileCommand.js';
+import { UploadDatasetCommand } from './commands/dataset/UploadDatasetCommand.js';
+import { ListProcessTemplatesCommand } from './commands/workflow/ListProcessTemplatesCommand.js';
+import { StartWorkflowCommand } from './commands/workflow/StartWorkflowCommand.js';
+import { GetInboxTasksCommand } from './commands/workflow/GetInboxTasksCommand.js';
+import { PerformTaskActionCommand } from './commands/workflow/PerformTaskActionCommand.js';
+import { CreateChangeCommand } from './commands/change/CreateChangeCommand.js';
+import { ListChangeItemsCommand } from './commands/change/ListChangeItemsCommand.js';
+import { UpdateChangeItemsCommand } from './commands/change/UpdateChangeItemsCommand.js';
+import { GetOpenChangesCommand } from './commands/change/GetOpenChangesCommand.js';
+import { GetRelatedObjectsCommand } from './commands/relation/GetRelatedObjectsCommand.js';
+import { CreateRelationCommand } from './commands/relation/CreateRelationCommand.js';
+import { DeleteRelationCommand } from './commands/relation/DeleteRelationCommand.js';
+import { ListSavedQueriesCommand } from './commands/query/ListSavedQueriesCommand.js';
+import { DescribeSavedQueryCommand } from './commands/query/DescribeSavedQueryCommand.js';
+import { RunSavedQueryCommand } from './commands/query/RunSavedQueryCommand.js';
+import { AdvancedSearchCommand } from './commands/search/AdvancedSearchCommand.js';
+import { GetClassChildrenCommand } from './commands/classification/GetClassChildrenCommand.js';
+import { GetClassAttributesCommand } from './commands/classification/GetClassAttributesCommand.js';
+import { GetClassificationCommand } from './commands/classification/GetClassificationCommand.js';
+import { SearchClassificationCommand } from './commands/classification/SearchClassificationCommand.js';
+import { ClassifyObjectCommand } from './commands/classification/ClassifyObjectCommand.js';
+import { CheckOutCommand } from './commands/reservation/CheckOutCommand.js';
+import { CheckInCommand } from './commands/reservation/CheckInCommand.js';
+import { CancelCheckOutCommand } from './commands/reservation/CancelCheckOutCommand.js';
+import { GetCheckoutStatusCommand } from './commands/reservation/GetCheckoutStatusCommand.js';
+import { GetReleaseStatusCommand } from './commands/item/GetReleaseStatusCommand.js';
 
 /**
  * TeamcenterService class provides a unified interface for interacting with Teamcenter
@@ -35,7 +120,16 @@ export class TeamcenterService implements ITeamcenterService {
   private sessionInfo: TCSession | null = null;
   private logger: Logger;
   private config: TeamcenterConfig;
+  private sessionStore: SessionStore;
   private commandExecutor: CommandExecutor;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  private authenticator: TCAuthenticator | null;
+  // Authenticator that established the current session, used again when Teamcenter rejects the session
+  private sessionAuthenticator: TCAuthenticator | null;
+  // Whether the current session was injected from a pre-issued cookie; such a session is never ended by the service
+  private sessionFromCookie: boolean;
+  private circuitBreaker: CircuitBreaker;
+  private propertyCache: PropertyCache | null;
   
   /**
    * Create a new TeamcenterService instance
@@ -44,7 +138,16 @@ export class TeamcenterService implements ITeamcenterService {
   constructor(options: TeamcenterServiceOptions) {
     this.logger = options.logger || createDefaultLogger();
     this.config = options.config;
+    this.sessionStore = options.sessionStore || createSessionStore();
     this.commandExecutor = new CommandExecutor(this.logger);
+    this.authenticator = this.config.authentication
+      ? createAuthenticator(this.config.authentication)
+      : (this.config.credentialProvider ? createPasswordAuthenticator(this.config.credentialProvider) : null);
+    // A restored session was established with the configured authenticator
+    this.sessionAuthenticator = this.getRenewableAuthenticator();
+    this.sessionFromCookie = this.config.authentication?.method === 'sessionCookie';
+    this.circuitBreaker = this.config.circuitBreaker || createCircuitBreaker({}, this.logger);
+    this.propertyCache = this.config.propertyCache ? createPropertyCache(this.config.propertyCache, this.logger) : null;
     this.initService();
   }
   
@@ -54,11 +157,11 @@ export class TeamcenterService implements ITeamcenterService {
   private initService(): void {
     try {
       // Restore session if available
-      const session = retrieveSession(this.logger);
+      const session = retrieveSession(this.sessionStore, this.logger);
       const sessionId = session?.sessionId || null;
       
       // Initialize the SOA client
-      this.soaClient = createSOAClient(this.config, sessionId, this.logger);
+      this.soaClient = createSOAClient(this.getSOAClientConfig(), sessionId, this.logger, this.sessionStore);
       this.sessionInfo = session;
       
       if (sessionId && isValidSession(session, this.logger)) {
@@ -69,7 +172,131 @@ export class TeamcenterService implements ITeamcenterService {
     } catch (error) {
       this.logger.error('Error initializing Teamcenter service:', error);
       // Create SOA client without session
-      this.soaClient = createSOAClient(this.config, null, this.logger);
+      this.soaClient = createSOAClient(this.getSOAClientConfig(), null, this.logger, this.sessionStore);
+    }
+  }
+
+  /**
+   * Get the SOA client configuration, renewing rejected sessions with the authenticator that established them
+   * @returns The SOA client configuration
+   */
+  private getSOAClientConfig(): TCSOAClientConfig {
+    return {
+      ...this.config,
+      circuitBreaker: this.circuitBreaker,
+      authenticator: (logger, soaClient) => this.renewSession(soaClient),
+      canReauthenticate: () => this.sessionAuthenticator !== null
+    };
+  }
+
+  /**
+   * Get the configured authenticator if it can establish a new session
+   * @returns The authenticator, or null when none is configured or it reuses a pre-issued session cookie
+   */
+  private getRenewableAuthenticator(): TCAuthenticator | null {
+    // A pre-issued session cookie cannot be renewed, so a rejected session is reported as is
+    return this.config.authentication?.method !== 'sessionCookie' ? this.authenticator : null;
+  }
+
+  /**
+   * Log in again as the user of a rejected session and restore its group and role, so that the
+   * rejected request is replayed with the same identity and access rights
+   * @param soaClient The SOA client to log in with
+   * @returns A response containing the new session information or an error
+   */
+  private async renewSession(soaClient: SOAClient | null): Promise<TCResponse<TCSession>> {
+    if (!this.sessionAuthenticator) {
+      return {
+        error: {
+          code: 'SESSION_EXPIRED',
+          level: 'ERROR',
+          message: 'The Teamcenter session has expired, log in again'
+        }
+      };
+    }
+
+    const previousSession = this.sessionInfo;
+    const response = await this.sessionAuthenticator(this.logger, soaClient);
+    if (!response.data) {
+      return response;
+    }
+
+    // Cached values may have been read with other access rights
+    this.propertyCache?.clear();
+    this.sessionInfo = response.data;
+    await this.refreshSessionState(soaClient);
+
+    const { groupName, roleName } = previousSession || {};
+    if (groupName && (groupName !== this.sessionInfo?.groupName || roleName !== this.sessionInfo?.roleName)) {
+      const stateResponse = await this.commandExecutor.execute(new SetUserSessionStateCommand(this.logger, soaClient, true, groupName, roleName));
+      if (!stateResponse.data) {
+        // Replaying the request with other access rights than it was sent with would be wrong
+        return {
+          error: {
+            code: 'SESSION_STATE_ERROR',
+            level: 'ERROR',
+            message: `Failed to restore group ${groupName} and role ${roleName} of the renewed session: ${stateResponse.error?.message}`
+          }
+        };
+      }
+      this.applySessionState(stateResponse.data);
+    }
+
+    return { data: this.sessionInfo as TCSession };
+  }
+
+  /**
+   * Fill in the group and role of the session, which the login response does not contain
+   * @param soaClient The SOA client to read the session with (the client of the service by default)
+   */
+  private async refreshSessionState(soaClient: SOAClient | null = this.soaClient): Promise<void> {
+    const response = await this.commandExecutor.execute(new GetSessionInfoCommand(this.logger, soaClient, this.isLoggedIn()));
+    const state = response.data;
+    if (!state?.groupId) {
+      this.logger.warn(`Could not read the group and role of the Teamcenter session: ${response.error?.message || 'not returned'}`);
+      return;
+    }
+
+    this.applySessionState(state);
+  }
+
+  /**
+   * Update the group and role of the current session information
+   * @param state The new group and role
+   */
+  private applySessionState(state: TCSessionState): void {
+    if (this.sessionInfo) {
+      const { groupId, groupName, roleId, roleName } = state;
+      this.sessionInfo = { ...this.sessionInfo, groupId, groupName, roleId, roleName, group: groupName, role: roleName };
+    }
+  }
+
+  /**
+   * Ping the session periodically so that it does not expire between tool calls
+   */
+  private startKeepAlive(): void {
+    this.stopKeepAlive();
+    if (!this.config.keepAliveInterval) {
+      return;
+    }
+
+    this.keepAliveTimer = setInterval(async () => {
+      const response = await this.getSessionInfo();
+      if (response.error) {
+        this.logger.warn(`Teamcenter session keep-alive failed: ${response.error.message}`);
+      }
+    }, this.config.keepAliveInterval);
+    // Do not keep the process alive just for the pings
+    this.keepAliveTimer.unref();
+  }
+
+  /**
+   * Stop pinging the session
+   */
+  private stopKeepAlive(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
     }
   }
 
@@ -100,22 +327,80 @@ export class TeamcenterService implements ITeamcenterService {
     
     // Update session info if login was successful
     if (response.data) {
+      // Cached values were read with the access rights of the previous session
+      this.propertyCache?.clear();
       this.sessionInfo = response.data;
+      // An expired session is renewed as the same user, not with the configured account
+      this.sessionAuthenticator = createPasswordAuthenticator(() => credentials);
+      this.sessionFromCookie = false;
+      await this.refreshSessionState();
+      this.startKeepAlive();
+      return { data: this.sessionInfo };
     }
     
     return response;
   }
 
   /**
-   * Logout from Teamcenter
+   * Log in to Teamcenter with the configured authenticator (password, SSO token or pre-issued session cookie)
+   * @returns A response containing the session information or an error
+   */
+  async authenticate(): Promise<TCResponse<TCSession>> {
+    if (!this.authenticator) {
+      return {
+        error: {
+          code: 'NO_AUTHENTICATOR',
+          level: 'ERROR',
+          message: 'No authentication method is configured'
+        }
+      };
+    }
+
+    let response: TCResponse<TCSession>;
+    try {
+      response = await this.authenticator(this.logger, this.soaClient);
+    } catch (error) {
+      // The credential or token provider failed
+      this.logger.error('Teamcenter authentication error:', error);
+      response = {
+        error: {
+          code: 'LOGIN_ERROR',
+          level: 'ERROR',
+          message: error instanceof Error ? error.message : 'Authentication failed'
+        }
+      };
+    }
+
+    // Update session info if login was successful
+    if (response.data) {
+      // Cached values were read with the access rights of the previous session
+      this.propertyCache?.clear();
+      this.sessionInfo = response.data;
+      this.sessionAuthenticator = this.getRenewableAuthenticator();
+      this.sessionFromCookie = this.config.authentication?.method === 'sessionCookie';
+      await this.refreshSessionState();
+      this.startKeepAlive();
+      return { data: this.sessionInfo };
+    }
+
+    return response;
+  }
+
+  /**
+   * Logout from Teamcenter. A session injected from a pre-issued cookie is only forgotten, as
+   * ending it would also end it for everyone else using the cookie.
    * @returns A response indicating success or an error
    */
   async logout(): Promise<TCResponse<void>> {
-    const command = new LogoutCommand(this.logger, this.soaClient, this.isLoggedIn());
+    const command = new LogoutCommand(this.logger, this.soaClient, this.isLoggedIn(), !this.sessionFromCookie);
     const response = await this.commandExecutor.execute(command);
     
     // Clear session info if logout was successful or even if it failed
     this.sessionInfo = null;
+    this.sessionAuthenticator = null;
+    this.sessionFromCookie = false;
+    this.propertyCache?.clear();
+    this.stopKeepAlive();
     
     return response;
   }
@@ -125,7 +410,7 @@ export class TeamcenterService implements ITeamcenterService {
    * @returns A response containing the user's items or an error
    */
   async getUserOwnedItems(): Promise<TCResponse<TCObject[]>> {
-    const command = new GetUserOwnedItemsCommand(this.logger, this.soaClient, this.isLoggedIn());
+    const command = new GetUserOwnedItemsCommand(this.logger, this.soaClient, this.isLoggedIn(), this.config.statusCategories);
     return await this.commandExecutor.execute(command);
   }
 
@@ -135,24 +420,59 @@ export class TeamcenterService implements ITeamcenterService {
    * @returns A response containing the recently created items or an error
    */
   async getLastCreatedItems(limit: number = 10): Promise<TCResponse<TCObject[]>> {
-    const command = new GetLastCreatedItemsCommand(this.logger, this.soaClient, this.isLoggedIn(), limit);
+    const command = new GetLastCreatedItemsCommand(this.logger, this.soaClient, this.isLoggedIn(), limit, this.config.statusCategories);
     return await this.commandExecutor.execute(command);
   }
 
   /**
    * Get information about the current session
-   * @returns A response containing the session information or an error
+   * @returns A response containing the user, group, role and other objects of the session or an error
    */
-  async getSessionInfo(): Promise<TCResponse<any>> {
+  async getSessionInfo(): Promise<TCResponse<TCSessionInfo>> {
     const command = new GetSessionInfoCommand(this.logger, this.soaClient, this.isLoggedIn());
     return await this.commandExecutor.execute(command);
   }
 
+  /**
+   * Switch the group and role of the current session
+   * @param group Name of the group to switch to (the current group when not set)
+   * @param role Name of the role in the group (the first role of the user in the group when not set)
+   * @returns A response containing the new group and role or an error
+   */
+  async setUserSessionState(group?: string, role?: string): Promise<TCResponse<TCSessionState>> {
+    const command = new SetUserSessionStateCommand(this.logger, this.soaClient, this.isLoggedIn(), group, role);
+    const response = await this.commandExecutor.execute(command);
+
+    if (response.data) {
+      this.applySessionState(response.data);
+      // Access rights depend on the group and role
+      this.propertyCache?.clear();
+    }
+
+    return response;
+  }
+
+  /**
+   * Get diagnostic information about the connection to Teamcenter: the circuit breaker state and the retry policy
+   * @returns A response containing the connection status
+   */
+  async getConnectionStatus(): Promise<TCResponse<TCConnectionStatus>> {
+    return {
+      data: {
+        endpoint: this.config.endpoint,
+        loggedIn: this.isLoggedIn(),
+        circuitBreaker: this.circuitBreaker.getStatus(),
+        retryPolicy: resolveRetryPolicy(this.config.retryPolicy),
+        propertyCache: this.propertyCache?.getStatus() || null
+      }
+    };
+  }
+
   /**
    * Get the user's favorite items
-   * @returns A response containing the user's favorites or an error
+   * @returns A response containing the user's favorite objects and folders or an error
    */
-  async getFavorites(): Promise<TCResponse<any>> {
+  async getFavorites(): Promise<TCResponse<TCFavorites>> {
     const command = new GetFavoritesCommand(this.logger, this.soaClient, this.isLoggedIn());
     return await this.commandExecutor.execute(command);
   }
@@ -161,10 +481,11 @@ export class TeamcenterService implements ITeamcenterService {
    * Get user properties from Teamcenter
    * @param uid The UID of the user to get properties for
    * @param attributes Optional array of specific attributes to retrieve (defaults to a standard set if not provided)
+   * @param refresh Read the properties from the server even when they are cached
    * @returns A response containing the user properties or an error
    */
-  async getUserProperties(uid: string, attributes?: string[]): Promise<TCResponse<any>> {
-    const command = new GetUserPropertiesCommand(this.logger, this.soaClient, this.isLoggedIn(), uid, attributes);
+  async getUserProperties(uid: string, attributes?: string[], refresh: boolean = false): Promise<TCResponse<TCModelObject>> {
+    const command = new GetUserPropertiesCommand(this.logger, this.soaClient, this.isLoggedIn(), uid, attributes, this.propertyCache, refresh);
     return await this.commandExecutor.execute(command);
   }
 
@@ -173,27 +494,50 @@ export class TeamcenterService implements ITeamcenterService {
    * @param attributes Optional array of specific attributes to retrieve
    * @returns A response containing the current user's properties or an error
    */
-  async getLoggedUserProperties(attributes?: string[]): Promise<TCResponse<any>> {
+  async getLoggedUserProperties(attributes?: string[]): Promise<TCResponse<TCModelObject>> {
     const command = new GetLoggedUserPropertiesCommand(this.logger, this.soaClient, this.isLoggedIn(), attributes);
     return await this.commandExecutor.execute(command);
   }
   
   /**
    * Get available item types in Teamcenter
+   * @param refresh Read the type descriptions from the server even when they are cached
    * @returns A response containing the item types or an error
    */
-  async getItemTypes(): Promise<TCResponse<any>> {
-    const command = new GetItemTypesCommand(this.logger, this.soaClient, this.isLoggedIn());
+  async getItemTypes(refresh: boolean = false): Promise<TCResponse<TCItemType[]>> {
+    const command = new GetItemTypesCommand(this.logger, this.soaClient, this.isLoggedIn(), this.propertyCache, refresh);
     return await this.commandExecutor.execute(command);
   }
   
   /**
    * Get details of a specific item by ID
    * @param itemId The ID of the item to get
+   * @param refresh Read the item from the server even when it is cached
    * @returns A response containing the item details or an error
    */
-  async getItemById(itemId: string): Promise<TCResponse<any>> {
-    const command = new GetItemByIdCommand(this.logger, this.soaClient, this.isLoggedIn(), itemId);
+  async getItemById(itemId: string, refresh: boolean = false): Promise<TCResponse<TCModelObject>> {
+    const command = new GetItemByIdCommand(this.logger, this.soaClient, this.isLoggedIn(), itemId, this.propertyCache, refresh);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Get the properties of many objects, requested in batches of the configured size
+   * @param uids The UIDs of the objects
+   * @param attributes The names of the properties to read
+   * @param refresh Read the properties from the server even when they are cached
+   * @returns A response containing the properties by object and the objects that could not be read, or an error
+   */
+  async getProperties(uids: string[], attributes: string[], refresh: boolean = false): Promise<TCResponse<TCBatchProperties>> {
+    const command = new GetPropertiesCommand(
+      this.logger,
+      this.soaClient,
+      this.isLoggedIn(),
+      uids,
+      attributes,
+      this.config.propertyBatchSize,
+      this.propertyCache,
+      refresh
+    );
     return await this.commandExecutor.execute(command);
   }
   
@@ -202,10 +546,11 @@ export class TeamcenterService implements ITeamcenterService {
    * @param query The search query
    * @param type Optional item type to filter by
    * @param limit Maximum number of results to return (default: 10)
+   * @param status Optional status category (e.g. Released) or release status name (e.g. Frozen) to filter by
    * @returns A response containing the search results or an error
    */
-  async searchItems(query: string, type?: string, limit: number = 10): Promise<TCResponse<TCObject[]>> {
-    const command = new SearchItemsCommand(this.logger, this.soaClient, this.isLoggedIn(), query, type, limit);
+  async searchItems(query: string, type?: string, limit: number = 10, status?: string): Promise<TCResponse<TCObject[]>> {
+    const command = new SearchItemsCommand(this.logger, this.soaClient, this.isLoggedIn(), query, type, limit, status, this.config.statusCategories);
     return await this.commandExecutor.execute(command);
   }
   
@@ -217,8 +562,8 @@ export class TeamcenterService implements ITeamcenterService {
    * @param properties Additional properties for the item
    * @returns A response containing the created item or an error
    */
-  async createItem(type: string, name: string, description: string = '', properties: Record<string, any> = {}): Promise<TCResponse<any>> {
-    const command = new CreateItemCommand(this.logger, this.soaClient, this.isLoggedIn(), type, name, description, properties);
+  async createItem(type: string, name: string, description: string = '', properties: Record<string, any> = {}): Promise<TCResponse<TCServiceData>> {
+    const command = new CreateItemCommand(this.logger, this.soaClient, this.isLoggedIn(), type, name, description, properties, this.propertyCache);
     return await this.commandExecutor.execute(command);
   }
   
@@ -226,10 +571,388 @@ export class TeamcenterService implements ITeamcenterService {
    * Update an existing item in Teamcenter
    * @param itemId The ID of the item to update
    * @param properties The properties to update
+   * @param checkOut Check the item out before the update and in after it, cancelling the checkout if the update fails
    * @returns A response containing the updated item or an error
    */
-  async updateItem(itemId: string, properties: Record<string, any>): Promise<TCResponse<any>> {
-    const command = new UpdateItemCommand(this.logger, this.soaClient, this.isLoggedIn(), itemId, properties);
+  async updateItem(itemId: string, properties: Record<string, any>, checkOut: boolean = false): Promise<TCResponse<TCServiceData>> {
+    const command = new UpdateItemCommand(this.logger, this.soaClient, this.isLoggedIn(), itemId, properties, this.propertyCache, checkOut);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Expand the product structure (BOM) of an item revision
+   * @param itemRevUid The UID of the item revision at the top of the structure
+   * @param options Number of levels to expand (default: 1) and revision rule to apply (default: Latest Working)
+   * @returns A response containing the BOM tree or an error
+   */
+  async expandBOM(itemRevUid: string, options: TCBOMExpandOptions = {}): Promise<TCResponse<TCBOMStructure>> {
+    const command = new ExpandBOMCommand(this.logger, this.soaClient, this.isLoggedIn(), itemRevUid, options.levels, options.revisionRule);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Find the parent assemblies that use an item or item revision
+   * @param uid The UID of the item or item revision
+   * @param options Number of levels to walk up (default: 1) and an optional revision rule to apply
+   * @returns A response containing the parent assemblies or an error
+   */
+  async whereUsed(uid: string, options: TCWhereUsedOptions = {}): Promise<TCResponse<TCWhereUsedResult>> {
+    const command = new WhereUsedCommand(this.logger, this.soaClient, this.isLoggedIn(), uid, options.depth, options.revisionRule);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * List all revisions of an item
+   * @param itemId The UID of the item
+   * @returns A response containing the item with its revisions or an error
+   */
+  async listRevisions(itemId: string): Promise<TCResponse<TCItemWithRevisions>> {
+    const command = new ListRevisionsCommand(this.logger, this.soaClient, this.isLoggedIn(), itemId);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Create a new revision of an item from an existing revision
+   * @param itemRevUid The UID of the revision to revise
+   * @param newRevId Optional ID for the new revision (generated by Teamcenter if not provided)
+   * @returns A response containing the new revision or an error
+   */
+  async reviseItem(itemRevUid: string, newRevId?: string): Promise<TCResponse<TCItemRevision>> {
+    const command = new ReviseItemCommand(this.logger, this.soaClient, this.isLoggedIn(), itemRevUid, newRevId, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Compare the properties of two item revisions
+   * @param revA The UID of the first revision
+   * @param revB The UID of the second revision
+   * @param attributes Optional array of properties to compare (defaults to a standard set if not provided)
+   * @returns A response containing the property-level differences or an error
+   */
+  async compareRevisions(revA: string, revB: string, attributes?: string[]): Promise<TCResponse<TCRevisionComparison>> {
+    const command = new CompareRevisionsCommand(this.logger, this.soaClient, this.isLoggedIn(), revA, revB, attributes);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Get the datasets attached to an item revision, grouped by relation
+   * @param itemRevUid The UID of the item revision
+   * @param relations Optional array of relation types to search (defaults to the standard dataset relations)
+   * @returns A response containing the datasets and their files or an error
+   */
+  async getDatasets(itemRevUid: string, relations?: string[]): Promise<TCResponse<TCDatasetsByRelation>> {
+    const command = new GetDatasetsCommand(this.logger, this.soaClient, this.isLoggedIn(), itemRevUid, relations);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Download a file of a dataset through the File Management System
+   * @param datasetUid The UID of the dataset
+   * @param fileName The original name of the file to download
+   * @returns A response containing the file content or an error
+   */
+  async downloadDatasetFile(datasetUid: string, fileName: string): Promise<TCResponse<TCFileContent>> {
+    const command = new DownloadDatasetFileCommand(this.logger, this.soaClient, this.isLoggedIn(), datasetUid, fileName);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Create a dataset from a local or base64 encoded file and attach it to an item revision
+   * @param options The dataset type, target revision, relation and file content
+   * @returns A response containing the created dataset and relation or an error
+   */
+  async uploadDataset(options: TCDatasetUploadOptions): Promise<TCResponse<TCDatasetUploadResult>> {
+    const command = new UploadDatasetCommand(this.logger, this.soaClient, this.isLoggedIn(), options, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * List the workflow process templates that can be started
+   * @param objectTypes Optional target object types to filter the templates by
+   * @returns A response containing the process templates or an error
+   */
+  async listProcessTemplates(objectTypes?: string[]): Promise<TCResponse<TCProcessTemplate[]>> {
+    const command = new ListProcessTemplatesCommand(this.logger, this.soaClient, this.isLoggedIn(), objectTypes);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Start a workflow process on one or more targets
+   * @param templateName The name of the process template
+   * @param targetUids The UIDs of the objects to attach as targets
+   * @param processName Optional name of the process (defaults to the template name)
+   * @param description Optional description of the process
+   * @returns A response containing the started process or an error
+   */
+  async startWorkflow(
+    templateName: string,
+    targetUids: string[],
+    processName?: string,
+    description?: string
+  ): Promise<TCResponse<TCWorkflowProcess>> {
+    const command = new StartWorkflowCommand(this.logger, this.soaClient, this.isLoggedIn(), templateName, targetUids, processName, description, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Get the tasks waiting in the logged-in user's inbox
+   * @returns A response containing the inbox tasks or an error
+   */
+  async getInboxTasks(): Promise<TCResponse<TCWorkflowTask[]>> {
+    const command = new GetInboxTasksCommand(this.logger, this.soaClient, this.isLoggedIn());
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Complete, approve or reject a workflow task
+   * @param taskUid The UID of the task
+   * @param action The action to perform
+   * @param comments Optional comments recorded with the action
+   * @returns A response containing the updated task or an error
+   */
+  async performTaskAction(taskUid: string, action: TCTaskAction, comments?: string): Promise<TCResponse<TCWorkflowTask>> {
+    const command = new PerformTaskActionCommand(this.logger, this.soaClient, this.isLoggedIn(), taskUid, action, comments, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Create a change request or change notice
+   * @param changeType The type of change to create
+   * @param name The name of the change
+   * @param description Optional description of the change
+   * @returns A response containing the created change revision or an error
+   */
+  async createChange(changeType: TCChangeType, name: string, description?: string): Promise<TCResponse<TCChangeObject>> {
+    const command = new CreateChangeCommand(this.logger, this.soaClient, this.isLoggedIn(), changeType, name, description);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * List the problem, solution and impacted items of a change
+   * @param changeUid The UID of the change revision
+   * @returns A response containing the items of every folder or an error
+   */
+  async listChangeItems(changeUid: string): Promise<TCResponse<TCChangeItems>> {
+    const command = new ListChangeItemsCommand(this.logger, this.soaClient, this.isLoggedIn(), changeUid);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Add items to a folder of a change
+   * @param changeUid The UID of the change revision
+   * @param folder The folder to add the items to
+   * @param itemUids The UIDs of the items to add
+   * @returns A response containing the updated items of the change or an error
+   */
+  async addChangeItems(changeUid: string, folder: TCChangeFolder, itemUids: string[]): Promise<TCResponse<TCChangeItems>> {
+    const command = new UpdateChangeItemsCommand(this.logger, this.soaClient, this.isLoggedIn(), changeUid, folder, itemUids, false, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Remove items from a folder of a change
+   * @param changeUid The UID of the change revision
+   * @param folder The folder to remove the items from
+   * @param itemUids The UIDs of the items to remove
+   * @returns A response containing the updated items of the change or an error
+   */
+  async removeChangeItems(changeUid: string, folder: TCChangeFolder, itemUids: string[]): Promise<TCResponse<TCChangeItems>> {
+    const command = new UpdateChangeItemsCommand(this.logger, this.soaClient, this.isLoggedIn(), changeUid, folder, itemUids, true, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Get the open changes that affect an object
+   * @param uid The UID of the affected object
+   * @returns A response containing the open changes or an error
+   */
+  async getOpenChanges(uid: string): Promise<TCResponse<TCChangeObject[]>> {
+    const command = new GetOpenChangesCommand(this.logger, this.soaClient, this.isLoggedIn(), uid);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Get the objects related to an object through GRM relations
+   * @param uid The UID of the object
+   * @param relationTypes Optional relation types to expand (all relations when empty)
+   * @param direction Whether the object is the primary or the secondary side of the relations
+   * @returns A response containing the related objects or an error
+   */
+  async getRelatedObjects(
+    uid: string,
+    relationTypes?: string[],
+    direction?: TCRelationDirection
+  ): Promise<TCResponse<TCRelatedObject[]>> {
+    const command = new GetRelatedObjectsCommand(this.logger, this.soaClient, this.isLoggedIn(), uid, relationTypes, direction);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Create a GRM relation between two objects
+   * @param primaryUid The UID of the primary object
+   * @param secondaryUid The UID of the secondary object
+   * @param relationType The relation type (e.g. IMAN_specification)
+   * @returns A response containing the created relation or an error
+   */
+  async createRelation(primaryUid: string, secondaryUid: string, relationType: string): Promise<TCResponse<TCRelation>> {
+    const command = new CreateRelationCommand(this.logger, this.soaClient, this.isLoggedIn(), primaryUid, secondaryUid, relationType, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Delete the GRM relation between two objects
+   * @param primaryUid The UID of the primary object
+   * @param secondaryUid The UID of the secondary object
+   * @param relationType The relation type
+   * @returns A response indicating success or an error
+   */
+  async deleteRelation(primaryUid: string, secondaryUid: string, relationType: string): Promise<TCResponse<void>> {
+    const command = new DeleteRelationCommand(this.logger, this.soaClient, this.isLoggedIn(), primaryUid, secondaryUid, relationType, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * List the saved queries visible to the user
+   * @returns A response containing the saved queries or an error
+   */
+  async listSavedQueries(): Promise<TCResponse<TCSavedQuery[]>> {
+    const command = new ListSavedQueriesCommand(this.logger, this.soaClient, this.isLoggedIn());
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Describe the criteria fields of a saved query
+   * @param queryName The name of the saved query
+   * @returns A response containing the query fields and their LOV values or an error
+   */
+  async describeSavedQuery(queryName: string): Promise<TCResponse<TCSavedQueryDescription>> {
+    const command = new DescribeSavedQueryCommand(this.logger, this.soaClient, this.isLoggedIn(), queryName);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Execute a saved query by name
+   * @param queryName The name of the saved query
+   * @param options The criteria values keyed by field name and the page to return
+   * @returns A response containing a page of results or an error
+   */
+  async runSavedQuery(queryName: string, options?: TCSavedQueryOptions): Promise<TCResponse<TCSavedQueryResult>> {
+    const command = new RunSavedQueryCommand(this.logger, this.soaClient, this.isLoggedIn(), queryName, options, this.config.statusCategories);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Search with a chosen provider, filter selections, sorting and paging
+   * @param options The search string, provider criteria, filters, sort fields and page
+   * @returns A response containing a page of results with facet counts or an error
+   */
+  async advancedSearch(options: TCAdvancedSearchOptions): Promise<TCResponse<TCAdvancedSearchResult>> {
+    const command = new AdvancedSearchCommand(this.logger, this.soaClient, this.isLoggedIn(), options, this.config.statusCategories);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Get the child groups and classes of a node of the classification hierarchy
+   * @param classId The ID of the group or class (default: the hierarchy root)
+   * @returns A response containing the child nodes or an error
+   */
+  async getClassChildren(classId?: string): Promise<TCResponse<TCClassificationNode[]>> {
+    const command = new GetClassChildrenCommand(this.logger, this.soaClient, this.isLoggedIn(), classId);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Get the attributes defined on a classification class
+   * @param classId The ID of the class
+   * @returns A response containing the class attributes or an error
+   */
+  async getClassAttributes(classId: string): Promise<TCResponse<TCClassAttribute[]>> {
+    const command = new GetClassAttributesCommand(this.logger, this.soaClient, this.isLoggedIn(), classId);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Get the classifications of an object with their attribute values
+   * @param uid The UID of the classified object
+   * @returns A response containing the classifications or an error
+   */
+  async getClassification(uid: string): Promise<TCResponse<TCClassification[]>> {
+    const command = new GetClassificationCommand(this.logger, this.soaClient, this.isLoggedIn(), uid);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Search the objects classified in a class by attribute values
+   * @param classId The ID of the class
+   * @param criteria Exact values or numeric ranges keyed by attribute name or ID
+   * @returns A response containing the matching objects or an error
+   */
+  async searchClassification(classId: string, criteria?: TCClassificationCriteria): Promise<TCResponse<TCClassifiedObject[]>> {
+    const command = new SearchClassificationCommand(this.logger, this.soaClient, this.isLoggedIn(), classId, criteria);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Classify an object into a class with the given attribute values
+   * @param uid The UID of the object (typically an item revision)
+   * @param classId The ID of the class
+   * @param values Attribute values keyed by attribute name or ID
+   * @param unitSystem The unit system of the values (default: METRIC)
+   * @returns A response containing the created classification or an error
+   */
+  async classifyObject(uid: string, classId: string, values?: Record<string, string | string[]>, unitSystem?: string): Promise<TCResponse<TCClassification>> {
+    const command = new ClassifyObjectCommand(this.logger, this.soaClient, this.isLoggedIn(), uid, classId, values, unitSystem, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Check objects out, so that no other user can change them until they are checked in
+   * @param uids The UIDs of the objects
+   * @param comment Optional checkout comment
+   * @returns A response containing the decoded ServiceData or an error
+   */
+  async checkOut(uids: string[], comment: string = ''): Promise<TCResponse<TCServiceData>> {
+    const command = new CheckOutCommand(this.logger, this.soaClient, this.isLoggedIn(), uids, comment, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Check objects in, keeping the changes made while they were checked out
+   * @param uids The UIDs of the objects
+   * @returns A response containing the decoded ServiceData or an error
+   */
+  async checkIn(uids: string[]): Promise<TCResponse<TCServiceData>> {
+    const command = new CheckInCommand(this.logger, this.soaClient, this.isLoggedIn(), uids, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Cancel the checkout of objects, discarding the changes made while they were checked out
+   * @param uids The UIDs of the objects
+   * @returns A response containing the decoded ServiceData or an error
+   */
+  async cancelCheckOut(uids: string[]): Promise<TCResponse<TCServiceData>> {
+    const command = new CancelCheckOutCommand(this.logger, this.soaClient, this.isLoggedIn(), uids, this.propertyCache);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Get whether objects are checked out, and by whom and since when
+   * @param uids The UIDs of the objects
+   * @returns A response containing the checkout status of every object or an error
+   */
+  async getCheckoutStatus(uids: string[]): Promise<TCResponse<TCCheckoutStatus[]>> {
+    const command = new GetCheckoutStatusCommand(this.logger, this.soaClient, this.isLoggedIn(), uids);
+    return await this.commandExecutor.execute(command);
+  }
+
+  /**
+   * Get the release status objects of objects, with their dates, effectivity and normalized categories
+   * @param uids The UIDs of the objects
+   * @returns A response containing the release statuses of every object or an error
+   */
+  async getReleaseStatus(uids: string[]): Promise<TCResponse<TCObjectReleaseStatus[]>> {
+    const command = new GetReleaseStatusCommand(this.logger, this.soaClient, this.isLoggedIn(), uids, this.config.statusCategories);
     return await this.commandExecutor.execute(command);
   }
 }
@@ -1,11 +1,39 @@
 import { Logger } from './logger.js';
+import type { TCAuthenticator } from './tcAuthenticators.js';
+import type { ErrorType } from './tcErrors.js';
 
 // Teamcenter SOA API types
 export interface TCCredentials {
   username: string;
   password: string;
+  group?: string; // Group to log in to (the user's default group when not set)
+  role?: string; // Role in the group (the user's default role in the group when not set)
+  locale?: string; // Locale of the session (en_US when not set)
 }
 
+// Supplies the credentials used to log in again when the Teamcenter session has expired
+export type TCCredentialProvider = () => TCCredentials | Promise<TCCredentials>;
+
+// Current group and role of a Teamcenter session
+export interface TCSessionState {
+  groupId: string;
+  groupName: string;
+  roleId: string;
+  roleName: string;
+}
+
+// Token issued by Teamcenter Security Services (SSO) for a user
+export interface TCSSOToken {
+  username: string;
+  token: string;
+  group?: string; // Group to log in to (the user's default group when not set)
+  role?: string; // Role in the group (the user's default role in the group when not set)
+  locale?: string; // Locale of the session (en_US when not set)
+}
+
+// Exchanges the identity of the caller for a Security Services token of the given application ID
+export type TCSSOTokenProvider = (appId: string) => TCSSOToken | Promise<TCSSOToken>;
+
 export interface TCSession {
   sessionId: string;
   userId: string;
@@ -33,11 +61,68 @@ export interface TCPagingInfo {
   totalFound: number;
 }
 
+// Property of a model object with its database values (UIDs for references) and display values
 export interface TCPropertyInfo {
   name: string;
-  value: string | number | boolean | null;
-  displayValue?: string;
-  [key: string]: any; // Allow for dynamic properties
+  value: string | number | boolean | null; // First database value
+  displayValue?: string; // First display value
+  dbValues: string[];
+  uiValues: string[];
+  isModifiable?: boolean; // Only returned when the property policy includes isModifiable
+}
+
+// Model object of a ServiceData block with its decoded properties
+export interface TCModelObject {
+  uid: string;
+  type: string;
+  className?: string;
+  properties: Record<string, TCPropertyInfo>;
+}
+
+// Decoded ServiceData block of a Teamcenter response.
+// Objects that are listed without being returned in modelObjects have no properties.
+export interface TCServiceData {
+  plain: TCModelObject[];
+  created: TCModelObject[];
+  updated: TCModelObject[];
+  deleted: string[]; // Deleted objects are only known by UID
+  modelObjects: Record<string, TCModelObject>;
+  partialErrors: TCPartialError[];
+}
+
+// Decoded getTCSessionInfo response. The objects of the session are null when Teamcenter does not return them.
+export interface TCSessionInfo extends TCSessionState {
+  serverVersion: string;
+  user: TCModelObject | null;
+  group: TCModelObject | null;
+  role: TCModelObject | null;
+  site: TCModelObject | null;
+  project: TCModelObject | null;
+  volume: TCModelObject | null;
+  workContext: TCModelObject | null;
+  bypass: boolean;
+  journaling: boolean;
+  extraInfo: Record<string, string>; // e.g. TcServerID or hostName
+}
+
+// Folder of the favorites of a user
+export interface TCFavoritesFolder {
+  name: string;
+  objects: TCModelObject[];
+  folders: TCFavoritesFolder[];
+}
+
+// Favorites of the user of the session
+export interface TCFavorites {
+  objects: TCModelObject[]; // Favorites outside of any folder
+  folders: TCFavoritesFolder[];
+}
+
+// Item type, or subtype of Item, that can be created
+export interface TCItemType {
+  name: string;
+  displayName: string;
+  parentTypeName: string;
 }
 
 export interface TCItemRevision {
@@ -53,10 +138,355 @@ export interface TCItem {
   revisions?: TCItemRevision[];
 }
 
+// Item with all its revisions, as listed by listRevisions
+export interface TCItemWithRevisions extends TCModelObject {
+  revisions: TCModelObject[];
+}
+
 export interface TCDataset {
   uid: string;
   type: string;
   properties: Record<string, any>;
+  files?: TCDatasetFile[];
+}
+
+// Named reference (ImanFile) of a dataset
+export interface TCDatasetFile {
+  uid: string;
+  name: string;
+  size?: number;
+}
+
+// Datasets attached to an item revision, keyed by relation type (e.g. IMAN_specification)
+export type TCDatasetsByRelation = Record<string, TCDataset[]>;
+
+// Content of a dataset file downloaded through FMS (text for textual files, base64 otherwise)
+export interface TCFileContent {
+  datasetUid: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  text?: string;
+  blob?: string;
+}
+
+// Options for creating a dataset from a file and attaching it to an item revision.
+// The content is passed base64 encoded; files are never read from the disk of the server.
+export interface TCDatasetUploadOptions {
+  itemRevUid: string;
+  datasetType: string;
+  name?: string;
+  description?: string;
+  relationType?: string;
+  namedReference?: string;
+  fileName: string;
+  content: string;
+}
+
+// Dataset created by an upload and the relation attaching it to the item revision
+export interface TCDatasetUploadResult {
+  dataset: TCObjectRef;
+  name: string;
+  relationType: string;
+  relation: TCObjectRef | null;
+  fileName: string;
+  size: number;
+}
+
+// Workflow process template available to start a workflow
+export interface TCProcessTemplate {
+  uid: string;
+  name: string;
+  description: string;
+}
+
+// Workflow process instance started on one or more targets
+export interface TCWorkflowProcess {
+  uid: string;
+  type: string;
+  name: string;
+  template: string;
+  targets: string[];
+}
+
+// Workflow task as shown in a user's inbox, with all its returned properties
+export interface TCWorkflowTask extends TCModelObject {
+  name: string;
+  description: string;
+  state: string;
+  process: string;
+  responsibleParty: string;
+  dueDate: string | null;
+  targets: string[];
+}
+
+// Actions that can be performed on a workflow task
+export type TCTaskAction = 'complete' | 'approve' | 'reject';
+
+// Change object types that can be created
+export type TCChangeType = 'ChangeRequest' | 'ChangeNotice';
+
+// Folders of a change object holding the affected items
+export type TCChangeFolder = 'problem' | 'solution' | 'impacted';
+
+// Change request or change notice revision, with all its returned properties
+export interface TCChangeObject extends TCModelObject {
+  itemId: string;
+  revisionId: string;
+  name: string;
+  description: string;
+  closure: string;
+  maturity: string;
+}
+
+// Object held in one of the folders of a change, with all its returned properties
+export interface TCChangeItem extends TCModelObject {
+  name: string;
+}
+
+// Problem, solution and impacted items of a change
+export interface TCChangeItems {
+  changeUid: string;
+  problemItems: TCChangeItem[];
+  solutionItems: TCChangeItem[];
+  impactedItems: TCChangeItem[];
+}
+
+// Side of the relation the object is on when expanding GRM relations:
+// 'primary' returns its secondary objects, 'secondary' returns its primary objects
+export type TCRelationDirection = 'primary' | 'secondary';
+
+// GRM relation between a primary and a secondary object
+export interface TCRelation {
+  uid: string;
+  type: string;
+  primary: TCObjectRef;
+  secondary: TCObjectRef;
+}
+
+// Object found on the other side of a GRM relation
+export interface TCRelatedObject {
+  uid: string;
+  type: string;
+  name: string;
+  relationType: string;
+  relation: TCObjectRef | null;
+}
+
+// Saved query visible to the user
+export interface TCSavedQuery {
+  uid: string;
+  name: string;
+  description: string;
+}
+
+// Criteria field of a saved query, with the allowed values when it is bound to a LOV
+export interface TCSavedQueryField {
+  name: string;
+  attribute: string;
+  type: string;
+  defaultValue: string;
+  lov: string[] | null;
+}
+
+// Saved query together with its criteria fields
+export interface TCSavedQueryDescription extends TCSavedQuery {
+  fields: TCSavedQueryField[];
+}
+
+// Options for executing a saved query
+export interface TCSavedQueryOptions {
+  criteria?: Record<string, string>;
+  startIndex?: number;
+  pageSize?: number;
+}
+
+// Page of results of a saved query
+// Object found by a saved query: its summary and all its returned properties
+export interface TCSavedQueryObject extends TCObject, TCModelObject {}
+
+export interface TCSavedQueryResult {
+  queryName: string;
+  totalFound: number;
+  startIndex: number;
+  objects: TCSavedQueryObject[];
+}
+
+// Node of the classification (ICS) hierarchy: group, class or view
+export interface TCClassificationNode {
+  id: string;
+  name: string;
+  type: string;
+  childCount: number;
+}
+
+// Attribute defined on a classification class
+export interface TCClassAttribute {
+  id: number;
+  name: string;
+  shortName: string;
+  unit: string;
+  format: string;
+}
+
+// Value of a classification attribute of a classified object
+export interface TCClassificationValue {
+  id: number;
+  name: string;
+  values: string[];
+  unit: string;
+}
+
+// Classification object (ICO) holding the class and attribute values of a workspace object
+export interface TCClassification {
+  icoUid: string;
+  classId: string;
+  instanceId: string;
+  unitSystem: string;
+  attributes: TCClassificationValue[];
+}
+
+// Classification search criteria keyed by attribute name or ID: an exact value/query or a numeric range
+export type TCClassificationCriteria = Record<string, string | { min?: number; max?: number }>;
+
+// Workspace object found by a classification search
+export interface TCClassifiedObject {
+  uid: string;
+  type: string;
+  name: string;
+  icoUid: string;
+  classId: string;
+}
+
+// Reference to a business object returned by Teamcenter (uid + type)
+export interface TCObjectRef {
+  uid: string;
+  type: string;
+}
+
+// Error reported by Teamcenter for one object of a request that handles several objects
+export interface TCPartialError {
+  uid: string | null; // Null when Teamcenter does not name the object
+  code: number;
+  message: string;
+}
+
+// Display values of the properties of one object
+export interface TCObjectProperties {
+  uid: string;
+  type: string;
+  properties: Record<string, string>;
+}
+
+// Properties of many objects read in batches, with the objects that could not be read
+export interface TCBatchProperties {
+  objects: TCObjectProperties[];
+  partialErrors: TCPartialError[];
+}
+
+// Release status object attached to a workspace object
+export interface TCReleaseStatus {
+  uid: string;
+  name: string; // Status type name, e.g. TCM Released
+  displayName: string;
+  category: TCStatusCategory;
+  dateReleased: string | null;
+  effectivity: string | null; // Effectivity text, e.g. "Date 01-Mar-2024 to UP"
+}
+
+// Release statuses of one object, oldest first
+export interface TCObjectReleaseStatus {
+  uid: string;
+  status: TCStatusCategory; // Category of the latest release status
+  releaseStatuses: TCReleaseStatus[];
+}
+
+// Checkout (reservation) state of an object
+export interface TCCheckoutStatus {
+  uid: string;
+  checkedOut: boolean;
+  checkedOutUser: string | null; // Display name of the user holding the checkout
+  checkedOutUserUid: string | null;
+  checkedOutDate: string | null; // As returned by Teamcenter, e.g. 2024-03-01T10:15:00+01:00
+  changeId: string | null; // Change ID given at checkout, if any
+}
+
+// BOM line returned by Cad-2007-01-StructureManagement expansions
+export interface TCBOMLine {
+  uid: string;
+  level: number;
+  itemId: string;
+  revisionId: string;
+  name: string;
+  quantity: string;
+  findNumber: string;
+  childRevision: TCObjectRef | null;
+  children: TCBOMLine[];
+}
+
+// Options for expanding a product structure
+export interface TCBOMExpandOptions {
+  levels?: number;
+  revisionRule?: string;
+}
+
+// Expanded product structure of an item revision
+export interface TCBOMStructure {
+  revisionRule: string;
+  levels: number;
+  root: TCBOMLine;
+}
+
+// Single property difference between two revisions
+export interface TCPropertyDiff {
+  name: string;
+  valueA: string;
+  valueB: string;
+}
+
+// Property-level comparison of two item revisions
+export interface TCRevisionComparison {
+  revA: { uid: string; revisionId: string };
+  revB: { uid: string; revisionId: string };
+  differences: TCPropertyDiff[];
+  unchanged: string[];
+}
+
+// Parent assembly returned by a where-used query
+export interface TCWhereUsedParent {
+  uid: string;
+  type: string;
+  itemId: string;
+  revisionId: string;
+  name: string;
+  level: number;
+}
+
+// Options for a where-used query
+export interface TCWhereUsedOptions {
+  depth?: number;
+  revisionRule?: string;
+}
+
+// Result of a where-used query for an item or item revision
+export interface TCWhereUsedResult {
+  uid: string;
+  depth: number;
+  revisionRule?: string;
+  parents: TCWhereUsedParent[];
+}
+
+// Filter value of a Finder search, used both for selections and for the facet values returned
+export interface TCSearchFilter {
+  searchFilterType: string;
+  stringValue?: string;
+  startDateValue?: string;
+  endDateValue?: string;
+  startNumericValue?: number;
+  endNumericValue?: number;
+  count?: number;
+  selected?: boolean;
+  startEndRange?: string;
 }
 
 // Search response interface for Query-2012-10-Finder/performSearch
@@ -64,17 +494,7 @@ export interface TCSearchResponse {
   searchResults: (TCItem | TCItemRevision | TCDataset)[];
   totalFound: number;
   totalLoaded: number;
-  searchFilterMap?: Record<string, Array<{
-    searchFilterType: string;
-    stringValue?: string;
-    startDateValue?: string;
-    endDateValue?: string;
-    startNumericValue?: number;
-    endNumericValue?: number;
-    count?: number;
-    selected?: boolean;
-    startEndRange?: string;
-  }>>;
+  searchFilterMap?: Record<string, TCSearchFilter[]>;
   searchFilterCategories?: Array<{
     internalName: string;
     displayName: string;
@@ -85,10 +505,26 @@ export interface TCSearchResponse {
   objects?: (TCItem | TCItemRevision | TCDataset)[]; // Keep for backward compatibility
 }
 
+// One error of a Teamcenter error stack
+export interface TCErrorValue {
+  code: number;
+  level: number; // 1 information, 2 warning, 3 error, 4 user error
+  message: string;
+}
+
+// Errors Teamcenter reported for one object, or for the whole request when uid is null
+export interface TCErrorStack {
+  uid: string | null;
+  clientId: string | null; // Client ID of the input the errors relate to, if the operation takes one
+  errorValues: TCErrorValue[];
+}
+
 export interface TCError {
   code: string;
   level: 'INFO' | 'WARNING' | 'ERROR';
   message: string;
+  type?: ErrorType; // Category of the Teamcenter error codes, if the error was reported by Teamcenter
+  errorStacks?: TCErrorStack[];
 }
 
 export interface TCResponse<T> {
@@ -96,6 +532,129 @@ export interface TCResponse<T> {
   error?: TCError;
 }
 
+// Session cookie returned by the Teamcenter web tier (JSESSIONID or ASP.NET_SessionId)
+export interface SessionCookie {
+  name: string;
+  value: string;
+}
+
+// Storage of the session cookie of one Teamcenter session.
+// Every SOA client owns its own store so that concurrent clients do not share a session.
+export interface SessionStore {
+  getCookie(): SessionCookie | null;
+  setCookie(cookie: SessionCookie): void;
+  clear(): void;
+}
+
+// Retry policy for transient failures of idempotent operations
+export interface TCRetryPolicy {
+  maxAttempts?: number; // Attempts per request including the first one (default: 3, 1 disables retries)
+  initialDelay?: number; // Delay in milliseconds before the first retry (default: 500)
+  maxDelay?: number; // Upper bound of the delay in milliseconds (default: 10000)
+  backoffFactor?: number; // Multiplier of the delay after every retry (default: 2)
+  jitter?: number; // Fraction of the delay that is randomized, between 0 and 1 (default: 0.5)
+  retryableErrors?: ErrorType[]; // Error types to retry, API_RESPONSE only for 5xx responses (default: NETWORK, API_TIMEOUT, API_RESPONSE)
+  idempotentOperations?: string[]; // Additional operations (name or Service.operation) that are safe to repeat
+}
+
+// State of a circuit breaker: CLOSED lets requests through, OPEN fails them fast,
+// HALF_OPEN lets one trial request through to check whether the server is back
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+// Diagnostic snapshot of a circuit breaker
+export interface TCCircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  resetTimeout: number;
+  openedAt: string | null;
+  retryAt: string | null; // When the next trial request is let through while the circuit is open
+  lastFailure: string | null;
+  lastFailureAt: string | null;
+  rejectedRequests: number; // Requests failed fast since the circuit last opened
+}
+
+// Stops calling Teamcenter after repeated transient failures, so that requests fail fast while the server is down.
+// A breaker can be shared by several clients that talk to the same server.
+export interface CircuitBreaker {
+  canRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(error: Error): void;
+  getStatus(): TCCircuitBreakerStatus;
+}
+
+// Flags of an object property policy, for all types of the policy or for one type
+export interface TCPolicyModifiers {
+  includeIsModifiable?: boolean; // Return whether the user may change each property
+  uIValueOnly?: boolean; // Return only the display values
+  excludeUiValues?: boolean; // Return only the database values
+  excludeParentProperties?: boolean; // Do not return the properties listed for the parent types
+}
+
+// Property listed in an object property policy
+export interface TCPolicyProperty {
+  name: string;
+  withProperties?: boolean; // Also return the referenced objects with the properties the policy lists for them
+}
+
+// Properties to return for the objects of a type and its subtypes
+export interface TCPolicyType {
+  name: string;
+  properties: Array<string | TCPolicyProperty>;
+  modifiers?: TCPolicyModifiers;
+}
+
+// Object property policy sent in the header of a request.
+// Teamcenter then returns only the listed properties for the model objects of the response.
+export interface PropertyPolicy {
+  types: TCPolicyType[];
+  modifiers?: TCPolicyModifiers;
+}
+
+// Settings of the property cache of a service
+export interface TCPropertyCacheConfig {
+  maxEntries?: number; // Entries kept before the least recently used ones are evicted (default: 1000)
+  ttl?: number; // Time to live of an entry in milliseconds (default: 60000)
+  typeTtl?: Record<string, number>; // Time to live by object type, ImanType for type descriptions (0 disables caching of the type)
+}
+
+// Diagnostic snapshot of a property cache
+export interface TCPropertyCacheStatus {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number; // Entries dropped because the cache was full
+}
+
+// In-memory LRU cache of model object properties, keyed by UID and property name.
+// Every service owns its cache, as the values depend on the access rights of the logged-in user.
+export interface PropertyCache {
+  get(uid: string, property: string): unknown | undefined;
+  set(uid: string, property: string, type: string, value: unknown): void;
+  invalidate(uid: string): void; // Drops all properties of an object, as derived properties change with the others
+  clear(): void;
+  getStatus(): TCPropertyCacheStatus;
+}
+
+// Selects how a service establishes its Teamcenter session:
+// - password: Core-2011-06-Session.login with the credentials of the provider
+// - sso: Core-2011-06-Session.loginSSO with a Security Services token obtained for the application ID
+// - sessionCookie: reuse a session cookie that was issued outside of the server (cannot re-authenticate)
+export type TCAuthenticationConfig =
+  | { method: 'password'; credentialProvider: TCCredentialProvider }
+  | { method: 'sso'; appId: string; tokenProvider: TCSSOTokenProvider }
+  | { method: 'sessionCookie'; cookie: SessionCookie };
+
+// Diagnostic information about the connection of a service to Teamcenter
+export interface TCConnectionStatus {
+  endpoint: string;
+  loggedIn: boolean;
+  circuitBreaker: TCCircuitBreakerStatus;
+  retryPolicy: Required<TCRetryPolicy>;
+  propertyCache: TCPropertyCacheStatus | null; // Null when caching is disabled
+}
+
 // Interface for SOA client initialization
 export interface TCSOAClientConfig {
   endpoint: string;
@@ -104,6 +663,13 @@ export interface TCSOAClientConfig {
   withCredentials?: boolean;
   mode?: RequestMode; // Added mode property to accept RequestMode type
   mockMode?: boolean; // Flag to use mock service instead of real API
+  fmsUrl?: string; // File Management System (FSC) URL used for file transfers
+  credentialProvider?: TCCredentialProvider; // Re-authenticate once and replay the request when the session is rejected
+  authenticator?: TCAuthenticator; // Used to re-authenticate instead of a password login with the credential provider
+  canReauthenticate?: () => boolean; // Whether the authenticator can renew the current session (always when not set)
+  retryPolicy?: TCRetryPolicy; // Retries of transient failures (3 attempts by default)
+  circuitBreaker?: CircuitBreaker; // Fails requests fast while Teamcenter is down (none by default)
+  propertyPolicy?: PropertyPolicy; // Policy of requests that do not declare one (the server default policy when not set)
 }
 
 // Types for SOA service operations
@@ -120,6 +686,37 @@ export interface TCSearchWhereClause {
   values: string[];
 }
 
+// Selection of a search filter: a string value, a date range or a numeric range
+export type TCSearchFilterSelection = string | { from?: string; to?: string } | { min?: number; max?: number };
+
+// Options of an advanced search through the Finder service
+export interface TCAdvancedSearchOptions {
+  searchString?: string;
+  provider?: string;
+  criteria?: Record<string, string>;
+  filters?: Record<string, TCSearchFilterSelection[]>;
+  sort?: Array<{ field: string; direction?: 'ASC' | 'DESC' }>;
+  startIndex?: number;
+  limit?: number;
+}
+
+// Facet of a search result with the number of hits for every value
+export interface TCSearchFacet {
+  name: string;
+  displayName: string;
+  values: Array<{ value: string; count: number; selected: boolean }>;
+}
+
+// Page of results of an advanced search
+export interface TCAdvancedSearchResult {
+  objects: TCObject[];
+  totalFound: number;
+  totalLoaded: number;
+  startIndex: number;
+  nextStartIndex: number | null;
+  facets: TCSearchFacet[];
+}
+
 // Search options interface for Query-2012-10-Finder/performSearch
 export interface TCSearchOptions {
   searchInput: {
@@ -128,17 +725,7 @@ export interface TCSearchOptions {
     startIndex?: number;
     maxToReturn?: number;
     maxToLoad?: number;
-    searchFilterMap?: Record<string, Array<{
-      searchFilterType: string;
-      stringValue?: string;
-      startDateValue?: string;
-      endDateValue?: string;
-      startNumericValue?: number;
-      endNumericValue?: number;
-      count?: number;
-      selected?: boolean;
-      startEndRange?: string;
-    }>>;
+    searchFilterMap?: Record<string, TCSearchFilter[]>;
     searchSortCriteria?: Array<{
       fieldName: string;
       sortDirection: 'ASC' | 'DESC';
@@ -148,15 +735,20 @@ export interface TCSearchOptions {
   };
 }
 
+// Normalized category of a release status. Objects without release status are 'In Work',
+// statuses that are neither built in nor configured in statusCategories are 'Unknown'
+export type TCStatusCategory = 'In Work' | 'In Review' | 'Released' | 'Obsolete' | 'Unknown';
+
 // Updated TCObject to match the mockData.ts version (making revision required)
 export interface TCObject {
   id: string;
   name: string;
   type: string;
-  revision: string; // Changed from optional to required
+  revision: string; // Revision ID, empty when the object does not report one
   owner: string;
   modifiedDate: string;
-  status: 'Released' | 'In Work' | 'In Review' | 'Obsolete';
+  status: TCStatusCategory; // Category of the latest release status
+  releaseStatuses: string[]; // Names of the release statuses, oldest first
   description: string;
   title: string;
   thumbnail?: string;
@@ -187,12 +779,23 @@ export interface TeamcenterConfig {
   mockMode?: boolean;
   headers?: Record<string, string>;
   withCredentials?: boolean;
+  fmsUrl?: string;
+  credentialProvider?: TCCredentialProvider;
+  authentication?: TCAuthenticationConfig; // Authenticator used by authenticate() (password login with credentialProvider by default)
+  retryPolicy?: TCRetryPolicy; // Retries of transient failures (3 attempts by default)
+  circuitBreaker?: CircuitBreaker; // Breaker to share with other services (a breaker of its own by default)
+  keepAliveInterval?: number; // Interval in milliseconds to ping the session while logged in (disabled when not set)
+  propertyCache?: TCPropertyCacheConfig; // Cache properties and type descriptions in memory (disabled when not set)
+  propertyBatchSize?: number; // Objects requested per call by getProperties() (default: 100)
+  propertyPolicy?: PropertyPolicy; // Policy of requests that do not declare one (the server default policy when not set)
+  statusCategories?: Record<string, TCStatusCategory>; // Categories of site-specific release status names, e.g. { Frozen: 'Released' }
 }
 
 // Options for creating a TeamcenterService instance
 export interface TeamcenterServiceOptions {
   logger?: Logger;
   config: TeamcenterConfig;
+  sessionStore?: SessionStore; // Store of the session cookie, owned by this service (a new, empty store by default)
 }
 
 // Interface for TeamcenterService
@@ -200,16 +803,54 @@ export interface ITeamcenterService {
   isLoggedIn(): boolean;
   getSessionId(): string | null;
   login(credentials: TCCredentials): Promise<TCResponse<TCSession>>;
+  authenticate(): Promise<TCResponse<TCSession>>;
+  setUserSessionState(group?: string, role?: string): Promise<TCResponse<TCSessionState>>;
+  getConnectionStatus(): Promise<TCResponse<TCConnectionStatus>>;
   logout(): Promise<TCResponse<void>>;
   getUserOwnedItems(): Promise<TCResponse<TCObject[]>>;
   getLastCreatedItems(limit?: number): Promise<TCResponse<TCObject[]>>;
-  getSessionInfo(): Promise<TCResponse<any>>;
-  getFavorites(): Promise<TCResponse<any>>;
-  getUserProperties(uid: string, attributes?: string[]): Promise<TCResponse<any>>;
-  getLoggedUserProperties(attributes?: string[]): Promise<TCResponse<any>>;
-  getItemTypes(): Promise<TCResponse<any>>;
-  getItemById(itemId: string): Promise<TCResponse<any>>;
-  searchItems(query: string, type?: string, limit?: number): Promise<TCResponse<TCObject[]>>;
-  createItem(type: string, name: string, description?: string, properties?: Record<string, any>): Promise<TCResponse<any>>;
-  updateItem(itemId: string, properties: Record<string, any>): Promise<TCResponse<any>>;
+  getSessionInfo(): Promise<TCResponse<TCSessionInfo>>;
+  getFavorites(): Promise<TCResponse<TCFavorites>>;
+  getUserProperties(uid: string, attributes?: string[], refresh?: boolean): Promise<TCResponse<TCModelObject>>;
+  getLoggedUserProperties(attributes?: string[]): Promise<TCResponse<TCModelObject>>;
+  getItemTypes(refresh?: boolean): Promise<TCResponse<TCItemType[]>>;
+  getItemById(itemId: string, refresh?: boolean): Promise<TCResponse<TCModelObject>>;
+  getProperties(uids: string[], attributes: string[], refresh?: boolean): Promise<TCResponse<TCBatchProperties>>;
+  searchItems(query: string, type?: string, limit?: number, status?: string): Promise<TCResponse<TCObject[]>>;
+  createItem(type: string, name: string, description?: string, properties?: Record<string, any>): Promise<TCResponse<TCServiceData>>;
+  updateItem(itemId: string, properties: Record<string, any>, checkOut?: boolean): Promise<TCResponse<TCServiceData>>;
+  expandBOM(itemRevUid: string, options?: TCBOMExpandOptions): Promise<TCResponse<TCBOMStructure>>;
+  whereUsed(uid: string, options?: TCWhereUsedOptions): Promise<TCResponse<TCWhereUsedResult>>;
+  listRevisions(itemId: string): Promise<TCResponse<TCItemWithRevisions>>;
+  reviseItem(itemRevUid: string, newRevId?: string): Promise<TCResponse<TCItemRevision>>;
+  compareRevisions(revA: string, revB: string, attributes?: string[]): Promise<TCResponse<TCRevisionComparison>>;
+  getDatasets(itemRevUid: string, relations?: string[]): Promise<TCResponse<TCDatasetsByRelation>>;
+  downloadDatasetFile(datasetUid: string, fileName: string): Promise<TCResponse<TCFileContent>>;
+  uploadDataset(options: TCDatasetUploadOptions): Promise<TCResponse<TCDatasetUploadResult>>;
+  listProcessTemplates(objectTypes?: string[]): Promise<TCResponse<TCProcessTemplate[]>>;
+  startWorkflow(templateName: string, targetUids: string[], processName?: string, description?: string): Promise<TCResponse<TCWorkflowProcess>>;
+  getInboxTasks(): Promise<TCResponse<TCWorkflowTask[]>>;
+  performTaskAction(taskUid: string, action: TCTaskAction, comments?: string): Promise<TCResponse<TCWorkflowTask>>;
+  createChange(changeType: TCChangeType, name: string, description?: string): Promise<TCResponse<TCChangeObject>>;
+  listChangeItems(changeUid: string): Promise<TCResponse<TCChangeItems>>;
+  addChangeItems(changeUid: string, folder: TCChangeFolder, itemUids: string[]): Promise<TCResponse<TCChangeItems>>;
+  removeChangeItems(changeUid: string, folder: TCChangeFolder, itemUids: string[]): Promise<TCResponse<TCChangeItems>>;
+  getOpenChanges(uid: string): Promise<TCResponse<TCChangeObject[]>>;
+  getRelatedObjects(uid: string, relationTypes?: string[], direction?: TCRelationDirection): Promise<TCResponse<TCRelatedObject[]>>;
+  createRelation(primaryUid: string, secondaryUid: string, relationType: string): Promise<TCResponse<TCRelation>>;
+  deleteRelation(primaryUid: string, secondaryUid: string, relationType: string): Promise<TCResponse<void>>;
+  listSavedQueries(): Promise<TCResponse<TCSavedQuery[]>>;
+  describeSavedQuery(queryName: string): Promise<TCResponse<TCSavedQueryDescription>>;
+  runSavedQuery(queryName: string, options?: TCSavedQueryOptions): Promise<TCResponse<TCSavedQueryResult>>;
+  advancedSearch(options: TCAdvancedSearchOptions): Promise<TCResponse<TCAdvancedSearchResult>>;
+  getClassChildren(classId?: string): Promise<TCResponse<TCClassificationNode[]>>;
+  getClassAttributes(classId: string): Promise<TCResponse<TCClassAttribute[]>>;
+  getClassification(uid: string): Promise<TCResponse<TCClassification[]>>;
+  searchClassification(classId: string, criteria?: TCClassificationCriteria): Promise<TCResponse<TCClassifiedObject[]>>;
+  classifyObject(uid: string, classId: string, values?: Record<string, string | string[]>, unitSystem?: string): Promise<TCResponse<TCClassification>>;
+  checkOut(uids: string[], comment?: string): Promise<TCResponse<TCServiceData>>;
+  checkIn(uids: string[]): Promise<TCResponse<TCServiceData>>;
+  cancelCheckOut(uids: string[]): Promise<TCResponse<TCServiceData>>;
+  getCheckoutStatus(uids: string[]): Promise<TCResponse<TCCheckoutStatus[]>>;
+  getReleaseStatus(uids: string[]): Promise<TCResponse<TCObjectReleaseStatus[]>>;
 }